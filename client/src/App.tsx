@@ -3,17 +3,28 @@ import { useAuth } from './contexts/AuthContext';
 import Layout from './components/Layout';
 import Login from './pages/Login';
 import Signup from './pages/Signup';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import VerifyEmail from './pages/VerifyEmail';
 import Dashboard from './pages/Dashboard';
 import Tasks from './pages/Tasks';
+import TaskDetail from './pages/TaskDetail';
 import Customers from './pages/Customers';
+import CustomerDetail from './pages/CustomerDetail';
+import CustomerDuplicates from './pages/CustomerDuplicates';
 import Calls from './pages/Calls';
+import CallDetail from './pages/CallDetail';
+import FollowUps from './pages/FollowUps';
 import Notifications from './pages/Notifications';
 import Search from './pages/Search';
 import ActivityLogs from './pages/ActivityLogs';
+import EntityTimeline from './pages/EntityTimeline';
 import LoadingSpinner from './components/LoadingSpinner';
 import Users from './pages/Users';
 import CreateUser from './pages/CreateUser';
 import TaskCategories from './pages/TaskCategories';
+import Settings from './pages/Settings';
+import Sla from './pages/Sla';
 
 // Protected Route Component
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
@@ -81,7 +92,17 @@ function App() {
           <Signup />
         </PublicRoute>
       } />
-      
+
+      <Route path="/forgot-password" element={
+        <PublicRoute>
+          <ForgotPassword />
+        </PublicRoute>
+      } />
+
+      {/* Emailed links work whether or not someone is signed in */}
+      <Route path="/reset-password" element={<ResetPassword />} />
+      <Route path="/verify-email" element={<VerifyEmail />} />
+
       {/* Protected Routes */}
       <Route element={
         <ProtectedRoute>
@@ -91,11 +112,22 @@ function App() {
         <Route index element={<Navigate to="/dashboard" replace />} />
         <Route path="/dashboard" element={<Dashboard />} />
         <Route path="/tasks" element={<Tasks />} />
+        <Route path="/tasks/:id" element={<TaskDetail />} />
         <Route path="/customers" element={<Customers />} />
+        <Route path="/customers/duplicates" element={
+          <AdminRoute>
+            <CustomerDuplicates />
+          </AdminRoute>
+        } />
+        <Route path="/customers/:id" element={<CustomerDetail />} />
         <Route path="/calls" element={<Calls />} />
+        <Route path="/calls/:id" element={<CallDetail />} />
+        <Route path="/follow-ups" element={<FollowUps />} />
         <Route path="/notifications" element={<Notifications />} />
         <Route path="/search" element={<Search />} />
+        <Route path="/settings" element={<Settings />} />
         <Route path="/activity-logs" element={<ActivityLogs />} />
+        <Route path="/activity-logs/:entity/:entityId" element={<EntityTimeline />} />
         <Route path="/users" element={<Users />} />
         <Route path="/users/create" element={
           <AdminRoute>
@@ -107,6 +139,11 @@ function App() {
             <TaskCategories />
           </AdminOrManagerRoute>
         } />
+        <Route path="/sla" element={
+          <AdminOrManagerRoute>
+            <Sla />
+          </AdminOrManagerRoute>
+        } />
         <Route path="*" element={<Navigate to="/dashboard" replace />} />
       </Route>
     </Routes>
@@ -0,0 +1,57 @@
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ActivityLog } from '../types';
+import { describeActivity, getActivityActor, getActivityIcon } from '../utils/activity';
+
+interface ActivityTimelineProps {
+  logs: ActivityLog[];
+  showEntityLinks?: boolean;
+}
+
+function ActivityTimeline({ logs, showEntityLinks = true }: ActivityTimelineProps) {
+  return (
+    <div className="flow-root">
+      <ul className="-mb-8">
+        {logs.map((log, logIdx) => {
+          const Icon = getActivityIcon(log.action);
+          return (
+            <li key={log._id}>
+              <div className="relative pb-8">
+                {logIdx !== logs.length - 1 ? (
+                  <span className="absolute top-4 left-4 -ml-px h-full w-0.5 bg-gray-200" aria-hidden="true" />
+                ) : null}
+                <div className="relative flex space-x-3">
+                  <div>
+                    <span className="h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center ring-8 ring-white">
+                      <Icon className="h-5 w-5 text-gray-500" />
+                    </span>
+                  </div>
+                  <div className="min-w-0 flex-1 pt-1.5 flex justify-between space-x-4">
+                    <div>
+                      <p className="text-sm text-gray-500">
+                        <span className="font-medium text-gray-900">{getActivityActor(log)}</span> {describeActivity(log)}
+                      </p>
+                      {showEntityLinks && (
+                        <Link
+                          to={`/activity-logs/${log.entity}/${log.entityId}`}
+                          className="text-xs text-primary-600 hover:underline"
+                        >
+                          View {log.entity.toLowerCase()} timeline
+                        </Link>
+                      )}
+                    </div>
+                    <div className="text-right text-sm whitespace-nowrap text-gray-500">
+                      <time dateTime={log.createdAt}>{format(new Date(log.createdAt), 'MMM dd, yyyy, h:mm a')}</time>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default ActivityTimeline;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { CallInput, Customer } from '../types';
-import { customersAPI } from '../services/api';
+import { format } from 'date-fns';
+import { CallFollowUpTask, CallInput, Customer, TaskCategory } from '../types';
+import { customersAPI, taskCategoriesAPI } from '../services/api';
 
 interface CallModalProps {
   isOpen: boolean;
@@ -12,6 +13,9 @@ interface CallModalProps {
     callType: 'inbound' | 'outbound';
     summary: string;
     duration?: number;
+    followUpRequired?: boolean;
+    followUpDate?: string;
+    followUpTask?: CallFollowUpTask | null;
   } | null;
 }
 
@@ -21,16 +25,25 @@ const CallModal: React.FC<CallModalProps> = ({ isOpen, onClose, onSave, callToEd
     callType: 'outbound',
     summary: '',
     duration: 0,
+    followUpRequired: false,
+    followUpDate: '',
+    createFollowUpTask: true,
+    followUpCategory: '',
+    followUpPriority: 'medium',
   };
 
   const [call, setCall] = useState<CallInput>(emptyCall);
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [categories, setCategories] = useState<TaskCategory[]>([]);
 
   useEffect(() => {
     if (isOpen) {
       customersAPI.getAll().then(response => {
         setCustomers(response.data.customers);
       });
+      taskCategoriesAPI.getAll().then(response => {
+        setCategories(response.data.categories || []);
+      });
 
       if (callToEdit) {
         setCall({
@@ -38,6 +51,11 @@ const CallModal: React.FC<CallModalProps> = ({ isOpen, onClose, onSave, callToEd
           callType: callToEdit.callType,
           summary: callToEdit.summary,
           duration: callToEdit.duration || 0,
+          followUpRequired: callToEdit.followUpRequired || false,
+          followUpDate: callToEdit.followUpDate || '',
+          createFollowUpTask: !callToEdit.followUpTask,
+          followUpCategory: '',
+          followUpPriority: 'medium',
         });
       } else {
         setCall(emptyCall);
@@ -50,9 +68,26 @@ const CallModal: React.FC<CallModalProps> = ({ isOpen, onClose, onSave, callToEd
     setCall({ ...call, [name]: value });
   };
 
+  const handleCheckboxChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, checked } = e.target;
+    setCall({ ...call, [name]: checked });
+  };
+
+  // A linked task already tracks the follow-up; its due date follows the call's follow-up date
+  const hasFollowUpTask = Boolean(callToEdit?.followUpTask);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(call);
+    const { followUpDate, createFollowUpTask, followUpCategory, followUpPriority, ...rest } = call;
+    onSave({
+      ...rest,
+      ...(call.followUpRequired && { followUpDate: followUpDate ? new Date(followUpDate).toISOString() : undefined }),
+      ...(call.followUpRequired && createFollowUpTask && !hasFollowUpTask && {
+        createFollowUpTask: true,
+        followUpCategory,
+        followUpPriority,
+      }),
+    });
   };
 
   if (!isOpen) return null;
@@ -90,6 +125,77 @@ const CallModal: React.FC<CallModalProps> = ({ isOpen, onClose, onSave, callToEd
             <input type="number" id="duration" name="duration" value={call.duration} onChange={handleChange} className="input-field" />
           </div>
 
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="followUpRequired"
+              name="followUpRequired"
+              checked={call.followUpRequired}
+              onChange={handleCheckboxChange}
+              className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+            />
+            <label htmlFor="followUpRequired" className="ml-2 text-sm text-gray-700">Follow-up required</label>
+          </div>
+
+          {call.followUpRequired && (
+            <div className="space-y-4 pl-6 border-l-2 border-gray-100">
+              <div>
+                <label htmlFor="followUpDate" className="block text-sm font-medium text-gray-700">Follow-up Date</label>
+                <input
+                  type="datetime-local"
+                  id="followUpDate"
+                  name="followUpDate"
+                  value={call.followUpDate ? format(new Date(call.followUpDate), "yyyy-MM-dd'T'HH:mm") : ''}
+                  onChange={handleChange}
+                  className="input-field"
+                  required
+                />
+              </div>
+
+              {hasFollowUpTask ? (
+                <p className="text-sm text-gray-600">
+                  Follow-up task: <span className="font-medium">{callToEdit?.followUpTask?.title}</span>
+                </p>
+              ) : (
+                <>
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="createFollowUpTask"
+                      name="createFollowUpTask"
+                      checked={call.createFollowUpTask}
+                      onChange={handleCheckboxChange}
+                      className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+                    />
+                    <label htmlFor="createFollowUpTask" className="ml-2 text-sm text-gray-700">Create a follow-up task assigned to the caller</label>
+                  </div>
+                  {call.createFollowUpTask && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="followUpCategory" className="block text-sm font-medium text-gray-700">Task Category</label>
+                        <select id="followUpCategory" name="followUpCategory" value={call.followUpCategory} onChange={handleChange} className="select-field" required>
+                          <option value="" disabled>Select a category</option>
+                          {categories.map(category => (
+                            <option key={category._id} value={category._id}>{category.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="followUpPriority" className="block text-sm font-medium text-gray-700">Task Priority</label>
+                        <select id="followUpPriority" name="followUpPriority" value={call.followUpPriority} onChange={handleChange} className="select-field">
+                          <option value="low">Low</option>
+                          <option value="medium">Medium</option>
+                          <option value="high">High</option>
+                          <option value="urgent">Urgent</option>
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-end space-x-4 pt-4 border-t">
             <button type="button" onClick={onClose} className="btn-secondary">
               Cancel
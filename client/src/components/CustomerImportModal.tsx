@@ -0,0 +1,188 @@
+import { useState, FormEvent } from 'react';
+import { isAxiosError } from 'axios';
+import { Download, Upload } from 'lucide-react';
+import { customersAPI } from '../services/api';
+import { CustomerImportRow, CustomerImportSummary } from '../types';
+
+interface CustomerImportModalProps {
+  onImported: (count: number) => void;
+  onCancel: () => void;
+}
+
+// Columns the server recognizes; more contacts can be added as "Contact 3 Name" and so on
+const TEMPLATE_COLUMNS = [
+  'Company Name', 'Company Type', 'GST', 'Website', 'Installation Date',
+  'Street', 'City', 'State', 'Zip Code', 'Country', 'Notes',
+  'Contact 1 Name', 'Contact 1 Email', 'Contact 1 Phone', 'Contact 1 Designation', 'Contact 1 Primary',
+  'Contact 2 Name', 'Contact 2 Email', 'Contact 2 Phone', 'Contact 2 Designation', 'Contact 2 Primary',
+];
+
+const statusStyles: Record<CustomerImportRow['status'], string> = {
+  valid: 'bg-success-100 text-success-800',
+  invalid: 'bg-danger-100 text-danger-800',
+  duplicate: 'bg-warning-100 text-warning-800',
+};
+
+const describeDuplicate = (duplicate: CustomerImportRow['duplicates'][number]) => {
+  const what = duplicate.field === 'email' ? `Email ${duplicate.value}` : 'Company name';
+  return duplicate.customer
+    ? `${what} already belongs to ${duplicate.customer.companyName}`
+    : `${what} repeats row ${duplicate.row}`;
+};
+
+const downloadTemplate = () => {
+  const blob = new Blob([`${TEMPLATE_COLUMNS.join(',')}\n`], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'customer-import-template.csv';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (isAxiosError(error) && error.response?.data?.message) || fallback;
+
+function CustomerImportModal({ onImported, onCancel }: CustomerImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [rows, setRows] = useState<CustomerImportRow[]>([]);
+  const [summary, setSummary] = useState<CustomerImportSummary | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const toFormData = (selected: File) => {
+    const formData = new FormData();
+    formData.append('file', selected);
+    return formData;
+  };
+
+  const handlePreview = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setIsWorking(true);
+    try {
+      const response = await customersAPI.previewImport(toFormData(file));
+      setRows(response.data.rows);
+      setSummary(response.data.summary);
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      alert(getErrorMessage(error, 'Failed to read the file.'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsWorking(true);
+    try {
+      const response = await customersAPI.import(toFormData(file));
+      onImported(response.data.imported);
+    } catch (error) {
+      console.error('Error importing customers:', error);
+      alert(getErrorMessage(error, 'Failed to import customers.'));
+      setIsWorking(false);
+    }
+  };
+
+  const visibleRows = showAll ? rows : rows.filter(row => row.status !== 'valid');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white rounded-lg p-8 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-1">Import Customers</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Upload a CSV or XLSX file with one customer per row. Rows are checked before anything is saved; rows with
+          errors or matching an existing company name or contact email are skipped.
+          <button type="button" onClick={downloadTemplate} className="ml-1 text-primary-600 hover:underline inline-flex items-center">
+            <Download className="w-3 h-3 mr-1" />
+            Download a template
+          </button>
+        </p>
+
+        <form onSubmit={handlePreview} className="flex flex-wrap items-center gap-3 mb-6">
+          <input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => { setFile(e.target.files?.[0] ?? null); setRows([]); setSummary(null); }}
+            className="text-sm"
+            aria-label="Customer spreadsheet"
+          />
+          <button type="submit" className="btn-secondary flex items-center" disabled={!file || isWorking}>
+            <Upload className="w-4 h-4 mr-2" />
+            Check file
+          </button>
+        </form>
+
+        {summary && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <span className="font-medium text-gray-900">{summary.total} row(s)</span>
+              <span className="text-success-700">{summary.valid} ready</span>
+              <span className="text-danger-700">{summary.invalid} with errors</span>
+              <span className="text-warning-700">{summary.duplicate} duplicate(s)</span>
+              <label className="flex items-center text-gray-700 ml-auto">
+                <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} className="mr-2" />
+                Show ready rows
+              </label>
+            </div>
+
+            {visibleRows.length === 0 ? (
+              <p className="text-sm text-gray-500">Every row is ready to import.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="pb-2 font-medium">Row</th>
+                      <th className="pb-2 font-medium">Company</th>
+                      <th className="pb-2 font-medium">Contacts</th>
+                      <th className="pb-2 font-medium">Status</th>
+                      <th className="pb-2 font-medium">Problems</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {visibleRows.map(row => (
+                      <tr key={row.row} className="align-top">
+                        <td className="py-2 text-gray-500">{row.row}</td>
+                        <td className="py-2">
+                          <p className="text-gray-900">{row.customer.companyName || '—'}</p>
+                          <p className="text-xs text-gray-500">{row.customer.companyType}</p>
+                        </td>
+                        <td className="py-2 text-gray-600">
+                          {row.customer.contacts.map(contact => contact.email || contact.name).filter(Boolean).join(', ') || '—'}
+                        </td>
+                        <td className="py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[row.status]}`}>{row.status}</span>
+                        </td>
+                        <td className="py-2">
+                          <ul className="text-xs space-y-0.5">
+                            {row.errors.map(error => <li key={error} className="text-danger-700">{error}</li>)}
+                            {row.duplicates.map(duplicate => (
+                              <li key={`${duplicate.field}-${duplicate.value}`} className="text-warning-700">{describeDuplicate(duplicate)}</li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4 pt-4 mt-6 border-t">
+          <button type="button" onClick={onCancel} className="btn-secondary">
+            Cancel
+          </button>
+          <button type="button" onClick={handleImport} className="btn-primary" disabled={!summary || summary.valid === 0 || isWorking}>
+            {summary ? `Import ${summary.valid} customer(s)` : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CustomerImportModal;
@@ -0,0 +1,162 @@
+import { ElementType, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { CheckSquare, PhoneIncoming, PhoneOutgoing, Search } from 'lucide-react';
+import { ActivityLog, Call, Task } from '../types';
+import { describeActivity, getActivityActor, getActivityIcon } from '../utils/activity';
+
+type TimelineKind = 'task' | 'call' | 'activity';
+
+interface TimelineItem {
+  id: string;
+  kind: TimelineKind;
+  date: string;
+  icon: ElementType;
+  title: string;
+  detail?: string;
+  actor?: string;
+  link?: string; // detail page of the task or call
+}
+
+const kindLabels: Record<TimelineKind, string> = {
+  task: 'Tasks',
+  call: 'Calls',
+  activity: 'Changes',
+};
+
+const kindColors: Record<TimelineKind, string> = {
+  task: 'bg-primary-100 text-primary-600',
+  call: 'bg-success-100 text-success-600',
+  activity: 'bg-gray-100 text-gray-500',
+};
+
+interface CustomerTimelineProps {
+  tasks: Task[];
+  calls: Call[];
+  logs: ActivityLog[];
+}
+
+function CustomerTimeline({ tasks, calls, logs }: CustomerTimelineProps) {
+  const [kinds, setKinds] = useState<Set<TimelineKind>>(new Set(['task', 'call', 'activity']));
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Tasks, calls and changes to the customer record, newest first
+  const items = useMemo(() => {
+    const merged: TimelineItem[] = [
+      ...tasks.map(task => ({
+        id: `task-${task._id}`,
+        kind: 'task' as const,
+        date: task.createdAt,
+        icon: CheckSquare,
+        title: `Task created: ${task.title}`,
+        link: `/tasks/${task._id}`,
+        detail: `${task.priority} priority, due ${format(new Date(task.dueDate), 'MMM d, yyyy')}, assigned to ${task.assignedTo?.name ?? 'nobody'}`,
+      })),
+      ...calls.map(call => ({
+        id: `call-${call._id}`,
+        kind: 'call' as const,
+        date: call.createdAt,
+        icon: call.callType === 'inbound' ? PhoneIncoming : PhoneOutgoing,
+        title: `logged an ${call.callType} call${call.outcome ? `: ${call.outcome}` : ''}`,
+        detail: call.summary,
+        actor: call.user?.name,
+        link: `/calls/${call._id}`,
+      })),
+      ...logs.map(log => ({
+        id: `log-${log._id}`,
+        kind: 'activity' as const,
+        date: log.createdAt,
+        icon: getActivityIcon(log.action),
+        title: describeActivity(log),
+        actor: getActivityActor(log),
+      })),
+    ];
+    return merged.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  }, [tasks, calls, logs]);
+
+  const visibleItems = items.filter(item => {
+    if (!kinds.has(item.kind)) return false;
+    const term = searchTerm.trim().toLowerCase();
+    return !term || [item.title, item.detail, item.actor].some(text => text?.toLowerCase().includes(term));
+  });
+
+  const toggleKind = (kind: TimelineKind) => {
+    const next = new Set(kinds);
+    if (next.has(kind)) {
+      next.delete(kind);
+    } else {
+      next.add(kind);
+    }
+    setKinds(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        {(Object.keys(kindLabels) as TimelineKind[]).map(kind => (
+          <label key={kind} className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={kinds.has(kind)}
+              onChange={() => toggleKind(kind)}
+              className="mr-2 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            {kindLabels[kind]}
+          </label>
+        ))}
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+          <input
+            type="text"
+            placeholder="Search the timeline..."
+            className="input-field pl-10"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+        </div>
+      </div>
+
+      {visibleItems.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing matches these filters.</p>
+      ) : (
+        <div className="flow-root">
+          <ul className="-mb-8">
+            {visibleItems.map((item, itemIdx) => {
+              const Icon = item.icon;
+              return (
+                <li key={item.id}>
+                  <div className="relative pb-8">
+                    {itemIdx !== visibleItems.length - 1 ? (
+                      <span className="absolute top-4 left-4 -ml-px h-full w-0.5 bg-gray-200" aria-hidden="true" />
+                    ) : null}
+                    <div className="relative flex space-x-3">
+                      <div>
+                        <span className={`h-8 w-8 rounded-full flex items-center justify-center ring-8 ring-white ${kindColors[item.kind]}`}>
+                          <Icon className="h-5 w-5" />
+                        </span>
+                      </div>
+                      <div className="min-w-0 flex-1 pt-1.5 flex justify-between space-x-4">
+                        <div className="min-w-0">
+                          <p className="text-sm text-gray-500">
+                            {item.actor && <span className="font-medium text-gray-900">{item.actor}</span>}{' '}
+                            {item.link ? <Link to={item.link} className="hover:text-primary-600 hover:underline">{item.title}</Link> : item.title}
+                          </p>
+                          {item.detail && <p className="text-sm text-gray-700 line-clamp-2">{item.detail}</p>}
+                        </div>
+                        <div className="text-right text-sm whitespace-nowrap text-gray-500">
+                          <time dateTime={item.date}>{format(new Date(item.date), 'MMM dd, yyyy, h:mm a')}</time>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CustomerTimeline;
@@ -0,0 +1,115 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { isAxiosError } from 'axios';
+import { settingsAPI } from '../services/api';
+import { EscalationPolicies, Task } from '../types';
+
+const priorities: { priority: Task['priority']; label: string }[] = [
+  { priority: 'low', label: 'Low' },
+  { priority: 'medium', label: 'Medium' },
+  { priority: 'high', label: 'High' },
+  { priority: 'urgent', label: 'Urgent' },
+];
+
+// Workspace-wide policy for escalating overdue tasks (admins and managers)
+function EscalationPolicyForm() {
+  const [enabled, setEnabled] = useState(true);
+  const [policies, setPolicies] = useState<EscalationPolicies | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await settingsAPI.get();
+        setEnabled(response.data.settings.escalation.enabled);
+        setPolicies(response.data.settings.escalation.policies);
+      } catch (error) {
+        console.error('Failed to fetch escalation settings:', error);
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!policies) return;
+    setIsSaving(true);
+    try {
+      const response = await settingsAPI.updateEscalation({ enabled, policies });
+      setPolicies(response.data.settings.escalation.policies);
+      alert('Escalation policy saved.');
+    } catch (error) {
+      console.error('Failed to save escalation policy:', error);
+      const errors = isAxiosError(error) ? error.response?.data?.errors : undefined;
+      alert(Array.isArray(errors) ? errors.map((err: { msg: string }) => err.msg).join('\n') : 'Failed to save escalation policy.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!policies) return null;
+
+  const update = (priority: Task['priority'], field: keyof EscalationPolicies[Task['priority']], value: string) =>
+    setPolicies({ ...policies, [priority]: { ...policies[priority], [field]: Number(value) } });
+
+  return (
+    <form onSubmit={handleSubmit} className="card space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Overdue escalation</h2>
+          <p className="text-sm text-gray-600">Hours after the due date before an open task's creator, then all managers, are notified.</p>
+        </div>
+        <label className="flex items-center text-sm text-gray-700">
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} className="mr-2" />
+          Enabled
+        </label>
+      </div>
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="pb-2 font-medium">Priority</th>
+            <th className="pb-2 font-medium">Notify creator after (hours)</th>
+            <th className="pb-2 font-medium">Notify managers after (hours)</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {priorities.map(({ priority, label }) => (
+            <tr key={priority}>
+              <td className="py-2 text-gray-700">{label}</td>
+              <td className="py-2 pr-4">
+                <input
+                  type="number"
+                  min={1}
+                  max={720}
+                  aria-label={`${label} priority: notify creator after hours`}
+                  value={policies[priority].creatorAfterHours}
+                  onChange={(e) => update(priority, 'creatorAfterHours', e.target.value)}
+                  className="input-field"
+                  disabled={!enabled}
+                  required
+                />
+              </td>
+              <td className="py-2">
+                <input
+                  type="number"
+                  min={policies[priority].creatorAfterHours}
+                  max={720}
+                  aria-label={`${label} priority: notify managers after hours`}
+                  value={policies[priority].managersAfterHours}
+                  onChange={(e) => update(priority, 'managersAfterHours', e.target.value)}
+                  className="input-field"
+                  disabled={!enabled}
+                  required
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex justify-end">
+        <button type="submit" disabled={isSaving} className="btn-primary">Save Policy</button>
+      </div>
+    </form>
+  );
+}
+
+export default EscalationPolicyForm;
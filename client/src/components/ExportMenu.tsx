@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { AxiosResponse, isAxiosError } from 'axios';
+import { Download } from 'lucide-react';
+import { ExportFormat } from '../types';
+
+interface ExportMenuProps {
+  filename: string; // without date or extension
+  onExport: (format: ExportFormat) => Promise<AxiosResponse<Blob>>;
+}
+
+const formats: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (.xlsx)' },
+  { format: 'pdf', label: 'PDF report' },
+];
+
+// The request asks for a file, so a JSON error arrives as a Blob too
+const getErrorMessage = async (error: unknown) => {
+  const data = isAxiosError(error) ? error.response?.data : undefined;
+  if (data instanceof Blob) {
+    try {
+      return JSON.parse(await data.text()).message as string;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+};
+
+function ExportMenu({ filename, onExport }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      const response = await onExport(format);
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${filename}-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting:', error);
+      alert((await getErrorMessage(error)) || 'Failed to export. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className="btn-secondary flex items-center"
+      >
+        <Download className="w-4 h-4 mr-2" />
+        {isExporting ? 'Exporting...' : 'Export'}
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <ul className="absolute right-0 mt-2 w-40 bg-white border border-gray-200 rounded-md shadow-lg z-20 py-1">
+            {formats.map(({ format, label }) => (
+              <li key={format}>
+                <button
+                  type="button"
+                  onClick={() => handleExport(format)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  {label}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default ExportMenu;
@@ -0,0 +1,128 @@
+import { useState, FormEvent } from 'react';
+import { format } from 'date-fns';
+import { Call, FollowUpCallInput } from '../types';
+
+interface FollowUpCallModalProps {
+  call: Call;
+  onSave: (followUp: FollowUpCallInput) => void;
+  onCancel: () => void;
+}
+
+function FollowUpCallModal({ call, onSave, onCancel }: FollowUpCallModalProps) {
+  const [form, setForm] = useState<FollowUpCallInput>({
+    callType: 'outbound',
+    summary: '',
+    duration: 0,
+    outcome: '',
+    followUpRequired: false,
+    followUpDate: '',
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({
+      ...form,
+      duration: form.duration ? Number(form.duration) : undefined,
+      outcome: form.outcome || undefined,
+      followUpDate: form.followUpRequired && form.followUpDate ? new Date(form.followUpDate).toISOString() : undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4">
+      <div className="bg-white rounded-lg p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-1">Log Follow-up Call</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {call.customer.companyName} · following up the {call.callType} call of {format(new Date(call.createdAt), 'MMM dd, yyyy')}
+        </p>
+        <p className="text-sm text-gray-700 bg-gray-50 rounded-lg p-3 mb-4">{call.summary}</p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="followUpCallType" className="block text-sm font-medium text-gray-700">Call Type</label>
+            <select
+              id="followUpCallType"
+              value={form.callType}
+              onChange={(e) => setForm({ ...form, callType: e.target.value as FollowUpCallInput['callType'] })}
+              className="select-field"
+            >
+              <option value="outbound">Outbound</option>
+              <option value="inbound">Inbound</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="followUpSummary" className="block text-sm font-medium text-gray-700">Summary</label>
+            <textarea
+              id="followUpSummary"
+              value={form.summary}
+              onChange={(e) => setForm({ ...form, summary: e.target.value })}
+              className="input-field min-h-[100px]"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="followUpOutcome" className="block text-sm font-medium text-gray-700">Outcome</label>
+              <input
+                id="followUpOutcome"
+                type="text"
+                value={form.outcome}
+                onChange={(e) => setForm({ ...form, outcome: e.target.value })}
+                className="input-field"
+                maxLength={200}
+              />
+            </div>
+            <div>
+              <label htmlFor="followUpDuration" className="block text-sm font-medium text-gray-700">Duration (in seconds)</label>
+              <input
+                id="followUpDuration"
+                type="number"
+                min={0}
+                value={form.duration}
+                onChange={(e) => setForm({ ...form, duration: Number(e.target.value) })}
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center">
+            <input
+              id="followUpAgain"
+              type="checkbox"
+              checked={form.followUpRequired}
+              onChange={(e) => setForm({ ...form, followUpRequired: e.target.checked })}
+              className="h-4 w-4 text-primary-600 border-gray-300 rounded"
+            />
+            <label htmlFor="followUpAgain" className="ml-2 text-sm text-gray-700">Schedule another callback</label>
+          </div>
+
+          {form.followUpRequired && (
+            <div>
+              <label htmlFor="followUpAgainDate" className="block text-sm font-medium text-gray-700">Callback Date</label>
+              <input
+                id="followUpAgainDate"
+                type="datetime-local"
+                value={form.followUpDate}
+                onChange={(e) => setForm({ ...form, followUpDate: e.target.value })}
+                className="input-field"
+                required
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-4 pt-4 border-t">
+            <button type="button" onClick={onCancel} className="btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary">
+              Log Call
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default FollowUpCallModal;
@@ -1,19 +1,23 @@
 import React from 'react';
 import { NavLink } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useRealtime } from '../contexts/RealtimeContext';
 import { 
   LayoutDashboard, 
   CheckSquare, 
   Users, 
   UserCog,
   Phone, 
+  PhoneCall,
   Bell, 
   Search, 
   History, // Add History icon for activity logs
   LogOut,
   Menu,
   X,
-  Shapes // Add Shapes icon for categories
+  Shapes, // Add Shapes icon for categories
+  Settings,
+  Timer
 } from 'lucide-react';
 
 interface LayoutProps {
@@ -22,6 +26,7 @@ interface LayoutProps {
 
 function Layout({ children }: LayoutProps) {
   const { user, logout } = useAuth();
+  const { unreadCount } = useRealtime();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = React.useState(false);
   const [isCollapsed, setIsCollapsed] = React.useState(false);
 
@@ -30,9 +35,11 @@ function Layout({ children }: LayoutProps) {
     { name: 'Tasks', href: '/tasks', icon: CheckSquare },
     { name: 'Customers', href: '/customers', icon: Users },
     { name: 'Calls', href: '/calls', icon: Phone },
+    { name: 'Follow-ups', href: '/follow-ups', icon: PhoneCall },
     { name: 'Notifications', href: '/notifications', icon: Bell },
     { name: 'Search', href: '/search', icon: Search },
     { name: 'Activity Logs', href: '/activity-logs', icon: History },
+    { name: 'Settings', href: '/settings', icon: Settings },
   ];
 
   if (user?.role === 'admin') {
@@ -44,6 +51,8 @@ function Layout({ children }: LayoutProps) {
     if (tasksIndex !== -1) {
       navigation.splice(tasksIndex + 1, 0, { name: 'Task Categories', href: '/task-categories', icon: Shapes });
     }
+    const customersIndex = navigation.findIndex(item => item.name === 'Customers');
+    navigation.splice(customersIndex + 1, 0, { name: 'Service Levels', href: '/sla', icon: Timer });
   }
 
   const toggleMobileMenu = () => {
@@ -101,8 +110,18 @@ function Layout({ children }: LayoutProps) {
                   }`
                 }
               >
-                <item.icon className="flex-shrink-0 mr-3 w-5 h-5" />
+                <span className="relative flex-shrink-0 mr-3">
+                  <item.icon className="w-5 h-5" />
+                  {item.href === '/notifications' && unreadCount > 0 && isCollapsed && (
+                    <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-danger-500" />
+                  )}
+                </span>
                 {!isCollapsed && item.name}
+                {item.href === '/notifications' && unreadCount > 0 && !isCollapsed && (
+                  <span className="ml-auto px-2 py-0.5 text-xs font-semibold text-white rounded-full bg-danger-500">
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </span>
+                )}
               </NavLink>
             ))}
           </div>
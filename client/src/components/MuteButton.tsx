@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { MuteTarget, NotificationPreferences } from '../types';
+
+interface MuteButtonProps {
+  target: MuteTarget;
+  id: string;
+  isMuted: boolean;
+  onChange: (preferences: NotificationPreferences) => void;
+  className?: string;
+}
+
+function MuteButton({ target, id, isMuted, onChange, className = '' }: MuteButtonProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleClick = async () => {
+    setIsSaving(true);
+    try {
+      const response = isMuted ? await authAPI.unmute(target, id) : await authAPI.mute(target, id);
+      onChange(response.data.notificationPreferences);
+    } catch (error) {
+      console.error('Failed to update muted notifications:', error);
+      alert('Failed to update muted notifications.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isSaving}
+      className={`flex items-center text-sm font-medium text-gray-600 hover:text-gray-800 ${className}`}
+      title={isMuted ? 'Get notifications again' : `Stop notifications about this ${target === 'tasks' ? 'task' : 'customer'}`}
+    >
+      {isMuted ? <Bell className="w-4 h-4 mr-1" /> : <BellOff className="w-4 h-4 mr-1" />}
+      {isMuted ? 'Unmute' : 'Mute'}
+    </button>
+  );
+}
+
+export default MuteButton;
@@ -0,0 +1,35 @@
+interface RecoveryCodesProps {
+  codes: string[];
+  onDone: () => void;
+}
+
+const downloadCodes = (codes: string[]) => {
+  const blob = new Blob([`Better Tasks recovery codes\n\n${codes.join('\n')}\n`], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'better-tasks-recovery-codes.txt';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// New recovery codes; the server only returns them once, right after generating them
+function RecoveryCodes({ codes, onDone }: RecoveryCodesProps) {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Save these recovery codes somewhere safe. If you lose your authenticator, each one signs you in once.
+        They won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-md font-mono text-sm text-gray-900">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <div className="flex justify-between">
+        <button type="button" onClick={() => downloadCodes(codes)} className="btn-secondary">Download</button>
+        <button type="button" onClick={onDone} className="btn-primary">I've saved these codes</button>
+      </div>
+    </div>
+  );
+}
+
+export default RecoveryCodes;
@@ -0,0 +1,168 @@
+import { RecurrenceFrequency, TaskRecurrence } from '../types';
+import { weekdays } from '../utils/recurrence';
+
+interface RecurrenceFieldsProps {
+  value?: TaskRecurrence | null;
+  onChange: (recurrence: TaskRecurrence | null) => void;
+  disabled?: boolean;
+}
+
+const intervalUnits: Record<Exclude<RecurrenceFrequency, 'custom'>, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+function RecurrenceFields({ value, onChange, disabled }: RecurrenceFieldsProps) {
+  const endType = value?.count ? 'count' : value?.endDate ? 'date' : 'never';
+
+  const update = (changes: Partial<TaskRecurrence>) => {
+    if (!value) return;
+    onChange({ ...value, ...changes });
+  };
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval || 1,
+      byWeekday: [],
+      endDate: value?.endDate,
+      count: value?.count,
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const byWeekday = value.byWeekday.includes(day)
+      ? value.byWeekday.filter(d => d !== day)
+      : [...value.byWeekday, day].sort();
+    update({ byWeekday });
+  };
+
+  const handleEndTypeChange = (type: string) => {
+    update({
+      endDate: type === 'date' ? new Date().toISOString() : undefined,
+      count: type === 'count' ? 10 : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="recurrence" className="block text-sm font-medium text-gray-700">Repeat</label>
+        <select id="recurrence" value={value?.frequency || ''} onChange={(e) => handleFrequencyChange(e.target.value)} className="select-field" disabled={disabled}>
+          <option value="">Does not repeat</option>
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+          <option value="custom">Custom rule</option>
+        </select>
+      </div>
+
+      {value && value.frequency !== 'custom' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Every</span>
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={value.interval}
+            onChange={(e) => update({ interval: Number(e.target.value) || 1 })}
+            className="input-field w-20"
+            disabled={disabled}
+          />
+          <span>{intervalUnits[value.frequency]}</span>
+        </div>
+      )}
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {weekdays.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              disabled={disabled}
+              className={`px-2 py-1 text-xs rounded-md border ${
+                value.byWeekday.includes(day)
+                  ? 'bg-primary-600 text-white border-primary-600'
+                  : 'bg-white text-gray-700 border-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === 'monthly' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>On day</span>
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.byMonthDay || ''}
+            placeholder="Due day"
+            onChange={(e) => update({ byMonthDay: e.target.value ? Number(e.target.value) : undefined })}
+            className="input-field w-24"
+            disabled={disabled}
+          />
+        </div>
+      )}
+
+      {value?.frequency === 'custom' && (
+        <div>
+          <input
+            type="text"
+            value={value.rule || ''}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+            onChange={(e) => update({ rule: e.target.value })}
+            className="input-field font-mono text-sm"
+            disabled={disabled}
+          />
+          <p className="mt-1 text-xs text-gray-500">Supports FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.</p>
+        </div>
+      )}
+
+      {value && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Ends</span>
+          <select value={endType} onChange={(e) => handleEndTypeChange(e.target.value)} className="select-field w-32" disabled={disabled}>
+            <option value="never">Never</option>
+            <option value="date">On date</option>
+            <option value="count">After</option>
+          </select>
+          {endType === 'date' && (
+            <input
+              type="date"
+              value={value.endDate ? new Date(value.endDate).toISOString().substring(0, 10) : ''}
+              onChange={(e) => update({ endDate: e.target.value ? new Date(`${e.target.value}T23:59:59`).toISOString() : undefined })}
+              className="input-field"
+              disabled={disabled}
+            />
+          )}
+          {endType === 'count' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={value.count || ''}
+                onChange={(e) => update({ count: Number(e.target.value) || 1 })}
+                className="input-field w-20"
+                disabled={disabled}
+              />
+              <span>occurrences</span>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RecurrenceFields;
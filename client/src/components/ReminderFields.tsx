@@ -0,0 +1,48 @@
+interface ReminderFieldsProps {
+  value?: number[]; // minutes before the due date
+  onChange: (reminders: number[]) => void;
+  disabled?: boolean;
+}
+
+const reminderOptions = [
+  { minutes: 0, label: 'At due time' },
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 24 * 60, label: '1 day before' },
+  { minutes: 2 * 24 * 60, label: '2 days before' },
+  { minutes: 7 * 24 * 60, label: '1 week before' },
+];
+
+// A task can have at most this many reminders
+const MAX_REMINDERS = 5;
+
+function ReminderFields({ value = [], onChange, disabled }: ReminderFieldsProps) {
+  const toggle = (minutes: number) => {
+    onChange(value.includes(minutes)
+      ? value.filter(m => m !== minutes)
+      : [...value, minutes].sort((a, b) => b - a));
+  };
+
+  return (
+    <fieldset>
+      <legend className="block text-sm font-medium text-gray-700">Remind assignee</legend>
+      <div className="mt-1 grid grid-cols-2 gap-1 text-sm">
+        {reminderOptions.map(option => (
+          <label key={option.minutes} className="flex items-center text-gray-700">
+            <input
+              type="checkbox"
+              checked={value.includes(option.minutes)}
+              onChange={() => toggle(option.minutes)}
+              disabled={disabled || (!value.includes(option.minutes) && value.length >= MAX_REMINDERS)}
+              className="mr-2"
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">Overdue tasks are also reminded 1, 3 and 7 days after the due date.</p>
+    </fieldset>
+  );
+}
+
+export default ReminderFields;
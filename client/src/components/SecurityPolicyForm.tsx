@@ -0,0 +1,73 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { isAxiosError } from 'axios';
+import { settingsAPI } from '../services/api';
+import { TwoFactorRole } from '../types';
+
+const roles: { role: TwoFactorRole; label: string }[] = [
+  { role: 'admin', label: 'Admins' },
+  { role: 'manager', label: 'Managers' },
+];
+
+// Workspace-wide security policy: the roles that must use two-factor authentication (admins only)
+function SecurityPolicyForm() {
+  const [requiredRoles, setRequiredRoles] = useState<TwoFactorRole[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await settingsAPI.get();
+        setRequiredRoles(response.data.settings.security?.twoFactorRequiredRoles ?? []);
+      } catch (error) {
+        console.error('Failed to fetch security settings:', error);
+      }
+    };
+    fetchSettings();
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!requiredRoles) return;
+    setIsSaving(true);
+    try {
+      const response = await settingsAPI.updateSecurity({ twoFactorRequiredRoles: requiredRoles });
+      setRequiredRoles(response.data.settings.security.twoFactorRequiredRoles);
+      alert('Security policy saved.');
+    } catch (error) {
+      console.error('Failed to save security policy:', error);
+      const message = isAxiosError(error) ? error.response?.data?.message : undefined;
+      alert(message || 'Failed to save security policy.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!requiredRoles) return null;
+
+  const toggle = (role: TwoFactorRole) =>
+    setRequiredRoles(requiredRoles.includes(role) ? requiredRoles.filter(r => r !== role) : [...requiredRoles, role]);
+
+  return (
+    <form onSubmit={handleSubmit} className="card space-y-4">
+      <div>
+        <h2 className="text-lg font-medium text-gray-900">Require two-factor authentication</h2>
+        <p className="text-sm text-gray-600">
+          People with these roles set up two-factor the next time they log in. Anyone already signed in is asked to log in again within a few minutes.
+        </p>
+      </div>
+      <div className="flex gap-6">
+        {roles.map(({ role, label }) => (
+          <label key={role} className="flex items-center text-sm text-gray-700">
+            <input type="checkbox" checked={requiredRoles.includes(role)} onChange={() => toggle(role)} className="mr-2" />
+            {label}
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end">
+        <button type="submit" disabled={isSaving} className="btn-primary">Save Policy</button>
+      </div>
+    </form>
+  );
+}
+
+export default SecurityPolicyForm;
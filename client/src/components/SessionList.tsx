@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Monitor, Smartphone } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { UserSession } from '../types';
+
+const browsers: [RegExp, string][] = [[/Edg\//, 'Edge'], [/OPR\//, 'Opera'], [/Firefox\//, 'Firefox'], [/Chrome\//, 'Chrome'], [/Safari\//, 'Safari']];
+const systems: [RegExp, string][] = [[/Android/, 'Android'], [/iPhone|iPad/, 'iOS'], [/Windows/, 'Windows'], [/Mac OS/, 'macOS'], [/Linux/, 'Linux']];
+
+// "Chrome on Windows" from a user agent string, as far as it can be told
+const describeDevice = (userAgent = '') => {
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !system) return 'Unknown device';
+  return [browser ?? 'Unknown browser', system].filter(Boolean).join(' on ');
+};
+
+// The devices the current user is signed in on, each of which can be signed out
+function SessionList() {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await authAPI.getSessions();
+        setSessions(response.data.sessions);
+      } catch (error) {
+        console.error('Failed to fetch sessions:', error);
+      }
+    };
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (id: string) => {
+    try {
+      await authAPI.revokeSession(id);
+      setSessions(prev => prev.filter(session => session._id !== id));
+    } catch (error) {
+      console.error('Failed to sign out the device:', error);
+      alert('Failed to sign out the device.');
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    if (!window.confirm('Sign out on every device, including this one?')) return;
+    try {
+      await authAPI.logoutAll();
+      await logout();
+    } catch (error) {
+      console.error('Failed to log out everywhere:', error);
+      alert('Failed to log out everywhere.');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-1">
+        <h2 className="text-lg font-medium text-gray-900">Signed-in devices</h2>
+        <button onClick={handleLogoutAll} className="text-sm text-danger-600 hover:underline">Log out everywhere</button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">Sign out a device you don't recognise or no longer use.</p>
+      <ul className="divide-y text-sm">
+        {sessions.map(session => {
+          const Icon = /Mobile|Android|iPhone/.test(session.userAgent ?? '') ? Smartphone : Monitor;
+          return (
+            <li key={session._id} className="py-2 flex items-center justify-between gap-4">
+              <div className="flex items-center min-w-0">
+                <Icon className="w-5 h-5 mr-3 text-gray-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-gray-900">{describeDevice(session.userAgent)}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {session.ip && `${session.ip} · `}
+                    active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                  </p>
+                </div>
+              </div>
+              {session.isCurrent ? (
+                <span className="text-xs font-medium text-success-700">This device</span>
+              ) : (
+                <button onClick={() => handleRevoke(session._id)} className="text-primary-600 hover:underline whitespace-nowrap">Sign out</button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default SessionList;
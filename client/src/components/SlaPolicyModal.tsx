@@ -0,0 +1,168 @@
+import { useState, FormEvent } from 'react';
+import { Customer, SlaPolicy, SlaPolicyInput, SlaTargets, Task } from '../types';
+
+interface SlaPolicyModalProps {
+  policy: SlaPolicy | null;
+  customers: Customer[];
+  onSave: (policy: SlaPolicyInput) => void;
+  onCancel: () => void;
+}
+
+const priorities: { priority: Task['priority']; label: string }[] = [
+  { priority: 'low', label: 'Low' },
+  { priority: 'medium', label: 'Medium' },
+  { priority: 'high', label: 'High' },
+  { priority: 'urgent', label: 'Urgent' },
+];
+
+const defaultTargets: SlaTargets = {
+  low: { responseHours: 48, resolutionHours: 240 },
+  medium: { responseHours: 24, resolutionHours: 120 },
+  high: { responseHours: 8, resolutionHours: 48 },
+  urgent: { responseHours: 2, resolutionHours: 24 },
+};
+
+function SlaPolicyModal({ policy, customers, onSave, onCancel }: SlaPolicyModalProps) {
+  const [scope, setScope] = useState<'customer' | 'companyType'>(policy?.customer ? 'customer' : 'companyType');
+  const [form, setForm] = useState<SlaPolicyInput>({
+    name: policy?.name ?? '',
+    customer: policy?.customer?._id ?? null,
+    companyType: policy?.companyType ?? null,
+    targets: policy?.targets ?? defaultTargets,
+    isActive: policy?.isActive ?? true,
+  });
+
+  const updateTarget = (priority: Task['priority'], field: 'responseHours' | 'resolutionHours', value: string) =>
+    setForm(prev => ({ ...prev, targets: { ...prev.targets, [priority]: { ...prev.targets[priority], [field]: Number(value) } } }));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    // A policy covers either one customer or a company type
+    onSave({
+      ...form,
+      customer: scope === 'customer' ? form.customer : null,
+      companyType: scope === 'companyType' ? form.companyType : null,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+      <div className="bg-white rounded-lg p-8 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold mb-4">{policy ? 'Edit' : 'New'} SLA Policy</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="slaName" className="block text-sm font-medium text-gray-700">Name</label>
+            <input
+              id="slaName"
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="input-field"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="slaScope" className="block text-sm font-medium text-gray-700">Applies to</label>
+              <select id="slaScope" value={scope} onChange={(e) => setScope(e.target.value as typeof scope)} className="select-field">
+                <option value="companyType">A company type</option>
+                <option value="customer">One customer</option>
+              </select>
+            </div>
+            {scope === 'customer' ? (
+              <div>
+                <label htmlFor="slaCustomer" className="block text-sm font-medium text-gray-700">Customer</label>
+                <select
+                  id="slaCustomer"
+                  value={form.customer ?? ''}
+                  onChange={(e) => setForm({ ...form, customer: e.target.value || null })}
+                  className="select-field"
+                  required
+                >
+                  <option value="" disabled>Select a customer</option>
+                  {customers.map(customer => <option key={customer._id} value={customer._id}>{customer.companyName}</option>)}
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label htmlFor="slaCompanyType" className="block text-sm font-medium text-gray-700">Company type</label>
+                <input
+                  id="slaCompanyType"
+                  type="text"
+                  list="slaCompanyTypes"
+                  value={form.companyType ?? ''}
+                  onChange={(e) => setForm({ ...form, companyType: e.target.value || null })}
+                  className="input-field"
+                  required
+                />
+                <datalist id="slaCompanyTypes">
+                  {[...new Set(customers.map(customer => customer.companyType))].map(type => <option key={type} value={type} />)}
+                </datalist>
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">A customer's own policy takes precedence over the one for its company type.</p>
+
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-2 font-medium">Priority</th>
+                <th className="pb-2 font-medium">Pick up within (hours)</th>
+                <th className="pb-2 font-medium">Complete within (hours)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {priorities.map(({ priority, label }) => (
+                <tr key={priority}>
+                  <td className="py-2 text-gray-700">{label}</td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="number"
+                      min={1}
+                      step="any"
+                      aria-label={`${label} priority response target in hours`}
+                      value={form.targets[priority].responseHours}
+                      onChange={(e) => updateTarget(priority, 'responseHours', e.target.value)}
+                      className="input-field"
+                      required
+                    />
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="number"
+                      min={form.targets[priority].responseHours}
+                      step="any"
+                      aria-label={`${label} priority resolution target in hours`}
+                      value={form.targets[priority].resolutionHours}
+                      onChange={(e) => updateTarget(priority, 'resolutionHours', e.target.value)}
+                      className="input-field"
+                      required
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              className="mr-2"
+            />
+            Active
+          </label>
+
+          <div className="flex justify-end space-x-4">
+            <button type="button" onClick={onCancel} className="btn-secondary">Cancel</button>
+            <button type="submit" className="btn-primary">Save</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default SlaPolicyModal;
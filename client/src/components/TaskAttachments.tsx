@@ -0,0 +1,78 @@
+import { useState, ChangeEvent } from 'react';
+import { Paperclip, Trash2 } from 'lucide-react';
+import { tasksAPI } from '../services/api';
+import { Task } from '../types';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
+
+interface TaskAttachmentsProps {
+  task: Task;
+  canEdit: boolean;
+  onChange: (task: Task) => void;
+}
+
+function TaskAttachments({ task, canEdit, onChange }: TaskAttachmentsProps) {
+  const [file, setFile] = useState<File | null>(null);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      setFile(e.target.files[0]);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    const formData = new FormData();
+    formData.append('attachments', file);
+    try {
+      const res = await tasksAPI.uploadAttachment(task._id, formData);
+      onChange(res.data.task);
+      setFile(null);
+    } catch (error) {
+      console.error('Failed to upload file:', error);
+      alert('Failed to upload file.');
+    }
+  };
+
+  const handleDelete = async (attachmentId: string) => {
+    if (window.confirm('Are you sure you want to delete this attachment?')) {
+      try {
+        const res = await tasksAPI.deleteAttachment(task._id, attachmentId);
+        onChange(res.data.task);
+      } catch (error) {
+        console.error('Failed to delete attachment:', error);
+        alert('Failed to delete attachment.');
+      }
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-2">Attachments</h3>
+      <div className="space-y-2">
+        {task.attachments.length === 0 && <p className="text-sm text-gray-500">No attachments.</p>}
+        {task.attachments.map(att => (
+          <div key={att._id} className="flex items-center justify-between p-2 bg-gray-50 rounded-md">
+            <a href={`${API_URL}/${att.path}`} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline truncate flex items-center">
+              <Paperclip className="w-4 h-4 mr-2" />
+              {att.filename}
+            </a>
+            {canEdit && (
+              <button type="button" onClick={() => handleDelete(att._id)} className="text-danger-600 hover:text-danger-800">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      {canEdit && (
+        <div className="mt-4 flex items-center gap-2">
+          <input key={file ? 'selected' : 'empty'} type="file" onChange={handleFileChange} className="text-sm" />
+          <button type="button" onClick={handleUpload} disabled={!file} className="btn-secondary btn-sm">Upload</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TaskAttachments;
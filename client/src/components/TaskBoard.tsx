@@ -0,0 +1,183 @@
+import { useState, DragEvent } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Calendar, Lock, User } from 'lucide-react';
+import { BoardColumn, BoardSwimlane, ColumnCounts, Task, WipLimits } from '../types';
+
+interface TaskBoardProps {
+  tasks: Task[];
+  swimlane: BoardSwimlane;
+  wipLimits: WipLimits;
+  // Column sizes from the server; the header falls back to counting the cards shown
+  columnCounts?: ColumnCounts;
+  onMove: (taskId: string, status: BoardColumn, orderedIds: string[]) => void;
+  onOpen?: (task: Task) => void;
+}
+
+interface Lane {
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+const columns: { status: BoardColumn; label: string }[] = [
+  { status: 'todo', label: 'To Do' },
+  { status: 'in-progress', label: 'In Progress' },
+  { status: 'completed', label: 'Completed' },
+];
+
+const priorityBorders: { [key: string]: string } = {
+  urgent: 'border-l-danger-500',
+  high: 'border-l-warning-500',
+  medium: 'border-l-blue-500',
+  low: 'border-l-gray-300',
+};
+
+// Cards are ordered by their saved board position, newest first among equals
+const byBoardPosition = (a: Task, b: Task) =>
+  (a.boardPosition ?? 0) - (b.boardPosition ?? 0) ||
+  new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+
+const groupIntoLanes = (tasks: Task[], swimlane: BoardSwimlane): Lane[] => {
+  if (swimlane === 'none') {
+    return [{ key: 'all', label: '', tasks }];
+  }
+
+  const lanes = new Map<string, Lane>();
+  for (const task of tasks) {
+    const [key, label] = swimlane === 'assignee'
+      ? [task.assignedTo?._id ?? 'none', task.assignedTo?.name ?? 'Unassigned']
+      : [task.customer?._id ?? 'none', task.customer?.companyName ?? 'No customer'];
+    if (!lanes.has(key)) {
+      lanes.set(key, { key, label, tasks: [] });
+    }
+    lanes.get(key)!.tasks.push(task);
+  }
+
+  // Alphabetical, with the "none" lane last
+  return [...lanes.values()].sort((a, b) =>
+    a.key === 'none' ? 1 : b.key === 'none' ? -1 : a.label.localeCompare(b.label)
+  );
+};
+
+function TaskBoard({ tasks, swimlane, wipLimits, columnCounts = {}, onMove, onOpen }: TaskBoardProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ lane: string; status: BoardColumn } | null>(null);
+
+  const lanes = groupIntoLanes(tasks, swimlane);
+  const columnTasks = (status: BoardColumn) => tasks.filter(task => task.status === status).sort(byBoardPosition);
+
+  const handleDragStart = (e: DragEvent, taskId: string) => {
+    e.dataTransfer.setData('text/plain', taskId);
+    e.dataTransfer.effectAllowed = 'move';
+    setDraggedId(taskId);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  // Drops before `beforeTaskId`, or after the last card of the lane when dropped on empty space
+  const handleDrop = (e: DragEvent, lane: Lane, status: BoardColumn, beforeTaskId?: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const taskId = draggedId || e.dataTransfer.getData('text/plain');
+    handleDragEnd();
+    if (!taskId || taskId === beforeTaskId) return;
+
+    // Ordering is kept per column across all lanes
+    const ordered = columnTasks(status).filter(task => task._id !== taskId).map(task => task._id);
+    let index = beforeTaskId ? ordered.indexOf(beforeTaskId) : -1;
+    if (index === -1) {
+      const laneIds = lane.tasks.filter(task => task.status === status && task._id !== taskId).map(task => task._id);
+      const lastInLane = laneIds.length > 0 ? ordered.lastIndexOf(laneIds[laneIds.length - 1]) : -1;
+      index = lastInLane === -1 ? ordered.length : lastInLane + 1;
+    }
+    ordered.splice(index, 0, taskId);
+
+    onMove(taskId, status, ordered);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-4">
+        {columns.map(column => {
+          const count = columnCounts[column.status] ?? tasks.filter(task => task.status === column.status).length;
+          const limit = wipLimits[column.status];
+          const isAtLimit = limit !== undefined && count >= limit;
+          return (
+            <div key={column.status} className="flex items-center justify-between px-3">
+              <h3 className="text-sm font-semibold text-gray-700 uppercase">{column.label}</h3>
+              <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${isAtLimit ? 'bg-danger-100 text-danger-800' : 'bg-gray-100 text-gray-600'}`}>
+                {count}{limit !== undefined && ` / ${limit}`}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {lanes.map(lane => (
+        <div key={lane.key}>
+          {lane.label && (
+            <h4 className="mb-2 text-sm font-medium text-gray-900">{lane.label}</h4>
+          )}
+          <div className="grid grid-cols-3 gap-4">
+            {columns.map(column => {
+              const cards = lane.tasks.filter(task => task.status === column.status).sort(byBoardPosition);
+              const isTarget = dropTarget?.lane === lane.key && dropTarget.status === column.status;
+              return (
+                <div
+                  key={column.status}
+                  onDragOver={(e) => { e.preventDefault(); setDropTarget({ lane: lane.key, status: column.status }); }}
+                  onDrop={(e) => handleDrop(e, lane, column.status)}
+                  className={`min-h-[6rem] p-2 space-y-2 rounded-lg transition-colors ${isTarget ? 'bg-primary-50 ring-2 ring-primary-200' : 'bg-gray-100'}`}
+                >
+                  {cards.map(task => {
+                    const isOverdue = new Date(task.dueDate) < new Date() && task.status !== 'completed';
+                    return (
+                      <div
+                        key={task._id}
+                        draggable
+                        onDragStart={(e) => handleDragStart(e, task._id)}
+                        onDragEnd={handleDragEnd}
+                        onDrop={(e) => handleDrop(e, lane, column.status, task._id)}
+                        onClick={() => onOpen?.(task)}
+                        className={`p-3 bg-white rounded-md shadow-sm border-l-4 ${priorityBorders[task.priority]} cursor-grab active:cursor-grabbing ${draggedId === task._id ? 'opacity-50' : ''}`}
+                      >
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="text-sm font-medium text-gray-900 line-clamp-2">{task.title}</p>
+                          {task.isBlocked && task.status !== 'completed' && (
+                            <span title="Waiting on prerequisite tasks"><Lock className="w-4 h-4 text-warning-600 flex-shrink-0" /></span>
+                          )}
+                        </div>
+                        <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+                          <span className={`flex items-center ${isOverdue ? 'text-danger-600 font-medium' : ''}`}>
+                            {isOverdue ? <AlertCircle className="w-3 h-3 mr-1" /> : <Calendar className="w-3 h-3 mr-1" />}
+                            {format(new Date(task.dueDate), 'MMM dd')}
+                          </span>
+                          {swimlane !== 'assignee' && (
+                            <span className="flex items-center truncate">
+                              <User className="w-3 h-3 mr-1" />
+                              {task.assignedTo?.name}
+                            </span>
+                          )}
+                        </div>
+                        {task.progress && task.progress.total > 0 && (
+                          <div className="mt-2 w-full h-1 bg-gray-200 rounded-full">
+                            <div className="h-1 bg-success-500 rounded-full" style={{ width: `${task.progress.percent}%` }} />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default TaskBoard;
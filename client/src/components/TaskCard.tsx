@@ -1,15 +1,36 @@
-import { Calendar, User, AlertCircle } from 'lucide-react';
+import { Calendar, User, AlertCircle, AlertTriangle, Repeat, ListChecks, Lock, Timer } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
-import { Task } from '../types';
+import { Task, TaskSla } from '../types';
+import { describeRecurrence } from '../utils/recurrence';
+import { getAvailableTransitions, getCurrentStatus, getWorkflow } from '../utils/workflow';
+import { useAuth } from '../contexts/AuthContext';
 
 interface TaskCardProps {
   task: Task;
   onEdit?: (task: Task) => void;
   onDelete?: (taskId: string) => void;
-  onStatusChange?: (taskId: string, status: string) => void;
+  onStatusChange?: (taskId: string, workflowStatus: string) => void;
 }
 
+// The SLA target the task is currently working towards, or how it ended
+const describeSla = (sla: TaskSla): { text: string; isBreached: boolean } => {
+  if (sla.resolvedAt) {
+    const isBreached = sla.responseBreached || sla.resolutionBreached;
+    return { text: isBreached ? 'SLA missed' : 'SLA met', isBreached };
+  }
+  if (!sla.respondedAt) {
+    return { text: `SLA: pick up by ${format(new Date(sla.respondBy), 'MMM dd, HH:mm')}`, isBreached: sla.responseBreached };
+  }
+  return { text: `SLA: complete by ${format(new Date(sla.resolveBy), 'MMM dd, HH:mm')}`, isBreached: sla.resolutionBreached };
+};
+
 function TaskCard({ task, onEdit, onDelete, onStatusChange }: TaskCardProps) {
+  const { user } = useAuth();
+  const workflow = getWorkflow(task.category);
+  const currentStatus = getCurrentStatus(workflow, task);
+  const transitions = getAvailableTransitions(workflow, currentStatus.key, user?.role);
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'urgent': return 'bg-danger-100 text-danger-800 border-danger-200';
@@ -35,7 +56,7 @@ function TaskCard({ task, onEdit, onDelete, onStatusChange }: TaskCardProps) {
     <div className="card hover:shadow-md transition-shadow duration-200">
       <div className="flex items-start justify-between mb-3">
         <h3 className="text-lg font-semibold text-gray-900 line-clamp-2">
-          {task.title}
+          <Link to={`/tasks/${task._id}`} className="hover:text-primary-600">{task.title}</Link>
         </h3>
         {isOverdue && (
           <AlertCircle className="w-5 h-5 text-danger-500 flex-shrink-0 ml-2" />
@@ -51,8 +72,23 @@ function TaskCard({ task, onEdit, onDelete, onStatusChange }: TaskCardProps) {
           {task.priority.toUpperCase()}
         </span>
         <span className={`px-2 py-1 text-xs font-medium rounded-full border ${getStatusColor(task.status)}`}>
-          {task.status.replace('-', ' ').toUpperCase()}
+          {currentStatus.name.toUpperCase()}
         </span>
+        {task.isBlocked && task.status !== 'completed' && (
+          <span className="flex items-center px-2 py-1 text-xs font-medium rounded-full border bg-warning-100 text-warning-800 border-warning-200" title="Waiting on prerequisite tasks">
+            <Lock className="w-3 h-3 mr-1" />
+            BLOCKED
+          </span>
+        )}
+        {!!task.escalationLevel && task.status !== 'completed' && (
+          <span
+            className="flex items-center px-2 py-1 text-xs font-medium rounded-full border bg-danger-100 text-danger-800 border-danger-200"
+            title={task.escalationLevel === 2 ? 'Overdue; all managers were notified' : 'Overdue; the creator was notified'}
+          >
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            ESCALATED{task.escalationLevel === 2 && ' TO MANAGERS'}
+          </span>
+        )}
       </div>
 
       <div className="space-y-2 mb-4">
@@ -68,22 +104,53 @@ function TaskCard({ task, onEdit, onDelete, onStatusChange }: TaskCardProps) {
           <span>Assigned to: {task.assignedTo.name}</span>
         </div>
 
+        {task.recurrence && (
+          <div className="flex items-center text-sm text-gray-600">
+            <Repeat className="w-4 h-4 mr-2" />
+            <span>{describeRecurrence(task.recurrence)}</span>
+          </div>
+        )}
+
+        {task.progress && task.progress.total > 0 && (
+          <div className="text-sm text-gray-600">
+            <div className="flex items-center justify-between mb-1">
+              <span className="flex items-center">
+                <ListChecks className="w-4 h-4 mr-2" />
+                {task.progress.completed}/{task.progress.total} subtasks & items
+              </span>
+              <span>{task.progress.percent}%</span>
+            </div>
+            <div className="w-full h-1.5 bg-gray-200 rounded-full">
+              <div className="h-1.5 bg-success-500 rounded-full" style={{ width: `${task.progress.percent}%` }} />
+            </div>
+          </div>
+        )}
+
         {task.customer && (
           <div className="text-sm text-gray-600">
             <span className="font-medium">Customer:</span> {task.customer.companyName}
           </div>
         )}
+
+        {task.sla && (
+          <div className={`flex items-center text-sm ${describeSla(task.sla).isBreached ? 'text-danger-600 font-medium' : 'text-gray-600'}`}>
+            <Timer className="w-4 h-4 mr-2" />
+            <span>{describeSla(task.sla).text}</span>
+          </div>
+        )}
       </div>
 
       <div className="flex items-center justify-between">
         <select
-          value={task.status}
+          value={currentStatus.key}
           onChange={(e) => onStatusChange?.(task._id, e.target.value)}
           className="text-sm border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+          disabled={transitions.length === 0}
         >
-          <option value="todo">To Do</option>
-          <option value="in-progress">In Progress</option>
-          <option value="completed">Completed</option>
+          <option value={currentStatus.key}>{currentStatus.name}</option>
+          {transitions.map(({ status }) => (
+            <option key={status.key} value={status.key}>{status.name}</option>
+          ))}
         </select>
 
         <div className="flex space-x-2">
@@ -0,0 +1,327 @@
+import { useState, useEffect, useRef, KeyboardEvent } from 'react';
+import { isAxiosError } from 'axios';
+import ReactMarkdown from 'react-markdown';
+import { CornerDownRight, Send, SmilePlus } from 'lucide-react';
+import { tasksAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Comment, Task } from '../types';
+import {
+  COMMENT_REACTIONS,
+  MAX_COMMENT_LENGTH,
+  MENTION_LINK_PREFIX,
+  formatMention,
+  getMentionQuery,
+  mentionsToMarkdown,
+} from '../utils/comments';
+
+type MentionableUser = { _id: string; name: string; email: string };
+
+interface TaskCommentsProps {
+  task: Task;
+  onChange: (task: Task) => void;
+}
+
+const showError = (error: unknown, fallback: string) => {
+  console.error(fallback, error);
+  const message = isAxiosError(error) ? error.response?.data?.message : undefined;
+  alert(message || fallback);
+};
+
+interface CommentEditorProps {
+  users: MentionableUser[];
+  initialText?: string;
+  placeholder: string;
+  submitLabel?: string;
+  onSubmit: (text: string) => Promise<boolean>; // true once saved, which clears the editor
+  onCancel?: () => void;
+}
+
+// Textarea that offers matching people when the user types "@"
+function CommentEditor({ users, initialText = '', placeholder, submitLabel, onSubmit, onCancel }: CommentEditorProps) {
+  const [text, setText] = useState(initialText);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = mentionQuery === null
+    ? []
+    : users.filter(user => user.name.toLowerCase().includes(mentionQuery.toLowerCase())).slice(0, 5);
+
+  const updateMentionQuery = () => {
+    const textarea = textareaRef.current;
+    setMentionQuery(textarea ? getMentionQuery(textarea.value, textarea.selectionStart) : null);
+  };
+
+  const insertMention = (user: MentionableUser) => {
+    const textarea = textareaRef.current;
+    if (!textarea || mentionQuery === null) return;
+    const caret = textarea.selectionStart;
+    const start = caret - mentionQuery.length - 1;
+    const mention = `${formatMention(user)} `;
+    setText(text.slice(0, start) + mention + text.slice(caret));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + mention.length, start + mention.length);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!text.trim() || isSaving) return;
+    setIsSaving(true);
+    const saved = await onSubmit(text);
+    setIsSaving(false);
+    if (saved) {
+      setText('');
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSubmit();
+    } else if (e.key === 'Escape' && mentionQuery !== null) {
+      e.stopPropagation();
+      setMentionQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex items-start gap-2">
+        <textarea
+          ref={textareaRef}
+          value={text}
+          onChange={(e) => { setText(e.target.value); updateMentionQuery(); }}
+          onKeyUp={updateMentionQuery}
+          onClick={updateMentionQuery}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          className="input-field min-h-[60px]"
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={2}
+        />
+        <button type="button" onClick={handleSubmit} disabled={!text.trim() || isSaving} className="btn-primary p-2" title={submitLabel ?? 'Send'}>
+          <Send className="w-5 h-5" />
+        </button>
+      </div>
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 z-20 mt-1 w-64 bg-white border border-gray-200 rounded-md shadow-lg py-1">
+          {suggestions.map(user => (
+            <li key={user._id}>
+              <button
+                type="button"
+                onMouseDown={(e) => { e.preventDefault(); insertMention(user); }}
+                className="w-full text-left px-3 py-1.5 text-sm hover:bg-gray-50"
+              >
+                <span className="text-gray-900">{user.name}</span>
+                <span className="ml-2 text-xs text-gray-500">{user.email}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-between mt-1 text-xs text-gray-500">
+        <span>Markdown supported · type @ to mention someone · Ctrl+Enter to send</span>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="hover:text-gray-700">Cancel</button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CommentBody({ text }: { text: string }) {
+  return (
+    <div className="text-gray-700 break-words space-y-2 [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_code]:bg-gray-200 [&_code]:px-1 [&_code]:rounded [&_pre]:bg-gray-200 [&_pre]:p-2 [&_pre]:rounded [&_pre]:overflow-x-auto [&_blockquote]:border-l-2 [&_blockquote]:pl-2 [&_blockquote]:text-gray-500">
+      <ReactMarkdown
+        disallowedElements={['img']}
+        unwrapDisallowed
+        components={{
+          a: ({ href, children }) => href?.startsWith(MENTION_LINK_PREFIX)
+            ? <span className="font-medium text-primary-700 bg-primary-50 rounded px-0.5">{children}</span>
+            : <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline">{children}</a>,
+        }}
+      >
+        {mentionsToMarkdown(text)}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+function TaskComments({ task, onChange }: TaskCommentsProps) {
+  const { user: currentUser } = useAuth();
+  const isModerator = currentUser?.role === 'admin' || currentUser?.role === 'manager';
+  const [users, setUsers] = useState<MentionableUser[]>([]);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [pickingReaction, setPickingReaction] = useState<string | null>(null);
+
+  useEffect(() => {
+    tasksAPI.getMentionableUsers(task._id)
+      .then(response => setUsers(response.data.users))
+      .catch(error => console.error('Failed to load mentionable users:', error));
+  }, [task._id]);
+
+  const threads = task.comments.filter(comment => !comment.parent);
+  const repliesTo = (commentId: string) => task.comments.filter(comment => comment.parent === commentId);
+
+  const handleAdd = async (text: string, parent?: string) => {
+    try {
+      const res = await tasksAPI.addComment(task._id, text, parent);
+      onChange(res.data.task);
+      setReplyingTo(null);
+      return true;
+    } catch (error) {
+      showError(error, 'Failed to add comment.');
+      return false;
+    }
+  };
+
+  const handleEdit = async (commentId: string, text: string) => {
+    try {
+      const res = await tasksAPI.updateComment(task._id, commentId, text);
+      onChange(res.data.task);
+      setEditing(null);
+      return true;
+    } catch (error) {
+      showError(error, 'Failed to update comment.');
+      return false;
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!window.confirm('Are you sure you want to delete this comment?')) return;
+    try {
+      const res = await tasksAPI.deleteComment(task._id, commentId);
+      onChange(res.data.task);
+    } catch (error) {
+      showError(error, 'Failed to delete comment.');
+    }
+  };
+
+  const handleReaction = async (commentId: string, emoji: string) => {
+    setPickingReaction(null);
+    try {
+      const res = await tasksAPI.toggleReaction(task._id, commentId, emoji);
+      onChange(res.data.task);
+    } catch (error) {
+      showError(error, 'Failed to update reaction.');
+    }
+  };
+
+  const renderComment = (comment: Comment) => {
+    if (comment.deletedAt) {
+      return <p className="text-sm text-gray-500 italic bg-gray-50 p-2 rounded-md">This comment was deleted.</p>;
+    }
+
+    const isAuthor = currentUser?._id === comment.author._id;
+    return (
+      <div className="text-sm bg-gray-50 p-2 rounded-md">
+        <div className="flex justify-between items-center mb-1">
+          <span className="font-semibold">{comment.author.name}</span>
+          <span className="text-xs text-gray-500">
+            {new Date(comment.createdAt).toLocaleString()}
+            {comment.editedAt && <span title={new Date(comment.editedAt).toLocaleString()}> · edited</span>}
+          </span>
+        </div>
+
+        {editing === comment._id ? (
+          <CommentEditor
+            users={users}
+            initialText={comment.text}
+            placeholder="Edit comment..."
+            submitLabel="Save"
+            onSubmit={(text) => handleEdit(comment._id, text)}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <CommentBody text={comment.text} />
+        )}
+
+        <div className="flex flex-wrap items-center gap-1 mt-2">
+          {comment.reactions.map(reaction => {
+            const reacted = reaction.users.some(user => user._id === currentUser?._id);
+            return (
+              <button
+                key={reaction.emoji}
+                type="button"
+                onClick={() => handleReaction(comment._id, reaction.emoji)}
+                title={reaction.users.map(user => user.name).join(', ')}
+                className={`px-1.5 py-0.5 rounded-full text-xs border ${reacted ? 'bg-primary-50 border-primary-300' : 'bg-white border-gray-200'}`}
+              >
+                {reaction.emoji} {reaction.users.length}
+              </button>
+            );
+          })}
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setPickingReaction(pickingReaction === comment._id ? null : comment._id)}
+              className="p-1 text-gray-400 hover:text-gray-600"
+              title="Add reaction"
+            >
+              <SmilePlus className="w-4 h-4" />
+            </button>
+            {pickingReaction === comment._id && (
+              <div className="absolute left-0 z-20 mt-1 flex gap-1 bg-white border border-gray-200 rounded-md shadow-lg p-1">
+                {COMMENT_REACTIONS.map(emoji => (
+                  <button key={emoji} type="button" onClick={() => handleReaction(comment._id, emoji)} className="p-1 hover:bg-gray-100 rounded">
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="ml-auto flex gap-3 text-xs">
+            {!comment.parent && (
+              <button type="button" onClick={() => setReplyingTo(comment._id)} className="text-gray-600 hover:text-gray-800">Reply</button>
+            )}
+            {isAuthor && editing !== comment._id && (
+              <button type="button" onClick={() => setEditing(comment._id)} className="text-gray-600 hover:text-gray-800">Edit</button>
+            )}
+            {(isAuthor || isModerator) && (
+              <button type="button" onClick={() => handleDelete(comment._id)} className="text-danger-600 hover:text-danger-800">Delete</button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-2">Comments</h3>
+      <div className="space-y-3 max-h-96 overflow-y-auto pr-2">
+        {threads.map(thread => (
+          <div key={thread._id} className="space-y-2">
+            {renderComment(thread)}
+            {(repliesTo(thread._id).length > 0 || replyingTo === thread._id) && (
+              <div className="ml-6 space-y-2">
+                {repliesTo(thread._id).map(reply => (
+                  <div key={reply._id} className="flex gap-1">
+                    <CornerDownRight className="w-4 h-4 mt-2 text-gray-300 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">{renderComment(reply)}</div>
+                  </div>
+                ))}
+                {replyingTo === thread._id && (
+                  <CommentEditor
+                    users={users}
+                    placeholder="Write a reply..."
+                    onSubmit={(text) => handleAdd(text, thread._id)}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="mt-4">
+        <CommentEditor users={users} placeholder="Add a comment..." onSubmit={(text) => handleAdd(text)} />
+      </div>
+    </div>
+  );
+}
+
+export default TaskComments;
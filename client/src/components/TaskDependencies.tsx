@@ -0,0 +1,147 @@
+import { useState, useEffect } from 'react';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
+import { Lock, Plus, X } from 'lucide-react';
+import { tasksAPI } from '../services/api';
+import { Task, TaskDependencies as Dependencies, TaskDependency } from '../types';
+
+interface TaskDependenciesProps {
+  taskId: string;
+  canEdit: boolean;
+  onChange?: (changes: { isBlocked: boolean; blockedBy: string[] }) => void;
+}
+
+const statusStyles: { [key: string]: string } = {
+  completed: 'bg-success-100 text-success-800',
+  'in-progress': 'bg-blue-100 text-blue-800',
+  todo: 'bg-gray-100 text-gray-800',
+};
+
+function DependencyRow({ dependency, onRemove }: { dependency: TaskDependency; onRemove?: () => void }) {
+  return (
+    <div className="flex items-center justify-between gap-2 p-2 bg-gray-50 rounded-md text-sm">
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900 truncate">{dependency.title}</p>
+        <p className="text-xs text-gray-500">
+          {dependency.assignedTo?.name ?? 'Unassigned'} · Due {format(new Date(dependency.dueDate), 'MMM dd, yyyy')}
+        </p>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusStyles[dependency.status]}`}>
+          {dependency.status.replace('-', ' ')}
+        </span>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="text-danger-600 hover:text-danger-800" title="Remove dependency">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TaskDependencies({ taskId, canEdit, onChange }: TaskDependenciesProps) {
+  const [dependencies, setDependencies] = useState<Dependencies | null>(null);
+  const [candidates, setCandidates] = useState<Task[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+
+  useEffect(() => {
+    const fetchDependencies = async () => {
+      try {
+        const [dependenciesRes, tasksRes] = await Promise.all([
+          tasksAPI.getDependencies(taskId),
+          canEdit ? tasksAPI.getAll({ limit: 100, sortBy: 'dueDate', sortOrder: 'asc' }) : Promise.resolve(null),
+        ]);
+        setDependencies(dependenciesRes.data);
+        setCandidates(tasksRes?.data.tasks || []);
+      } catch (error) {
+        console.error('Failed to fetch task dependencies:', error);
+      }
+    };
+    fetchDependencies();
+  }, [taskId, canEdit]);
+
+  const refresh = async (changes: { isBlocked: boolean; blockedBy: string[] }) => {
+    const res = await tasksAPI.getDependencies(taskId);
+    setDependencies(res.data);
+    onChange?.(changes);
+  };
+
+  const handleAdd = async () => {
+    if (!selectedId) return;
+    try {
+      const res = await tasksAPI.addDependency(taskId, selectedId);
+      setSelectedId('');
+      await refresh(res.data);
+    } catch (error) {
+      console.error('Failed to add dependency:', error);
+      const message = isAxiosError(error) ? error.response?.data?.message : undefined;
+      alert(message || 'Failed to add dependency.');
+    }
+  };
+
+  const handleRemove = async (prerequisiteId: string) => {
+    try {
+      const res = await tasksAPI.removeDependency(taskId, prerequisiteId);
+      await refresh(res.data);
+    } catch (error) {
+      console.error('Failed to remove dependency:', error);
+      alert('Failed to remove dependency.');
+    }
+  };
+
+  if (!dependencies) {
+    return <p className="text-sm text-gray-500">Loading dependencies...</p>;
+  }
+
+  const linkedIds = new Set([taskId, ...dependencies.blockedBy.map(d => d._id), ...dependencies.blocks.map(d => d._id)]);
+  const available = candidates.filter(candidate => !linkedIds.has(candidate._id));
+
+  return (
+    <div className="space-y-6">
+      {dependencies.isBlocked && (
+        <div className="flex items-center p-3 text-sm rounded-md bg-warning-50 text-warning-800">
+          <Lock className="w-4 h-4 mr-2 flex-shrink-0" />
+          This task is blocked until all of its prerequisites are completed.
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Blocked by</h3>
+        <div className="space-y-2">
+          {dependencies.blockedBy.map(dependency => (
+            <DependencyRow
+              key={dependency._id}
+              dependency={dependency}
+              onRemove={canEdit ? () => handleRemove(dependency._id) : undefined}
+            />
+          ))}
+          {dependencies.blockedBy.length === 0 && <p className="text-sm text-gray-500">No prerequisites.</p>}
+        </div>
+        {canEdit && (
+          <div className="mt-3 flex items-center gap-2">
+            <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className="select-field">
+              <option value="">Select a prerequisite task</option>
+              {available.map(candidate => <option key={candidate._id} value={candidate._id}>{candidate.title}</option>)}
+            </select>
+            <button type="button" onClick={handleAdd} disabled={!selectedId} className="btn-primary p-2">
+              <Plus className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Blocks</h3>
+        <div className="space-y-2">
+          {dependencies.blocks.map(dependency => (
+            <DependencyRow key={dependency._id} dependency={dependency} />
+          ))}
+          {dependencies.blocks.length === 0 && <p className="text-sm text-gray-500">No tasks are waiting on this one.</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TaskDependencies;
@@ -0,0 +1,160 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { ArrowRight, Clock } from 'lucide-react';
+import { tasksAPI } from '../services/api';
+import { getActivityActor } from '../utils/activity';
+import { TaskHistoryEntry, TaskHistoryField, TaskHistoryValue, TaskSnapshot } from '../types';
+
+interface TaskHistoryProps {
+  taskId: string;
+}
+
+const fieldLabels: Record<TaskHistoryField, string> = {
+  title: 'Title',
+  description: 'Description',
+  category: 'Category',
+  priority: 'Priority',
+  status: 'Status',
+  dueDate: 'Due date',
+  assignedTo: 'Assignee',
+  customer: 'Customer',
+};
+
+const actionLabels: { [key: string]: string } = {
+  CREATE_TASK: 'created the task',
+  ADD_COMMENT: 'added a comment',
+  UPDATE_COMMENT: 'edited a comment',
+  DELETE_COMMENT: 'deleted a comment',
+  UPLOAD_ATTACHMENT: 'uploaded an attachment',
+  ADD_SUBTASK: 'added a subtask',
+  UPDATE_SUBTASK: 'updated a subtask',
+  DELETE_SUBTASK: 'removed a subtask',
+  ADD_CHECKLIST_ITEM: 'added a checklist item',
+  UPDATE_CHECKLIST_ITEM: 'updated a checklist item',
+  DELETE_CHECKLIST_ITEM: 'removed a checklist item',
+  ADD_DEPENDENCY: 'added a prerequisite',
+  REMOVE_DEPENDENCY: 'removed a prerequisite',
+  ESCALATE_TASK: 'escalated the overdue task',
+};
+
+const formatValue = (field: TaskHistoryField, value: TaskHistoryValue) => {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'object') return value.name ?? 'Unknown';
+  if (field === 'dueDate') return format(new Date(value), 'MMM dd, yyyy HH:mm');
+  if (field === 'status') return value.replace('-', ' ');
+  return value;
+};
+
+function TaskHistory({ taskId }: TaskHistoryProps) {
+  const [history, setHistory] = useState<TaskHistoryEntry[]>([]);
+  const [complete, setComplete] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [at, setAt] = useState('');
+  const [snapshot, setSnapshot] = useState<TaskSnapshot | null>(null);
+  const [snapshotLoaded, setSnapshotLoaded] = useState(false);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      try {
+        const res = await tasksAPI.getHistory(taskId);
+        setHistory(res.data.history);
+        setComplete(res.data.complete !== false);
+      } catch (error) {
+        console.error('Failed to fetch task history:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchHistory();
+  }, [taskId]);
+
+  const handleReconstruct = async () => {
+    if (!at) return;
+    try {
+      const res = await tasksAPI.getHistory(taskId, new Date(at).toISOString());
+      setSnapshot(res.data.snapshot);
+      setSnapshotLoaded(true);
+    } catch (error) {
+      console.error('Failed to reconstruct task:', error);
+      alert('Failed to reconstruct task.');
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Point-in-time view */}
+      <div className="p-3 bg-gray-50 rounded-md space-y-2">
+        <label htmlFor="historyAt" className="block text-sm font-medium text-gray-700">View task as of</label>
+        <div className="flex items-center gap-2">
+          <input
+            id="historyAt"
+            type="datetime-local"
+            value={at}
+            onChange={(e) => { setAt(e.target.value); setSnapshotLoaded(false); }}
+            className="input-field"
+          />
+          <button type="button" onClick={handleReconstruct} disabled={!at} className="btn-secondary">Show</button>
+        </div>
+        {snapshotLoaded && (
+          snapshot ? (
+            <dl className="text-sm grid grid-cols-3 gap-x-2 gap-y-1 pt-2">
+              {(Object.keys(fieldLabels) as TaskHistoryField[]).map(field => (
+                <div key={field} className="contents">
+                  <dt className="font-medium text-gray-600">{fieldLabels[field]}</dt>
+                  <dd className="col-span-2 text-gray-800 break-words">{formatValue(field, snapshot[field])}</dd>
+                </div>
+              ))}
+            </dl>
+          ) : (
+            <p className="text-sm text-gray-500">The task did not exist at that time.</p>
+          )
+        )}
+      </div>
+
+      {!complete && (
+        <p className="text-xs text-warning-800 bg-warning-50 rounded-md p-2">
+          Some changes to this task weren't recorded, so the history and past views may be incomplete.
+        </p>
+      )}
+
+      {/* Change list */}
+      {history.length > 0 ? (
+        <ul className="space-y-3 max-h-72 overflow-y-auto pr-2">
+          {history.map(entry => (
+            <li key={entry._id} className="text-sm border-l-2 border-gray-200 pl-3">
+              <div className="flex justify-between items-center mb-1">
+                <span className="font-semibold">
+                  {getActivityActor(entry)}
+                  {entry.changes.length === 0 && (
+                    <span className="font-normal text-gray-600"> {actionLabels[entry.action] ?? entry.action.toLowerCase()}</span>
+                  )}
+                </span>
+                <span className="text-xs text-gray-500 flex items-center">
+                  <Clock className="w-3 h-3 mr-1" />
+                  {format(new Date(entry.createdAt), 'MMM dd, yyyy HH:mm')}
+                </span>
+              </div>
+              {entry.changes.map(change => (
+                <div key={change.field} className="flex flex-wrap items-center gap-1 text-gray-700">
+                  <span className="font-medium">{fieldLabels[change.field]}:</span>
+                  <span className="line-through text-gray-500 break-all">{formatValue(change.field, change.from)}</span>
+                  <ArrowRight className="w-3 h-3 text-gray-400" />
+                  <span className="break-all">{formatValue(change.field, change.to)}</span>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No changes recorded yet.</p>
+      )}
+    </div>
+  );
+}
+
+export default TaskHistory;
@@ -1,27 +1,34 @@
 import React, { useState, useEffect, ChangeEvent, FormEvent } from 'react';
 import { Task, TaskInput, IUser as User, TaskCategory } from '../types';
-import { usersAPI, taskCategoriesAPI, tasksAPI } from '../services/api';
+import { usersAPI, taskCategoriesAPI, tasksAPI, authAPI } from '../services/api';
 import { useAuth } from '../contexts/AuthContext';
-import { Paperclip, Send, Trash2 } from 'lucide-react';
-
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000';
+import TaskHistory from './TaskHistory';
+import TaskSubtasks from './TaskSubtasks';
+import TaskComments from './TaskComments';
+import TaskAttachments from './TaskAttachments';
+import TaskDependencies from './TaskDependencies';
+import RecurrenceFields from './RecurrenceFields';
+import ReminderFields from './ReminderFields';
+import MuteButton from './MuteButton';
+import { getAvailableTransitions, getCurrentStatus, getWorkflow } from '../utils/workflow';
 
 interface TaskModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: (task: TaskInput) => void;
   taskToEdit?: Task | null;
+  onTaskChange?: (task: Task) => void; // subtask, checklist and dependency changes are saved immediately
 }
 
-const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, taskToEdit }) => {
+const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, taskToEdit, onTaskChange }) => {
   const { user: currentUser } = useAuth();
   const isReadOnly = !(currentUser?.role === 'admin' || currentUser?.role === 'manager');
   const [task, setTask] = useState<Partial<TaskInput>>({});
   const [fullTask, setFullTask] = useState<Task | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [categories, setCategories] = useState<TaskCategory[]>([]);
-  const [newComment, setNewComment] = useState('');
-  const [file, setFile] = useState<File | null>(null);
+  const [activeTab, setActiveTab] = useState<'discussion' | 'subtasks' | 'dependencies' | 'history'>('discussion');
+  const [isMuted, setIsMuted] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
@@ -35,8 +42,12 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, taskToEd
           setCategories(categoriesRes.data.categories || []);
 
           if (taskToEdit) {
-            const taskRes = await tasksAPI.getById(taskToEdit._id);
+            const [taskRes, preferencesRes] = await Promise.all([
+              tasksAPI.getById(taskToEdit._id),
+              authAPI.getNotificationPreferences(),
+            ]);
             const fetchedTask = taskRes.data.task;
+            setIsMuted(preferencesRes.data.notificationPreferences.mutedTasks.some((muted: { _id: string }) => muted._id === fetchedTask._id));
             setFullTask(fetchedTask);
             setTask({
               ...fetchedTask,
@@ -52,6 +63,7 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, taskToEd
               priority: 'medium',
               status: 'todo',
               dueDate: new Date().toISOString(),
+              reminders: [24 * 60, 60],
               assignedTo: currentUser?._id,
               category: categoriesRes.data.categories.length > 0 ? categoriesRes.data.categories[0]._id : '',
             });
@@ -64,8 +76,7 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, taskToEd
     } else {
       setTask({});
       setFullTask(null);
-      setNewComment('');
-      setFile(null);
+      setActiveTab('discussion');
     }
   }, [isOpen, taskToEdit, currentUser]);
 
@@ -74,63 +85,12 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, taskToEd
     setTask(prev => ({ ...prev, [name]: value }));
   };
 
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files) {
-      setFile(e.target.files[0]);
-    }
-  };
-
-  const handleUploadAttachment = async () => {
-    if (!file || !fullTask) return;
-    const formData = new FormData();
-    formData.append('attachments', file);
-    try {
-      const res = await tasksAPI.uploadAttachment(fullTask._id, formData);
-      setFullTask(res.data.task);
-      setFile(null);
-    } catch (error) {
-      console.error('Failed to upload file:', error);
-      alert('Failed to upload file.');
-    }
-  };
-
-  const handleDeleteAttachment = async (attachmentId: string) => {
-    if (!fullTask) return;
-    if (window.confirm('Are you sure you want to delete this attachment?')) {
-      try {
-        const res = await tasksAPI.deleteAttachment(fullTask._id, attachmentId);
-        setFullTask(res.data.task);
-      } catch (error) {
-        console.error('Failed to delete attachment:', error);
-        alert('Failed to delete attachment.');
-      }
-    }
-  };
-
-  const handleAddComment = async () => {
-    if (!newComment.trim() || !fullTask) return;
-    try {
-      const res = await tasksAPI.addComment(fullTask._id, newComment);
-      setFullTask(res.data.task);
-      setNewComment('');
-    } catch (error) {
-      console.error('Failed to add comment:', error);
-      alert('Failed to add comment.');
-    }
-  };
-
-  const handleDeleteComment = async (commentId: string) => {
-    if (!fullTask) return;
-    if (window.confirm('Are you sure you want to delete this comment?')) {
-      try {
-        const res = await tasksAPI.deleteComment(fullTask._id, commentId);
-        setFullTask(res.data.task);
-      } catch (error) {
-        console.error('Failed to delete comment:', error);
-        alert('Failed to delete comment.');
-      }
-    }
-  };
+  // Status options come from the workflow of the selected category
+  const workflow = getWorkflow(categories.find(cat => cat._id === task.category));
+  const currentStatus = getCurrentStatus(workflow, fullTask ?? { status: 'todo', workflowStatus: workflow.initialStatus });
+  const transitions = fullTask ? getAvailableTransitions(workflow, currentStatus.key, currentUser?.role) : [];
+  const selectedTransition = transitions.find(({ status }) => status.key === task.workflowStatus)?.transition;
+  const requiredFields = selectedTransition?.requiredFields ?? [];
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
@@ -138,7 +98,8 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, taskToEd
       alert('Please fill in all required fields.');
       return;
     }
-    onSave(task as TaskInput);
+    // Only send a status the selected category's workflow can move to
+    onSave({ ...task, workflowStatus: selectedTransition ? task.workflowStatus : currentStatus.key } as TaskInput);
   };
 
   if (!isOpen) return null;
@@ -146,7 +107,17 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, taskToEd
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
       <div className="w-full max-w-3xl p-6 bg-white rounded-lg max-h-[90vh] overflow-y-auto">
-        <h2 className="mb-4 text-2xl font-bold">{taskToEdit ? 'Edit Task' : 'New Task'}</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold">{taskToEdit ? 'Edit Task' : 'New Task'}</h2>
+          {fullTask && (
+            <MuteButton
+              target="tasks"
+              id={fullTask._id}
+              isMuted={isMuted}
+              onChange={(preferences) => setIsMuted(preferences.mutedTasks.some(muted => muted._id === fullTask._id))}
+            />
+          )}
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Left side: Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
@@ -177,18 +148,46 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, taskToEd
                 </select>
               </div>
               <div>
-                <label htmlFor="status" className="block text-sm font-medium text-gray-700">Status</label>
-                <select id="status" name="status" value={task.status || 'todo'} onChange={handleChange} className="select-field" disabled={isReadOnly}>
-                  <option value="todo">To Do</option>
-                  <option value="in-progress">In Progress</option>
-                  <option value="completed">Completed</option>
+                <label htmlFor="workflowStatus" className="block text-sm font-medium text-gray-700">Status</label>
+                <select
+                  id="workflowStatus"
+                  name="workflowStatus"
+                  value={transitions.some(({ status }) => status.key === task.workflowStatus) ? task.workflowStatus : currentStatus.key}
+                  onChange={handleChange}
+                  className="select-field"
+                  disabled={isReadOnly || !fullTask}
+                >
+                  <option value={currentStatus.key}>{currentStatus.name}</option>
+                  {transitions.map(({ status }) => <option key={status.key} value={status.key}>{status.name}</option>)}
                 </select>
               </div>
             </div>
+            {(requiredFields.includes('resolution') || fullTask?.resolution) && (
+              <div>
+                <label htmlFor="resolution" className="block text-sm font-medium text-gray-700">Resolution</label>
+                <textarea id="resolution" name="resolution" value={task.resolution || ''} onChange={handleChange} className="input-field" rows={2} required={requiredFields.includes('resolution')} disabled={isReadOnly}></textarea>
+              </div>
+            )}
+            {requiredFields.includes('comment') && (
+              <div>
+                <label htmlFor="comment" className="block text-sm font-medium text-gray-700">Status change comment</label>
+                <textarea id="comment" name="comment" value={task.comment || ''} onChange={handleChange} className="input-field" rows={2} required disabled={isReadOnly}></textarea>
+              </div>
+            )}
             <div>
               <label htmlFor="dueDate" className="block text-sm font-medium text-gray-700">Due Date</label>
               <input id="dueDate" name="dueDate" type="datetime-local" value={task.dueDate ? new Date(task.dueDate).toISOString().substring(0, 16) : ''} onChange={handleChange} className="input-field" required disabled={isReadOnly} />
             </div>
+            <RecurrenceFields
+              value={task.recurrence}
+              onChange={(recurrence) => setTask(prev => ({ ...prev, recurrence }))}
+              disabled={isReadOnly}
+            />
+            <ReminderFields
+              value={task.reminders}
+              onChange={(reminders) => setTask(prev => ({ ...prev, reminders }))}
+              disabled={isReadOnly}
+            />
             <div>
               <label htmlFor="assignedTo" className="block text-sm font-medium text-gray-700">Assign To</label>
               <select id="assignedTo" name="assignedTo" value={task.assignedTo || ''} onChange={handleChange} className="select-field" required disabled={isReadOnly}>
@@ -204,71 +203,69 @@ const TaskModal: React.FC<TaskModalProps> = ({ isOpen, onClose, onSave, taskToEd
             )}
           </form>
 
-          {/* Right side: Attachments and Comments */}
+          {/* Right side: Attachments, Comments, Subtasks, Dependencies and History */}
           <div className="space-y-6">
-            {/* Attachments Section */}
             {fullTask && (
-              <div>
-                <h3 className="text-lg font-medium text-gray-900 mb-2">Attachments</h3>
-                <div className="space-y-2">
-                  {fullTask.attachments.map(att => (
-                    <div key={att._id} className="flex items-center justify-between p-2 bg-gray-50 rounded-md">
-                      <a href={`${API_URL}/${att.path}`} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline truncate flex items-center">
-                        <Paperclip className="w-4 h-4 mr-2" />
-                        {att.filename}
-                      </a>
-                      {!isReadOnly && (
-                        <button onClick={() => handleDeleteAttachment(att._id)} className="text-danger-600 hover:text-danger-800">
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      )}
-                    </div>
-                  ))}
-                </div>
-                {!isReadOnly && (
-                  <div className="mt-4 flex items-center gap-2">
-                    <input type="file" onChange={handleFileChange} className="text-sm" />
-                    <button onClick={handleUploadAttachment} disabled={!file} className="btn-secondary btn-sm">Upload</button>
-                  </div>
-                )}
+              <div className="flex border-b border-gray-200">
+                {(['discussion', 'subtasks', 'dependencies', 'history'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    type="button"
+                    onClick={() => setActiveTab(tab)}
+                    className={`px-4 py-2 text-sm font-medium capitalize -mb-px border-b-2 ${
+                      activeTab === tab
+                        ? 'border-primary-600 text-primary-700'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {tab}
+                  </button>
+                ))}
               </div>
             )}
 
+            {/* Subtasks and Checklist Section */}
+            {fullTask && activeTab === 'subtasks' && (
+              <TaskSubtasks
+                task={fullTask}
+                users={users}
+                onChange={(updatedTask) => { setFullTask(updatedTask); onTaskChange?.(updatedTask); }}
+              />
+            )}
+
+            {/* Dependencies Section */}
+            {fullTask && activeTab === 'dependencies' && (
+              <TaskDependencies
+                taskId={fullTask._id}
+                canEdit={!isReadOnly}
+                onChange={(changes) => {
+                  const updatedTask = { ...fullTask, ...changes };
+                  setFullTask(updatedTask);
+                  onTaskChange?.(updatedTask);
+                }}
+              />
+            )}
+
+            {/* History Section */}
+            {fullTask && activeTab === 'history' && (
+              <TaskHistory taskId={fullTask._id} />
+            )}
+
+            {/* Attachments Section */}
+            {fullTask && activeTab === 'discussion' && (
+              <TaskAttachments
+                task={fullTask}
+                canEdit={!isReadOnly}
+                onChange={(updatedTask) => { setFullTask(updatedTask); onTaskChange?.(updatedTask); }}
+              />
+            )}
+
             {/* Comments Section */}
-            {fullTask && (
-              <div>
-                <h3 className="text-lg font-medium text-gray-900 mb-2">Comments</h3>
-                <div className="space-y-3 max-h-48 overflow-y-auto pr-2">
-                  {fullTask.comments.map(comment => (
-                    <div key={comment._id} className="text-sm bg-gray-50 p-2 rounded-md">
-                      <div className="flex justify-between items-center mb-1">
-                        <span className="font-semibold">{comment.author.name}</span>
-                        <span className="text-xs text-gray-500">{new Date(comment.createdAt).toLocaleString()}</span>
-                      </div>
-                      <p className="text-gray-700 whitespace-pre-wrap">{comment.text}</p>
-                      {(currentUser?._id === comment.author._id || ['admin', 'manager'].includes(currentUser?.role ?? '')) && (
-                        <div className="text-right">
-                          <button onClick={() => handleDeleteComment(comment._id)} className="text-danger-600 hover:text-danger-800 text-xs">
-                            Delete
-                          </button>
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
-                <div className="mt-4 flex items-center gap-2">
-                  <input
-                    type="text"
-                    value={newComment}
-                    onChange={(e) => setNewComment(e.target.value)}
-                    placeholder="Add a comment..."
-                    className="input-field"
-                  />
-                  <button onClick={handleAddComment} className="btn-primary p-2">
-                    <Send className="w-5 h-5" />
-                  </button>
-                </div>
-              </div>
+            {fullTask && activeTab === 'discussion' && (
+              <TaskComments
+                task={fullTask}
+                onChange={(updatedTask) => { setFullTask(updatedTask); onTaskChange?.(updatedTask); }}
+              />
             )}
           </div>
         </div>
@@ -0,0 +1,218 @@
+import { useState, FormEvent } from 'react';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { tasksAPI } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Task, Subtask, IUser as User } from '../types';
+
+interface TaskSubtasksProps {
+  task: Task;
+  users: User[];
+  onChange: (task: Task) => void;
+}
+
+const showError = (error: unknown, fallback: string) => {
+  console.error(fallback, error);
+  const message = isAxiosError(error) ? error.response?.data?.message : undefined;
+  alert(message || fallback);
+};
+
+function TaskSubtasks({ task, users, onChange }: TaskSubtasksProps) {
+  const { user: currentUser } = useAuth();
+  const canAssignOthers = currentUser?.role === 'admin' || currentUser?.role === 'manager';
+  const [newSubtask, setNewSubtask] = useState({ title: '', assignedTo: '', dueDate: '' });
+  const [newItem, setNewItem] = useState('');
+
+  const progress = task.progress;
+  const isCompleted = task.status === 'completed';
+
+  const handleAddSubtask = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newSubtask.title.trim()) return;
+    try {
+      const res = await tasksAPI.addSubtask(task._id, {
+        title: newSubtask.title,
+        // Regular users can only pick themselves up as subtask assignees
+        assignedTo: canAssignOthers ? newSubtask.assignedTo || undefined : currentUser?._id,
+        dueDate: newSubtask.dueDate ? new Date(newSubtask.dueDate).toISOString() : undefined,
+      });
+      onChange(res.data.task);
+      setNewSubtask({ title: '', assignedTo: '', dueDate: '' });
+    } catch (error) {
+      showError(error, 'Failed to add subtask.');
+    }
+  };
+
+  const handleSubtaskStatus = async (subtask: Subtask, status: string) => {
+    try {
+      const res = await tasksAPI.updateSubtask(task._id, subtask._id, { status });
+      onChange(res.data.task);
+    } catch (error) {
+      showError(error, 'Failed to update subtask.');
+    }
+  };
+
+  const handleDeleteSubtask = async (subtaskId: string) => {
+    if (!window.confirm('Are you sure you want to delete this subtask?')) return;
+    try {
+      const res = await tasksAPI.deleteSubtask(task._id, subtaskId);
+      onChange(res.data.task);
+    } catch (error) {
+      showError(error, 'Failed to delete subtask.');
+    }
+  };
+
+  const handleAddItem = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+    try {
+      const res = await tasksAPI.addChecklistItem(task._id, newItem);
+      onChange(res.data.task);
+      setNewItem('');
+    } catch (error) {
+      showError(error, 'Failed to add checklist item.');
+    }
+  };
+
+  const handleToggleItem = async (itemId: string, isDone: boolean) => {
+    try {
+      const res = await tasksAPI.updateChecklistItem(task._id, itemId, { isDone });
+      onChange(res.data.task);
+    } catch (error) {
+      showError(error, 'Failed to update checklist item.');
+    }
+  };
+
+  const handleDeleteItem = async (itemId: string) => {
+    try {
+      const res = await tasksAPI.deleteChecklistItem(task._id, itemId);
+      onChange(res.data.task);
+    } catch (error) {
+      showError(error, 'Failed to delete checklist item.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {progress && progress.total > 0 && (
+        <div>
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>Progress</span>
+            <span>{progress.completed} of {progress.total} done ({progress.percent}%)</span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded-full">
+            <div className="h-2 bg-success-500 rounded-full" style={{ width: `${progress.percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {/* Subtasks */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Subtasks</h3>
+        <div className="space-y-2">
+          {task.subtasks.map(subtask => (
+            <div key={subtask._id} className="flex items-center justify-between gap-2 p-2 bg-gray-50 rounded-md text-sm">
+              <div className="min-w-0">
+                <p className={`font-medium truncate ${subtask.status === 'completed' ? 'line-through text-gray-500' : 'text-gray-900'}`}>
+                  {subtask.title}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {subtask.assignedTo?.name ?? 'Unassigned'}
+                  {subtask.dueDate && ` · Due ${format(new Date(subtask.dueDate), 'MMM dd, yyyy')}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <select
+                  value={subtask.status}
+                  onChange={(e) => handleSubtaskStatus(subtask, e.target.value)}
+                  className="text-xs border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="todo">To Do</option>
+                  <option value="in-progress">In Progress</option>
+                  <option value="completed">Completed</option>
+                </select>
+                <button type="button" onClick={() => handleDeleteSubtask(subtask._id)} className="text-danger-600 hover:text-danger-800">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          {task.subtasks.length === 0 && <p className="text-sm text-gray-500">No subtasks yet.</p>}
+        </div>
+        {!isCompleted && (
+          <form onSubmit={handleAddSubtask} className="mt-3 space-y-2">
+            <input
+              type="text"
+              value={newSubtask.title}
+              onChange={(e) => setNewSubtask(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="Add a subtask..."
+              className="input-field"
+            />
+            <div className="flex items-center gap-2">
+              {canAssignOthers && (
+                <select
+                  value={newSubtask.assignedTo}
+                  onChange={(e) => setNewSubtask(prev => ({ ...prev, assignedTo: e.target.value }))}
+                  className="select-field"
+                >
+                  <option value="">Task assignee</option>
+                  {users.map(user => <option key={user._id} value={user._id}>{user.name}</option>)}
+                </select>
+              )}
+              <input
+                type="date"
+                value={newSubtask.dueDate}
+                onChange={(e) => setNewSubtask(prev => ({ ...prev, dueDate: e.target.value }))}
+                className="input-field"
+              />
+              <button type="submit" disabled={!newSubtask.title.trim()} className="btn-primary p-2">
+                <Plus className="w-5 h-5" />
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      {/* Checklist */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Checklist</h3>
+        <ul className="space-y-1">
+          {task.checklist.map(item => (
+            <li key={item._id} className="flex items-center justify-between gap-2 text-sm">
+              <label className="flex items-center gap-2 min-w-0">
+                <input
+                  type="checkbox"
+                  checked={item.isDone}
+                  onChange={(e) => handleToggleItem(item._id, e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className={`truncate ${item.isDone ? 'line-through text-gray-500' : 'text-gray-800'}`}>{item.text}</span>
+              </label>
+              <button type="button" onClick={() => handleDeleteItem(item._id)} className="text-danger-600 hover:text-danger-800">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+          {task.checklist.length === 0 && <li className="text-sm text-gray-500">No checklist items yet.</li>}
+        </ul>
+        {!isCompleted && (
+          <form onSubmit={handleAddItem} className="mt-3 flex items-center gap-2">
+            <input
+              type="text"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              placeholder="Add a checklist item..."
+              className="input-field"
+            />
+            <button type="submit" disabled={!newItem.trim()} className="btn-primary p-2">
+              <Plus className="w-5 h-5" />
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default TaskSubtasks;
@@ -0,0 +1,100 @@
+import { useState, useEffect, useRef, FormEvent } from 'react';
+import { isAxiosError } from 'axios';
+import { TwoFactorSetupInfo } from '../types';
+import RecoveryCodes from './RecoveryCodes';
+
+interface TwoFactorEnrollmentProps {
+  start: () => Promise<TwoFactorSetupInfo>;
+  // Confirms the first code and resolves with the new recovery codes
+  enable: (code: string) => Promise<string[]>;
+  onDone: () => void;
+  onCancel?: () => void;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (isAxiosError(error) && error.response?.data?.message) || fallback;
+
+// Scan the QR code, confirm a first code, then save the recovery codes. Used
+// from Settings and, when a role requires two-factor, while logging in.
+function TwoFactorEnrollment({ start, enable, onDone, onCancel }: TwoFactorEnrollmentProps) {
+  const [setup, setSetup] = useState<TwoFactorSetupInfo | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  // Each start makes a new secret, so React strict mode's second effect run must not start again
+  const hasStarted = useRef(false);
+
+  useEffect(() => {
+    if (hasStarted.current) return;
+    hasStarted.current = true;
+    start()
+      .then(setSetup)
+      .catch(err => setError(getErrorMessage(err, 'Failed to start two-factor setup.')));
+  }, [start]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+    try {
+      setRecoveryCodes(await enable(code));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to enable two-factor authentication.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={onDone} />;
+  }
+
+  if (!setup) {
+    return error ? (
+      <div className="text-danger-600 text-sm text-center">{error}</div>
+    ) : (
+      <div className="flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy, then enter the
+        six-digit code it shows.
+      </p>
+      <img src={setup.qrCode} alt="Two-factor authentication QR code" className="mx-auto h-48 w-48" />
+      <p className="text-xs text-gray-500 text-center">
+        Can't scan it? Enter this key instead: <span className="font-mono text-gray-900 break-all">{setup.secret}</span>
+      </p>
+      <div>
+        <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700">Authentication code</label>
+        <input
+          id="twoFactorCode"
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          pattern="\d{6}"
+          maxLength={6}
+          required
+          value={code}
+          onChange={(e) => setCode(e.target.value.trim())}
+          placeholder="123456"
+          className="input-field"
+        />
+      </div>
+      {error && <div className="text-danger-600 text-sm">{error}</div>}
+      <div className="flex justify-end gap-2">
+        {onCancel && <button type="button" onClick={onCancel} className="btn-secondary">Cancel</button>}
+        <button type="submit" disabled={isSaving} className="btn-primary">
+          {isSaving ? 'Checking...' : 'Turn on two-factor'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default TwoFactorEnrollment;
@@ -0,0 +1,120 @@
+import React, { useState, useRef, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import { ShieldCheck } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { TwoFactorChallenge, User, useAuth } from '../contexts/AuthContext';
+import TwoFactorEnrollment from './TwoFactorEnrollment';
+
+interface TwoFactorLoginStepProps {
+  challenge: TwoFactorChallenge;
+  onCancel: () => void;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (isAxiosError(error) && error.response?.data?.message) || fallback;
+
+// The second login step: a code from the authenticator app, or setting two-factor up when the user's role requires it
+function TwoFactorLoginStep({ challenge, onCancel }: TwoFactorLoginStepProps) {
+  const { completeLogin } = useAuth();
+  const [code, setCode] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  // Enrolling signs in straight away, but the recovery codes are shown before moving on
+  const enrolledLogin = useRef<{ token: string; user: User } | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await authAPI.loginTwoFactor(challenge.challengeToken, code);
+      completeLogin(response.data.token, response.data.user);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to verify the code'));
+      setIsLoading(false);
+    }
+  };
+
+  const startSetup = useCallback(
+    async () => (await authAPI.loginTwoFactorSetup(challenge.challengeToken)).data,
+    [challenge]
+  );
+
+  const enable = useCallback(async (firstCode: string) => {
+    const response = await authAPI.loginTwoFactorEnable(challenge.challengeToken, firstCode);
+    enrolledLogin.current = { token: response.data.token, user: response.data.user };
+    return response.data.recoveryCodes as string[];
+  }, [challenge]);
+
+  const finishSetup = () => {
+    if (enrolledLogin.current) {
+      completeLogin(enrolledLogin.current.token, enrolledLogin.current.user);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-primary-100">
+            <ShieldCheck className="h-6 w-6 text-primary-600" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            {challenge.setupRequired ? 'Set up two-factor authentication' : 'Two-factor authentication'}
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            {challenge.setupRequired
+              ? 'Your role requires two-factor authentication. Set it up to finish signing in.'
+              : 'Enter the code from your authenticator app'}
+          </p>
+        </div>
+
+        {challenge.setupRequired ? (
+          <TwoFactorEnrollment start={startSetup} enable={enable} onDone={finishSetup} onCancel={onCancel} />
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            <div>
+              <label htmlFor="code" className="sr-only">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                name="code"
+                type="text"
+                autoComplete="one-time-code"
+                autoFocus
+                required
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+              <p className="mt-1 text-xs text-gray-500">Lost your phone? Enter one of your recovery codes instead.</p>
+            </div>
+
+            {error && (
+              <div className="text-danger-600 text-sm text-center">{error}</div>
+            )}
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-primary-600 hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          <button type="button" onClick={onCancel} className="font-medium text-primary-600 hover:text-primary-500">
+            Back to sign in
+          </button>
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default TwoFactorLoginStep;
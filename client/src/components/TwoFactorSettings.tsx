@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { authAPI } from '../services/api';
+import { TwoFactorStatus } from '../types';
+import TwoFactorEnrollment from './TwoFactorEnrollment';
+import RecoveryCodes from './RecoveryCodes';
+
+type Mode = 'idle' | 'enrolling' | 'disabling' | 'regenerating';
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (isAxiosError(error) && error.response?.data?.message) || fallback;
+
+// The current user's two-factor authentication: turn it on or off, or replace the recovery codes
+function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<Mode>('idle');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    authAPI.me()
+      .then(response => setStatus(response.data.user.twoFactor ?? { enabled: false, recoveryCodesRemaining: 0 }))
+      .catch(err => console.error('Failed to fetch two-factor status:', err));
+  }, []);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setPassword('');
+    setCode('');
+    setError('');
+  };
+
+  const startSetup = useCallback(async () => (await authAPI.setupTwoFactor()).data, []);
+
+  const enable = useCallback(async (firstCode: string) => {
+    const response = await authAPI.enableTwoFactor(firstCode);
+    setStatus(response.data.user.twoFactor);
+    return response.data.recoveryCodes as string[];
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+    try {
+      if (mode === 'disabling') {
+        const response = await authAPI.disableTwoFactor(password, code);
+        setStatus(response.data.user.twoFactor);
+      } else {
+        const response = await authAPI.regenerateRecoveryCodes(code);
+        setStatus(response.data.user.twoFactor);
+        setNewCodes(response.data.recoveryCodes);
+      }
+      switchMode('idle');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Something went wrong. Please try again.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!status) return null;
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900">Two-factor authentication</h2>
+          <p className="text-sm text-gray-600">Signing in also asks for a code from an authenticator app on your phone.</p>
+        </div>
+        {status.enabled ? (
+          <span className="flex items-center text-sm font-medium text-success-700">
+            <ShieldCheck className="h-4 w-4 mr-1" />
+            On
+          </span>
+        ) : (
+          <span className="flex items-center text-sm font-medium text-gray-500">
+            <ShieldOff className="h-4 w-4 mr-1" />
+            Off
+          </span>
+        )}
+      </div>
+
+      {newCodes ? (
+        <RecoveryCodes codes={newCodes} onDone={() => setNewCodes(null)} />
+      ) : mode === 'enrolling' ? (
+        <TwoFactorEnrollment start={startSetup} enable={enable} onDone={() => switchMode('idle')} onCancel={() => switchMode('idle')} />
+      ) : mode === 'disabling' || mode === 'regenerating' ? (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'disabling' && (
+            <div>
+              <label htmlFor="twoFactorPassword" className="block text-sm font-medium text-gray-700">Password</label>
+              <input
+                id="twoFactorPassword"
+                type="password"
+                autoComplete="current-password"
+                required
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="input-field"
+              />
+            </div>
+          )}
+          <div>
+            <label htmlFor="twoFactorCurrentCode" className="block text-sm font-medium text-gray-700">
+              Authentication code or recovery code
+            </label>
+            <input
+              id="twoFactorCurrentCode"
+              type="text"
+              autoComplete="one-time-code"
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="input-field"
+            />
+          </div>
+          {error && <div className="text-danger-600 text-sm">{error}</div>}
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => switchMode('idle')} className="btn-secondary">Cancel</button>
+            <button type="submit" disabled={isSaving} className={mode === 'disabling' ? 'btn-danger' : 'btn-primary'}>
+              {mode === 'disabling' ? 'Turn off two-factor' : 'Generate new codes'}
+            </button>
+          </div>
+        </form>
+      ) : status.enabled ? (
+        <div className="flex items-center justify-between text-sm">
+          <p className="text-gray-600">
+            {status.enabledAt && <>On since {format(new Date(status.enabledAt), 'MMM d, yyyy')}. </>}
+            <span className={status.recoveryCodesRemaining <= 2 ? 'text-warning-700 font-medium' : ''}>
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+            </span>
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => switchMode('regenerating')} className="btn-secondary">New recovery codes</button>
+            <button onClick={() => switchMode('disabling')} className="btn-danger">Turn off</button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex justify-end">
+          <button onClick={() => switchMode('enrolling')} className="btn-primary">Set up two-factor</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TwoFactorSettings;
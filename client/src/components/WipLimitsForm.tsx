@@ -0,0 +1,64 @@
+import { useState, FormEvent } from 'react';
+import { BoardColumn, WipLimits } from '../types';
+
+interface WipLimitsFormProps {
+  wipLimits: WipLimits;
+  onSave: (wipLimits: Record<BoardColumn, number | null>) => void;
+  onCancel: () => void;
+}
+
+const columns: { status: BoardColumn; label: string }[] = [
+  { status: 'todo', label: 'To Do' },
+  { status: 'in-progress', label: 'In Progress' },
+  { status: 'completed', label: 'Completed' },
+];
+
+function WipLimitsForm({ wipLimits, onSave, onCancel }: WipLimitsFormProps) {
+  const [values, setValues] = useState<Record<BoardColumn, string>>({
+    todo: wipLimits.todo?.toString() ?? '',
+    'in-progress': wipLimits['in-progress']?.toString() ?? '',
+    completed: wipLimits.completed?.toString() ?? '',
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    // An empty field removes the limit for that column
+    onSave({
+      todo: values.todo ? Number(values.todo) : null,
+      'in-progress': values['in-progress'] ? Number(values['in-progress']) : null,
+      completed: values.completed ? Number(values.completed) : null,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="card space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">WIP limits</h3>
+        <p className="text-sm text-gray-600">Maximum number of tasks allowed in each column. Leave empty for no limit.</p>
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        {columns.map(column => (
+          <div key={column.status}>
+            <label htmlFor={`wip-${column.status}`} className="block text-sm font-medium text-gray-700">{column.label}</label>
+            <input
+              id={`wip-${column.status}`}
+              type="number"
+              min={1}
+              max={1000}
+              value={values[column.status]}
+              onChange={(e) => setValues(prev => ({ ...prev, [column.status]: e.target.value }))}
+              placeholder="No limit"
+              className="input-field"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end space-x-4">
+        <button type="button" onClick={onCancel} className="btn-secondary">Cancel</button>
+        <button type="submit" className="btn-primary">Save Limits</button>
+      </div>
+    </form>
+  );
+}
+
+export default WipLimitsForm;
@@ -0,0 +1,203 @@
+import { useState, FormEvent } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { IUser, TransitionField, Workflow, WorkflowStage, WorkflowStatus, WorkflowTransition } from '../types';
+import { DEFAULT_WORKFLOW } from '../utils/workflow';
+
+interface WorkflowEditorProps {
+  categoryName: string;
+  workflow?: Workflow | null;
+  onSave: (workflow: Workflow | null) => void;
+  onCancel: () => void;
+}
+
+const stages: { value: WorkflowStage; label: string }[] = [
+  { value: 'todo', label: 'To Do' },
+  { value: 'in-progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+];
+
+const roles: IUser['role'][] = ['admin', 'manager', 'user'];
+const fields: TransitionField[] = ['comment', 'resolution'];
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+function WorkflowEditor({ categoryName, workflow, onSave, onCancel }: WorkflowEditorProps) {
+  const [statuses, setStatuses] = useState<WorkflowStatus[]>((workflow ?? DEFAULT_WORKFLOW).statuses);
+  const [initialStatus, setInitialStatus] = useState((workflow ?? DEFAULT_WORKFLOW).initialStatus);
+  const [transitions, setTransitions] = useState<WorkflowTransition[]>((workflow ?? DEFAULT_WORKFLOW).transitions);
+
+  const updateStatus = (index: number, changes: Partial<WorkflowStatus>) => {
+    const previousKey = statuses[index].key;
+    setStatuses(prev => prev.map((status, i) => i === index ? { ...status, ...changes } : status));
+
+    // Keep transitions and the initial status pointing at a renamed key
+    if (changes.key !== undefined && changes.key !== previousKey) {
+      setTransitions(prev => prev.map(transition => ({
+        ...transition,
+        from: transition.from === previousKey ? changes.key! : transition.from,
+        to: transition.to === previousKey ? changes.key! : transition.to,
+      })));
+      if (initialStatus === previousKey) setInitialStatus(changes.key);
+    }
+  };
+
+  const removeStatus = (index: number) => {
+    const { key } = statuses[index];
+    setStatuses(prev => prev.filter((_, i) => i !== index));
+    setTransitions(prev => prev.filter(transition => transition.from !== key && transition.to !== key));
+  };
+
+  const updateTransition = (index: number, changes: Partial<WorkflowTransition>) => {
+    setTransitions(prev => prev.map((transition, i) => i === index ? { ...transition, ...changes } : transition));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({ statuses, initialStatus, transitions });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg p-8 w-full max-w-3xl max-h-[90vh] overflow-y-auto space-y-6">
+        <div>
+          <h2 className="text-xl font-bold">{categoryName} workflow</h2>
+          <p className="text-sm text-gray-600">
+            Each status maps to a stage, which decides the board column and when a task counts as completed.
+          </p>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Statuses</h3>
+          <div className="space-y-2">
+            {statuses.map((status, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="text"
+                  value={status.key}
+                  onChange={(e) => updateStatus(index, { key: e.target.value })}
+                  placeholder="key"
+                  pattern="[a-z0-9\-]{1,30}"
+                  title="Lowercase letters, numbers and dashes"
+                  className="input-field col-span-3"
+                  required
+                />
+                <input
+                  type="text"
+                  value={status.name}
+                  onChange={(e) => updateStatus(index, { name: e.target.value })}
+                  placeholder="Name"
+                  maxLength={50}
+                  className="input-field col-span-5"
+                  required
+                />
+                <select
+                  value={status.stage}
+                  onChange={(e) => updateStatus(index, { stage: e.target.value as WorkflowStage })}
+                  className="select-field col-span-3"
+                >
+                  {stages.map(stage => <option key={stage.value} value={stage.value}>{stage.label}</option>)}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => removeStatus(index)}
+                  disabled={statuses.length === 1}
+                  className="col-span-1 text-gray-500 hover:text-danger-600 disabled:opacity-50"
+                  title="Remove status"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setStatuses(prev => [...prev, { key: '', name: '', stage: 'todo' }])}
+            className="mt-2 text-sm text-primary-600 hover:text-primary-800 flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add status
+          </button>
+        </div>
+
+        <div>
+          <label htmlFor="initialStatus" className="block text-sm font-medium text-gray-700">Initial status</label>
+          <select id="initialStatus" value={initialStatus} onChange={(e) => setInitialStatus(e.target.value)} className="select-field">
+            {statuses.filter(status => status.key).map(status => (
+              <option key={status.key} value={status.key}>{status.name || status.key}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Transitions</h3>
+          <p className="text-sm text-gray-600 mb-2">Leave every role unchecked to let anyone perform a transition. Admins can always perform them.</p>
+          <div className="space-y-3">
+            {transitions.map((transition, index) => (
+              <div key={index} className="p-3 bg-gray-50 rounded-md space-y-2">
+                <div className="flex items-center gap-2">
+                  <select value={transition.from} onChange={(e) => updateTransition(index, { from: e.target.value })} className="select-field">
+                    {statuses.map(status => <option key={status.key} value={status.key}>{status.name || status.key}</option>)}
+                  </select>
+                  <span className="text-gray-500">→</span>
+                  <select value={transition.to} onChange={(e) => updateTransition(index, { to: e.target.value })} className="select-field">
+                    {statuses.map(status => <option key={status.key} value={status.key}>{status.name || status.key}</option>)}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setTransitions(prev => prev.filter((_, i) => i !== index))}
+                    className="text-gray-500 hover:text-danger-600"
+                    title="Remove transition"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                  {roles.map(role => (
+                    <label key={role} className="flex items-center capitalize">
+                      <input
+                        type="checkbox"
+                        checked={transition.roles.includes(role)}
+                        onChange={() => updateTransition(index, { roles: toggle(transition.roles, role) })}
+                        className="mr-1"
+                      />
+                      {role}
+                    </label>
+                  ))}
+                  <span className="text-gray-300">|</span>
+                  {fields.map(field => (
+                    <label key={field} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={transition.requiredFields.includes(field)}
+                        onChange={() => updateTransition(index, { requiredFields: toggle(transition.requiredFields, field) })}
+                        className="mr-1"
+                      />
+                      Requires {field}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setTransitions(prev => [...prev, { from: statuses[0].key, to: statuses[statuses.length - 1].key, roles: [], requiredFields: [] }])}
+            className="mt-2 text-sm text-primary-600 hover:text-primary-800 flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add transition
+          </button>
+        </div>
+
+        <div className="flex justify-between">
+          <button type="button" onClick={() => onSave(null)} className="btn-secondary">Reset to default</button>
+          <div className="flex space-x-4">
+            <button type="button" onClick={onCancel} className="btn-secondary">Cancel</button>
+            <button type="submit" className="btn-primary">Save Workflow</button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default WorkflowEditor;
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, useMemo, useCallback } from 'react';
-import { api } from '../services/api';
+import { api, authAPI, refreshAccessToken } from '../services/api';
 
 export interface User {
   _id: string;
@@ -8,11 +8,19 @@ export interface User {
   role: 'admin' | 'manager' | 'user';
 }
 
+// A password that checked out, when signing in needs a second step
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  setupRequired: boolean; // the user's role requires two-factor and they haven't set it up yet
+}
+
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  logout: () => void;
+  // Resolves with a challenge when a code (or two-factor setup) is still needed
+  login: (email: string, password: string) => Promise<TwoFactorChallenge | null>;
+  completeLogin: (token: string, user: User) => void;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -30,42 +38,47 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
-      // Verify token is still valid
-      api.get('/auth/me')
-        .then(response => {
-          setUser(response.data.user);
-        })
-        .catch(() => {
-          localStorage.removeItem('token');
-          delete api.defaults.headers.common['Authorization'];
-        })
-        .finally(() => {
-          setIsLoading(false);
-        });
-    } else {
-      setIsLoading(false);
-    }
+    // Without a stored access token, the refresh cookie may still hold a session
+    const restore = localStorage.getItem('token')
+      ? api.get('/auth/me')
+      : refreshAccessToken().then(() => api.get('/auth/me'));
+
+    restore
+      .then(response => {
+        setUser(response.data.user);
+      })
+      .catch(() => {
+        localStorage.removeItem('token');
+      })
+      .finally(() => {
+        setIsLoading(false);
+      });
+  }, []);
+
+  const completeLogin = useCallback((token: string, userData: User) => {
+    localStorage.setItem('token', token);
+    setUser(userData);
   }, []);
 
   const login = useCallback(async (email: string, password: string) => {
-    try {
-      const response = await api.post('/auth/login', { email, password });
-      const { token, user: userData } = response.data;
+    const response = await api.post('/auth/login', { email, password });
+    const { token, user: userData, challengeToken, twoFactorSetupRequired } = response.data;
 
-      localStorage.setItem('token', token);
-      api.defaults.headers.common['Authorization'] = `Bearer ${token}`;
-      setUser(userData);
-    } catch (error) {
-      throw error;
+    if (challengeToken) {
+      return { challengeToken, setupRequired: !!twoFactorSetupRequired };
     }
-  }, []);
+    completeLogin(token, userData);
+    return null;
+  }, [completeLogin]);
 
-  const logout = useCallback(() => {
+  // Ends the session on the server too, so the refresh cookie can't be used again
+  const logout = useCallback(async () => {
+    try {
+      await authAPI.logout();
+    } catch (error) {
+      console.error('Failed to end the session on the server:', error);
+    }
     localStorage.removeItem('token');
-    delete api.defaults.headers.common['Authorization'];
     setUser(null);
   }, []);
 
@@ -73,8 +86,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     user,
     isLoading,
     login,
+    completeLogin,
     logout,
-  }), [user, isLoading, login, logout]);
+  }), [user, isLoading, login, completeLogin, logout]);
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { api, notificationsAPI, refreshAccessToken } from '../services/api';
+import { useAuth } from './AuthContext';
+import { RealtimeEvent } from '../types';
+
+type Handler = (data: unknown) => void;
+
+interface RealtimeContextType {
+  unreadCount: number;
+  subscribe: <T>(event: RealtimeEvent, handler: (data: T) => void) => () => void;
+}
+
+const events: RealtimeEvent[] = ['notification', 'unread-count', 'task', 'call'];
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+}
+
+export function RealtimeProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const handlers = useRef(new Map<RealtimeEvent, Set<Handler>>());
+
+  useEffect(() => {
+    const token = localStorage.getItem('token');
+    if (!user || !token) {
+      setUnreadCount(0);
+      return;
+    }
+
+    let source: EventSource | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let isStopped = false;
+
+    const connect = (accessToken: string) => {
+      // EventSource can't send headers, so the token goes in the query string
+      source = new EventSource(`${api.defaults.baseURL}/events?token=${encodeURIComponent(accessToken)}`);
+
+      // Also runs after automatic reconnects, catching up on anything missed meanwhile
+      source.onopen = () => {
+        notificationsAPI.getUnreadCount()
+          .then(response => setUnreadCount(response.data.count))
+          .catch(error => console.error('Failed to fetch unread notification count:', error));
+      };
+
+      // The browser retries dropped connections itself, but gives up once the
+      // server rejects the token; by then it has usually expired, so get a new one
+      source.onerror = () => {
+        if (source?.readyState !== EventSource.CLOSED) return;
+        reconnectTimer = setTimeout(() => {
+          refreshAccessToken()
+            .then(accessToken => {
+              if (!isStopped) connect(accessToken);
+            })
+            .catch(error => console.error('Failed to reconnect to live updates:', error));
+        }, 5000);
+      };
+
+      events.forEach(event => {
+        source?.addEventListener(event, (e) => {
+          const data = JSON.parse((e as MessageEvent).data);
+          if (event === 'unread-count') {
+            setUnreadCount(data.count);
+          }
+          handlers.current.get(event)?.forEach(handler => handler(data));
+        });
+      });
+    };
+
+    connect(token);
+
+    return () => {
+      isStopped = true;
+      clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, [user]);
+
+  const subscribe = useCallback(<T,>(event: RealtimeEvent, handler: (data: T) => void) => {
+    if (!handlers.current.has(event)) {
+      handlers.current.set(event, new Set());
+    }
+    const eventHandlers = handlers.current.get(event)!;
+    eventHandlers.add(handler as Handler);
+    return () => {
+      eventHandlers.delete(handler as Handler);
+    };
+  }, []);
+
+  const value = useMemo(() => ({
+    unreadCount,
+    subscribe,
+  }), [unreadCount, subscribe]);
+
+  return <RealtimeContext.Provider value={value}>{children}</RealtimeContext.Provider>;
+}
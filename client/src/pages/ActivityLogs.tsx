@@ -1,25 +1,60 @@
-import React, { useState, useEffect } from 'react';
-import { activityLogsAPI } from '../services/api';
-import { format } from 'date-fns';
-import { Edit, Plus, Trash2 } from 'lucide-react';
-import { ActivityLog } from '../types';
+import { useState, useEffect } from 'react';
+import { activityLogsAPI, usersAPI } from '../services/api';
+import { Filter } from 'lucide-react';
+import { ActivityLog, ActivityLogFilters, IUser } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import ActivityTimeline from '../components/ActivityTimeline';
 
-const iconMap: { [key: string]: React.ElementType } = {
-  CREATED: Plus,
-  UPDATED: Edit,
-  DELETED: Trash2,
-};
+const PAGE_SIZE = 20;
+
+const actionOptions = [
+  { value: '', label: 'All Actions' },
+  { value: 'CREATE_TASK,CREATE_CUSTOMER,CREATE_CALL', label: 'Created' },
+  { value: 'UPDATE_TASK,UPDATE_CUSTOMER,UPDATE_CALL', label: 'Updated' },
+  { value: 'DELETE_TASK,DELETE_CUSTOMER,DELETE_CALL', label: 'Deleted' },
+  { value: 'ADD_COMMENT,UPDATE_COMMENT,DELETE_COMMENT', label: 'Comments' },
+  { value: 'UPLOAD_ATTACHMENT', label: 'Attachments' },
+  { value: 'ADD_SUBTASK,UPDATE_SUBTASK,DELETE_SUBTASK,ADD_CHECKLIST_ITEM,UPDATE_CHECKLIST_ITEM,DELETE_CHECKLIST_ITEM', label: 'Subtasks & Checklists' },
+  { value: 'ADD_DEPENDENCY,REMOVE_DEPENDENCY', label: 'Dependencies' },
+  { value: 'ESCALATE_TASK', label: 'Escalations' },
+  { value: 'MERGE_CUSTOMER', label: 'Customer merges' },
+  { value: 'ENABLE_TWO_FACTOR,DISABLE_TWO_FACTOR,RESET_TWO_FACTOR,REGENERATE_RECOVERY_CODES,USE_RECOVERY_CODE', label: 'Two-factor' },
+  { value: 'LOCK_ACCOUNT,UNLOCK_ACCOUNT', label: 'Account lockouts' },
+];
 
 function ActivityLogs() {
+  const { user } = useAuth();
+  const canSeeEveryone = user?.role === 'admin' || user?.role === 'manager';
   const [logs, setLogs] = useState<ActivityLog[]>([]);
+  const [users, setUsers] = useState<IUser[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState<ActivityLogFilters>({ entity: '', action: '', user: '', startDate: '', endDate: '' });
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  useEffect(() => {
+    if (canSeeEveryone) {
+      usersAPI.getAll()
+        .then(response => setUsers(response.data.users || []))
+        .catch(error => console.error('Error fetching users:', error));
+    }
+  }, [canSeeEveryone]);
 
   useEffect(() => {
     const fetchLogs = async () => {
       setIsLoading(true);
       try {
-        const response = await activityLogsAPI.getAll();
+        // Drop empty filters so they aren't sent as blank query params
+        const params: ActivityLogFilters = { page, limit: PAGE_SIZE };
+        if (filters.entity) params.entity = filters.entity;
+        if (filters.action) params.action = filters.action;
+        if (filters.user) params.user = filters.user;
+        if (filters.startDate) params.startDate = new Date(filters.startDate).toISOString();
+        if (filters.endDate) params.endDate = new Date(`${filters.endDate}T23:59:59`).toISOString();
+
+        const response = await activityLogsAPI.getAll(params);
         setLogs(response.data.logs);
+        setTotalPages(Math.max(response.data.pagination.totalPages, 1));
       } catch (error) {
         console.error('Error fetching activity logs:', error);
       } finally {
@@ -27,59 +62,94 @@ function ActivityLogs() {
       }
     };
     fetchLogs();
-  }, []);
+  }, [filters, page]);
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
-      </div>
-    );
-  }
+  const handleFilterChange = (name: keyof ActivityLogFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [name]: value }));
+    setPage(1);
+  };
 
   return (
-    <div className="space-y-6">
+    <div className="space-y-6 w-full">
       <div>
         <h1 className="text-3xl font-bold text-gray-900">Activity Logs</h1>
-        <p className="text-gray-600 mt-1">A timeline of all actions taken in the workspace.</p>
+        <p className="text-gray-600 mt-1">
+          {canSeeEveryone ? 'A timeline of all actions taken in the workspace.' : 'A timeline of the actions you have taken.'}
+        </p>
       </div>
 
-      {logs.length > 0 ? (
-        <div className="flow-root">
-          <ul className="-mb-8">
-            {logs.map((log, logIdx) => {
-              const Icon = iconMap[log.action] || Edit;
-              return (
-                <li key={log._id}>
-                  <div className="relative pb-8">
-                    {logIdx !== logs.length - 1 ? (
-                      <span className="absolute top-4 left-4 -ml-px h-full w-0.5 bg-gray-200" aria-hidden="true" />
-                    ) : null}
-                    <div className="relative flex space-x-3">
-                      <div>
-                        <span className="h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center ring-8 ring-white">
-                          <Icon className="h-5 w-5 text-gray-500" />
-                        </span>
-                      </div>
-                      <div className="min-w-0 flex-1 pt-1.5 flex justify-between space-x-4">
-                        <div>
-                          <p className="text-sm text-gray-500">
-                            <span className="font-medium text-gray-900">{log.user.name}</span> {log.details}
-                          </p>
-                        </div>
-                        <div className="text-right text-sm whitespace-nowrap text-gray-500">
-                          <time dateTime={log.createdAt}>{format(new Date(log.createdAt), 'MMM dd, yyyy, h:mm a')}</time>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                </li>
-              )
-            })}
-          </ul>
+      {/* Filters */}
+      <div className="card">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <select
+            className="select-field"
+            value={filters.entity}
+            onChange={(e) => handleFilterChange('entity', e.target.value)}
+          >
+            <option value="">All Entities</option>
+            <option value="Task">Tasks</option>
+            <option value="Customer">Customers</option>
+            <option value="Call">Calls</option>
+            <option value="User">Users</option>
+          </select>
+          <select
+            className="select-field"
+            value={filters.action}
+            onChange={(e) => handleFilterChange('action', e.target.value)}
+          >
+            {actionOptions.map(option => (
+              <option key={option.label} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {canSeeEveryone && (
+            <select
+              className="select-field"
+              value={filters.user}
+              onChange={(e) => handleFilterChange('user', e.target.value)}
+            >
+              <option value="">All Users</option>
+              {users.map(u => <option key={u._id} value={u._id}>{u.name}</option>)}
+            </select>
+          )}
+          <input
+            type="date"
+            className="input-field"
+            value={filters.startDate}
+            onChange={(e) => handleFilterChange('startDate', e.target.value)}
+            title="From"
+          />
+          <input
+            type="date"
+            className="input-field"
+            value={filters.endDate}
+            onChange={(e) => handleFilterChange('endDate', e.target.value)}
+            title="To"
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        </div>
+      ) : logs.length > 0 ? (
+        <div className="card">
+          <ActivityTimeline logs={logs} />
+          <div className="flex items-center justify-between mt-10 pt-4 border-t">
+            <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="btn-secondary disabled:opacity-50">
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+            <button onClick={() => setPage(page + 1)} disabled={page >= totalPages} className="btn-secondary disabled:opacity-50">
+              Next
+            </button>
+          </div>
         </div>
       ) : (
         <div className="card text-center py-12">
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-gray-100 mb-4">
+            <Filter className="h-6 w-6 text-gray-400" />
+          </div>
           <h3 className="text-lg font-medium text-gray-900">No activities found</h3>
           <p className="text-gray-600">System activities will appear here.</p>
         </div>
@@ -0,0 +1,171 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
+import { ArrowLeft, CalendarClock, CheckSquare, Clock, Edit, Phone, User } from 'lucide-react';
+import { callsAPI } from '../services/api';
+import { Call, CallChangeEvent, CallInput } from '../types';
+import { useRealtime } from '../contexts/RealtimeContext';
+import CallModal from '../components/CallModal';
+
+function CallDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { subscribe } = useRealtime();
+  const [call, setCall] = useState<Call | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const loadCall = useCallback(async () => {
+    if (!id) return;
+    try {
+      const response = await callsAPI.getById(id);
+      setCall(response.data.call);
+      setError('');
+    } catch (error) {
+      console.error('Error fetching call:', error);
+      setCall(null);
+      setError((isAxiosError(error) && error.response?.data?.message) || 'Failed to load the call.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadCall();
+  }, [loadCall]);
+
+  useEffect(() => subscribe<CallChangeEvent>('call', ({ action, callId }) => {
+    if (callId !== id) return;
+    if (action === 'deleted') {
+      setCall(null);
+      setError('This call log was deleted.');
+    } else {
+      loadCall();
+    }
+  }), [subscribe, id, loadCall]);
+
+  const handleSaveCall = async (callData: CallInput) => {
+    if (!call) return;
+    try {
+      await callsAPI.update(call._id, callData);
+      // The update response doesn't include the linked calls, so fetch the full call again
+      await loadCall();
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error saving call:', error);
+      const data = isAxiosError(error) ? error.response?.data : undefined;
+      if (Array.isArray(data?.errors)) {
+        alert(`Validation failed: ${data.errors.map((err: { msg: string }) => err.msg).join(', ')}`);
+      } else {
+        alert(data?.message ? `Error: ${data.message}` : 'Failed to save call.');
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!call) {
+    return (
+      <div className="card text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">{error || 'Call not found'}</h3>
+        <Link to="/calls" className="text-primary-600 hover:underline">Back to calls</Link>
+      </div>
+    );
+  }
+
+  const followUpOf = typeof call.followUpOf === 'object' ? call.followUpOf : null;
+
+  return (
+    <div className="space-y-6 w-full">
+      <div>
+        <Link to="/calls" className="text-sm text-primary-600 hover:underline flex items-center mb-2">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to calls
+        </Link>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center">
+            <div className={`p-3 rounded-full ${call.callType === 'inbound' ? 'bg-success-100 text-success-600' : 'bg-blue-100 text-blue-600'}`}>
+              <Phone className="w-5 h-5" />
+            </div>
+            <div className="ml-3">
+              <h1 className="text-2xl font-bold text-gray-900">
+                <Link to={`/customers/${call.customer._id}`} className="hover:text-primary-600">{call.customer.companyName}</Link>
+              </h1>
+              <p className="text-gray-600 capitalize">{call.callType} call</p>
+            </div>
+          </div>
+          <button onClick={() => setIsEditing(true)} className="btn-secondary flex items-center">
+            <Edit className="w-4 h-4 mr-2" />
+            Edit
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="card lg:col-span-2">
+          <h2 className="text-lg font-medium text-gray-900 mb-2">Summary</h2>
+          <p className="text-gray-600 whitespace-pre-line">{call.summary}</p>
+          {call.outcome && (
+            <p className="text-sm mt-4">
+              <span className="font-medium text-gray-700">Outcome:</span>
+              <span className="ml-2 text-gray-600">{call.outcome}</span>
+            </p>
+          )}
+        </div>
+
+        <div className="card space-y-2">
+          <h2 className="text-lg font-medium text-gray-900 mb-2">Details</h2>
+          <p className="flex items-center text-sm text-gray-600">
+            <User className="w-4 h-4 mr-2" />
+            Logged by {call.user.name}
+          </p>
+          <p className="flex items-center text-sm text-gray-600">
+            <Clock className="w-4 h-4 mr-2" />
+            {format(new Date(call.createdAt), 'MMM dd, yyyy HH:mm')}
+            {!!call.duration && ` · ${Math.floor(call.duration / 60)}m ${call.duration % 60}s`}
+          </p>
+          {call.followUpRequired && call.followUpDate && (
+            <p className={`flex items-center text-sm ${new Date(call.followUpDate) < new Date() ? 'text-danger-600' : 'text-gray-600'}`}>
+              <CalendarClock className="w-4 h-4 mr-2" />
+              Follow up by {format(new Date(call.followUpDate), 'MMM dd, yyyy HH:mm')}
+            </p>
+          )}
+          {call.followUpTask && (
+            <p className="flex items-center text-sm">
+              <CheckSquare className="w-4 h-4 mr-2 text-gray-600" />
+              <Link to={`/tasks/${call.followUpTask._id}`} className="text-primary-600 hover:underline truncate">
+                {call.followUpTask.title}
+              </Link>
+              <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">{call.followUpTask.status.replace('-', ' ')}</span>
+            </p>
+          )}
+          {followUpOf && (
+            <p className="flex items-center text-sm">
+              <Phone className="w-4 h-4 mr-2 text-gray-600" />
+              <Link to={`/calls/${followUpOf._id}`} className="text-primary-600 hover:underline truncate">
+                Follows up the {followUpOf.callType} call on {format(new Date(followUpOf.createdAt), 'MMM dd, yyyy')}
+              </Link>
+            </p>
+          )}
+        </div>
+      </div>
+
+      <CallModal
+        isOpen={isEditing}
+        onClose={() => setIsEditing(false)}
+        onSave={handleSaveCall}
+        callToEdit={call}
+      />
+    </div>
+  );
+}
+
+export default CallDetail;
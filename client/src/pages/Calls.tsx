@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
-import { Plus, Search, Phone, Clock, User } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Plus, Search, Phone, Clock, User, CalendarClock } from 'lucide-react';
 import { callsAPI } from '../services/api';
 import { format } from 'date-fns';
-import { Call, CallInput } from '../types';
+import { Call, CallInput, ExportFormat } from '../types';
 import CallModal from '../components/CallModal';
+import ExportMenu from '../components/ExportMenu';
 
 function Calls() {
   const [calls, setCalls] = useState<Call[]>([]);
@@ -71,6 +73,14 @@ function Calls() {
     return matchesSearch && matchesType;
   });
 
+  // The export applies the filters on screen, on the server
+  const handleExport = (format: ExportFormat) => {
+    const params: Record<string, string> = {};
+    if (searchTerm) params.search = searchTerm;
+    if (callTypeFilter !== 'all') params.callType = callTypeFilter;
+    return callsAPI.export(format, params);
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -87,10 +97,13 @@ function Calls() {
           <h1 className="text-2xl font-bold text-gray-900">Call Logs</h1>
           <p className="text-gray-600">Track and manage customer calls</p>
         </div>
-        <button onClick={() => { setEditingCall(null); setIsModalOpen(true); }} className="btn-primary flex items-center">
-          <Plus className="w-4 h-4 mr-2" />
-          Log Call
-        </button>
+        <div className="flex items-center gap-3">
+          <ExportMenu filename="calls" onExport={handleExport} />
+          <button onClick={() => { setEditingCall(null); setIsModalOpen(true); }} className="btn-primary flex items-center">
+            <Plus className="w-4 h-4 mr-2" />
+            Log Call
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -166,10 +179,23 @@ function Calls() {
                         </div>
                       )}
                     </div>
+
+                    {call.followUpRequired && call.followUpDate && (
+                      <div className={`flex items-center mt-2 text-sm ${new Date(call.followUpDate) < new Date() ? 'text-danger-600' : 'text-gray-600'}`}>
+                        <CalendarClock className="w-4 h-4 mr-1" />
+                        <span>
+                          Follow up by {format(new Date(call.followUpDate), 'MMM dd, yyyy HH:mm')}
+                          {call.followUpTask && ` · Task: ${call.followUpTask.title} (${call.followUpTask.status.replace('-', ' ')})`}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
                 
                 <div className="flex space-x-2">
+                  <Link to={`/calls/${call._id}`} className="text-sm text-gray-600 hover:text-gray-800 font-medium">
+                    View
+                  </Link>
                   <button onClick={() => { setEditingCall(call); setIsModalOpen(true); }} className="text-sm text-primary-600 hover:text-primary-800 font-medium">
                     Edit
                   </button>
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
+import { ArrowLeft, Building2, Mail, MapPin, Phone } from 'lucide-react';
+import { activityLogsAPI, callsAPI, customersAPI, tasksAPI } from '../services/api';
+import { ActivityLog, Call, Customer, CustomerStats, Task } from '../types';
+import CustomerTimeline from '../components/CustomerTimeline';
+
+// The most recent tasks and calls loaded into the timeline
+const TIMELINE_LIMIT = 100;
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'completed': return 'bg-success-100 text-success-800';
+    case 'in-progress': return 'bg-blue-100 text-blue-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+function CustomerDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [stats, setStats] = useState<CustomerStats | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [calls, setCalls] = useState<Call[]>([]);
+  const [logs, setLogs] = useState<ActivityLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCustomer = async () => {
+      if (!id) return;
+      setIsLoading(true);
+      try {
+        const [customerResponse, tasksResponse, callsResponse, logsResponse] = await Promise.all([
+          customersAPI.getById(id),
+          tasksAPI.getAll({ customer: id, limit: TIMELINE_LIMIT }),
+          callsAPI.getByCustomer(id, { limit: TIMELINE_LIMIT }),
+          activityLogsAPI.getEntityTimeline('Customer', id, { limit: TIMELINE_LIMIT, order: 'desc' }),
+        ]);
+        setCustomer(customerResponse.data.customer);
+        setStats(customerResponse.data.stats);
+        setTasks(tasksResponse.data.tasks);
+        setCalls(callsResponse.data.calls);
+        setLogs(logsResponse.data.logs);
+      } catch (error) {
+        // A merged duplicate's page now lives on the customer it was merged into
+        const mergedInto = isAxiosError(error) ? error.response?.data?.mergedInto : undefined;
+        if (mergedInto) {
+          navigate(`/customers/${mergedInto}`, { replace: true });
+          return;
+        }
+        console.error('Error fetching customer:', error);
+        setCustomer(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchCustomer();
+  }, [id, navigate]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="card text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Customer not found</h3>
+        <Link to="/customers" className="text-primary-600 hover:underline">Back to customers</Link>
+      </div>
+    );
+  }
+
+  const address = customer.address;
+  const addressLines = address
+    ? [address.street, [address.city, address.state, address.zipCode].filter(Boolean).join(', '), address.country].filter(Boolean)
+    : [];
+  const openTasks = tasks.filter(task => task.status !== 'completed');
+
+  return (
+    <div className="space-y-6 w-full">
+      <div>
+        <Link to="/customers" className="text-sm text-primary-600 hover:underline flex items-center mb-2">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to customers
+        </Link>
+        <div className="flex items-center">
+          <div className="p-2 bg-primary-100 rounded-lg">
+            <Building2 className="w-6 h-6 text-primary-600" />
+          </div>
+          <div className="ml-3">
+            <h1 className="text-2xl font-bold text-gray-900">{customer.companyName}</h1>
+            <p className="text-gray-600">
+              {customer.companyType}
+              {customer.gst && <span className="ml-2 text-gray-500">· GST {customer.gst}</span>}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {stats && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="card">
+            <p className="text-sm text-gray-600">Tasks</p>
+            <p className="text-2xl font-semibold text-gray-900">{stats.totalTasks}</p>
+          </div>
+          <div className="card">
+            <p className="text-sm text-gray-600">Open tasks</p>
+            <p className="text-2xl font-semibold text-gray-900">
+              {stats.openTasks}
+              {stats.overdueTasks > 0 && <span className="ml-2 text-sm font-medium text-danger-600">{stats.overdueTasks} overdue</span>}
+            </p>
+          </div>
+          <div className="card">
+            <p className="text-sm text-gray-600">Calls</p>
+            <p className="text-2xl font-semibold text-gray-900">{stats.totalCalls}</p>
+          </div>
+          <div className="card">
+            <p className="text-sm text-gray-600">Last call</p>
+            <p className="text-lg font-semibold text-gray-900">
+              {stats.lastCallAt ? format(new Date(stats.lastCallAt), 'MMM dd, yyyy') : 'Never'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <div className="card">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Contacts</h2>
+            {customer.contacts.length === 0 ? (
+              <p className="text-sm text-gray-500">No contacts recorded.</p>
+            ) : (
+              <ul className="divide-y">
+                {customer.contacts.map((contact, index) => (
+                  <li key={`${contact.email}-${index}`} className="py-3 space-y-1">
+                    <p className="text-sm">
+                      <span className="font-medium text-gray-900">{contact.name}</span>
+                      {contact.designation && <span className="ml-2 text-gray-500">({contact.designation})</span>}
+                      {contact.isPrimary && <span className="ml-2 text-xs text-primary-600">Primary</span>}
+                    </p>
+                    {contact.email && (
+                      <a href={`mailto:${contact.email}`} className="flex items-center text-sm text-gray-600 hover:text-primary-600">
+                        <Mail className="w-4 h-4 mr-2" />
+                        {contact.email}
+                      </a>
+                    )}
+                    {contact.phone && (
+                      <a href={`tel:${contact.phone}`} className="flex items-center text-sm text-gray-600 hover:text-primary-600">
+                        <Phone className="w-4 h-4 mr-2" />
+                        {contact.phone}
+                      </a>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="card space-y-2">
+            <h2 className="text-lg font-medium text-gray-900 mb-2">Details</h2>
+            {addressLines.length > 0 ? (
+              <div className="flex text-sm text-gray-600">
+                <MapPin className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                <address className="not-italic">
+                  {addressLines.map(line => <div key={line}>{line}</div>)}
+                </address>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No address recorded.</p>
+            )}
+            {customer.url && (
+              <p className="text-sm truncate">
+                <span className="font-medium text-gray-700">URL:</span>
+                <a href={customer.url} target="_blank" rel="noopener noreferrer" className="ml-2 text-primary-600 hover:underline">
+                  {customer.url}
+                </a>
+              </p>
+            )}
+            {customer.installationDate && (
+              <p className="text-sm">
+                <span className="font-medium text-gray-700">Installed:</span>
+                <span className="ml-2 text-gray-600">{format(new Date(customer.installationDate), 'MMM dd, yyyy')}</span>
+              </p>
+            )}
+            {customer.notes && <p className="text-sm text-gray-600 whitespace-pre-line">{customer.notes}</p>}
+          </div>
+
+          <div className="card">
+            <h2 className="text-lg font-medium text-gray-900 mb-4">Open Tasks</h2>
+            {openTasks.length === 0 ? (
+              <p className="text-sm text-gray-500">No open tasks.</p>
+            ) : (
+              <ul className="divide-y">
+                {openTasks.map(task => (
+                  <li key={task._id} className="py-2 flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <Link to={`/tasks/${task._id}`} className="block text-sm font-medium text-gray-900 hover:text-primary-600 truncate">{task.title}</Link>
+                      <p className={`text-xs ${new Date(task.dueDate) < new Date() ? 'text-danger-600' : 'text-gray-500'}`}>
+                        Due {format(new Date(task.dueDate), 'MMM dd, yyyy')} · {task.assignedTo?.name}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${getStatusColor(task.status)}`}>
+                      {task.status.replace('-', ' ')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="card lg:col-span-2">
+          <h2 className="text-lg font-medium text-gray-900">Timeline</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Tasks, calls and changes to this customer, newest first.
+            {stats && (stats.totalTasks > tasks.length || stats.totalCalls > calls.length) &&
+              ` Showing the latest ${TIMELINE_LIMIT} tasks and calls.`}
+          </p>
+          <CustomerTimeline tasks={tasks} calls={calls} logs={logs} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CustomerDetail;
@@ -0,0 +1,145 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
+import { ArrowLeft, GitMerge, Mail, Phone } from 'lucide-react';
+import { customersAPI } from '../services/api';
+import { CustomerDuplicate, CustomerMergeResult, DuplicateCandidate, DuplicateReason } from '../types';
+
+const reasonLabels: Record<DuplicateReason, string> = {
+  name: 'Similar name',
+  email: 'Shared contact email',
+  phone: 'Shared contact phone',
+  gst: 'Same GST number',
+};
+
+function CustomerDuplicates() {
+  const [duplicates, setDuplicates] = useState<CustomerDuplicate[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMerging, setIsMerging] = useState(false);
+
+  const loadDuplicates = useCallback(async () => {
+    try {
+      const response = await customersAPI.getDuplicates();
+      setDuplicates(response.data.duplicates);
+      setTotal(response.data.total);
+    } catch (error) {
+      console.error('Error finding duplicate customers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, [loadDuplicates]);
+
+  const handleMerge = async (survivor: DuplicateCandidate, duplicate: DuplicateCandidate) => {
+    const confirmed = window.confirm(
+      `Merge "${duplicate.companyName}" into "${survivor.companyName}"?\n\n` +
+      `Its new contacts, ${duplicate.taskCount} task(s) and ${duplicate.callCount} call(s) move to "${survivor.companyName}", ` +
+      `and "${duplicate.companyName}" is removed.`
+    );
+    if (!confirmed) return;
+
+    setIsMerging(true);
+    try {
+      const response = await customersAPI.merge(survivor._id, duplicate._id);
+      const result: CustomerMergeResult = response.data;
+      alert(`${result.message}: ${result.contactsAdded} contact(s) added, ${result.tasksMoved} task(s) and ${result.callsMoved} call(s) moved.`);
+      await loadDuplicates();
+    } catch (error) {
+      console.error('Error merging customers:', error);
+      alert((isAxiosError(error) && error.response?.data?.message) || 'Failed to merge the customers.');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const renderCandidate = (candidate: DuplicateCandidate, other: DuplicateCandidate) => (
+    <div className="flex-1 min-w-0 border rounded-lg p-4 space-y-3">
+      <div>
+        <Link to={`/customers/${candidate._id}`} className="font-semibold text-gray-900 hover:text-primary-600">
+          {candidate.companyName}
+        </Link>
+        <p className="text-sm text-gray-500">
+          {candidate.companyType}{candidate.gst && ` · GST ${candidate.gst}`}
+        </p>
+      </div>
+      <ul className="space-y-1 text-sm text-gray-600">
+        {candidate.contacts.map(contact => (
+          <li key={contact.email}>
+            <span className="text-gray-900">{contact.name}</span>
+            <span className="flex items-center"><Mail className="w-3 h-3 mr-1" />{contact.email}</span>
+            <span className="flex items-center"><Phone className="w-3 h-3 mr-1" />{contact.phone}</span>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500">
+        {candidate.taskCount} task(s) · {candidate.callCount} call(s) · added {format(new Date(candidate.createdAt), 'MMM dd, yyyy')}
+      </p>
+      <button
+        onClick={() => handleMerge(candidate, other)}
+        disabled={isMerging}
+        className="btn-secondary flex items-center text-sm"
+      >
+        <GitMerge className="w-4 h-4 mr-2" />
+        Keep this one
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 w-full">
+      <div>
+        <Link to="/customers" className="text-sm text-primary-600 hover:underline flex items-center mb-2">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to customers
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900">Duplicate Customers</h1>
+        <p className="text-gray-600">
+          Customers that look like the same company. Keep one and the other is merged into it: its contacts, tasks
+          and calls move across and it is removed.
+        </p>
+      </div>
+
+      {duplicates.length === 0 ? (
+        <div className="card text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900">No duplicates found</h3>
+        </div>
+      ) : (
+        <>
+          {total > duplicates.length && (
+            <p className="text-sm text-gray-500">Showing the {duplicates.length} strongest of {total} possible duplicates.</p>
+          )}
+          {duplicates.map(({ customers: [first, second], reasons, nameSimilarity }) => (
+            <div key={`${first._id}-${second._id}`} className="card space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {reasons.map(reason => (
+                  <span key={reason} className="px-2 py-0.5 rounded-full text-xs font-medium bg-warning-100 text-warning-800">
+                    {reasonLabels[reason]}{reason === 'name' && ` (${Math.round(nameSimilarity * 100)}%)`}
+                  </span>
+                ))}
+              </div>
+              <div className="flex flex-col md:flex-row gap-4">
+                {renderCandidate(first, second)}
+                {renderCandidate(second, first)}
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CustomerDuplicates;
@@ -1,9 +1,16 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { Plus, Search, Building2, Phone, Mail } from 'lucide-react';
-import { customersAPI } from '../services/api';
+import { Plus, Search, Building2, Phone, Mail, Upload, GitMerge } from 'lucide-react';
+import { authAPI, customersAPI } from '../services/api';
 import CustomerModal from '../components/CustomerModal';
-import { Customer, CustomerInput } from '../types';
+import CustomerImportModal from '../components/CustomerImportModal';
+import ExportMenu from '../components/ExportMenu';
+import MuteButton from '../components/MuteButton';
+import { Customer, CustomerInput, ExportFormat, NotificationPreferences } from '../types';
+
+const mutedIds = (preferences: NotificationPreferences) =>
+  new Set(preferences.mutedCustomers.map(customer => customer._id));
 
 function Customers() {
   const { user } = useAuth();
@@ -12,11 +19,19 @@ function Customers() {
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [mutedCustomerIds, setMutedCustomerIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     loadCustomers();
   }, []);
 
+  useEffect(() => {
+    authAPI.getNotificationPreferences()
+      .then(response => setMutedCustomerIds(mutedIds(response.data.notificationPreferences)))
+      .catch(error => console.error('Error loading muted customers:', error));
+  }, []);
+
   const loadCustomers = async () => {
     try {
       const response = await customersAPI.getAll();
@@ -50,6 +65,12 @@ function Customers() {
     }
   };
 
+  const handleImported = (count: number) => {
+    setIsImportOpen(false);
+    loadCustomers();
+    alert(`Imported ${count} customer(s).`);
+  };
+
   const handleDeleteCustomer = async (customerId: string) => {
     if (window.confirm('Are you sure you want to delete this customer? This action cannot be undone.')) {
       try {
@@ -66,6 +87,9 @@ function Customers() {
     customer.companyType.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const handleExport = (format: ExportFormat) =>
+    customersAPI.export(format, searchTerm ? { search: searchTerm } : undefined);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -82,12 +106,25 @@ function Customers() {
           <h1 className="text-2xl font-bold text-gray-900">Customers</h1>
           <p className="text-gray-600">Manage your customer database</p>
         </div>
-        {user?.role === 'admin' && (
-          <button onClick={() => { setEditingCustomer(null); setIsModalOpen(true); }} className="btn-primary flex items-center">
-            <Plus className="w-4 h-4 mr-2" />
-            Add Customer
-          </button>
-        )}
+        <div className="flex items-center gap-3">
+          <ExportMenu filename="customers" onExport={handleExport} />
+          {user?.role === 'admin' && (
+            <>
+              <Link to="/customers/duplicates" className="btn-secondary flex items-center">
+                <GitMerge className="w-4 h-4 mr-2" />
+                Duplicates
+              </Link>
+              <button onClick={() => setIsImportOpen(true)} className="btn-secondary flex items-center">
+                <Upload className="w-4 h-4 mr-2" />
+                Import
+              </button>
+              <button onClick={() => { setEditingCustomer(null); setIsModalOpen(true); }} className="btn-primary flex items-center">
+                <Plus className="w-4 h-4 mr-2" />
+                Add Customer
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Search */}
@@ -116,7 +153,9 @@ function Customers() {
                   </div>
                   <div className="ml-3">
                     <h3 className="text-lg font-semibold text-gray-900">
-                      {customer.companyName}
+                      <Link to={`/customers/${customer._id}`} className="hover:text-primary-600">
+                        {customer.companyName}
+                      </Link>
                     </h3>
                     <p className="text-sm text-gray-600">{customer.companyType}</p>
                   </div>
@@ -175,9 +214,15 @@ function Customers() {
                   Added {new Date(customer.createdAt).toLocaleDateString()}
                 </span>
                 <div className="flex space-x-2">
-                  <button className="text-sm text-primary-600 hover:text-primary-800 font-medium">
+                  <MuteButton
+                    target="customers"
+                    id={customer._id}
+                    isMuted={mutedCustomerIds.has(customer._id)}
+                    onChange={(preferences) => setMutedCustomerIds(mutedIds(preferences))}
+                  />
+                  <Link to={`/customers/${customer._id}`} className="text-sm text-primary-600 hover:text-primary-800 font-medium">
                     View
-                  </button>
+                  </Link>
                   {(user?.role === 'admin' || user?.role === 'manager') && (
                     <>
                       <button onClick={() => { setEditingCustomer(customer); setIsModalOpen(true); }} className="text-sm text-gray-600 hover:text-gray-800 font-medium">
@@ -220,6 +265,10 @@ function Customers() {
         onSave={handleSaveCustomer}
         customerToEdit={editingCustomer}
       />
+
+      {isImportOpen && (
+        <CustomerImportModal onImported={handleImported} onCancel={() => setIsImportOpen(false)} />
+      )}
     </div>
   );
 }
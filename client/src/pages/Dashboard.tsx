@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
 import { tasksAPI, customersAPI, callsAPI } from '../services/api';
-import { CheckSquare, Users, Phone, Calendar, TrendingUp } from 'lucide-react';
+import { CheckSquare, Users, Phone, Calendar, TrendingUp, PhoneCall } from 'lucide-react';
+import { Call } from '../types';
 
 interface DashboardStats {
   totalTasks: number;
@@ -10,6 +12,8 @@ interface DashboardStats {
   totalCustomers: number;
   totalCalls: number;
   recentTasks: any[];
+  overdueFollowUps: Call[];
+  totalOverdueFollowUps: number;
 }
 
 function Dashboard() {
@@ -21,6 +25,8 @@ function Dashboard() {
     totalCustomers: 0,
     totalCalls: 0,
     recentTasks: [],
+    overdueFollowUps: [],
+    totalOverdueFollowUps: 0,
   });
   const [isLoading, setIsLoading] = useState(true);
 
@@ -30,10 +36,11 @@ function Dashboard() {
 
   const loadDashboardData = async () => {
     try {
-      const [tasksResponse, customersResponse, callsResponse] = await Promise.all([
+      const [tasksResponse, customersResponse, callsResponse, followUpsResponse] = await Promise.all([
         tasksAPI.getAll(),
         customersAPI.getAll(),
         callsAPI.getAll(),
+        callsAPI.getOverdueFollowUps(5),
       ]);
 
       const tasks = tasksResponse.data.tasks;
@@ -52,6 +59,8 @@ function Dashboard() {
         totalCustomers: customers.length,
         totalCalls: calls.length,
         recentTasks: tasks.slice(0, 5),
+        overdueFollowUps: followUpsResponse.data.calls,
+        totalOverdueFollowUps: followUpsResponse.data.total,
       });
     } catch (error) {
       console.error('Error loading dashboard data:', error);
@@ -160,6 +169,41 @@ function Dashboard() {
           </div>
         </div>
 
+        <div className="card">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Overdue Follow-ups
+            {stats.totalOverdueFollowUps > 0 && (
+              <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-danger-100 text-danger-800">
+                {stats.totalOverdueFollowUps}
+              </span>
+            )}
+          </h3>
+          <div className="space-y-3">
+            {stats.overdueFollowUps.length > 0 ? (
+              stats.overdueFollowUps.map((call) => (
+                <div key={call._id} className="flex items-start justify-between p-3 bg-danger-50 rounded-lg">
+                  <div className="flex items-start min-w-0">
+                    <PhoneCall className="w-4 h-4 mr-2 mt-1 text-danger-600 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">{call.customer.companyName}</p>
+                      <p className="text-sm text-gray-600 truncate">{call.summary}</p>
+                      {call.followUpTask && (
+                        <p className="text-xs text-gray-500">Task: {call.followUpTask.title}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-right text-sm whitespace-nowrap ml-2">
+                    <p className="text-danger-700">Due {format(new Date(call.followUpDate!), 'MMM dd')}</p>
+                    <p className="text-xs text-gray-500">{call.user.name}</p>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-gray-500 text-center py-4">No overdue follow-ups</p>
+            )}
+          </div>
+        </div>
+
         <div className="card">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
           <div className="space-y-3">
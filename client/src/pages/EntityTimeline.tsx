@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, History } from 'lucide-react';
+import { activityLogsAPI } from '../services/api';
+import { ActivityEntity, ActivityLog } from '../types';
+import ActivityTimeline from '../components/ActivityTimeline';
+
+const PAGE_SIZE = 50;
+
+function EntityTimeline() {
+  const { entity, entityId } = useParams<{ entity: ActivityEntity; entityId: string }>();
+  const [logs, setLogs] = useState<ActivityLog[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  useEffect(() => {
+    const fetchTimeline = async () => {
+      if (!entity || !entityId) return;
+      setIsLoading(true);
+      try {
+        const response = await activityLogsAPI.getEntityTimeline(entity, entityId, { page: 1, limit: PAGE_SIZE });
+        setLogs(response.data.logs);
+        setPage(1);
+        setHasMore(response.data.pagination.hasNext);
+      } catch (error) {
+        console.error('Error fetching entity timeline:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchTimeline();
+  }, [entity, entityId]);
+
+  const handleLoadMore = async () => {
+    if (!entity || !entityId) return;
+    setIsLoadingMore(true);
+    try {
+      const response = await activityLogsAPI.getEntityTimeline(entity, entityId, { page: page + 1, limit: PAGE_SIZE });
+      setLogs(current => [...current, ...response.data.logs]);
+      setPage(page + 1);
+      setHasMore(response.data.pagination.hasNext);
+    } catch (error) {
+      console.error('Error fetching entity timeline:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 w-full">
+      <div>
+        <Link to="/activity-logs" className="text-sm text-primary-600 hover:underline flex items-center mb-2">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to activity logs
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900">{entity} Timeline</h1>
+        <p className="text-gray-600 mt-1">Everything recorded for this {entity?.toLowerCase()}, oldest first.</p>
+      </div>
+
+      {logs.length > 0 ? (
+        <div className="card">
+          <ActivityTimeline logs={logs} showEntityLinks={false} />
+          {hasMore && (
+            <div className="flex justify-center mt-6 pt-4 border-t">
+              <button onClick={handleLoadMore} disabled={isLoadingMore} className="btn-secondary disabled:opacity-50">
+                {isLoadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="card text-center py-12">
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-gray-100 mb-4">
+            <History className="h-6 w-6 text-gray-400" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900">No activities found</h3>
+          <p className="text-gray-600">Nothing has been recorded for this {entity?.toLowerCase()} yet.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default EntityTimeline;
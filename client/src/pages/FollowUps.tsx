@@ -0,0 +1,197 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
+import { CalendarClock, PhoneCall, Phone, User } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { callsAPI, usersAPI } from '../services/api';
+import { Call, FollowUpCallInput, FollowUpQueue, IUser } from '../types';
+import FollowUpCallModal from '../components/FollowUpCallModal';
+
+const sections: { key: keyof FollowUpQueue; title: string; empty: string; dateColor: string }[] = [
+  { key: 'overdue', title: 'Overdue', empty: 'Nothing overdue.', dateColor: 'text-danger-600' },
+  { key: 'today', title: 'Today', empty: 'No callbacks left for today.', dateColor: 'text-warning-700' },
+  { key: 'upcoming', title: 'Upcoming', empty: 'No callbacks scheduled.', dateColor: 'text-gray-600' },
+];
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const data = isAxiosError(error) ? error.response?.data : undefined;
+  const message = Array.isArray(data?.errors) ? data.errors.map((err: { msg: string }) => err.msg).join('\n') : data?.message;
+  return message || fallback;
+};
+
+function FollowUps() {
+  const { user } = useAuth();
+  const [queue, setQueue] = useState<FollowUpQueue>({ overdue: [], today: [], upcoming: [] });
+  const [users, setUsers] = useState<IUser[]>([]);
+  const [selectedUser, setSelectedUser] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [loggingCall, setLoggingCall] = useState<Call | null>(null);
+  const [rescheduling, setRescheduling] = useState<{ id: string; date: string } | null>(null);
+  const canViewOthers = user?.role === 'admin' || user?.role === 'manager';
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await callsAPI.getFollowUps(selectedUser ? { user: selectedUser } : undefined);
+      setQueue(response.data);
+    } catch (error) {
+      console.error('Error loading follow-ups:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedUser]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  useEffect(() => {
+    if (!canViewOthers) return;
+    usersAPI.getAll()
+      .then(response => setUsers(response.data.users || []))
+      .catch(error => console.error('Error loading users:', error));
+  }, [canViewOthers]);
+
+  const handleLogFollowUp = async (followUp: FollowUpCallInput) => {
+    if (!loggingCall) return;
+    try {
+      const response = await callsAPI.logFollowUp(loggingCall._id, followUp);
+      setLoggingCall(null);
+      loadQueue();
+      if (response.data.followUpTaskError) {
+        alert(`The follow-up was logged, but its task is still open: ${response.data.followUpTaskError}`);
+      }
+    } catch (error) {
+      console.error('Error logging follow-up call:', error);
+      alert(getErrorMessage(error, 'Failed to log the follow-up call.'));
+    }
+  };
+
+  const handleReschedule = async () => {
+    if (!rescheduling?.date) return;
+    try {
+      await callsAPI.update(rescheduling.id, { followUpDate: new Date(rescheduling.date).toISOString() });
+      setRescheduling(null);
+      loadQueue();
+    } catch (error) {
+      console.error('Error rescheduling follow-up:', error);
+      alert(getErrorMessage(error, 'Failed to reschedule the follow-up.'));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 w-full">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Follow-ups</h1>
+          <p className="text-gray-600">Callbacks promised to customers, soonest first</p>
+        </div>
+        {canViewOthers && (
+          <select className="select-field w-auto" value={selectedUser} onChange={(e) => setSelectedUser(e.target.value)}>
+            <option value="">Everyone</option>
+            {users.map(member => (
+              <option key={member._id} value={member._id}>{member.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {sections.map(section => (
+        <div key={section.key} className="card">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">
+            {section.title}
+            <span className="ml-2 text-sm font-normal text-gray-500">{queue[section.key].length}</span>
+          </h2>
+          {queue[section.key].length === 0 ? (
+            <p className="text-sm text-gray-500">{section.empty}</p>
+          ) : (
+            <ul className="divide-y">
+              {queue[section.key].map(call => {
+                const contact = call.customer.contacts?.find(c => c.isPrimary) ?? call.customer.contacts?.[0];
+                return (
+                  <li key={call._id} className="py-4 flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <Link to={`/customers/${call.customer._id}`} className="font-semibold text-gray-900 hover:text-primary-600">
+                        {call.customer.companyName}
+                      </Link>
+                      <p className="text-sm text-gray-600 line-clamp-2">{call.summary}</p>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                        <span className={`flex items-center ${section.dateColor}`}>
+                          <CalendarClock className="w-4 h-4 mr-1" />
+                          {format(new Date(call.followUpDate!), 'MMM dd, yyyy HH:mm')}
+                        </span>
+                        {contact?.phone && (
+                          <a href={`tel:${contact.phone}`} className="flex items-center text-gray-600 hover:text-primary-600">
+                            <Phone className="w-4 h-4 mr-1" />
+                            {contact.name} · {contact.phone}
+                          </a>
+                        )}
+                        {canViewOthers && (
+                          <span className="flex items-center text-gray-500">
+                            <User className="w-4 h-4 mr-1" />
+                            {call.user.name}
+                          </span>
+                        )}
+                      </div>
+                      {call.followUpTask && (
+                        <p className="text-xs text-gray-500">
+                          Task: {call.followUpTask.title} ({call.followUpTask.status.replace('-', ' ')})
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {rescheduling?.id === call._id ? (
+                        <>
+                          <input
+                            type="datetime-local"
+                            value={rescheduling.date}
+                            onChange={(e) => setRescheduling({ id: call._id, date: e.target.value })}
+                            className="input-field"
+                            aria-label="New callback date"
+                          />
+                          <button onClick={handleReschedule} className="btn-primary">Save</button>
+                          <button onClick={() => setRescheduling(null)} className="btn-secondary">Cancel</button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => setRescheduling({ id: call._id, date: format(new Date(call.followUpDate!), "yyyy-MM-dd'T'HH:mm") })}
+                            className="text-sm text-gray-600 hover:text-gray-800 font-medium"
+                          >
+                            Reschedule
+                          </button>
+                          <button onClick={() => setLoggingCall(call)} className="btn-primary flex items-center">
+                            <PhoneCall className="w-4 h-4 mr-2" />
+                            Log follow-up call
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      ))}
+
+      {loggingCall && (
+        <FollowUpCallModal
+          call={loggingCall}
+          onSave={handleLogFollowUp}
+          onCancel={() => setLoggingCall(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+export default FollowUps;
@@ -1,28 +1,52 @@
 import React, { useState } from 'react';
-import { useAuth } from '../contexts/AuthContext';
+import { Link } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { TwoFactorChallenge, useAuth } from '../contexts/AuthContext';
+import { authAPI } from '../services/api';
 import { LogIn } from 'lucide-react';
+import TwoFactorLoginStep from '../components/TwoFactorLoginStep';
 
 function Login() {
   const [email, setEmail] = useState('admin@example.com');
   const [password, setPassword] = useState('admin123');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
   const { login } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError('');
+    setNotice('');
 
     try {
-      await login(email, password);
+      setChallenge(await login(email, password));
     } catch (err: any) {
       setError(err.response?.data?.message || 'Login failed');
+      setNeedsVerification(err.response?.data?.code === 'EMAIL_NOT_VERIFIED');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleResendVerification = async () => {
+    try {
+      const response = await authAPI.resendVerification(email);
+      setError('');
+      setNeedsVerification(false);
+      setNotice(response.data.message);
+    } catch (err) {
+      setError((isAxiosError(err) && err.response?.data?.message) || 'Failed to send a new verification link');
+    }
+  };
+
+  if (challenge) {
+    return <TwoFactorLoginStep challenge={challenge} onCancel={() => setChallenge(null)} />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -74,8 +98,25 @@ function Login() {
             </div>
           </div>
 
+          <div className="flex justify-end text-sm">
+            <Link to="/forgot-password" className="font-medium text-primary-600 hover:text-primary-500">
+              Forgot your password?
+            </Link>
+          </div>
+
           {error && (
-            <div className="text-danger-600 text-sm text-center">{error}</div>
+            <div className="text-danger-600 text-sm text-center">
+              {error}
+              {needsVerification && (
+                <button type="button" onClick={handleResendVerification} className="block mx-auto mt-1 font-medium text-primary-600 hover:text-primary-500">
+                  Resend verification email
+                </button>
+              )}
+            </div>
+          )}
+
+          {notice && (
+            <div className="text-success-700 text-sm text-center">{notice}</div>
           )}
 
           <div>
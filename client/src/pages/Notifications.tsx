@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
+import { useRealtime } from '../contexts/RealtimeContext';
 import { notificationsAPI } from '../services/api';
-import { Bell, Clock } from 'lucide-react';
+import { Bell, Clock, Settings } from 'lucide-react';
 import { format } from 'date-fns';
 import { Link } from 'react-router-dom';
 import { Notification } from '../types';
@@ -8,11 +9,16 @@ import { Notification } from '../types';
 function Notifications() {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const { subscribe } = useRealtime();
 
   useEffect(() => {
     loadNotifications();
   }, []);
 
+  useEffect(() => subscribe<Notification>('notification', (notification) => {
+    setNotifications(prev => [notification, ...prev]);
+  }), [subscribe]);
+
   const loadNotifications = async () => {
     setIsLoading(true);
     try {
@@ -58,11 +64,17 @@ function Notifications() {
           <h1 className="text-2xl font-bold text-gray-900">Notifications</h1>
           <p className="text-gray-600">Your recent alerts and updates</p>
         </div>
-        {notifications.some(n => !n.isRead) && (
-          <button onClick={markAllAsRead} className="btn-secondary">
-            Mark All as Read
-          </button>
-        )}
+        <div className="flex items-center space-x-2">
+          <Link to="/settings" className="btn-secondary flex items-center">
+            <Settings className="w-4 h-4 mr-2" />
+            Preferences
+          </Link>
+          {notifications.some(n => !n.isRead) && (
+            <button onClick={markAllAsRead} className="btn-secondary">
+              Mark All as Read
+            </button>
+          )}
+        </div>
       </div>
 
       {notifications.length > 0 ? (
@@ -75,7 +87,13 @@ function Notifications() {
               <div className="flex-1">
                 <p className={`text-sm ${notification.isRead ? 'text-gray-600' : 'text-gray-800 font-medium'}`}>
                   {notification.link ? (
-                    <Link to={notification.link} className="hover:underline">{notification.message}</Link>
+                    <Link
+                      to={notification.link}
+                      onClick={() => { if (!notification.isRead) markAsRead(notification._id); }}
+                      className="hover:underline"
+                    >
+                      {notification.message}
+                    </Link>
                   ) : (
                     notification.message
                   )}
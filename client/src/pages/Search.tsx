@@ -72,7 +72,7 @@ function Search() {
               <ul className="divide-y divide-gray-200">
                 {results.tasks.map(task => (
                   <li key={task._id} className="py-3">
-                    <Link to={`/tasks`} className="text-primary-600 hover:underline font-medium">{task.title}</Link>
+                    <Link to={`/tasks/${task._id}`} className="text-primary-600 hover:underline font-medium">{task.title}</Link>
                     <p className="text-sm text-gray-500">{task.description}</p>
                   </li>
                 ))}
@@ -87,7 +87,7 @@ function Search() {
               <ul className="divide-y divide-gray-200">
                 {results.customers.map(customer => (
                   <li key={customer._id} className="py-3">
-                    <Link to={`/customers`} className="text-primary-600 hover:underline font-medium">{customer.companyName}</Link>
+                    <Link to={`/customers/${customer._id}`} className="text-primary-600 hover:underline font-medium">{customer.companyName}</Link>
                     <p className="text-sm text-gray-500">{customer.companyType}</p>
                   </li>
                 ))}
@@ -102,7 +102,7 @@ function Search() {
               <ul className="divide-y divide-gray-200">
                 {results.calls.map(call => (
                   <li key={call._id} className="py-3">
-                    <Link to={`/calls`} className="text-primary-600 hover:underline font-medium">Call with {call.customer.companyName}</Link>
+                    <Link to={`/calls/${call._id}`} className="text-primary-600 hover:underline font-medium">Call with {call.customer.companyName}</Link>
                     <p className="text-sm text-gray-500">{call.summary}</p>
                   </li>
                 ))}
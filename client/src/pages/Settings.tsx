@@ -0,0 +1,264 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { isAxiosError } from 'axios';
+import { authAPI } from '../services/api';
+import { EmailDigestMode, MuteTarget, NotificationPreferences, NotificationType } from '../types';
+import { notificationTypeLabels } from '../utils/notifications';
+import { useAuth } from '../contexts/AuthContext';
+import EscalationPolicyForm from '../components/EscalationPolicyForm';
+import SessionList from '../components/SessionList';
+import TwoFactorSettings from '../components/TwoFactorSettings';
+import SecurityPolicyForm from '../components/SecurityPolicyForm';
+
+const digestOptions: { value: EmailDigestMode; label: string }[] = [
+  { value: 'instant', label: 'Right away' },
+  { value: 'hourly', label: 'Hourly digest' },
+  { value: 'daily', label: 'Daily digest (8:00 your time)' },
+];
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Not every browser can list the timezones it supports
+const timezones: string[] = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone') ?? [];
+
+const notificationTypes = Object.keys(notificationTypeLabels) as NotificationType[];
+
+const toggle = (types: NotificationType[], type: NotificationType) =>
+  types.includes(type) ? types.filter(t => t !== type) : [...types, type];
+
+function Settings() {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [timezone, setTimezone] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const [preferencesRes, meRes] = await Promise.all([
+          authAPI.getNotificationPreferences(),
+          authAPI.me(),
+        ]);
+        setPreferences(preferencesRes.data.notificationPreferences);
+        setTimezone(meRes.data.user.timezone || 'UTC');
+      } catch (error) {
+        console.error('Failed to fetch notification preferences:', error);
+      }
+    };
+    fetchPreferences();
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!preferences) return;
+    setIsSaving(true);
+    try {
+      const { inApp, email, quietHours } = preferences;
+      const [response] = await Promise.all([
+        authAPI.updateNotificationPreferences({ inApp, email, quietHours }),
+        authAPI.updateProfile({ timezone }),
+      ]);
+      setPreferences(response.data.notificationPreferences);
+      alert('Notification preferences saved.');
+    } catch (error) {
+      console.error('Failed to save notification preferences:', error);
+      const message = isAxiosError(error) ? error.response?.data?.message : undefined;
+      alert(message || 'Failed to save notification preferences.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnmute = async (target: MuteTarget, id: string) => {
+    try {
+      const response = await authAPI.unmute(target, id);
+      setPreferences(prev => prev && {
+        ...prev,
+        mutedTasks: response.data.notificationPreferences.mutedTasks,
+        mutedCustomers: response.data.notificationPreferences.mutedCustomers,
+      });
+    } catch (error) {
+      console.error('Failed to unmute:', error);
+      alert('Failed to unmute.');
+    }
+  };
+
+  if (!preferences) {
+    return (
+      <div className="flex items-center justify-center h-64 w-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const { inApp, email, quietHours } = preferences;
+
+  return (
+    <div className="space-y-6 w-full max-w-3xl">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+        <p className="text-gray-600">Choose which notifications you get and how they reach you</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="card">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Timezone</h2>
+          <label htmlFor="timezone" className="block text-sm font-medium text-gray-700">Your timezone</label>
+          <input
+            id="timezone"
+            type="text"
+            list="timezones"
+            value={timezone}
+            onChange={(e) => setTimezone(e.target.value)}
+            placeholder={browserTimezone}
+            className="input-field"
+            required
+          />
+          <datalist id="timezones">
+            {timezones.map(zone => <option key={zone} value={zone} />)}
+          </datalist>
+          <p className="mt-1 text-xs text-gray-500">
+            Task reminders show due dates and quiet hours apply in this timezone.
+            {timezone !== browserTimezone && (
+              <button type="button" onClick={() => setTimezone(browserTimezone)} className="ml-1 text-primary-600 hover:underline">
+                Use {browserTimezone}
+              </button>
+            )}
+          </p>
+        </div>
+
+        <div className="card">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Notifications</h2>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-2 font-medium">Type</th>
+                <th className="pb-2 font-medium text-center">In app</th>
+                <th className="pb-2 font-medium text-center">Email</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {notificationTypes.map(type => {
+                const isMuted = inApp.mutedTypes.includes(type);
+                return (
+                  <tr key={type}>
+                    <td className="py-2 text-gray-700">{notificationTypeLabels[type]}</td>
+                    <td className="py-2 text-center">
+                      <input
+                        type="checkbox"
+                        aria-label={`${notificationTypeLabels[type]} in app`}
+                        checked={!isMuted}
+                        onChange={() => setPreferences({ ...preferences, inApp: { mutedTypes: toggle(inApp.mutedTypes, type) } })}
+                      />
+                    </td>
+                    <td className="py-2 text-center">
+                      <input
+                        type="checkbox"
+                        aria-label={`${notificationTypeLabels[type]} by email`}
+                        checked={email.types.includes(type)}
+                        onChange={() => setPreferences({ ...preferences, email: { ...email, types: toggle(email.types, type) } })}
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500">The app and email are set separately: a type turned off in the app can still be emailed.</p>
+
+          <div className="mt-4">
+            <label htmlFor="emailDigest" className="block text-sm font-medium text-gray-700">Email delivery</label>
+            <select
+              id="emailDigest"
+              value={email.digest}
+              onChange={(e) => setPreferences({ ...preferences, email: { ...email, digest: e.target.value as EmailDigestMode } })}
+              className="select-field"
+            >
+              {digestOptions.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">Digests only include notifications you haven't read in the app yet.</p>
+          </div>
+        </div>
+
+        <div className="card space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Quiet hours</h2>
+              <p className="text-sm text-gray-600">No emails during these hours; they are sent once quiet hours end. Notifications still show up in the app.</p>
+            </div>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={quietHours.enabled}
+                onChange={(e) => setPreferences({ ...preferences, quietHours: { ...quietHours, enabled: e.target.checked } })}
+                className="mr-2"
+              />
+              Enabled
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="quietStart" className="block text-sm font-medium text-gray-700">From</label>
+              <input
+                id="quietStart"
+                type="time"
+                value={quietHours.start}
+                onChange={(e) => setPreferences({ ...preferences, quietHours: { ...quietHours, start: e.target.value } })}
+                className="input-field"
+                disabled={!quietHours.enabled}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="quietEnd" className="block text-sm font-medium text-gray-700">Until</label>
+              <input
+                id="quietEnd"
+                type="time"
+                value={quietHours.end}
+                onChange={(e) => setPreferences({ ...preferences, quietHours: { ...quietHours, end: e.target.value } })}
+                className="input-field"
+                disabled={!quietHours.enabled}
+                required
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button type="submit" disabled={isSaving} className="btn-primary">Save Preferences</button>
+        </div>
+      </form>
+
+      <div className="card">
+        <h2 className="text-lg font-medium text-gray-900 mb-1">Muted</h2>
+        <p className="text-sm text-gray-600 mb-4">You get no notifications about these tasks and customers. Mute more from a task or customer.</p>
+        <ul className="divide-y text-sm">
+          {preferences.mutedTasks.map(task => (
+            <li key={task._id} className="py-2 flex items-center justify-between">
+              <span className="text-gray-700">Task: {task.title}</span>
+              <button onClick={() => handleUnmute('tasks', task._id)} className="text-primary-600 hover:underline">Unmute</button>
+            </li>
+          ))}
+          {preferences.mutedCustomers.map(customer => (
+            <li key={customer._id} className="py-2 flex items-center justify-between">
+              <span className="text-gray-700">Customer: {customer.companyName}</span>
+              <button onClick={() => handleUnmute('customers', customer._id)} className="text-primary-600 hover:underline">Unmute</button>
+            </li>
+          ))}
+          {preferences.mutedTasks.length === 0 && preferences.mutedCustomers.length === 0 && (
+            <li className="py-2 text-gray-500">Nothing is muted.</li>
+          )}
+        </ul>
+      </div>
+
+      <TwoFactorSettings />
+
+      <SessionList />
+
+      {(user?.role === 'admin' || user?.role === 'manager') && <EscalationPolicyForm />}
+
+      {user?.role === 'admin' && <SecurityPolicyForm />}
+    </div>
+  );
+}
+
+export default Settings;
@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import { format, subDays } from 'date-fns';
+import { Plus, Edit, Trash2 } from 'lucide-react';
+import { customersAPI, slaAPI } from '../services/api';
+import { Customer, SlaPolicy, SlaPolicyInput, SlaReportRow } from '../types';
+import SlaPolicyModal from '../components/SlaPolicyModal';
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate}%`);
+
+const formatHours = (hours: number | null) => (hours === null ? '—' : `${hours}h`);
+
+const rateColor = (rate: number | null) => {
+  if (rate === null) return 'text-gray-500';
+  if (rate >= 95) return 'text-success-700';
+  if (rate >= 80) return 'text-warning-700';
+  return 'text-danger-700';
+};
+
+function Sla() {
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [report, setReport] = useState<SlaReportRow[]>([]);
+  const [from, setFrom] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [editingPolicy, setEditingPolicy] = useState<SlaPolicy | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const loadPolicies = useCallback(async () => {
+    try {
+      const response = await slaAPI.getPolicies();
+      setPolicies(response.data.policies);
+    } catch (error) {
+      console.error('Failed to fetch SLA policies:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPolicies();
+    customersAPI.getAll({ limit: 1000 })
+      .then(response => setCustomers(response.data.customers))
+      .catch(error => console.error('Failed to fetch customers:', error));
+  }, [loadPolicies]);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        // Whole days: from the start of `from` to the end of `to`
+        const response = await slaAPI.getReport({
+          from: new Date(`${from}T00:00:00`).toISOString(),
+          to: new Date(`${to}T23:59:59.999`).toISOString(),
+        });
+        setReport(response.data.report);
+      } catch (error) {
+        console.error('Failed to fetch SLA report:', error);
+      }
+    };
+    if (from && to) fetchReport();
+  }, [from, to]);
+
+  const handleSave = async (policy: SlaPolicyInput) => {
+    try {
+      if (editingPolicy) {
+        await slaAPI.updatePolicy(editingPolicy._id, policy);
+      } else {
+        await slaAPI.createPolicy(policy);
+      }
+      setIsModalOpen(false);
+      setEditingPolicy(null);
+      loadPolicies();
+    } catch (error) {
+      console.error('Failed to save SLA policy:', error);
+      const data = isAxiosError(error) ? error.response?.data : undefined;
+      const message = Array.isArray(data?.errors) ? data.errors.map((err: { msg: string }) => err.msg).join('\n') : data?.message;
+      alert(message || 'Failed to save SLA policy.');
+    }
+  };
+
+  const handleDelete = async (policy: SlaPolicy) => {
+    if (!window.confirm(`Delete the SLA policy "${policy.name}"? Tasks keep the SLA targets they already have.`)) return;
+    try {
+      await slaAPI.deletePolicy(policy._id);
+      loadPolicies();
+    } catch (error) {
+      console.error('Failed to delete SLA policy:', error);
+      alert('Failed to delete SLA policy.');
+    }
+  };
+
+  return (
+    <div className="space-y-6 w-full">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Service Levels</h1>
+          <p className="text-gray-600">Response and resolution targets for customer tasks</p>
+        </div>
+        <button onClick={() => { setEditingPolicy(null); setIsModalOpen(true); }} className="btn-primary flex items-center">
+          <Plus className="w-4 h-4 mr-2" />
+          New Policy
+        </button>
+      </div>
+
+      <div className="card">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">Policies</h2>
+        {policies.length === 0 ? (
+          <p className="text-sm text-gray-500">No SLA policies yet. Tasks for customers without a policy have no SLA.</p>
+        ) : (
+          <ul className="divide-y">
+            {policies.map(policy => (
+              <li key={policy._id} className="py-3 flex justify-between items-center">
+                <div>
+                  <p className="font-semibold">
+                    {policy.name}
+                    {!policy.isActive && <span className="ml-2 text-xs font-normal text-gray-500">(inactive)</span>}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {policy.customer ? `Customer: ${policy.customer.companyName}` : `Company type: ${policy.companyType}`}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    Urgent: pick up in {policy.targets.urgent.responseHours}h, complete in {policy.targets.urgent.resolutionHours}h
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button onClick={() => { setEditingPolicy(policy); setIsModalOpen(true); }} className="text-gray-500 hover:text-primary-600" title="Edit policy"><Edit size={16} /></button>
+                  <button onClick={() => handleDelete(policy)} className="text-gray-500 hover:text-danger-600" title="Delete policy"><Trash2 size={16} /></button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="card">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Compliance</h2>
+            <p className="text-sm text-gray-600">Tasks created in the period; pending targets haven't been met or missed yet.</p>
+          </div>
+          <div className="flex items-end gap-2">
+            <div>
+              <label htmlFor="slaFrom" className="block text-sm font-medium text-gray-700">From</label>
+              <input id="slaFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="input-field" />
+            </div>
+            <div>
+              <label htmlFor="slaTo" className="block text-sm font-medium text-gray-700">To</label>
+              <input id="slaTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="input-field" />
+            </div>
+          </div>
+        </div>
+
+        {report.length === 0 ? (
+          <p className="text-sm text-gray-500">No customer tasks with an SLA in this period.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="pb-2 font-medium">Customer</th>
+                  <th className="pb-2 font-medium text-right">Tasks</th>
+                  <th className="pb-2 font-medium text-right">Response met / missed / pending</th>
+                  <th className="pb-2 font-medium text-right">Response</th>
+                  <th className="pb-2 font-medium text-right">Resolution met / missed / pending</th>
+                  <th className="pb-2 font-medium text-right">Resolution</th>
+                  <th className="pb-2 font-medium text-right">Avg. pick up / complete</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {report.map(row => (
+                  <tr key={row.customer._id}>
+                    <td className="py-2">
+                      <p className="text-gray-900">{row.customer.companyName}</p>
+                      <p className="text-xs text-gray-500">{row.customer.companyType}</p>
+                    </td>
+                    <td className="py-2 text-right">{row.tasks}</td>
+                    <td className="py-2 text-right">{row.responseMet} / {row.responseBreached} / {row.responsePending}</td>
+                    <td className={`py-2 text-right font-medium ${rateColor(row.responseCompliance)}`}>{formatRate(row.responseCompliance)}</td>
+                    <td className="py-2 text-right">{row.resolutionMet} / {row.resolutionBreached} / {row.resolutionPending}</td>
+                    <td className={`py-2 text-right font-medium ${rateColor(row.resolutionCompliance)}`}>{formatRate(row.resolutionCompliance)}</td>
+                    <td className="py-2 text-right">{formatHours(row.avgResponseHours)} / {formatHours(row.avgResolutionHours)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {isModalOpen && (
+        <SlaPolicyModal
+          policy={editingPolicy}
+          customers={customers}
+          onSave={handleSave}
+          onCancel={() => { setIsModalOpen(false); setEditingPolicy(null); }}
+        />
+      )}
+    </div>
+  );
+}
+
+export default Sla;
@@ -1,14 +1,19 @@
 import React, { useState, useEffect } from 'react';
+import { isAxiosError } from 'axios';
 import { taskCategoriesAPI } from '../services/api';
-import { TaskCategory } from '../types';
-import { Plus, Edit, Trash2 } from 'lucide-react';
+import { TaskCategory, Workflow } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { Plus, Edit, Trash2, GitBranch } from 'lucide-react';
+import WorkflowEditor from '../components/WorkflowEditor';
 
 const TaskCategories = () => {
+  const { user } = useAuth();
   const [categories, setCategories] = useState<TaskCategory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<TaskCategory | null>(null);
   const [formData, setFormData] = useState({ name: '', description: '' });
+  const [workflowCategory, setWorkflowCategory] = useState<TaskCategory | null>(null);
 
   useEffect(() => {
     loadCategories();
@@ -52,6 +57,20 @@ const TaskCategories = () => {
     }
   };
 
+  const handleSaveWorkflow = async (workflow: Workflow | null) => {
+    if (!workflowCategory) return;
+    if (!workflow && !window.confirm('Restore the default To Do → In Progress → Completed workflow for this category?')) return;
+    try {
+      await taskCategoriesAPI.updateWorkflow(workflowCategory._id, workflow);
+      loadCategories();
+      setWorkflowCategory(null);
+    } catch (error) {
+      console.error('Error saving workflow:', error);
+      const message = isAxiosError(error) ? error.response?.data?.message : undefined;
+      alert(message || 'Failed to save workflow.');
+    }
+  };
+
   const handleDelete = async (id: string) => {
     if (window.confirm('Are you sure you want to delete this category?')) {
       try {
@@ -83,8 +102,14 @@ const TaskCategories = () => {
                 <div>
                   <p className="font-semibold">{category.name}</p>
                   <p className="text-sm text-gray-500">{category.description}</p>
+                  {category.workflow && (
+                    <p className="text-xs text-gray-400">{category.workflow.statuses.map(status => status.name).join(' · ')}</p>
+                  )}
                 </div>
                 <div className="flex items-center space-x-2">
+                  {user?.role === 'admin' && (
+                    <button onClick={() => setWorkflowCategory(category)} className="text-gray-500 hover:text-primary-600" title="Edit workflow"><GitBranch size={16} /></button>
+                  )}
                   <button onClick={() => handleOpenModal(category)} className="text-gray-500 hover:text-primary-600"><Edit size={16} /></button>
                   <button onClick={() => handleDelete(category._id)} className="text-gray-500 hover:text-danger-600"><Trash2 size={16} /></button>
                 </div>
@@ -128,6 +153,15 @@ const TaskCategories = () => {
           </div>
         </div>
       )}
+
+      {workflowCategory && (
+        <WorkflowEditor
+          categoryName={workflowCategory.name}
+          workflow={workflowCategory.workflow}
+          onSave={handleSaveWorkflow}
+          onCancel={() => setWorkflowCategory(null)}
+        />
+      )}
     </div>
   );
 };
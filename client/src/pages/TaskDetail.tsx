@@ -0,0 +1,216 @@
+import { useEffect, useState, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { format } from 'date-fns';
+import { ArrowLeft, Calendar, Edit, ListChecks, Phone, Repeat, User } from 'lucide-react';
+import { tasksAPI } from '../services/api';
+import { Task, TaskChangeEvent, TaskInput } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useRealtime } from '../contexts/RealtimeContext';
+import { describeRecurrence } from '../utils/recurrence';
+import { getCurrentStatus, getWorkflow } from '../utils/workflow';
+import TaskModal from '../components/TaskModal';
+import TaskAttachments from '../components/TaskAttachments';
+import TaskComments from '../components/TaskComments';
+import TaskHistory from '../components/TaskHistory';
+
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'urgent': return 'bg-danger-100 text-danger-800';
+    case 'high': return 'bg-warning-100 text-warning-800';
+    case 'medium': return 'bg-blue-100 text-blue-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'completed': return 'bg-success-100 text-success-800';
+    case 'in-progress': return 'bg-blue-100 text-blue-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
+
+function TaskDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { subscribe } = useRealtime();
+  const canEdit = user?.role === 'admin' || user?.role === 'manager';
+  const [task, setTask] = useState<Task | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const loadTask = useCallback(async () => {
+    if (!id) return;
+    try {
+      const response = await tasksAPI.getById(id);
+      setTask(response.data.task);
+      setError('');
+    } catch (error) {
+      console.error('Error fetching task:', error);
+      setTask(null);
+      setError((isAxiosError(error) && error.response?.data?.message) || 'Failed to load the task.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadTask();
+  }, [loadTask]);
+
+  // Someone else may change or delete the task while it is open
+  useEffect(() => subscribe<TaskChangeEvent>('task', ({ action, taskId }) => {
+    if (taskId !== id) return;
+    if (action === 'deleted') {
+      setTask(null);
+      setError('This task was deleted.');
+    } else {
+      loadTask();
+    }
+  }), [subscribe, id, loadTask]);
+
+  const handleSaveTask = async (taskData: TaskInput) => {
+    if (!task) return;
+    try {
+      const response = await tasksAPI.update(task._id, taskData);
+      setTask(response.data.task);
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Error saving task:', error);
+      const data = isAxiosError(error) ? error.response?.data : undefined;
+      if (Array.isArray(data?.errors)) {
+        alert(`Failed to save task:\n${data.errors.map((err: { msg: string }) => err.msg).join('\n')}`);
+      } else {
+        alert(data?.message ? `Failed to save task: ${data.message}` : 'Failed to save task.');
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (!task) {
+    return (
+      <div className="card text-center py-12">
+        <h3 className="text-lg font-medium text-gray-900 mb-2">{error || 'Task not found'}</h3>
+        <Link to="/tasks" className="text-primary-600 hover:underline">Back to tasks</Link>
+      </div>
+    );
+  }
+
+  const currentStatus = getCurrentStatus(getWorkflow(task.category), task);
+  const isOverdue = new Date(task.dueDate) < new Date() && task.status !== 'completed';
+  const sourceCall = typeof task.sourceCall === 'object' ? task.sourceCall : null;
+
+  return (
+    <div className="space-y-6 w-full">
+      <div>
+        <Link to="/tasks" className="text-sm text-primary-600 hover:underline flex items-center mb-2">
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back to tasks
+        </Link>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{task.title}</h1>
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(task.status)}`}>
+                {currentStatus.name}
+              </span>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(task.priority)}`}>
+                {task.priority}
+              </span>
+              {task.category?.name && <span className="text-sm text-gray-500">{task.category.name}</span>}
+            </div>
+          </div>
+          <button onClick={() => setIsEditing(true)} className="btn-secondary flex items-center">
+            {canEdit ? <Edit className="w-4 h-4 mr-2" /> : <ListChecks className="w-4 h-4 mr-2" />}
+            {canEdit ? 'Edit' : 'Subtasks & dependencies'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <div className="card space-y-2">
+            <h2 className="text-lg font-medium text-gray-900 mb-2">Details</h2>
+            <p className={`flex items-center text-sm ${isOverdue ? 'text-danger-600 font-medium' : 'text-gray-600'}`}>
+              <Calendar className="w-4 h-4 mr-2" />
+              Due {format(new Date(task.dueDate), 'MMM dd, yyyy HH:mm')}
+            </p>
+            <p className="flex items-center text-sm text-gray-600">
+              <User className="w-4 h-4 mr-2" />
+              Assigned to {task.assignedTo?.name}
+            </p>
+            {task.recurrence && (
+              <p className="flex items-center text-sm text-gray-600">
+                <Repeat className="w-4 h-4 mr-2" />
+                {describeRecurrence(task.recurrence)}
+              </p>
+            )}
+            {task.customer && (
+              <p className="text-sm">
+                <span className="font-medium text-gray-700">Customer:</span>
+                <Link to={`/customers/${task.customer._id}`} className="ml-2 text-primary-600 hover:underline">
+                  {task.customer.companyName}
+                </Link>
+              </p>
+            )}
+            {sourceCall && (
+              <p className="flex items-center text-sm">
+                <Phone className="w-4 h-4 mr-2 text-gray-600" />
+                <Link to={`/calls/${sourceCall._id}`} className="text-primary-600 hover:underline truncate">
+                  Follow-up of the {sourceCall.callType} call on {format(new Date(sourceCall.createdAt), 'MMM dd, yyyy')}
+                </Link>
+              </p>
+            )}
+            {task.progress && task.progress.total > 0 && (
+              <p className="text-sm text-gray-600">
+                {task.progress.completed}/{task.progress.total} subtasks & items done
+              </p>
+            )}
+            <p className="text-xs text-gray-500 pt-2">
+              Created {format(new Date(task.createdAt), 'MMM dd, yyyy')}
+              {task.createdBy && ` by ${task.createdBy.name}`}
+            </p>
+          </div>
+
+          <div className="card">
+            <h2 className="text-lg font-medium text-gray-900 mb-2">Description</h2>
+            <p className="text-sm text-gray-600 whitespace-pre-line">{task.description || 'No description.'}</p>
+          </div>
+
+          <div className="card">
+            <TaskAttachments task={task} canEdit={canEdit} onChange={setTask} />
+          </div>
+        </div>
+
+        <div className="card lg:col-span-2">
+          <TaskComments task={task} onChange={setTask} />
+        </div>
+      </div>
+
+      <div className="card">
+        <h2 className="text-lg font-medium text-gray-900 mb-4">History</h2>
+        <TaskHistory taskId={task._id} />
+      </div>
+
+      <TaskModal
+        isOpen={isEditing}
+        onClose={() => setIsEditing(false)}
+        onSave={handleSaveTask}
+        taskToEdit={task}
+        onTaskChange={setTask}
+      />
+    </div>
+  );
+}
+
+export default TaskDetail;
@@ -1,13 +1,49 @@
-import { useState, useEffect } from 'react';
-import { Plus, Search, Filter } from 'lucide-react';
-import { tasksAPI } from '../services/api';
+import { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import { Plus, Search, Filter, LayoutGrid, Kanban, SlidersHorizontal } from 'lucide-react';
+import { tasksAPI, settingsAPI } from '../services/api';
 import TaskCard from '../components/TaskCard';
-import { Task, TaskInput } from '../types';
+import TaskBoard from '../components/TaskBoard';
+import WipLimitsForm from '../components/WipLimitsForm';
+import ExportMenu from '../components/ExportMenu';
+import { BoardColumn, BoardPlacement, BoardSwimlane, ColumnCounts, ExportFormat, Task, TaskChangeEvent, TaskInput, TaskStatusChange, TransitionField, WipLimits } from '../types';
 import TaskModal from '../components/TaskModal';
 import { useAuth } from '../contexts/AuthContext';
+import { useRealtime } from '../contexts/RealtimeContext';
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (isAxiosError(error) && error.response?.data?.message) || fallback;
+
+const fieldPrompts: Record<TransitionField, string> = {
+  comment: 'This status change requires a comment:',
+  resolution: 'This status change requires a resolution:',
+};
+
+// Sends a status change, asking for the comment or resolution the workflow transition requires
+const sendStatusChange = async (taskId: string, change: TaskStatusChange) => {
+  try {
+    return await tasksAPI.updateTaskStatus(taskId, change);
+  } catch (error) {
+    const requiredFields: TransitionField[] | undefined = isAxiosError(error) ? error.response?.data?.requiredFields : undefined;
+    if (!requiredFields || requiredFields.length === 0) {
+      throw error;
+    }
+
+    const completedChange = { ...change };
+    for (const field of requiredFields) {
+      const value = window.prompt(fieldPrompts[field]);
+      if (!value?.trim()) {
+        throw error;
+      }
+      completedChange[field] = value;
+    }
+    return tasksAPI.updateTaskStatus(taskId, completedChange);
+  }
+};
 
 function Tasks() {
   const { user } = useAuth();
+  const { subscribe } = useRealtime();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -15,30 +51,126 @@ function Tasks() {
   const [priorityFilter, setPriorityFilter] = useState('all');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [view, setView] = useState<'grid' | 'board'>(() => (localStorage.getItem('tasksView') === 'board' ? 'board' : 'grid'));
+  const [swimlane, setSwimlane] = useState<BoardSwimlane>('none');
+  const [wipLimits, setWipLimits] = useState<WipLimits>({});
+  const [columnCounts, setColumnCounts] = useState<ColumnCounts>({});
+  const [isEditingLimits, setIsEditingLimits] = useState(false);
+  const canManage = user?.role === 'admin' || user?.role === 'manager';
 
   useEffect(() => {
-    loadTasks();
+    loadSettings();
   }, []);
 
-  const loadTasks = async () => {
+  // The board shows every task, the grid the latest ones
+  const loadTasks = useCallback(async () => {
     try {
-      const response = await tasksAPI.getAll();
-      setTasks(response.data.tasks || []);
+      if (view === 'board') {
+        const response = await tasksAPI.getBoard();
+        setTasks(response.data.tasks || []);
+        setColumnCounts(response.data.counts || {});
+      } else {
+        const response = await tasksAPI.getAll({ limit: 100 });
+        setTasks(response.data.tasks || []);
+      }
     } catch (error) {
       console.error('Error loading tasks:', error);
     } finally {
       setIsLoading(false);
     }
+  }, [view]);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks]);
+
+  // Keep the list in sync with changes pushed by the server
+  useEffect(() => {
+    let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribe<TaskChangeEvent>('task', ({ action, taskId }) => {
+      if (action === 'deleted') {
+        setTasks(prev => prev.filter(task => task._id !== taskId));
+        return;
+      }
+
+      // Changes arrive in bursts (e.g. a reordered column), so reload once they settle
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(loadTasks, 300);
+    });
+
+    return () => {
+      clearTimeout(reloadTimer);
+      unsubscribe();
+    };
+  }, [subscribe, loadTasks]);
+
+  const loadSettings = async () => {
+    try {
+      const response = await settingsAPI.get();
+      setWipLimits(response.data.settings?.board?.wipLimits || {});
+    } catch (error) {
+      console.error('Error loading board settings:', error);
+    }
   };
 
-  const handleStatusChange = async (taskId: string, status: string) => {
+  const handleViewChange = (newView: 'grid' | 'board') => {
+    setView(newView);
+    localStorage.setItem('tasksView', newView);
+  };
+
+  const handleSaveWipLimits = async (limits: Record<BoardColumn, number | null>) => {
     try {
-      const response = await tasksAPI.updateTaskStatus(taskId, status);
+      const response = await settingsAPI.updateBoard(limits);
+      setWipLimits(response.data.settings.board.wipLimits || {});
+      setIsEditingLimits(false);
+    } catch (error) {
+      console.error('Error saving WIP limits:', error);
+      alert(errorMessage(error, 'Failed to save WIP limits.'));
+    }
+  };
+
+  // Moves a card on the board: status first (may be rejected by WIP limits or blockers), then its place in the column
+  const handleMoveTask = async (taskId: string, status: BoardColumn, orderedIds: string[]) => {
+    const previousTasks = tasks;
+    const movedTask = tasks.find(task => task._id === taskId);
+    const statusChanged = movedTask !== undefined && movedTask.status !== status;
+
+    // The server places the card next to its neighbour, so cards not loaded here keep their order
+    const index = orderedIds.indexOf(taskId);
+    const placement: BoardPlacement = index < orderedIds.length - 1
+      ? { beforeTaskId: orderedIds[index + 1] }
+      : index > 0 ? { afterTaskId: orderedIds[index - 1] } : {};
+
+    setTasks(prev => prev.map(task => {
+      const position = orderedIds.indexOf(task._id);
+      return position === -1 ? task : { ...task, status: task._id === taskId ? status : task.status, boardPosition: position };
+    }));
+
+    try {
+      if (statusChanged) {
+        await sendStatusChange(taskId, { status });
+      }
+      await tasksAPI.saveBoardOrder(status, taskId, placement);
+      // A status change can unblock other tasks or create the next occurrence of a recurring one
+      if (statusChanged) {
+        await loadTasks();
+      }
+    } catch (error) {
+      console.error('Error moving task:', error);
+      setTasks(previousTasks);
+      alert(errorMessage(error, 'Failed to move task.'));
+    }
+  };
+
+  const handleStatusChange = async (taskId: string, workflowStatus: string) => {
+    try {
+      const response = await sendStatusChange(taskId, { workflowStatus });
       setTasks(tasks.map(task => 
         task._id === taskId ? response.data.task : task
       ));
     } catch (error) {
       console.error('Error updating task status:', error);
+      alert(errorMessage(error, 'Failed to update task status.'));
     }
   };
 
@@ -69,6 +201,8 @@ function Tasks() {
       if (error.response && error.response.data && Array.isArray(error.response.data.errors)) {
         const errorMessages = error.response.data.errors.map((err: any) => err.msg).join('\n');
         alert(`Failed to save task:\n${errorMessages}`);
+      } else if (error.response?.data?.message) {
+        alert(`Failed to save task: ${error.response.data.message}`);
       } else {
         alert('Failed to save task. Please check the console for details.');
       }
@@ -78,12 +212,22 @@ function Tasks() {
   const filteredTasks = tasks.filter(task => {
     const matchesSearch = task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          task.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === 'all' || task.status === statusFilter;
+    // The board shows every status as its own column
+    const matchesStatus = view === 'board' || statusFilter === 'all' || task.status === statusFilter;
     const matchesPriority = priorityFilter === 'all' || task.priority === priorityFilter;
     
     return matchesSearch && matchesStatus && matchesPriority;
   });
 
+  // The export applies the filters on screen, on the server
+  const handleExport = (format: ExportFormat) => {
+    const params: Record<string, string> = {};
+    if (searchTerm) params.search = searchTerm;
+    if (view === 'grid' && statusFilter !== 'all') params.status = statusFilter;
+    if (priorityFilter !== 'all') params.priority = priorityFilter;
+    return tasksAPI.export(format, params);
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -100,12 +244,31 @@ function Tasks() {
           <h1 className="text-2xl font-bold text-gray-900">Tasks</h1>
           <p className="text-gray-600">Manage and track your tasks</p>
         </div>
-        {user && (user.role === 'admin' || user.role === 'manager') && (
-          <button onClick={() => { setEditingTask(null); setIsModalOpen(true); }} className="btn-primary flex items-center">
-            <Plus className="w-4 h-4 mr-2" />
-            New Task
-          </button>
-        )}
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            <button
+              onClick={() => handleViewChange('grid')}
+              className={`p-2 ${view === 'grid' ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              title="Card grid"
+            >
+              <LayoutGrid className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => handleViewChange('board')}
+              className={`p-2 ${view === 'board' ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+              title="Board"
+            >
+              <Kanban className="w-4 h-4" />
+            </button>
+          </div>
+          <ExportMenu filename="tasks" onExport={handleExport} />
+          {user && (user.role === 'admin' || user.role === 'manager') && (
+            <button onClick={() => { setEditingTask(null); setIsModalOpen(true); }} className="btn-primary flex items-center">
+              <Plus className="w-4 h-4 mr-2" />
+              New Task
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Filters */}
@@ -124,16 +287,28 @@ function Tasks() {
             </div>
           </div>
           <div className="flex gap-4">
-            <select
-              className="select-field"
-              value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value)}
-            >
-              <option value="all">All Status</option>
-              <option value="todo">To Do</option>
-              <option value="in-progress">In Progress</option>
-              <option value="completed">Completed</option>
-            </select>
+            {view === 'grid' ? (
+              <select
+                className="select-field"
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+              >
+                <option value="all">All Status</option>
+                <option value="todo">To Do</option>
+                <option value="in-progress">In Progress</option>
+                <option value="completed">Completed</option>
+              </select>
+            ) : (
+              <select
+                className="select-field"
+                value={swimlane}
+                onChange={(e) => setSwimlane(e.target.value as BoardSwimlane)}
+              >
+                <option value="none">No swimlanes</option>
+                <option value="assignee">Swimlanes by assignee</option>
+                <option value="customer">Swimlanes by customer</option>
+              </select>
+            )}
             <select
               className="select-field"
               value={priorityFilter}
@@ -145,12 +320,34 @@ function Tasks() {
               <option value="high">High</option>
               <option value="urgent">Urgent</option>
             </select>
+            {view === 'board' && canManage && (
+              <button onClick={() => setIsEditingLimits(!isEditingLimits)} className="btn-secondary flex items-center whitespace-nowrap">
+                <SlidersHorizontal className="w-4 h-4 mr-2" />
+                WIP limits
+              </button>
+            )}
           </div>
         </div>
       </div>
 
+      {view === 'board' && isEditingLimits && (
+        <WipLimitsForm wipLimits={wipLimits} onSave={handleSaveWipLimits} onCancel={() => setIsEditingLimits(false)} />
+      )}
+
+      {/* Board */}
+      {view === 'board' && (
+        <TaskBoard
+          tasks={filteredTasks}
+          swimlane={swimlane}
+          wipLimits={wipLimits}
+          columnCounts={columnCounts}
+          onMove={handleMoveTask}
+          onOpen={canManage ? (task) => { setEditingTask(task); setIsModalOpen(true); } : undefined}
+        />
+      )}
+
       {/* Tasks Grid */}
-      {filteredTasks.length > 0 ? (
+      {view === 'grid' && (filteredTasks.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {filteredTasks.map((task) => (
             <TaskCard
@@ -183,13 +380,14 @@ function Tasks() {
             </button>
           )}
         </div>
-      )}
+      ))}
 
       <TaskModal
         isOpen={isModalOpen}
         onClose={() => { setIsModalOpen(false); setEditingTask(null); }}
         onSave={handleSaveTask}
         taskToEdit={editingTask}
+        onTaskChange={(updatedTask) => setTasks(prev => prev.map(t => (t._id === updatedTask._id ? updatedTask : t)))}
       />
     </div>
   );
@@ -1,9 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
+import { isAxiosError } from 'axios';
 import { useAuth } from '../contexts/AuthContext';
 import { usersAPI } from '../services/api';
 import { IUser } from '../types';
 
+const isLocked = (u: IUser) => !!u.lockedUntil && new Date(u.lockedUntil) > new Date();
+
 const Users: React.FC = () => {
   const [users, setUsers] = useState<IUser[]>([]);
   const [loading, setLoading] = useState(true);
@@ -25,6 +28,25 @@ const Users: React.FC = () => {
     fetchUsers();
   }, []);
 
+  const handleUnlock = async (target: IUser) => {
+    try {
+      const response = await usersAPI.unlock(target._id);
+      setUsers(prev => prev.map(u => (u._id === target._id ? response.data.user : u)));
+    } catch (err) {
+      alert((isAxiosError(err) && err.response?.data?.message) || 'Failed to unlock the account');
+    }
+  };
+
+  const handleResetTwoFactor = async (target: IUser) => {
+    if (!window.confirm(`Turn off two-factor authentication for ${target.name}? Only do this if they have lost both their authenticator and their recovery codes.`)) return;
+    try {
+      const response = await usersAPI.resetTwoFactor(target._id);
+      setUsers(prev => prev.map(u => (u._id === target._id ? { ...u, twoFactor: response.data.user.twoFactor } : u)));
+    } catch (err) {
+      alert((isAxiosError(err) && err.response?.data?.message) || 'Failed to reset two-factor authentication');
+    }
+  };
+
   if (loading) {
     return <div className="text-center p-4">Loading...</div>;
   }
@@ -59,6 +81,9 @@ const Users: React.FC = () => {
               <th className="px-5 py-3 border-b-2 border-gray-200 bg-gray-100 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
                 Status
               </th>
+              <th className="px-5 py-3 border-b-2 border-gray-200 bg-gray-100 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                Two-factor
+              </th>
             </tr>
           </thead>
           <tbody>
@@ -78,6 +103,26 @@ const Users: React.FC = () => {
                     <span aria-hidden className={`absolute inset-0 ${u.isActive ? 'bg-green-200' : 'bg-red-200'} opacity-50 rounded-full`}></span>
                     <span className="relative">{u.isActive ? 'Active' : 'Inactive'}</span>
                   </span>
+                  {isLocked(u) && (
+                    <span className="ml-2 text-red-600 font-semibold">
+                      Locked
+                      {user?.role === 'admin' && (
+                        <button onClick={() => handleUnlock(u)} className="ml-2 font-normal hover:underline">
+                          Unlock
+                        </button>
+                      )}
+                    </span>
+                  )}
+                </td>
+                <td className="px-5 py-5 border-b border-gray-200 bg-white text-sm">
+                  <p className="text-gray-900 whitespace-no-wrap">
+                    {u.twoFactor?.enabled ? 'On' : 'Off'}
+                    {u.twoFactor?.enabled && user?.role === 'admin' && (
+                      <button onClick={() => handleResetTwoFactor(u)} className="ml-3 text-red-600 hover:underline">
+                        Reset
+                      </button>
+                    )}
+                  </p>
                 </td>
               </tr>
             ))}
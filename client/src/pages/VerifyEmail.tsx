@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { MailCheck } from 'lucide-react';
+import { authAPI } from '../services/api';
+
+function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed');
+  const [message, setMessage] = useState(token ? '' : 'This link is missing its verification token.');
+  const [email, setEmail] = useState('');
+  const [resendMessage, setResendMessage] = useState('');
+  // Tokens work once, so a second run of the effect (React strict mode) must not send it again
+  const hasSubmitted = useRef(false);
+
+  useEffect(() => {
+    if (!token || hasSubmitted.current) return;
+    hasSubmitted.current = true;
+    authAPI.verifyEmail(token)
+      .then(response => {
+        setStatus('verified');
+        setMessage(response.data.message);
+      })
+      .catch(err => {
+        setStatus('failed');
+        setMessage((isAxiosError(err) && err.response?.data?.message) || 'Failed to verify your email address.');
+      });
+  }, [token]);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authAPI.resendVerification(email);
+      setResendMessage(response.data.message);
+    } catch (err) {
+      setResendMessage((isAxiosError(err) && err.response?.data?.message) || 'Failed to send a new link. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-primary-100">
+            <MailCheck className="h-6 w-6 text-primary-600" />
+          </div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Verify your email
+          </h2>
+        </div>
+
+        {status === 'verifying' && (
+          <div className="flex items-center justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        )}
+
+        {status === 'verified' && (
+          <div className="p-4 bg-success-50 rounded-md text-sm text-success-800 text-center">{message}</div>
+        )}
+
+        {status === 'failed' && (
+          <div className="space-y-6">
+            <div className="text-danger-600 text-sm text-center">{message}</div>
+            {resendMessage ? (
+              <div className="p-4 bg-success-50 rounded-md text-sm text-success-800 text-center">{resendMessage}</div>
+            ) : (
+              <form className="flex gap-2" onSubmit={handleResend}>
+                <input
+                  type="email"
+                  required
+                  className="input-field"
+                  placeholder="Email address"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+                <button type="submit" className="btn-primary whitespace-nowrap">Send new link</button>
+              </form>
+            )}
+          </div>
+        )}
+
+        <p className="text-center text-sm text-gray-600">
+          <Link to="/login" className="font-medium text-primary-600 hover:text-primary-500">Go to sign in</Link>
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default VerifyEmail;
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { ActivityEntity, ActivityLogFilters, BoardPlacement, EscalationPolicies, ExportFormat, FollowUpCallInput, MuteTarget, NotificationPreferencesInput, SlaPolicyInput, TaskStatusChange, TwoFactorRole, TwoFactorSetupInfo, Workflow } from '../types';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
 
@@ -7,6 +8,7 @@ export const api = axios.create({
   headers: {
     'Content-Type': 'application/json',
   },
+  withCredentials: true, // sends the httpOnly refresh cookie to /auth
 });
 
 // Add request interceptor to include auth token
@@ -18,14 +20,48 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+// Access tokens expire after a few minutes; the refresh cookie gets a new one.
+// Only one refresh runs at a time, and requests that fail meanwhile wait for it.
+let refreshing: Promise<string> | null = null;
+
+export const refreshAccessToken = (): Promise<string> => {
+  refreshing ??= axios.post(`${API_URL}/auth/refresh`, null, { withCredentials: true })
+    .then(response => {
+      localStorage.setItem('token', response.data.token);
+      return response.data.token as string;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+};
+
+// Signing in, out or up never needs a refresh; a 401 there is the answer itself
+const isAuthRequest = (url?: string) => /^\/auth\/(login|register|logout|refresh)/.test(url ?? '');
+const retriedRequests = new WeakSet<object>();
+
 // Add response interceptor to handle auth errors
 api.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      window.location.href = '/login';
+  async (error) => {
+    const request = error.config;
+    if (error.response?.status !== 401 || !request || isAuthRequest(request.url)) {
+      return Promise.reject(error);
+    }
+
+    if (!retriedRequests.has(request)) {
+      retriedRequests.add(request);
+      try {
+        const token = await refreshAccessToken();
+        request.headers.Authorization = `Bearer ${token}`;
+        return api(request);
+      } catch {
+        // The session is over; sign in again below
+      }
     }
+
+    localStorage.removeItem('token');
+    window.location.href = '/login';
     return Promise.reject(error);
   }
 );
@@ -36,32 +72,89 @@ export const authAPI = {
     api.post('/auth/login', { email, password }),
   register: (name: string, email: string, password: string) => 
     api.post('/auth/register', { name, email, password }),
+  forgotPassword: (email: string) => api.post('/auth/forgot-password', { email }),
+  resetPassword: (token: string, password: string) => api.post('/auth/reset-password', { token, password }),
+  verifyEmail: (token: string) => api.post('/auth/verify-email', { token }),
+  resendVerification: (email: string) => api.post('/auth/resend-verification', { email }),
+  loginTwoFactor: (challengeToken: string, code: string) => api.post('/auth/login/two-factor', { challengeToken, code }),
+  loginTwoFactorSetup: (challengeToken: string) =>
+    api.post<TwoFactorSetupInfo>('/auth/login/two-factor/setup', { challengeToken }),
+  loginTwoFactorEnable: (challengeToken: string, code: string) =>
+    api.post('/auth/login/two-factor/enable', { challengeToken, code }),
+  setupTwoFactor: () => api.post<TwoFactorSetupInfo>('/auth/two-factor/setup'),
+  enableTwoFactor: (code: string) => api.post('/auth/two-factor/enable', { code }),
+  disableTwoFactor: (password: string, code: string) => api.post('/auth/two-factor/disable', { password, code }),
+  regenerateRecoveryCodes: (code: string) => api.post('/auth/two-factor/recovery-codes', { code }),
+  logout: () => api.post('/auth/logout'),
+  logoutAll: () => api.post('/auth/logout-all'),
+  getSessions: () => api.get('/auth/sessions'),
+  revokeSession: (id: string) => api.delete(`/auth/sessions/${id}`),
   me: () => api.get('/auth/me'),
+  updateProfile: (profile: { name?: string; email?: string; timezone?: string }) =>
+    api.put('/auth/profile', profile),
+  getNotificationPreferences: () => api.get('/auth/notification-preferences'),
+  updateNotificationPreferences: (preferences: NotificationPreferencesInput) =>
+    api.put('/auth/notification-preferences', preferences),
+  mute: (target: MuteTarget, id: string) => api.put(`/auth/notification-preferences/muted/${target}/${id}`),
+  unmute: (target: MuteTarget, id: string) => api.delete(`/auth/notification-preferences/muted/${target}/${id}`),
 };
 
 export const tasksAPI = {
-  getAll: () => api.get('/tasks'),
+  getAll: (params?: Record<string, string | number>) => api.get('/tasks', { params }),
+  getBoard: () => api.get('/tasks/board'),
+  export: (format: ExportFormat, params?: Record<string, string>) =>
+    api.get<Blob>('/tasks/export', { params: { ...params, format }, responseType: 'blob' }),
   getById: (id: string) => api.get(`/tasks/${id}`),
+  getHistory: (id: string, at?: string) => api.get(`/tasks/${id}/history`, { params: at ? { at } : {} }),
   create: (task: any) => api.post('/tasks', task),
   update: (id: string, task: any) => api.put(`/tasks/${id}`, task),
-  updateTaskStatus: (id: string, status: string) => api.patch(`/tasks/${id}/status`, { status }),
+  updateTaskStatus: (id: string, change: TaskStatusChange) => api.patch(`/tasks/${id}/status`, change),
+  saveBoardOrder: (status: string, taskId: string, placement: BoardPlacement) =>
+    api.put('/tasks/board/order', { status, taskId, ...placement }),
   delete: (id: string) => api.delete(`/tasks/${id}`),
-  addComment: (taskId: string, text: string) => api.post(`/tasks/${taskId}/comments`, { text }),
+  getMentionableUsers: (taskId: string) => api.get(`/tasks/${taskId}/comments/mentionable`),
+  addComment: (taskId: string, text: string, parent?: string) => api.post(`/tasks/${taskId}/comments`, { text, parent }),
+  updateComment: (taskId: string, commentId: string, text: string) => api.put(`/tasks/${taskId}/comments/${commentId}`, { text }),
   deleteComment: (taskId: string, commentId: string) => api.delete(`/tasks/${taskId}/comments/${commentId}`),
+  toggleReaction: (taskId: string, commentId: string, emoji: string) =>
+    api.put(`/tasks/${taskId}/comments/${commentId}/reactions`, { emoji }),
   uploadAttachment: (taskId: string, formData: FormData) => api.post(`/tasks/${taskId}/attachments`, formData, {
     headers: {
       'Content-Type': 'multipart/form-data',
     },
   }),
   deleteAttachment: (taskId: string, attachmentId: string) => api.delete(`/tasks/${taskId}/attachments/${attachmentId}`),
+  addSubtask: (taskId: string, subtask: { title: string; assignedTo?: string; dueDate?: string }) => api.post(`/tasks/${taskId}/subtasks`, subtask),
+  updateSubtask: (taskId: string, subtaskId: string, changes: { title?: string; assignedTo?: string; status?: string; dueDate?: string | null }) => api.put(`/tasks/${taskId}/subtasks/${subtaskId}`, changes),
+  deleteSubtask: (taskId: string, subtaskId: string) => api.delete(`/tasks/${taskId}/subtasks/${subtaskId}`),
+  addChecklistItem: (taskId: string, text: string) => api.post(`/tasks/${taskId}/checklist`, { text }),
+  updateChecklistItem: (taskId: string, itemId: string, changes: { text?: string; isDone?: boolean }) => api.put(`/tasks/${taskId}/checklist/${itemId}`, changes),
+  deleteChecklistItem: (taskId: string, itemId: string) => api.delete(`/tasks/${taskId}/checklist/${itemId}`),
+  getDependencies: (taskId: string) => api.get(`/tasks/${taskId}/dependencies`),
+  addDependency: (taskId: string, prerequisiteId: string) => api.post(`/tasks/${taskId}/dependencies`, { taskId: prerequisiteId }),
+  removeDependency: (taskId: string, prerequisiteId: string) => api.delete(`/tasks/${taskId}/dependencies/${prerequisiteId}`),
 };
 
 export const customersAPI = {
-  getAll: () => api.get('/customers'),
+  getAll: (params?: Record<string, string | number>) => api.get('/customers', { params }),
+  export: (format: ExportFormat, params?: Record<string, string>) =>
+    api.get<Blob>('/customers/export', { params: { ...params, format }, responseType: 'blob' }),
+  getDuplicates: (limit?: number) => api.get('/customers/duplicates', { params: { limit } }),
+  merge: (id: string, duplicateId: string) => api.post(`/customers/${id}/merge`, { duplicateId }),
   getById: (id: string) => api.get(`/customers/${id}`),
   create: (customer: any) => api.post('/customers', customer),
   update: (id: string, customer: any) => api.put(`/customers/${id}`, customer),
   delete: (id: string) => api.delete(`/customers/${id}`),
+  previewImport: (formData: FormData) => api.post('/customers/import/preview', formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  }),
+  import: (formData: FormData) => api.post('/customers/import', formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  }),
 };
 
 export const taskCategoriesAPI = {
@@ -69,18 +162,28 @@ export const taskCategoriesAPI = {
   create: (data: { name: string; description?: string }) => api.post('/task-categories', data),
   update: (id: string, data: { name: string; description?: string }) => api.put(`/task-categories/${id}`, data),
   delete: (id: string) => api.delete(`/task-categories/${id}`),
+  updateWorkflow: (id: string, workflow: Workflow | null) => api.put(`/task-categories/${id}/workflow`, { workflow }),
 };
 
 export const callsAPI = {
   getAll: () => api.get('/calls'),
+  export: (format: ExportFormat, params?: Record<string, string>) =>
+    api.get<Blob>('/calls/export', { params: { ...params, format }, responseType: 'blob' }),
   getById: (id: string) => api.get(`/calls/${id}`),
+  getByCustomer: (customerId: string, params?: { page?: number; limit?: number }) =>
+    api.get(`/calls/customer/${customerId}`, { params }),
+  getFollowUps: (params?: { user?: string }) => api.get('/calls/follow-ups', { params }),
+  getOverdueFollowUps: (limit?: number) => api.get('/calls/follow-ups/overdue', { params: { limit } }),
+  logFollowUp: (id: string, call: FollowUpCallInput) => api.post(`/calls/${id}/follow-up`, call),
   create: (call: any) => api.post('/calls', call),
   update: (id: string, call: any) => api.put(`/calls/${id}`, call),
   delete: (id: string) => api.delete(`/calls/${id}`),
 };
 
 export const activityLogsAPI = {
-  getAll: () => api.get('/activity-logs'),
+  getAll: (filters: ActivityLogFilters = {}) => api.get('/activity-logs', { params: filters }),
+  getEntityTimeline: (entity: ActivityEntity, entityId: string, params: { page?: number; limit?: number; order?: 'asc' | 'desc' } = {}) =>
+    api.get(`/activity-logs/${entity}/${entityId}`, { params }),
 };
 
 export const searchAPI = {
@@ -89,8 +192,9 @@ export const searchAPI = {
 
 export const notificationsAPI = {
   getAll: () => api.get('/notifications'),
+  getUnreadCount: () => api.get('/notifications/unread/count'),
   markAsRead: (id: string) => api.patch(`/notifications/${id}/read`),
-  markAllAsRead: () => api.patch('/notifications/read/all'),
+  markAllAsRead: () => api.patch('/notifications/read-all'),
 };
 
 export const usersAPI = {
@@ -99,4 +203,22 @@ export const usersAPI = {
   create: (user: any) => api.post('/users', user),
   update: (id: string, user: any) => api.put(`/users/${id}`, user),
   delete: (id: string) => api.delete(`/users/${id}`),
-};
\ No newline at end of file
+  unlock: (id: string) => api.post(`/users/${id}/unlock`),
+  resetTwoFactor: (id: string) => api.delete(`/users/${id}/two-factor`),
+};
+
+export const slaAPI = {
+  getPolicies: () => api.get('/sla/policies'),
+  createPolicy: (policy: SlaPolicyInput) => api.post('/sla/policies', policy),
+  updatePolicy: (id: string, policy: Partial<SlaPolicyInput>) => api.put(`/sla/policies/${id}`, policy),
+  deletePolicy: (id: string) => api.delete(`/sla/policies/${id}`),
+  getReport: (params?: { from?: string; to?: string; customer?: string }) => api.get('/sla/report', { params }),
+};
+
+export const settingsAPI = {
+  get: () => api.get('/settings'),
+  updateBoard: (wipLimits: Record<string, number | null>) => api.put('/settings/board', { wipLimits }),
+  updateEscalation: (escalation: { enabled?: boolean; policies?: Partial<EscalationPolicies> }) =>
+    api.put('/settings/escalation', escalation),
+  updateSecurity: (security: { twoFactorRequiredRoles: TwoFactorRole[] }) => api.put('/settings/security', security),
+};
@@ -3,6 +3,15 @@ export interface CustomerContact {
   email: string;
   phone: string;
   designation: string;
+  isPrimary?: boolean;
+}
+
+export interface CustomerAddress {
+  street: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
 }
 
 export interface Customer {
@@ -13,25 +22,171 @@ export interface Customer {
   installationDate?: string;
   gst: string;
   contacts: CustomerContact[];
+  address?: CustomerAddress;
+  notes?: string;
   createdAt: string;
 }
 
+// One spreadsheet row of a customer import, as validated by the server
+export interface CustomerImportRow {
+  row: number; // line in the spreadsheet, the header being line 1
+  status: 'valid' | 'invalid' | 'duplicate';
+  customer: Omit<CustomerInput, 'gst'> & { gst?: string };
+  errors: string[];
+  // Existing customers, or earlier rows, with the same company name or contact email
+  duplicates: {
+    field: 'companyName' | 'email';
+    value: string;
+    customer?: { _id: string; companyName: string };
+    row?: number;
+  }[];
+}
+
+export interface CustomerImportSummary {
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicate: number;
+}
+
+// Counts shown on the customer detail page, limited to what the user can see
+export interface CustomerStats {
+  totalTasks: number;
+  openTasks: number;
+  overdueTasks: number;
+  totalCalls: number;
+  lastCallAt: string | null;
+}
+
 // Use for creating or updating a customer, where _id and createdAt are not required.
 export type CustomerInput = Omit<Customer, '_id' | 'createdAt'>;
 
+export type DuplicateReason = 'name' | 'email' | 'phone' | 'gst';
+
+export type DuplicateCandidate = Customer & { taskCount: number; callCount: number };
+
+// Two customers that look like the same company
+export interface CustomerDuplicate {
+  reasons: DuplicateReason[];
+  nameSimilarity: number; // 0-1
+  customers: [DuplicateCandidate, DuplicateCandidate];
+}
+
+export interface CustomerMergeResult {
+  message: string;
+  customer: Customer;
+  contactsAdded: number;
+  tasksMoved: number;
+  callsMoved: number;
+}
+
+// What the server reveals about a user's two-factor authentication; never the secret
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt?: string;
+  recoveryCodesRemaining: number;
+}
+
+// Returned when starting enrollment; the QR code is a data URL of the otpauth:// URI
+export interface TwoFactorSetupInfo {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+export type TwoFactorRole = 'admin' | 'manager';
+
 export interface IUser {
   _id: string;
   name: string;
   email: string;
   role: 'user' | 'manager' | 'admin';
   isActive: boolean;
+  failedLoginAttempts?: number;
+  lockedUntil?: string | null; // set while too many failed logins keep the account locked
+  timezone?: string; // IANA name; reminders and quiet hours use it
+  twoFactor?: TwoFactorStatus;
+  notificationPreferences?: NotificationPreferences;
   createdAt: string;
 }
 
+// A device the user is signed in on
+export interface UserSession {
+  _id: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string;
+  isCurrent: boolean;
+}
+
+export type NotificationType =
+  | 'NEW_TASK'
+  | 'TASK_UPDATED'
+  | 'COMMENT_ADDED'
+  | 'TASK_DUE'
+  | 'CALL_LOGGED'
+  | 'TASK_REMINDER'
+  | 'TASK_OVERDUE'
+  | 'TASK_ESCALATED'
+  | 'SLA_WARNING'
+  | 'SLA_BREACHED'
+  | 'TASK_UNBLOCKED'
+  | 'MENTIONED';
+
+export type EmailDigestMode = 'instant' | 'hourly' | 'daily';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string;
+}
+
+export type MuteTarget = 'tasks' | 'customers';
+
+export interface NotificationPreferences {
+  inApp: {
+    mutedTypes: NotificationType[];
+  };
+  email: {
+    types: NotificationType[];
+    digest: EmailDigestMode;
+  };
+  quietHours: QuietHours;
+  mutedTasks: { _id: string; title: string }[];
+  mutedCustomers: { _id: string; companyName: string }[];
+}
+
+export type NotificationPreferencesInput = Partial<Pick<NotificationPreferences, 'inApp' | 'email' | 'quietHours'>>;
+
+export type WorkflowStage = 'todo' | 'in-progress' | 'completed';
+
+export type TransitionField = 'comment' | 'resolution';
+
+export interface WorkflowStatus {
+  key: string;
+  name: string;
+  stage: WorkflowStage;
+}
+
+export interface WorkflowTransition {
+  from: string;
+  to: string;
+  roles: IUser['role'][]; // empty means any role
+  requiredFields: TransitionField[];
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  initialStatus: string;
+  transitions: WorkflowTransition[];
+}
+
 export interface TaskCategory {
   _id: string;
   name: string;
   description?: string;
+  workflow?: Workflow | null;
 }
 
 export interface Attachment {
@@ -42,22 +197,128 @@ export interface Attachment {
   size: number;
 }
 
+export interface CommentReaction {
+  emoji: string;
+  users: { _id: string; name: string }[];
+}
+
 export interface Comment {
   _id: string;
   author: {
     _id: string;
     name: string;
   };
-  text: string;
+  text: string; // markdown; mentions are written as @[Name](userId)
+  parent?: string | null; // the top-level comment this replies to
+  mentions: string[];
+  reactions: CommentReaction[];
+  editedAt?: string | null;
+  deletedAt?: string | null; // kept without its text while it has replies
+  createdAt: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byWeekday: number[]; // 0 (Sunday) - 6 (Saturday)
+  byMonthDay?: number;
+  rule?: string; // RRULE, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO
+  endDate?: string;
+  count?: number;
+}
+
+export interface Subtask {
+  _id: string;
+  title: string;
+  assignedTo: {
+    _id: string;
+    name: string;
+  };
+  status: 'todo' | 'in-progress' | 'completed';
+  dueDate?: string;
+  completedAt?: string;
   createdAt: string;
 }
 
+export interface ChecklistItem {
+  _id: string;
+  text: string;
+  isDone: boolean;
+  doneBy?: string;
+  doneAt?: string;
+}
+
+export interface TaskProgress {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+// SLA clock of a customer task
+export interface TaskSla {
+  policy: string;
+  respondBy: string;
+  resolveBy: string;
+  respondedAt?: string | null;
+  resolvedAt?: string | null;
+  responseBreached: boolean;
+  resolutionBreached: boolean;
+}
+
+// Hours after a task is created by which it must be picked up and completed
+export interface SlaTarget {
+  responseHours: number;
+  resolutionHours: number;
+}
+
+export type SlaTargets = Record<Task['priority'], SlaTarget>;
+
+// Applies to one customer, or to every customer of a company type without a policy of its own
+export interface SlaPolicy {
+  _id: string;
+  name: string;
+  customer?: { _id: string; companyName: string } | null;
+  companyType?: string | null;
+  targets: SlaTargets;
+  isActive: boolean;
+}
+
+export interface SlaPolicyInput {
+  name: string;
+  customer: string | null;
+  companyType: string | null;
+  targets: SlaTargets;
+  isActive: boolean;
+}
+
+export interface SlaReportRow {
+  customer: { _id: string; companyName: string; companyType: string };
+  tasks: number;
+  responseMet: number;
+  responseBreached: number;
+  responsePending: number;
+  responseCompliance: number | null; // percent of decided targets met
+  resolutionMet: number;
+  resolutionBreached: number;
+  resolutionPending: number;
+  resolutionCompliance: number | null;
+  avgResponseHours: number | null;
+  avgResolutionHours: number | null;
+}
+
+// 0: not escalated, 1: the creator was notified, 2: all managers were notified
+export type TaskEscalationLevel = 0 | 1 | 2;
+
 export interface Task {
   _id: string;
   title: string;
   description: string;
   category: TaskCategory;
-  status: 'todo' | 'in-progress' | 'completed';
+  status: WorkflowStage;
+  workflowStatus?: string;
+  resolution?: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   dueDate: string;
   assignedTo: {
@@ -68,22 +329,127 @@ export interface Task {
     _id: string;
     companyName: string;
   };
+  createdBy?: {
+    _id: string;
+    name: string;
+  };
   attachments: Attachment[];
   comments: Comment[];
+  subtasks: Subtask[];
+  checklist: ChecklistItem[];
+  progress?: TaskProgress;
+  blockedBy?: string[]; // prerequisite task IDs
+  isBlocked?: boolean;
+  boardPosition?: number;
+  reminders?: number[]; // minutes before the due date
+  escalationLevel?: TaskEscalationLevel;
+  escalatedAt?: string | null;
+  sla?: TaskSla | null;
+  recurrence?: TaskRecurrence | null;
+  occurrenceNumber?: number;
+  // Call the task was created to follow up; populated when fetching a single task
+  sourceCall?: string | { _id: string; callType: 'inbound' | 'outbound'; summary: string; followUpDate?: string; createdAt: string } | null;
   createdAt: string;
 }
 
-export type TaskInput = Omit<Task, '_id' | 'createdAt' | 'assignedTo' | 'customer' | 'attachments' | 'comments' | 'category'> & {
+// Summary of a task on either side of a "blocks / blocked by" link
+export interface TaskDependency {
+  _id: string;
+  title: string;
+  status: 'todo' | 'in-progress' | 'completed';
+  dueDate: string;
+  assignedTo?: {
+    _id: string;
+    name: string;
+  };
+  isBlocked?: boolean;
+}
+
+export interface TaskDependencies {
+  isBlocked: boolean;
+  blockedBy: TaskDependency[];
+  blocks: TaskDependency[];
+}
+
+export type BoardColumn = Task['status'];
+
+export type BoardSwimlane = 'none' | 'assignee' | 'customer';
+
+export type WipLimits = Partial<Record<BoardColumn, number>>;
+
+// Number of tasks in each column across the workspace, as WIP limits count them
+export type ColumnCounts = Partial<Record<BoardColumn, number>>;
+
+// Where a card goes in its column: before or after another card, or at the end when neither is given
+export interface BoardPlacement {
+  beforeTaskId?: string;
+  afterTaskId?: string;
+}
+
+// Hours a task may be overdue before its creator, then all managers, are notified
+export interface EscalationPolicy {
+  creatorAfterHours: number;
+  managersAfterHours: number;
+}
+
+export type EscalationPolicies = Record<Task['priority'], EscalationPolicy>;
+
+export interface WorkspaceSettings {
+  board: {
+    wipLimits: WipLimits;
+  };
+  escalation: {
+    enabled: boolean;
+    policies: EscalationPolicies;
+  };
+  security: {
+    twoFactorRequiredRoles: TwoFactorRole[];
+  };
+  updatedAt?: string;
+}
+
+export type TaskHistoryField = 'title' | 'description' | 'category' | 'priority' | 'status' | 'dueDate' | 'assignedTo' | 'customer';
+
+// Reference fields (assignee, customer, category) come back as { _id, name }
+export type TaskHistoryValue = string | { _id: string; name: string | null } | null;
+
+export interface TaskFieldChange {
+  field: TaskHistoryField;
+  from: TaskHistoryValue;
+  to: TaskHistoryValue;
+}
+
+export interface TaskHistoryEntry {
+  _id: string;
+  action: ActivityAction;
+  user: { _id: string; name: string } | null;
+  createdAt: string;
+  changes: TaskFieldChange[];
+}
+
+export type TaskSnapshot = Record<TaskHistoryField, TaskHistoryValue>;
+
+export type TaskInput = Omit<Task, '_id' | 'createdAt' | 'assignedTo' | 'customer' | 'attachments' | 'comments' | 'category' | 'subtasks' | 'checklist' | 'progress' | 'blockedBy' | 'isBlocked' | 'boardPosition'> & {
   assignedTo: string; // User ID
   customer?: string; // Customer ID
   category: string; // Category ID
+  comment?: string; // required by some workflow transitions
 };
 
+// Body of PATCH /tasks/:id/status: a workflow status or just a stage (board column)
+export interface TaskStatusChange {
+  workflowStatus?: string;
+  status?: WorkflowStage;
+  comment?: string;
+  resolution?: string;
+}
+
 export interface Call {
   _id: string;
   customer: {
     _id: string;
     companyName: string;
+    contacts?: CustomerContact[];
   };
   user: {
     _id: string;
@@ -92,32 +458,134 @@ export interface Call {
   callType: 'inbound' | 'outbound';
   summary: string;
   duration?: number;
+  outcome?: string;
+  followUpRequired?: boolean;
+  followUpDate?: string;
+  followUpTask?: CallFollowUpTask | null;
+  // Earlier call this call followed up; populated when fetching a single call
+  followUpOf?: string | { _id: string; callType: 'inbound' | 'outbound'; summary: string; createdAt: string } | null;
   createdAt: string;
 }
 
+// Pending follow-ups by when they are due, in the user's timezone
+export interface FollowUpQueue {
+  overdue: Call[];
+  today: Call[];
+  upcoming: Call[];
+}
+
+// Use for logging the follow-up of a call; the customer comes from that call
+export interface FollowUpCallInput {
+  callType: 'inbound' | 'outbound';
+  summary: string;
+  duration?: number;
+  outcome?: string;
+  followUpRequired?: boolean;
+  followUpDate?: string;
+}
+
+// The task created for a call's follow-up
+export interface CallFollowUpTask {
+  _id: string;
+  title: string;
+  status: WorkflowStage;
+  dueDate: string;
+}
+
 // Use for creating or updating a call.
 export interface CallInput {
   customer: string; // Customer ID
   callType: 'inbound' | 'outbound';
   summary: string;
   duration?: number;
+  followUpRequired?: boolean;
+  followUpDate?: string;
+  // Creates a task for the follow-up, due on the follow-up date
+  createFollowUpTask?: boolean;
+  followUpCategory?: string;
+  followUpPriority?: Task['priority'];
 }
 
 export interface Notification {
   _id: string;
+  type: NotificationType;
   message: string;
   isRead: boolean;
   createdAt: string;
   link?: string; // Optional link to a relevant page (e.g., a task)
 }
 
+// Server-sent events pushed over /api/events
+export type RealtimeEvent = 'notification' | 'unread-count' | 'task' | 'call';
+export type ChangeAction = 'created' | 'updated' | 'deleted';
+
+export interface TaskChangeEvent {
+  action: ChangeAction;
+  taskId: string;
+}
+
+export interface CallChangeEvent {
+  action: ChangeAction;
+  callId: string;
+}
+
+export type ActivityAction =
+  | 'CREATE_TASK'
+  | 'UPDATE_TASK'
+  | 'DELETE_TASK'
+  | 'ADD_COMMENT'
+  | 'UPDATE_COMMENT'
+  | 'DELETE_COMMENT'
+  | 'UPLOAD_ATTACHMENT'
+  | 'ADD_SUBTASK'
+  | 'UPDATE_SUBTASK'
+  | 'DELETE_SUBTASK'
+  | 'ADD_CHECKLIST_ITEM'
+  | 'UPDATE_CHECKLIST_ITEM'
+  | 'DELETE_CHECKLIST_ITEM'
+  | 'ADD_DEPENDENCY'
+  | 'REMOVE_DEPENDENCY'
+  | 'ESCALATE_TASK'
+  | 'CREATE_CUSTOMER'
+  | 'UPDATE_CUSTOMER'
+  | 'DELETE_CUSTOMER'
+  | 'MERGE_CUSTOMER'
+  | 'CREATE_CALL'
+  | 'UPDATE_CALL'
+  | 'DELETE_CALL'
+  | 'USER_LOGIN'
+  | 'USER_LOGOUT'
+  | 'UPDATE_PROFILE'
+  | 'ENABLE_TWO_FACTOR'
+  | 'DISABLE_TWO_FACTOR'
+  | 'RESET_TWO_FACTOR'
+  | 'REGENERATE_RECOVERY_CODES'
+  | 'USE_RECOVERY_CODE'
+  | 'LOCK_ACCOUNT'
+  | 'UNLOCK_ACCOUNT';
+
+export type ActivityEntity = 'Task' | 'Customer' | 'Call' | 'User';
+
 export interface ActivityLog {
   _id: string;
-  user: { name: string };
-  action: 'CREATED' | 'UPDATED' | 'DELETED';
-  entity: 'Task' | 'Customer' | 'Call';
+  user: { _id: string; name: string; email?: string } | null;
+  action: ActivityAction;
+  entity: ActivityEntity;
   entityId: string;
-  details: string;
+  details?: Record<string, unknown>;
   createdAt: string;
 }
 
+export interface ActivityLogFilters {
+  page?: number;
+  limit?: number;
+  user?: string;
+  entity?: ActivityEntity | '';
+  entityId?: string;
+  action?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+// File formats the task, customer and call lists can be exported to
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
@@ -0,0 +1,99 @@
+import React from 'react';
+import { AlertTriangle, Edit, GitMerge, KeyRound, Link2, ListChecks, Lock, LogIn, LogOut, MessageSquare, Paperclip, Plus, ShieldCheck, Trash2, Unlock } from 'lucide-react';
+import { ActivityLog } from '../types';
+
+export const getActivityIcon = (action: string): React.ElementType => {
+  if (action.startsWith('CREATE')) return Plus;
+  if (action.startsWith('DELETE')) return Trash2;
+  if (action.endsWith('_COMMENT')) return MessageSquare;
+  if (action === 'UPLOAD_ATTACHMENT') return Paperclip;
+  if (action.endsWith('_SUBTASK') || action.endsWith('_CHECKLIST_ITEM')) return ListChecks;
+  if (action.endsWith('_DEPENDENCY')) return Link2;
+  if (action === 'ESCALATE_TASK') return AlertTriangle;
+  if (action === 'MERGE_CUSTOMER') return GitMerge;
+  if (action === 'USER_LOGIN') return LogIn;
+  if (action === 'USER_LOGOUT') return LogOut;
+  if (action.endsWith('_TWO_FACTOR')) return ShieldCheck;
+  if (action.endsWith('_RECOVERY_CODES') || action === 'USE_RECOVERY_CODE') return KeyRound;
+  if (action === 'LOCK_ACCOUNT') return Lock;
+  if (action === 'UNLOCK_ACCOUNT') return Unlock;
+  return Edit;
+};
+
+const verbs: { [key: string]: string } = {
+  CREATE: 'created',
+  UPDATE: 'updated',
+  DELETE: 'deleted',
+};
+
+const subtaskVerbs: { [key: string]: string } = {
+  ADD: 'added',
+  UPDATE: 'updated',
+  DELETE: 'removed',
+};
+
+// Builds a short human-readable sentence for an activity entry
+export const describeActivity = (log: ActivityLog): string => {
+  const details = log.details || {};
+  const label = (details.title || details.companyName || details.summary) as string | undefined;
+  const entity = log.entity.toLowerCase();
+
+  switch (log.action) {
+    case 'ADD_COMMENT':
+      return `commented on a ${entity}: "${details.comment ?? ''}"`;
+    case 'UPDATE_COMMENT':
+      return `edited a comment on a ${entity}: "${details.previousText ?? ''}" → "${details.comment ?? ''}"`;
+    case 'DELETE_COMMENT':
+      return `deleted a comment on a ${entity}: "${details.comment ?? ''}"`;
+    case 'UPLOAD_ATTACHMENT':
+      return `uploaded ${details.filename ?? 'a file'} to a ${entity}`;
+    case 'ADD_SUBTASK':
+    case 'UPDATE_SUBTASK':
+    case 'DELETE_SUBTASK':
+      return `${subtaskVerbs[log.action.split('_')[0]]} subtask "${details.subtask ?? ''}"${label ? ` on "${label}"` : ''}`;
+    case 'ADD_CHECKLIST_ITEM':
+    case 'UPDATE_CHECKLIST_ITEM':
+    case 'DELETE_CHECKLIST_ITEM': {
+      const verb = details.isDone === undefined ? subtaskVerbs[log.action.split('_')[0]] : details.isDone ? 'checked off' : 'unchecked';
+      return `${verb} checklist item "${details.item ?? ''}"${label ? ` on "${label}"` : ''}`;
+    }
+    case 'ADD_DEPENDENCY':
+      return `marked "${label ?? 'a task'}" as blocked by "${details.blockedByTitle ?? 'another task'}"`;
+    case 'REMOVE_DEPENDENCY':
+      return `removed a prerequisite from "${label ?? 'a task'}"`;
+    case 'ESCALATE_TASK':
+      return `escalated overdue task "${label ?? ''}" to ${details.escalationLevel === 2 ? 'all managers' : 'its creator'}`;
+    case 'MERGE_CUSTOMER':
+      return `merged duplicate customer "${details.mergedCompanyName ?? ''}" into "${label ?? ''}"`;
+    case 'USER_LOGIN':
+      return 'signed in';
+    case 'USER_LOGOUT':
+      return 'signed out';
+    case 'UPDATE_PROFILE':
+      return 'updated their profile';
+    case 'ENABLE_TWO_FACTOR':
+      return 'turned on two-factor authentication';
+    case 'DISABLE_TWO_FACTOR':
+      return 'turned off two-factor authentication';
+    case 'RESET_TWO_FACTOR':
+      return `reset two-factor authentication for ${details.name ?? 'a user'}`;
+    case 'REGENERATE_RECOVERY_CODES':
+      return 'generated new two-factor recovery codes';
+    case 'USE_RECOVERY_CODE':
+      return `signed in with a recovery code (${details.recoveryCodesRemaining ?? 0} left)`;
+    case 'LOCK_ACCOUNT':
+      return `locked ${details.name ?? 'an account'} after ${details.failedLoginAttempts ?? 'repeated'} failed logins`;
+    case 'UNLOCK_ACCOUNT':
+      return `unlocked ${details.name ?? 'an account'}`;
+  }
+
+  const verb = verbs[log.action.split('_')[0]] || log.action.toLowerCase();
+  const updatedFields = Array.isArray(details.updatedFields) ? details.updatedFields as string[] : [];
+  const fieldsText = updatedFields.length > 0 ? ` (${updatedFields.join(', ')})` : '';
+
+  return `${verb} ${entity}${label ? ` "${label}"` : ''}${fieldsText}`;
+};
+
+// Escalations are made by a scheduled job and lockouts by the server, so they have no user
+export const getActivityActor = (log: Pick<ActivityLog, 'user' | 'action'>): string =>
+  log.user?.name ?? (log.action === 'ESCALATE_TASK' || log.action === 'LOCK_ACCOUNT' ? 'Better Tasks' : 'Unknown user');
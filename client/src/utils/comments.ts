@@ -0,0 +1,21 @@
+// Reactions the server accepts, in the order they're offered
+export const COMMENT_REACTIONS = ['👍', '👎', '😄', '🎉', '😕', '❤️', '🚀', '👀'];
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+const MENTION_PATTERN = /@\[([^\]\n]{1,100})\]\(([a-f\d]{24})\)/gi;
+
+export const MENTION_LINK_PREFIX = '#mention-';
+
+// Turns stored @[Name](userId) mentions into links the markdown renderer shows as mentions
+export const mentionsToMarkdown = (text: string): string =>
+  text.replace(MENTION_PATTERN, (_, name: string, id: string) => `[@${name}](${MENTION_LINK_PREFIX}${id})`);
+
+export const formatMention = (user: { _id: string; name: string }): string =>
+  `@[${user.name.replace(/[[\]\n]/g, '')}](${user._id})`;
+
+// The partly typed "@name" right before the caret, if the user is writing a mention
+export const getMentionQuery = (text: string, caret: number): string | null => {
+  const match = /(?:^|\s)@([^\s@[\]()]{0,30})$/.exec(text.slice(0, caret));
+  return match ? match[1] : null;
+};
@@ -0,0 +1,16 @@
+import { NotificationType } from '../types';
+
+export const notificationTypeLabels: Record<NotificationType, string> = {
+  NEW_TASK: 'Task assigned to me',
+  TASK_UPDATED: 'Task updates',
+  COMMENT_ADDED: 'New comments',
+  TASK_DUE: 'Task due',
+  CALL_LOGGED: 'Calls logged',
+  TASK_REMINDER: 'Task reminders',
+  TASK_OVERDUE: 'Overdue tasks',
+  TASK_ESCALATED: 'Escalated tasks',
+  SLA_WARNING: 'SLA at risk',
+  SLA_BREACHED: 'SLA breached',
+  TASK_UNBLOCKED: 'Task unblocked',
+  MENTIONED: 'Mentions',
+};
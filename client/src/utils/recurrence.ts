@@ -0,0 +1,18 @@
+import { TaskRecurrence } from '../types';
+
+export const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Short description used on task cards, e.g. "Every 2 weeks on Mon, Thu"
+export const describeRecurrence = (recurrence: TaskRecurrence): string => {
+  if (recurrence.frequency === 'custom') return 'Custom schedule';
+  const interval = recurrence.interval || 1;
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[recurrence.frequency];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (recurrence.frequency === 'weekly' && recurrence.byWeekday?.length) {
+    text += ` on ${recurrence.byWeekday.map(day => weekdays[day]).join(', ')}`;
+  }
+  if (recurrence.frequency === 'monthly' && recurrence.byMonthDay) {
+    text += ` on day ${recurrence.byMonthDay}`;
+  }
+  return text;
+};
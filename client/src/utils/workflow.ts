@@ -0,0 +1,41 @@
+import { IUser, Task, TaskCategory, Workflow, WorkflowStage, WorkflowStatus, WorkflowTransition } from '../types';
+
+const stages: WorkflowStage[] = ['todo', 'in-progress', 'completed'];
+
+// Mirrors the server's default flow for categories without a workflow
+export const DEFAULT_WORKFLOW: Workflow = {
+  statuses: [
+    { key: 'todo', name: 'To Do', stage: 'todo' },
+    { key: 'in-progress', name: 'In Progress', stage: 'in-progress' },
+    { key: 'completed', name: 'Completed', stage: 'completed' },
+  ],
+  initialStatus: 'todo',
+  transitions: stages.flatMap(from => stages
+    .filter(to => to !== from)
+    .map(to => ({ from, to, roles: [], requiredFields: [] }))),
+};
+
+export const getWorkflow = (category?: Partial<TaskCategory> | string | null): Workflow =>
+  typeof category === 'object' && category?.workflow && category.workflow.statuses.length > 0
+    ? category.workflow
+    : DEFAULT_WORKFLOW;
+
+export const getCurrentStatus = (workflow: Workflow, task: Pick<Task, 'status' | 'workflowStatus'>): WorkflowStatus =>
+  workflow.statuses.find(status => status.key === task.workflowStatus) ||
+  workflow.statuses.find(status => status.stage === task.status) ||
+  workflow.statuses.find(status => status.key === workflow.initialStatus)!;
+
+/**
+ * Transitions out of `fromKey` that a user with `role` may perform (admins may
+ * perform all of them), paired with their target status.
+ */
+export const getAvailableTransitions = (
+  workflow: Workflow,
+  fromKey: string,
+  role?: IUser['role']
+): { transition: WorkflowTransition; status: WorkflowStatus }[] =>
+  workflow.transitions
+    .filter(transition => transition.from === fromKey)
+    .filter(transition => role === 'admin' || transition.roles.length === 0 || (role !== undefined && transition.roles.includes(role)))
+    .map(transition => ({ transition, status: workflow.statuses.find(status => status.key === transition.to)! }))
+    .filter(({ status }) => status !== undefined);
@@ -3,6 +3,7 @@ import path from 'path';
 import fs from 'fs';
 import { Request } from 'express';
 import { fileURLToPath } from 'url';
+import { AppError } from '../middleware/errorHandler.js';
 
 // Resolve __dirname for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -46,4 +47,22 @@ const upload = multer({
   fileFilter: fileFilter
 });
 
+// Spreadsheets for bulk imports are parsed in memory and never stored
+const importFileFilter = (req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
+  if (/\.(csv|xlsx)$/i.test(file.originalname)) {
+    return cb(null, true);
+  }
+  const error: AppError = new Error('Only CSV and XLSX files can be imported');
+  error.statusCode = 400;
+  cb(error);
+};
+
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1024 * 1024 * 5 // 5MB file size limit
+  },
+  fileFilter: importFileFilter
+});
+
 export default upload;
@@ -0,0 +1,14 @@
+import cron from 'node-cron';
+import { runJob } from '../utils/jobRuns.js';
+import { escalateOverdueTasks } from '../utils/taskEscalation.js';
+
+const runEscalations = () => runJob('task-escalations', async () => ({ escalated: await escalateOverdueTasks() }));
+
+/**
+ * Schedules the overdue task escalation job to run every fifteen minutes.
+ */
+export const scheduleTaskEscalations = () => {
+  cron.schedule('*/15 * * * *', runEscalations);
+
+  console.log('Task escalation job scheduled to run every 15 minutes.');
+};
@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { EmailDigestMode } from '../models/User.js';
+import { sendEmailDigests } from '../utils/emailNotifications.js';
+import { runJob } from '../utils/jobRuns.js';
+
+// Local hour at which daily digests go out, in each user's own timezone
+const DAILY_DIGEST_HOUR = 8;
+
+const runDigest = (job: string, modes: EmailDigestMode[], localHour?: number) =>
+  runJob(job, async () => ({ sent: await sendEmailDigests(modes, localHour) }));
+
+/**
+ * Schedules the email digests: hourly ones at the start of every hour and
+ * daily ones at 8:00 in each user's timezone, checked every hour since
+ * timezones reach 8:00 at different times. The hourly run also flushes
+ * anything still queued for users who have since switched back to instant
+ * emails.
+ */
+export const scheduleNotificationDigests = () => {
+  cron.schedule('0 * * * *', () => runDigest('hourly-email-digest', ['hourly', 'instant']));
+  cron.schedule('0 * * * *', () => runDigest('daily-email-digest', ['daily'], DAILY_DIGEST_HOUR));
+
+  console.log('Email digest jobs scheduled (hourly and daily at 8:00 local time).');
+};
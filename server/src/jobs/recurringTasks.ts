@@ -0,0 +1,42 @@
+import cron from 'node-cron';
+import Task from '../models/Task.js';
+import { runJob } from '../utils/jobRuns.js';
+import { materializeNextOccurrence } from '../utils/recurringTasks.js';
+
+/**
+ * Creates the next occurrence of recurring tasks whose current occurrence has
+ * been completed or whose due date has passed (the next window has opened).
+ */
+const materializeRecurringTasks = () => runJob('recurring-tasks', async () => {
+  const dueTasks = await Task.find({
+    'recurrence.frequency': { $exists: true },
+    nextOccurrence: null,
+    recurrenceEnded: { $ne: true },
+    $or: [
+      { status: 'completed' },
+      { dueDate: { $lte: new Date() } }
+    ]
+  });
+
+  let created = 0;
+  for (const task of dueTasks) {
+    try {
+      if (await materializeNextOccurrence(task)) {
+        created++;
+      }
+    } catch (error) {
+      console.error(`Failed to create next occurrence of task ${task._id}:`, error);
+    }
+  }
+
+  return { created };
+});
+
+/**
+ * Schedules the recurring task job to run at the start of every hour.
+ */
+export const scheduleRecurringTasks = () => {
+  cron.schedule('0 * * * *', materializeRecurringTasks);
+
+  console.log('Recurring task job scheduled to run hourly.');
+};
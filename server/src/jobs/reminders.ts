@@ -1,65 +1,25 @@
 import cron from 'node-cron';
-import Task from '../models/Task.js';
-import { createNotification } from '../utils/notifications.js';
-import { ITask } from '../models/Task.js';
-import { NotificationType } from '../models/Notification.js';
+import { runJob } from '../utils/jobRuns.js';
+import { sendOverdueReminders, sendUpcomingReminders } from '../utils/taskReminders.js';
 
 /**
- * Finds tasks due soon and sends reminders.
+ * Sends the reminders that have come due since the last run: those before a
+ * task's due date (per its reminder offsets) and those after it is overdue.
  */
-const sendTaskReminders = async () => {
-  console.log('Running daily task reminder job...');
-  try {
-    const now = new Date();
-    const tomorrow = new Date();
-    tomorrow.setDate(now.getDate() + 1);
-
-    // Find tasks due in the next 24 hours that are not yet completed
-    const upcomingTasks: ITask[] = await Task.find({
-      dueDate: { 
-        $gte: now, 
-        $lt: tomorrow 
-      },
-      status: { $nin: ['Completed', 'Archived'] },
-      isDeleted: false
-    }).populate('assignedTo', 'name');
-
-    if (upcomingTasks.length === 0) {
-      console.log('No upcoming tasks to send reminders for.');
-      return;
-    }
-
-    console.log(`Found ${upcomingTasks.length} upcoming tasks. Sending reminders...`);
-
-    for (const task of upcomingTasks) {
-      if (task.assignedTo && task.assignedTo._id) {
-        await createNotification({
-          user: task.assignedTo._id,
-          type: 'TASK_REMINDER',
-          message: `Reminder: The task "${task.title}" is due soon.`,
-          link: `/tasks/${task._id}`,
-          related: {
-            model: 'Task',
-            id: task._id,
-          },
-        });
-      }
-    }
-
-    console.log('Finished sending task reminders.');
-  } catch (error) {
-    console.error('Error sending task reminders:', error);
-  }
-};
+const sendTaskReminders = () => runJob('task-reminders', async () => {
+  const now = new Date();
+  return {
+    upcoming: await sendUpcomingReminders(now),
+    overdue: await sendOverdueReminders(now),
+  };
+});
 
 /**
- * Schedules the task reminder job to run every day at 9:00 AM.
+ * Schedules the task reminder job to run every five minutes. Each reminder is
+ * only sent once, so restarts and overlapping runs are safe.
  */
 export const scheduleTaskReminders = () => {
-  // Runs every day at 9:00 AM
-  cron.schedule('0 9 * * *', sendTaskReminders, {
-    timezone: "America/New_York" // It's good practice to set a timezone
-  });
+  cron.schedule('*/5 * * * *', sendTaskReminders);
 
-  console.log('Task reminder job scheduled to run daily at 9:00 AM.');
+  console.log('Task reminder job scheduled to run every 5 minutes.');
 };
@@ -0,0 +1,15 @@
+import cron from 'node-cron';
+import { runJob } from '../utils/jobRuns.js';
+import { checkSlaClocks } from '../utils/sla.js';
+
+const runSlaCheck = () => runJob('sla-monitor', () => checkSlaClocks());
+
+/**
+ * Schedules the SLA monitor, which sends at-risk warnings and breach
+ * notifications, to run every five minutes.
+ */
+export const scheduleSlaMonitor = () => {
+  cron.schedule('*/5 * * * *', runSlaCheck);
+
+  console.log('SLA monitor job scheduled to run every 5 minutes.');
+};
@@ -1,12 +1,25 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import User, { IUser } from '../models/User.js';
 import { ITask } from '../models/Task.js';
+import { isSessionActive, verifyAccessToken } from '../utils/sessions.js';
 
 export interface AuthRequest extends Request {
   user?: IUser;
+  sessionId?: string;
 }
 
+// Resolves the active user and session a JWT belongs to; throws when the token is invalid or expired
+export const getSessionFromToken = async (token: string): Promise<{ user: IUser; sessionId: string } | null> => {
+  const { userId, sessionId } = verifyAccessToken(token);
+  if (!sessionId || !(await isSessionActive(sessionId, userId))) {
+    return null;
+  }
+
+  const user = await User.findById(userId).select('-passwordHash');
+  console.log('[Auth Middleware] Fetched user from DB:', { id: user?._id, role: user?.role });
+  return user && user.isActive ? { user, sessionId } : null;
+};
+
 export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const token = req.header('Authorization')?.replace('Bearer ', '');
@@ -15,16 +28,13 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
       return res.status(401).json({ message: 'Access denied. No token provided.' });
     }
 
-    const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-key';
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    
-    const user = await User.findById(decoded.userId).select('-passwordHash');
-    console.log('[Auth Middleware] Fetched user from DB:', { id: user?._id, role: user?.role });
-    if (!user || !user.isActive) {
+    const session = await getSessionFromToken(token);
+    if (!session) {
       return res.status(401).json({ message: 'Invalid token or user not active.' });
     }
 
-    req.user = user;
+    req.user = session.user;
+    req.sessionId = session.sessionId;
     next();
   } catch (error) {
     res.status(401).json({ message: 'Invalid token.' });
@@ -72,9 +82,12 @@ export const canAccessTask = (user: IUser, task: ITask): boolean => {
     return true;
   }
 
-  // Users can only access tasks they created or are assigned to
+  // Users can only access tasks they created, are assigned to or own a subtask of
   const isCreator = task.createdBy.toString() === user._id.toString();
   const isAssignee = task.assignedTo.toString() === user._id.toString();
+  const isSubtaskAssignee = (task.subtasks || []).some(
+    subtask => subtask.assignedTo?.toString() === user._id.toString()
+  );
 
-  return isCreator || isAssignee;
+  return isCreator || isAssignee || isSubtaskAssignee;
 };
\ No newline at end of file
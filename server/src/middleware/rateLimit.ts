@@ -0,0 +1,154 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRateLimitStore } from '../utils/rateLimitStore.js';
+import { AuthRequest } from './auth.js';
+import { verifyAccessToken } from '../utils/sessions.js';
+import { challengeUserId } from '../utils/twoFactor.js';
+
+interface RateLimitOptions {
+  name: string; // each limit counts separately, so one budget running out leaves the others
+  windowMs: number;
+  max: number; // requests allowed per client and window
+  // Who a request counts against; undefined lets it through uncounted
+  key: (req: Request) => string | undefined;
+  message: string;
+}
+
+const MINUTE = 60 * 1000;
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+const byIp = (req: Request) => req.ip;
+
+// The account being signed into (or asking for an email), whoever is asking
+const byEmail = (req: Request) =>
+  typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : undefined;
+
+// The account whose second login step is being attempted
+const byChallengeUser = (req: Request) => challengeUserId(req.body?.challengeToken);
+
+// The signed-in user; only for routes behind authenticate
+const bySignedInUser = (req: Request) => (req as AuthRequest).user?._id.toString();
+
+// Signed-in users count on their own, so a shared office network doesn't share one budget.
+// The event stream sends its token as ?token=, since EventSource can't set headers.
+const byUserOrIp = (req: Request) => {
+  const token = req.header('Authorization')?.replace('Bearer ', '')
+    ?? (typeof req.query.token === 'string' ? req.query.token : undefined);
+  if (token) {
+    try {
+      return `user:${verifyAccessToken(token).userId}`;
+    } catch {
+      // Counted by IP; the route itself rejects the token
+    }
+  }
+  return `ip:${req.ip}`;
+};
+
+/**
+ * Answers 429 once a client has made `max` requests in the current window.
+ * Every response carries RateLimit-* headers so clients can pace themselves.
+ */
+export const rateLimit = ({ name, windowMs, max, key, message }: RateLimitOptions) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const client = key(req);
+    if (!client) {
+      return next();
+    }
+
+    try {
+      const { count, resetAt } = await getRateLimitStore().increment(`${name}:${client}`, windowMs);
+      const secondsLeft = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+
+      res.setHeader('RateLimit-Limit', max);
+      res.setHeader('RateLimit-Remaining', Math.max(0, max - count));
+      res.setHeader('RateLimit-Reset', secondsLeft);
+
+      if (count > max) {
+        res.setHeader('Retry-After', secondsLeft);
+        return res.status(429).json({ message, retryAfter: secondsLeft });
+      }
+    } catch (error) {
+      // An unreachable store shouldn't take the API down with it
+      console.error('Rate limit error:', error);
+    }
+    next();
+  };
+
+// Login, password reset, email verification and two-factor endpoints, per IP
+export const authLimiter = rateLimit({
+  name: 'auth-ip',
+  windowMs: 15 * MINUTE,
+  max: 50,
+  key: byIp,
+  message: 'Too many attempts from this network. Please try again later.'
+});
+
+// Logins and account emails, per account, however many IPs they come from
+export const accountLimiter = rateLimit({
+  name: 'auth-account',
+  windowMs: 15 * MINUTE,
+  max: 10,
+  key: byEmail,
+  message: 'Too many attempts for this account. Please try again later.'
+});
+
+// Second login step codes, per account
+export const twoFactorLimiter = rateLimit({
+  name: 'two-factor',
+  windowMs: 15 * MINUTE,
+  max: 10,
+  key: byChallengeUser,
+  message: 'Too many attempts for this account. Please try again later.'
+});
+
+// Codes (and passwords) checked while managing two-factor from a signed-in session, per account
+export const twoFactorManagementLimiter = rateLimit({
+  name: 'two-factor-manage',
+  windowMs: 15 * MINUTE,
+  max: 10,
+  key: bySignedInUser,
+  message: 'Too many attempts for this account. Please try again later.'
+});
+
+export const registerLimiter = rateLimit({
+  name: 'register',
+  windowMs: 60 * MINUTE,
+  max: 10,
+  key: byIp,
+  message: 'Too many accounts created from this network. Please try again later.'
+});
+
+export const searchLimiter = rateLimit({
+  name: 'search',
+  windowMs: MINUTE,
+  max: 60,
+  key: byUserOrIp,
+  message: 'Too many searches. Please wait a moment and try again.'
+});
+
+// Creating, changing and deleting; reads aren't counted
+export const writeLimiter = rateLimit({
+  name: 'write',
+  windowMs: MINUTE,
+  max: 120,
+  key: req => (READ_METHODS.includes(req.method) ? undefined : byUserOrIp(req)),
+  message: 'Too many changes in a short time. Please wait a moment and try again.'
+});
+
+// Every request, reads included, for routes whose reads are costly (e.g. activity log filters)
+export const readLimiter = rateLimit({
+  name: 'read',
+  windowMs: MINUTE,
+  max: 120,
+  key: byUserOrIp,
+  message: 'Too many requests. Please wait a moment and try again.'
+});
+
+// Opening the live update stream; a browser reconnects at most every few seconds per tab
+export const eventStreamLimiter = rateLimit({
+  name: 'events',
+  windowMs: MINUTE,
+  max: 30,
+  key: byUserOrIp,
+  message: 'Too many reconnects. Please wait a moment and try again.'
+});
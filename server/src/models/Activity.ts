@@ -6,11 +6,23 @@ export type ActionType =
   | 'UPDATE_TASK'
   | 'DELETE_TASK'
   | 'ADD_COMMENT'
+  | 'UPDATE_COMMENT'
+  | 'DELETE_COMMENT'
   | 'UPLOAD_ATTACHMENT'
+  | 'ADD_SUBTASK'
+  | 'UPDATE_SUBTASK'
+  | 'DELETE_SUBTASK'
+  | 'ADD_CHECKLIST_ITEM'
+  | 'UPDATE_CHECKLIST_ITEM'
+  | 'DELETE_CHECKLIST_ITEM'
+  | 'ADD_DEPENDENCY'
+  | 'REMOVE_DEPENDENCY'
+  | 'ESCALATE_TASK'
   // Customer Actions
   | 'CREATE_CUSTOMER'
   | 'UPDATE_CUSTOMER'
   | 'DELETE_CUSTOMER'
+  | 'MERGE_CUSTOMER'
   // Call Actions
   | 'CREATE_CALL'
   | 'UPDATE_CALL'
@@ -18,12 +30,19 @@ export type ActionType =
   // User Actions
   | 'USER_LOGIN'
   | 'USER_LOGOUT'
-  | 'UPDATE_PROFILE';
+  | 'UPDATE_PROFILE'
+  | 'ENABLE_TWO_FACTOR'
+  | 'DISABLE_TWO_FACTOR'
+  | 'RESET_TWO_FACTOR'
+  | 'REGENERATE_RECOVERY_CODES'
+  | 'USE_RECOVERY_CODE'
+  | 'LOCK_ACCOUNT'
+  | 'UNLOCK_ACCOUNT';
 
 export type EntityType = 'Task' | 'Customer' | 'Call' | 'User';
 
 export interface IActivity extends Document {
-  user: mongoose.Types.ObjectId;
+  user?: mongoose.Types.ObjectId; // absent for actions taken by scheduled jobs or by the server itself, e.g. account lockouts
   action: ActionType;
   entity: EntityType;
   entityId: mongoose.Types.ObjectId;
@@ -36,17 +55,21 @@ const activitySchema = new Schema<IActivity>(
     user: {
       type: Schema.Types.ObjectId,
       ref: 'User',
-      required: true,
       index: true,
     },
     action: {
       type: String,
       required: true,
       enum: [
-        'CREATE_TASK', 'UPDATE_TASK', 'DELETE_TASK', 'ADD_COMMENT', 'UPLOAD_ATTACHMENT',
-        'CREATE_CUSTOMER', 'UPDATE_CUSTOMER', 'DELETE_CUSTOMER',
+        'CREATE_TASK', 'UPDATE_TASK', 'DELETE_TASK', 'ADD_COMMENT', 'UPDATE_COMMENT', 'DELETE_COMMENT', 'UPLOAD_ATTACHMENT',
+        'ADD_SUBTASK', 'UPDATE_SUBTASK', 'DELETE_SUBTASK',
+        'ADD_CHECKLIST_ITEM', 'UPDATE_CHECKLIST_ITEM', 'DELETE_CHECKLIST_ITEM',
+        'ADD_DEPENDENCY', 'REMOVE_DEPENDENCY', 'ESCALATE_TASK',
+        'CREATE_CUSTOMER', 'UPDATE_CUSTOMER', 'DELETE_CUSTOMER', 'MERGE_CUSTOMER',
         'CREATE_CALL', 'UPDATE_CALL', 'DELETE_CALL',
-        'USER_LOGIN', 'USER_LOGOUT', 'UPDATE_PROFILE'
+        'USER_LOGIN', 'USER_LOGOUT', 'UPDATE_PROFILE',
+        'ENABLE_TWO_FACTOR', 'DISABLE_TWO_FACTOR', 'RESET_TWO_FACTOR', 'REGENERATE_RECOVERY_CODES', 'USE_RECOVERY_CODE',
+        'LOCK_ACCOUNT', 'UNLOCK_ACCOUNT'
       ],
     },
     entity: {
@@ -68,4 +91,8 @@ const activitySchema = new Schema<IActivity>(
   }
 );
 
+// Indexes for log queries and per-entity timelines
+activitySchema.index({ createdAt: -1 });
+activitySchema.index({ entity: 1, entityId: 1, createdAt: 1 });
+
 export default mongoose.model<IActivity>('Activity', activitySchema);
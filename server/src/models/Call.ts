@@ -9,6 +9,8 @@ export interface ICall extends Document {
   outcome?: string;
   followUpRequired: boolean;
   followUpDate?: Date;
+  followUpTask?: mongoose.Types.ObjectId | null; // task created to do the follow-up
+  followUpOf?: mongoose.Types.ObjectId | null; // earlier call this call followed up
   tags: string[];
   createdAt: Date;
   updatedAt: Date;
@@ -52,6 +54,18 @@ const callSchema = new Schema<ICall>({
   followUpDate: {
     type: Date
   },
+  // The task's `sourceCall` links back to this call
+  followUpTask: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task',
+    default: null
+  },
+  // Set on calls logged from the follow-up queue
+  followUpOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'Call',
+    default: null
+  },
   tags: [{
     type: String,
     trim: true,
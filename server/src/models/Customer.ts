@@ -22,6 +22,7 @@ export interface ICustomer extends Document {
   };
   notes?: string;
   isActive: boolean;
+  mergedInto?: mongoose.Types.ObjectId | null; // the customer this duplicate was merged into
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
@@ -100,6 +101,11 @@ const customerSchema = new Schema<ICustomer>({
     type: Boolean,
     default: true
   },
+  mergedInto: {
+    type: Schema.Types.ObjectId,
+    ref: 'Customer',
+    default: null
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
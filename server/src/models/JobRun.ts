@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+// A record of one run of a scheduled job, see utils/jobRuns.ts
+export interface IJobRun extends Document {
+  job: string;
+  status: JobRunStatus;
+  startedAt: Date;
+  finishedAt?: Date;
+  stats: Record<string, number>; // job-specific counters, e.g. { sent: 3 }
+  error?: string;
+}
+
+const jobRunSchema = new Schema<IJobRun>({
+  job: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['running', 'succeeded', 'failed'],
+    default: 'running'
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  finishedAt: Date,
+  stats: {
+    type: Map,
+    of: Number,
+    default: {}
+  },
+  error: String
+});
+
+// Indexes for performance
+jobRunSchema.index({ job: 1, startedAt: -1 });
+jobRunSchema.index({ startedAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export default mongoose.model<IJobRun>('JobRun', jobRunSchema);
@@ -6,7 +6,34 @@ export type NotificationType =
   | 'COMMENT_ADDED'
   | 'TASK_DUE'
   | 'CALL_LOGGED'
-  | 'TASK_REMINDER';
+  | 'TASK_REMINDER'
+  | 'TASK_OVERDUE'
+  | 'TASK_ESCALATED'
+  | 'SLA_WARNING'
+  | 'SLA_BREACHED'
+  | 'TASK_UNBLOCKED'
+  | 'MENTIONED';
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'NEW_TASK',
+  'TASK_UPDATED',
+  'COMMENT_ADDED',
+  'TASK_DUE',
+  'CALL_LOGGED',
+  'TASK_REMINDER',
+  'TASK_OVERDUE',
+  'TASK_ESCALATED',
+  'SLA_WARNING',
+  'SLA_BREACHED',
+  'TASK_UNBLOCKED',
+  'MENTIONED',
+];
+
+// Matches notifications shown in the app; older ones have no inApp flag
+export const IN_APP = { $ne: false };
+
+// 'pending' notifications wait for the user's next email digest
+export type EmailStatus = 'none' | 'pending' | 'sent' | 'failed' | 'skipped';
 
 export interface INotification extends Document {
   user: mongoose.Types.ObjectId;
@@ -14,6 +41,9 @@ export interface INotification extends Document {
   message: string;
   link: string;
   isRead: boolean;
+  inApp: boolean; // false when the user only wants it by email
+  emailStatus: EmailStatus;
+  emailedAt?: Date;
   related: {
     model: 'Task' | 'Call' | 'Customer';
     id: mongoose.Types.ObjectId;
@@ -31,7 +61,7 @@ const notificationSchema = new Schema<INotification>(
     },
     type: {
       type: String,
-      enum: ['NEW_TASK', 'TASK_UPDATED', 'COMMENT_ADDED', 'TASK_DUE', 'CALL_LOGGED'],
+      enum: NOTIFICATION_TYPES,
       required: true,
     },
     message: {
@@ -48,6 +78,16 @@ const notificationSchema = new Schema<INotification>(
       type: Boolean,
       default: false,
     },
+    inApp: {
+      type: Boolean,
+      default: true,
+    },
+    emailStatus: {
+      type: String,
+      enum: ['none', 'pending', 'sent', 'failed', 'skipped'],
+      default: 'none',
+    },
+    emailedAt: Date,
     related: {
       model: {
         type: String,
@@ -67,5 +107,6 @@ const notificationSchema = new Schema<INotification>(
 );
 
 notificationSchema.index({ user: 1, isRead: 1, createdAt: -1 });
+notificationSchema.index({ emailStatus: 1, user: 1 });
 
 export default mongoose.model<INotification>('Notification', notificationSchema);
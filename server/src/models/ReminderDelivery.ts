@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type ReminderKind = 'upcoming' | 'overdue';
+
+// One document per reminder sent; the unique key stops restarts and
+// overlapping job runs from sending the same reminder twice
+export interface IReminderDelivery extends Document {
+  key: string;
+  task: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  kind: ReminderKind;
+  dueDate: Date; // the due date the reminder was for
+  createdAt: Date;
+}
+
+const reminderDeliverySchema = new Schema<IReminderDelivery>({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  task: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  kind: {
+    type: String,
+    enum: ['upcoming', 'overdue'],
+    required: true
+  },
+  dueDate: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for performance
+reminderDeliverySchema.index({ task: 1 });
+// Old records are only needed while their task can still be reminded about
+reminderDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 60 * 24 * 60 * 60 });
+
+export default mongoose.model<IReminderDelivery>('ReminderDelivery', reminderDeliverySchema);
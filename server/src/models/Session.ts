@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SessionRevokeReason = 'logout' | 'logout-all' | 'revoked' | 'deactivated' | 'token-reuse' | 'password-reset' | 'two-factor-required';
+
+// One document per signed-in device. Only hashes of its refresh token are
+// stored; the token itself lives in the device's httpOnly cookie.
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenHash: string;
+  previousTokenHash?: string; // still accepted briefly after a rotation, for requests already in flight
+  rotatedAt?: Date;
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true
+  },
+  previousTokenHash: String,
+  rotatedAt: Date,
+  userAgent: {
+    type: String,
+    maxlength: 300
+  },
+  ip: String,
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'logout-all', 'revoked', 'deactivated', 'token-reuse', 'password-reset', 'two-factor-required']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for performance
+sessionSchema.index({ user: 1, revokedAt: 1 });
+// Sessions are deleted once their refresh token could no longer be used anyway
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', sessionSchema);
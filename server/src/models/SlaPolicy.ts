@@ -0,0 +1,94 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { TASK_PRIORITIES, TaskPriority } from './Task.js';
+
+// Hours after a task is created by which it must be picked up and completed
+export interface ISlaTarget {
+  responseHours: number;
+  resolutionHours: number;
+}
+
+// Applies to one customer, or to every customer of a company type without a policy of its own
+export interface ISlaPolicy extends Document {
+  name: string;
+  customer?: mongoose.Types.ObjectId | null;
+  companyType?: string | null;
+  targets: Record<TaskPriority, ISlaTarget>;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const slaTargetSchema = new Schema<ISlaTarget>({
+  responseHours: {
+    type: Number,
+    required: [true, 'Response target is required'],
+    min: [1, 'Response target must be at least 1 hour']
+  },
+  resolutionHours: {
+    type: Number,
+    required: [true, 'Resolution target is required'],
+    min: [1, 'Resolution target must be at least 1 hour']
+  }
+}, { _id: false });
+
+const slaPolicySchema = new Schema<ISlaPolicy>({
+  name: {
+    type: String,
+    required: [true, 'Policy name is required'],
+    trim: true,
+    maxlength: [100, 'Policy name cannot exceed 100 characters']
+  },
+  customer: {
+    type: Schema.Types.ObjectId,
+    ref: 'Customer',
+    default: null
+  },
+  companyType: {
+    type: String,
+    trim: true,
+    default: null,
+    maxlength: [100, 'Company type cannot exceed 100 characters'],
+    required: [
+      function (this: ISlaPolicy) { return !this.customer; },
+      'A policy applies to either a customer or a company type'
+    ]
+  },
+  targets: {
+    type: new Schema(
+      Object.fromEntries(TASK_PRIORITIES.map(priority => [priority, {
+        type: slaTargetSchema,
+        required: [true, `A ${priority} priority target is required`]
+      }])),
+      { _id: false }
+    ),
+    required: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+slaPolicySchema.pre('validate', function (next) {
+  if (this.customer && this.companyType) {
+    this.invalidate('companyType', 'A policy applies to either a customer or a company type, not both');
+  }
+  next();
+});
+
+// One policy per customer and per company type (case-insensitive)
+slaPolicySchema.index({ customer: 1 }, { unique: true, partialFilterExpression: { customer: { $type: 'objectId' } } });
+slaPolicySchema.index(
+  { companyType: 1 },
+  { unique: true, partialFilterExpression: { companyType: { $type: 'string' } }, collation: { locale: 'en', strength: 2 } }
+);
+
+export default mongoose.model<ISlaPolicy>('SlaPolicy', slaPolicySchema);
@@ -1,11 +1,93 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface ITaskRecurrence {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'custom';
+  interval: number;
+  byWeekday: number[]; // 0 (Sunday) - 6 (Saturday), weekly only
+  byMonthDay?: number; // monthly only
+  rule?: string; // RRULE string, custom only
+  endDate?: Date;
+  count?: number;
+}
+
+export interface ISubtask {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  assignedTo: mongoose.Types.ObjectId;
+  status: 'todo' | 'in-progress' | 'completed';
+  dueDate?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+}
+
+export interface IChecklistItem {
+  _id: mongoose.Types.ObjectId;
+  text: string;
+  isDone: boolean;
+  doneBy?: mongoose.Types.ObjectId;
+  doneAt?: Date;
+}
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+// Reactions a comment can get
+export const COMMENT_REACTIONS = ['👍', '👎', '😄', '🎉', '😕', '❤️', '🚀', '👀'];
+
+export interface ICommentReaction {
+  emoji: string;
+  users: mongoose.Types.ObjectId[];
+}
+
+export interface ITaskComment {
+  _id: mongoose.Types.ObjectId;
+  text: string; // markdown; mentions are written as @[Name](userId)
+  author: mongoose.Types.ObjectId;
+  parent?: mongoose.Types.ObjectId | null; // the top-level comment this replies to
+  mentions: mongoose.Types.ObjectId[];
+  reactions: ICommentReaction[];
+  editedAt?: Date | null;
+  deletedAt?: Date | null; // deleted comments with replies stay, without their text, to keep the thread
+  createdAt: Date;
+}
+
+export interface ITaskProgress {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+export const MAX_REMINDER_OFFSET = 30 * 24 * 60;
+export const DEFAULT_REMINDERS = [24 * 60, 60]; // a day and an hour before
+
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+export type SlaAlert = 'response-warning' | 'response-breach' | 'resolution-warning' | 'resolution-breach';
+
+// SLA clock of a customer task, see utils/sla.ts
+export interface ITaskSla {
+  policy: mongoose.Types.ObjectId;
+  respondBy: Date;
+  resolveBy: Date;
+  respondedAt?: Date | null; // first moved out of the 'todo' stage
+  resolvedAt?: Date | null; // completed; cleared when reopened
+  responseBreached: boolean;
+  resolutionBreached: boolean;
+  alerts: SlaAlert[]; // warnings and breach notifications already sent
+}
+
+// 0: not escalated, 1: the creator was notified, 2: all managers were notified
+export type TaskEscalationLevel = 0 | 1 | 2;
+
 export interface ITask extends Document {
   title: string;
   description: string;
   category: mongoose.Types.ObjectId;
-  priority: 'low' | 'medium' | 'high' | 'urgent';
+  priority: TaskPriority;
   status: 'todo' | 'in-progress' | 'completed';
+  workflowStatus?: string;
+  resolution?: string;
   dueDate: Date;
   assignedTo: mongoose.Types.ObjectId;
   customer?: mongoose.Types.ObjectId;
@@ -15,11 +97,23 @@ export interface ITask extends Document {
     mimetype: string;
     size: number;
   }[];
-  comments: {
-    text: string;
-    author: mongoose.Types.ObjectId;
-    createdAt: Date;
-  }[];
+  comments: mongoose.Types.DocumentArray<ITaskComment & mongoose.Types.Subdocument>;
+  subtasks: mongoose.Types.DocumentArray<ISubtask & mongoose.Types.Subdocument>;
+  checklist: mongoose.Types.DocumentArray<IChecklistItem & mongoose.Types.Subdocument>;
+  progress: ITaskProgress; // virtual
+  blockedBy: mongoose.Types.ObjectId[];
+  isBlocked: boolean;
+  boardPosition: number;
+  reminders: number[]; // minutes before the due date
+  escalationLevel: TaskEscalationLevel;
+  escalatedAt?: Date | null;
+  sla?: ITaskSla | null;
+  recurrence?: ITaskRecurrence | null;
+  recurrenceSeries?: mongoose.Types.ObjectId;
+  occurrenceNumber: number;
+  nextOccurrence?: mongoose.Types.ObjectId;
+  recurrenceEnded: boolean;
+  sourceCall?: mongoose.Types.ObjectId | null; // call whose follow-up this task is
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
@@ -45,7 +139,7 @@ const taskSchema = new Schema<ITask>({
   },
   priority: {
     type: String,
-    enum: ['low', 'medium', 'high', 'urgent'],
+    enum: TASK_PRIORITIES,
     default: 'medium'
   },
   status: {
@@ -53,6 +147,16 @@ const taskSchema = new Schema<ITask>({
     enum: ['todo', 'in-progress', 'completed'],
     default: 'todo'
   },
+  // Status key in the category's workflow; `status` holds the stage it maps to
+  workflowStatus: {
+    type: String,
+    trim: true
+  },
+  resolution: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Resolution cannot exceed 1000 characters']
+  },
   dueDate: {
     type: Date,
     required: [true, 'Due date is required']
@@ -75,27 +179,230 @@ const taskSchema = new Schema<ITask>({
   comments: [{
     text: {
       type: String,
-      required: true,
+      required: [function (this: ITaskComment) { return !this.deletedAt; }, 'Comment text is required'],
       trim: true,
-      maxlength: [500, 'Comment cannot exceed 500 characters']
+      maxlength: [MAX_COMMENT_LENGTH, `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters`]
     },
     author: {
       type: Schema.Types.ObjectId,
       ref: 'User',
       required: true
     },
+    parent: {
+      type: Schema.Types.ObjectId,
+      default: null
+    },
+    mentions: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    reactions: [{
+      _id: false,
+      emoji: { type: String, required: true, enum: COMMENT_REACTIONS },
+      users: [{ type: Schema.Types.ObjectId, ref: 'User' }]
+    }],
+    editedAt: {
+      type: Date,
+      default: null
+    },
+    deletedAt: {
+      type: Date,
+      default: null
+    },
     createdAt: {
       type: Date,
       default: Date.now
     }
   }],
+  subtasks: [{
+    title: {
+      type: String,
+      required: [true, 'Subtask title is required'],
+      trim: true,
+      maxlength: [200, 'Subtask title cannot exceed 200 characters']
+    },
+    assignedTo: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Subtask must be assigned to a user']
+    },
+    status: {
+      type: String,
+      enum: ['todo', 'in-progress', 'completed'],
+      default: 'todo'
+    },
+    dueDate: {
+      type: Date
+    },
+    completedAt: {
+      type: Date
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  checklist: [{
+    text: {
+      type: String,
+      required: [true, 'Checklist item text is required'],
+      trim: true,
+      maxlength: [200, 'Checklist item cannot exceed 200 characters']
+    },
+    isDone: {
+      type: Boolean,
+      default: false
+    },
+    doneBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    doneAt: {
+      type: Date
+    }
+  }],
+  // Prerequisites that must be completed before this task can move forward
+  blockedBy: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Task'
+  }],
+  // Kept in sync whenever a prerequisite is linked, unlinked, completed or reopened
+  isBlocked: {
+    type: Boolean,
+    default: false
+  },
+  // Order of the task within its status column on the board (ascending)
+  boardPosition: {
+    type: Number,
+    default: 0
+  },
+  // How far the overdue task has been escalated; reset when the due date moves
+  escalationLevel: {
+    type: Number,
+    enum: [0, 1, 2],
+    default: 0
+  },
+  escalatedAt: {
+    type: Date,
+    default: null
+  },
+  sla: {
+    type: {
+      _id: false,
+      policy: { type: Schema.Types.ObjectId, ref: 'SlaPolicy', required: true },
+      respondBy: { type: Date, required: true },
+      resolveBy: { type: Date, required: true },
+      respondedAt: { type: Date, default: null },
+      resolvedAt: { type: Date, default: null },
+      responseBreached: { type: Boolean, default: false },
+      resolutionBreached: { type: Boolean, default: false },
+      alerts: [{
+        type: String,
+        enum: ['response-warning', 'response-breach', 'resolution-warning', 'resolution-breach']
+      }]
+    },
+    default: null
+  },
+  // The assignee is reminded this many minutes before the due date
+  reminders: {
+    type: [{
+      type: Number,
+      min: [0, 'Reminder offset cannot be negative'],
+      max: [MAX_REMINDER_OFFSET, 'Reminders can be at most 30 days before the due date']
+    }],
+    default: () => [...DEFAULT_REMINDERS],
+    validate: {
+      validator: (offsets: number[]) => offsets.length <= 5,
+      message: 'A task can have at most 5 reminders'
+    }
+  },
+  recurrence: {
+    type: {
+      frequency: {
+        type: String,
+        enum: ['daily', 'weekly', 'monthly', 'custom'],
+        required: [true, 'Recurrence frequency is required']
+      },
+      interval: {
+        type: Number,
+        min: [1, 'Interval must be at least 1'],
+        max: [365, 'Interval cannot exceed 365'],
+        default: 1
+      },
+      byWeekday: [{
+        type: Number,
+        min: 0,
+        max: 6
+      }],
+      byMonthDay: {
+        type: Number,
+        min: 1,
+        max: 31
+      },
+      rule: {
+        type: String,
+        trim: true,
+        maxlength: [200, 'Rule cannot exceed 200 characters']
+      },
+      endDate: {
+        type: Date
+      },
+      count: {
+        type: Number,
+        min: [1, 'Count must be at least 1']
+      }
+    },
+    default: undefined
+  },
+  // First task of a recurring series; unset on the first occurrence itself
+  recurrenceSeries: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task'
+  },
+  occurrenceNumber: {
+    type: Number,
+    default: 1
+  },
+  // Set once the following occurrence has been created, so it is only created once
+  nextOccurrence: {
+    type: Schema.Types.ObjectId,
+    ref: 'Task',
+    default: null
+  },
+  // Set when the schedule has no occurrence after this one (or can't be read), so it is only checked once
+  recurrenceEnded: {
+    type: Boolean,
+    default: false
+  },
+  // Set on tasks created for a call's follow-up; the call links back through `followUpTask`
+  sourceCall: {
+    type: Schema.Types.ObjectId,
+    ref: 'Call',
+    default: null
+  },
   createdBy: {
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: true
   }
 }, {
-  timestamps: true
+  timestamps: true,
+  toJSON: { virtuals: true }
+});
+
+// Progress across subtasks and checklist items; a task without children has no progress to report
+taskSchema.virtual('progress').get(function (this: ITask): ITaskProgress {
+  const subtasks = this.subtasks || [];
+  const checklist = this.checklist || [];
+  const total = subtasks.length + checklist.length;
+  const completed = subtasks.filter(subtask => subtask.status === 'completed').length +
+    checklist.filter(item => item.isDone).length;
+
+  return {
+    completed,
+    total,
+    percent: total > 0 ? Math.round((completed / total) * 100) : 0
+  };
 });
 
 // Indexes for performance
@@ -104,6 +411,13 @@ taskSchema.index({ dueDate: 1 });
 taskSchema.index({ priority: 1 });
 taskSchema.index({ customer: 1 });
 taskSchema.index({ createdBy: 1 });
+taskSchema.index({ 'subtasks.assignedTo': 1 });
+taskSchema.index({ blockedBy: 1 });
+taskSchema.index({ status: 1, boardPosition: 1 });
+taskSchema.index({ 'recurrence.frequency': 1, nextOccurrence: 1, recurrenceEnded: 1 });
+taskSchema.index({ status: 1, escalationLevel: 1, dueDate: 1 });
+taskSchema.index({ customer: 1, 'sla.policy': 1, createdAt: -1 });
+taskSchema.index({ 'sla.resolvedAt': 1, 'sla.resolveBy': 1 });
 taskSchema.index({ title: 'text', description: 'text', category: 'text' });
 
 export default mongoose.model<ITask>('Task', taskSchema);
\ No newline at end of file
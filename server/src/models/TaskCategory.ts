@@ -1,10 +1,79 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export type WorkflowStage = 'todo' | 'in-progress' | 'completed';
+
+export type TransitionField = 'comment' | 'resolution';
+
+export interface IWorkflowStatus {
+  key: string;
+  name: string;
+  stage: WorkflowStage; // board column / ITask.status the workflow status maps to
+}
+
+export interface IWorkflowTransition {
+  from: string;
+  to: string;
+  roles: ('admin' | 'manager' | 'user')[]; // empty means any role
+  requiredFields: TransitionField[];
+}
+
+export interface IWorkflow {
+  statuses: IWorkflowStatus[];
+  initialStatus: string;
+  transitions: IWorkflowTransition[];
+}
+
 export interface ITaskCategory extends Document {
   name: string;
   description?: string;
+  // Categories without a workflow use the default todo / in-progress / completed flow
+  workflow?: IWorkflow | null;
 }
 
+const workflowSchema = new Schema<IWorkflow>(
+  {
+    statuses: [{
+      _id: false,
+      key: {
+        type: String,
+        required: [true, 'Status key is required'],
+        trim: true,
+        match: [/^[a-z0-9-]+$/, 'Status keys may only contain lowercase letters, numbers and dashes'],
+        maxlength: [30, 'Status key cannot exceed 30 characters'],
+      },
+      name: {
+        type: String,
+        required: [true, 'Status name is required'],
+        trim: true,
+        maxlength: [50, 'Status name cannot exceed 50 characters'],
+      },
+      stage: {
+        type: String,
+        enum: ['todo', 'in-progress', 'completed'],
+        required: [true, 'Status stage is required'],
+      },
+    }],
+    initialStatus: {
+      type: String,
+      required: [true, 'Initial status is required'],
+    },
+    transitions: [{
+      _id: false,
+      from: { type: String, required: true },
+      to: { type: String, required: true },
+      roles: [{
+        type: String,
+        enum: ['admin', 'manager', 'user'],
+      }],
+      requiredFields: [{
+        type: String,
+        enum: ['comment', 'resolution'],
+      }],
+    }],
+  },
+  { _id: false }
+);
+
 const taskCategorySchema = new Schema<ITaskCategory>(
   {
     name: {
@@ -19,6 +88,10 @@ const taskCategorySchema = new Schema<ITaskCategory>(
       trim: true,
       maxlength: [200, 'Description cannot exceed 200 characters'],
     },
+    workflow: {
+      type: workflowSchema,
+      default: null,
+    },
   },
   {
     timestamps: true,
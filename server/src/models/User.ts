@@ -1,5 +1,44 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { NOTIFICATION_TYPES, NotificationType } from './Notification.js';
+
+export type EmailDigestMode = 'instant' | 'hourly' | 'daily';
+
+// In the user's timezone
+export interface IQuietHours {
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string; // HH:mm; may be earlier than start to span midnight
+}
+
+export interface INotificationPreferences {
+  inApp: {
+    mutedTypes: NotificationType[]; // notification types that aren't shown in the app; email is set separately
+  };
+  email: {
+    types: NotificationType[]; // notification types that are also emailed
+    digest: EmailDigestMode; // send each one right away, or batch unread ones
+  };
+  quietHours: IQuietHours; // emails are held back during these hours
+  mutedTasks: mongoose.Types.ObjectId[];
+  mutedCustomers: mongoose.Types.ObjectId[]; // also mutes their tasks and calls
+}
+
+export interface IRecoveryCode {
+  codeHash: string; // sha256 of the code; the codes themselves are only shown once
+  usedAt?: Date | null;
+}
+
+export interface ITwoFactor {
+  enabled: boolean;
+  secret?: string; // base32 TOTP secret; never sent to clients
+  pendingSecret?: string; // secret being enrolled, until a first code confirms it
+  lastUsedStep?: number; // time step of the last accepted code, so each code works once
+  recoveryCodes: IRecoveryCode[];
+  enabledAt?: Date;
+}
+
+const DEFAULT_EMAIL_TYPES: NotificationType[] = ['NEW_TASK', 'TASK_DUE', 'TASK_REMINDER', 'TASK_ESCALATED', 'SLA_BREACHED', 'TASK_UNBLOCKED', 'MENTIONED'];
 
 export interface IUser extends Document {
   name: string;
@@ -7,6 +46,13 @@ export interface IUser extends Document {
   passwordHash: string;
   role: 'admin' | 'manager' | 'user';
   isActive: boolean;
+  failedLoginAttempts: number; // in a row; a successful login starts over
+  lockedUntil?: Date | null;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  timezone: string; // IANA name, e.g. Asia/Kolkata
+  twoFactor: ITwoFactor;
+  notificationPreferences: INotificationPreferences;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(password: string): Promise<boolean>;
@@ -40,6 +86,80 @@ const userSchema = new Schema<IUser>({
   isActive: {
     type: Boolean,
     default: true
+  },
+  failedLoginAttempts: {
+    type: Number,
+    default: 0
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  // Only self-registered accounts start unverified; accounts created by an
+  // admin, or before verification existed, count as verified
+  emailVerified: {
+    type: Boolean,
+    default: true
+  },
+  emailVerifiedAt: Date,
+  timezone: {
+    type: String,
+    default: 'UTC'
+  },
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    secret: String,
+    pendingSecret: String,
+    lastUsedStep: Number,
+    recoveryCodes: [{
+      _id: false,
+      codeHash: {
+        type: String,
+        required: true
+      },
+      usedAt: {
+        type: Date,
+        default: null
+      }
+    }],
+    enabledAt: Date
+  },
+  notificationPreferences: {
+    inApp: {
+      mutedTypes: [{ type: String, enum: NOTIFICATION_TYPES }]
+    },
+    email: {
+      types: {
+        type: [{ type: String, enum: NOTIFICATION_TYPES }],
+        default: DEFAULT_EMAIL_TYPES
+      },
+      digest: {
+        type: String,
+        enum: ['instant', 'hourly', 'daily'],
+        default: 'instant'
+      }
+    },
+    quietHours: {
+      enabled: {
+        type: Boolean,
+        default: false
+      },
+      start: {
+        type: String,
+        match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Quiet hours must use the HH:mm format'],
+        default: '22:00'
+      },
+      end: {
+        type: String,
+        match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Quiet hours must use the HH:mm format'],
+        default: '07:00'
+      }
+    },
+    mutedTasks: [{ type: Schema.Types.ObjectId, ref: 'Task' }],
+    mutedCustomers: [{ type: Schema.Types.ObjectId, ref: 'Customer' }]
   }
 }, {
   timestamps: true
@@ -67,10 +187,18 @@ userSchema.methods.comparePassword = async function (password: string): Promise<
   return bcrypt.compare(password, this.passwordHash);
 };
 
-// Don't return password hash in JSON
+// Don't return password hash or two-factor secrets in JSON
 userSchema.methods.toJSON = function () {
   const userObject = this.toObject();
   delete userObject.passwordHash;
+  if (userObject.twoFactor) {
+    const { enabled, enabledAt, recoveryCodes = [] } = userObject.twoFactor as ITwoFactor;
+    userObject.twoFactor = {
+      enabled,
+      enabledAt,
+      recoveryCodesRemaining: recoveryCodes.filter(code => !code.usedAt).length
+    };
+  }
   return userObject;
 };
 
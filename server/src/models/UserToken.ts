@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type UserTokenPurpose = 'password-reset' | 'email-verification';
+
+// One document per emailed link. The link carries a signed token naming this
+// document, which is marked used the first time the link is followed.
+export interface IUserToken extends Document {
+  user: mongoose.Types.ObjectId;
+  purpose: UserTokenPurpose;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt: Date;
+}
+
+const userTokenSchema = new Schema<IUserToken>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  purpose: {
+    type: String,
+    enum: ['password-reset', 'email-verification'],
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for performance
+userTokenSchema.index({ user: 1, purpose: 1 });
+userTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IUserToken>('UserToken', userTokenSchema);
@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { TASK_PRIORITIES, TaskPriority } from './Task.js';
+
+export type BoardColumn = 'todo' | 'in-progress' | 'completed';
+
+export const BOARD_COLUMNS: BoardColumn[] = ['todo', 'in-progress', 'completed'];
+
+// Hours a task may be overdue before its creator, then all managers, are notified
+export interface IEscalationPolicy {
+  creatorAfterHours: number;
+  managersAfterHours: number;
+}
+
+const DEFAULT_ESCALATION_POLICIES: Record<TaskPriority, IEscalationPolicy> = {
+  low: { creatorAfterHours: 48, managersAfterHours: 120 },
+  medium: { creatorAfterHours: 24, managersAfterHours: 72 },
+  high: { creatorAfterHours: 8, managersAfterHours: 24 },
+  urgent: { creatorAfterHours: 2, managersAfterHours: 8 },
+};
+
+// Roles an admin can require two-factor authentication for
+export type TwoFactorRole = 'admin' | 'manager';
+
+export const TWO_FACTOR_ROLES: TwoFactorRole[] = ['admin', 'manager'];
+
+// Workspace-wide settings; there is a single document, see utils/workspaceSettings.ts
+export interface IWorkspaceSettings extends Document {
+  board: {
+    // Maximum number of tasks per status column; a missing column has no limit
+    wipLimits: Map<BoardColumn, number>;
+  };
+  escalation: {
+    enabled: boolean;
+    // When escalation was last turned on; only tasks due since then are escalated
+    enabledAt?: Date;
+    policies: Record<TaskPriority, IEscalationPolicy>;
+  };
+  security: {
+    // Users with these roles must set up two-factor authentication to sign in
+    twoFactorRequiredRoles: TwoFactorRole[];
+  };
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const escalationPolicySchema = new Schema<IEscalationPolicy>({
+  creatorAfterHours: {
+    type: Number,
+    required: true,
+    min: [1, 'Escalation must be at least 1 hour after the due date']
+  },
+  managersAfterHours: {
+    type: Number,
+    required: true,
+    min: [1, 'Escalation must be at least 1 hour after the due date']
+  }
+}, { _id: false });
+
+const workspaceSettingsSchema = new Schema<IWorkspaceSettings>({
+  board: {
+    wipLimits: {
+      type: Map,
+      of: {
+        type: Number,
+        min: [1, 'WIP limit must be at least 1']
+      },
+      default: {}
+    }
+  },
+  escalation: {
+    enabled: {
+      type: Boolean,
+      default: true
+    },
+    enabledAt: Date,
+    policies: {
+      type: new Schema(
+        Object.fromEntries(TASK_PRIORITIES.map(priority => [priority, {
+          type: escalationPolicySchema,
+          default: () => ({ ...DEFAULT_ESCALATION_POLICIES[priority] })
+        }])),
+        { _id: false }
+      ),
+      default: () => ({})
+    }
+  },
+  security: {
+    twoFactorRequiredRoles: [{
+      type: String,
+      enum: TWO_FACTOR_ROLES
+    }]
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<IWorkspaceSettings>('WorkspaceSettings', workspaceSettingsSchema);
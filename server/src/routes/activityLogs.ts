@@ -0,0 +1,196 @@
+import express, { Response } from 'express';
+import { query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Activity from '../models/Activity.js';
+import { authenticate, AuthRequest } from '../middleware/auth.js';
+
+const router = express.Router();
+
+const ENTITY_TYPES = ['Task', 'Customer', 'Call', 'User'];
+
+// Apply authentication to all routes
+router.use(authenticate);
+
+const paginationValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive number'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+];
+
+const getPagination = (req: AuthRequest, defaultLimit: number) => {
+  const page = Number(req.query.page ?? 1);
+  const limit = Number(req.query.limit ?? defaultLimit);
+  return { page, limit, skip: (page - 1) * limit };
+};
+
+const describePage = (page: number, limit: number, total: number) => ({
+  currentPage: page,
+  totalPages: Math.ceil(total / limit),
+  totalLogs: total,
+  hasNext: page * limit < total,
+  hasPrev: page > 1
+});
+
+/**
+ * @route   GET /api/activity-logs
+ * @desc    List activity entries, newest first
+ * @access  Private (users only see their own activity)
+ * @query   user, entity, entityId, action (comma-separated), startDate, endDate, page, limit
+ */
+router.get('/', paginationValidation, async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { page, limit, skip } = getPagination(req, 20);
+    const {
+      user,
+      entity,
+      entityId,
+      action,
+      startDate,
+      endDate
+    } = req.query;
+
+    const query: any = {};
+
+    // Filter by user
+    if (user && typeof user === 'string') {
+      if (!mongoose.isValidObjectId(user)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+      query.user = user;
+    }
+
+    // Filter by entity type
+    if (entity && typeof entity === 'string') {
+      if (!ENTITY_TYPES.includes(entity)) {
+        return res.status(400).json({ message: 'Invalid entity type' });
+      }
+      query.entity = entity;
+    }
+
+    // Filter by entity ID
+    if (entityId && typeof entityId === 'string') {
+      if (!mongoose.isValidObjectId(entityId)) {
+        return res.status(400).json({ message: 'Invalid entity ID' });
+      }
+      query.entityId = entityId;
+    }
+
+    // Filter by one or more actions
+    if (action && typeof action === 'string') {
+      query.action = { $in: action.split(',') };
+    }
+
+    // Filter by date range
+    if ((startDate && typeof startDate === 'string') || (endDate && typeof endDate === 'string')) {
+      query.createdAt = {};
+      if (startDate && typeof startDate === 'string') {
+        const start = new Date(startDate);
+        if (isNaN(start.getTime())) {
+          return res.status(400).json({ message: 'Invalid start date' });
+        }
+        query.createdAt.$gte = start;
+      }
+      if (endDate && typeof endDate === 'string') {
+        const end = new Date(endDate);
+        if (isNaN(end.getTime())) {
+          return res.status(400).json({ message: 'Invalid end date' });
+        }
+        query.createdAt.$lte = end;
+      }
+    }
+
+    // Role-based filtering
+    if (req.user?.role === 'user') {
+      query.user = req.user._id;
+    }
+
+    const logs = await Activity.find(query)
+      .populate('user', 'name email')
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .skip(skip);
+
+    const total = await Activity.countDocuments(query);
+
+    res.json({ logs, pagination: describePage(page, limit, total) });
+  } catch (error) {
+    console.error('Get activity logs error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch activity logs',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/activity-logs/:entity/:entityId
+ * @desc    Chronological timeline of everything that happened to a single entity
+ * @access  Private (users only see their own activity)
+ * @query   page, limit, order ('asc' by default, or 'desc' for the latest entries first)
+ */
+router.get('/:entity/:entityId', [
+  ...paginationValidation,
+  query('order')
+    .optional()
+    .isIn(['asc', 'desc'])
+    .withMessage('Order must be asc or desc')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { entity, entityId } = req.params;
+    const { page, limit, skip } = getPagination(req, 50);
+
+    if (!ENTITY_TYPES.includes(entity)) {
+      return res.status(400).json({ message: 'Invalid entity type' });
+    }
+
+    if (!mongoose.isValidObjectId(entityId)) {
+      return res.status(400).json({ message: 'Invalid entity ID' });
+    }
+
+    const query: any = { entity, entityId };
+
+    // Role-based filtering
+    if (req.user?.role === 'user') {
+      query.user = req.user._id;
+    }
+
+    const logs = await Activity.find(query)
+      .populate('user', 'name email')
+      .sort({ createdAt: req.query.order === 'desc' ? -1 : 1 })
+      .limit(limit)
+      .skip(skip);
+
+    const total = await Activity.countDocuments(query);
+
+    res.json({ entity, entityId, logs, pagination: describePage(page, limit, total) });
+  } catch (error) {
+    console.error('Get entity timeline error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch entity timeline',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -1,14 +1,60 @@
 import express from 'express';
-import jwt from 'jsonwebtoken';
-import { body, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
 import User from '../models/User.js';
+import Session from '../models/Session.js';
+import Task from '../models/Task.js';
+import Customer from '../models/Customer.js';
+import { NOTIFICATION_TYPES } from '../models/Notification.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
+import {
+  accountLimiter,
+  authLimiter,
+  registerLimiter,
+  twoFactorLimiter,
+  twoFactorManagementLimiter
+} from '../middleware/rateLimit.js';
+import { isValidTimezone } from '../utils/notificationPreferences.js';
+import {
+  consumeAccountToken,
+  restartEmailVerification,
+  sendPasswordResetEmail,
+  sendVerificationEmail
+} from '../utils/accountTokens.js';
+import { logActivity } from '../utils/activityLogger.js';
+import { clearFailedLogins, describeLockout, isAccountLocked, recordFailedLogin } from '../utils/loginLockout.js';
+import {
+  beginTwoFactorSetup,
+  completeTwoFactorSetup,
+  createTwoFactorChallenge,
+  disableTwoFactor,
+  isTwoFactorRequired,
+  readTwoFactorChallenge,
+  regenerateRecoveryCodes,
+  verifySecondFactor
+} from '../utils/twoFactor.js';
+import {
+  clearRefreshCookie,
+  readRefreshCookie,
+  refreshSession,
+  revokeSession,
+  revokeUserSessions,
+  startSession,
+  verifyAccessToken
+} from '../utils/sessions.js';
 import { Request, Response } from 'express';
 
 const router = express.Router();
 
+const sendAccountLocked = (res: Response, lockedUntil: Date) =>
+  res.status(423).json({
+    message: `Too many failed login attempts. Try again in ${describeLockout(lockedUntil)}, or reset your password.`,
+    code: 'ACCOUNT_LOCKED',
+    lockedUntil
+  });
+
 // Register new user
-router.post('/register', [
+router.post('/register', authLimiter, registerLimiter, [
   body('name')
     .trim()
     .isLength({ min: 2, max: 100 })
@@ -46,16 +92,23 @@ router.post('/register', [
       email,
       passwordHash: password, // Will be hashed by pre-save middleware
       // Role will be defaulted to 'user' by the schema
+      emailVerified: false
     });
 
     await user.save();
 
-    const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-key';
-    const token = jwt.sign({ userId: user._id }, JWT_SECRET, { expiresIn: '7d' });
+    // The account exists either way; a failed email can be sent again from the login page
+    let verificationSent = true;
+    try {
+      await sendVerificationEmail(user);
+    } catch (error) {
+      console.error('Failed to send verification email:', error);
+      verificationSent = false;
+    }
 
     res.status(201).json({
-      message: 'User registered successfully',
-      token,
+      message: 'User registered successfully. Check your email to verify your address before logging in.',
+      verificationSent,
       user: user.toJSON()
     });
   } catch (error) {
@@ -68,7 +121,7 @@ router.post('/register', [
 });
 
 // Login user
-router.post('/login', [
+router.post('/login', authLimiter, accountLimiter, [
   body('email')
     .isEmail()
     .normalizeEmail()
@@ -96,16 +149,48 @@ router.post('/login', [
       });
     }
 
+    // A locked account doesn't even check the password, so guessing gets nowhere
+    if (isAccountLocked(user)) {
+      return sendAccountLocked(res, user.lockedUntil!);
+    }
+
     // Check password
     const isPasswordValid = await user.comparePassword(password);
     if (!isPasswordValid) {
+      const lockedUntil = await recordFailedLogin(user, req.ip);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
       return res.status(401).json({
         message: 'Invalid credentials'
       });
     }
 
-    const JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-key';
-    const token = jwt.sign({ userId: user._id }, JWT_SECRET, { expiresIn: '7d' });
+    if (!user.emailVerified) {
+      return res.status(403).json({
+        message: 'Please verify your email address before logging in.',
+        code: 'EMAIL_NOT_VERIFIED'
+      });
+    }
+
+    // The password was right; a challenge token carries that over to the second step
+    if (user.twoFactor?.enabled) {
+      return res.json({
+        message: 'Enter the code from your authenticator app',
+        twoFactorRequired: true,
+        challengeToken: createTwoFactorChallenge(user, 'two-factor-login')
+      });
+    }
+    if (await isTwoFactorRequired(user)) {
+      return res.json({
+        message: 'Your role requires two-factor authentication. Set it up to finish signing in.',
+        twoFactorSetupRequired: true,
+        challengeToken: createTwoFactorChallenge(user, 'two-factor-setup')
+      });
+    }
+
+    await clearFailedLogins(user._id);
+    const token = await startSession(user, req, res);
 
     res.json({
       message: 'Login successful',
@@ -121,6 +206,646 @@ router.post('/login', [
   }
 });
 
+// Second login step: a code from the authenticator app, or a recovery code
+router.post('/login/two-factor', authLimiter, twoFactorLimiter, [
+  body('challengeToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  body('code')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await readTwoFactorChallenge(req.body.challengeToken, 'two-factor-login');
+    if (!user) {
+      return res.status(401).json({ message: 'Your sign-in has expired. Please log in again.' });
+    }
+
+    if (isAccountLocked(user)) {
+      return sendAccountLocked(res, user.lockedUntil!);
+    }
+
+    const verified = await verifySecondFactor(user, req.body.code);
+    if (!verified) {
+      const lockedUntil = await recordFailedLogin(user, req.ip);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
+      return res.status(401).json({ message: 'Invalid authentication code' });
+    }
+
+    if (verified.method === 'recovery-code') {
+      const recoveryCodesRemaining = verified.user.twoFactor.recoveryCodes.filter(code => !code.usedAt).length;
+      logActivity({
+        user: user._id,
+        action: 'USE_RECOVERY_CODE',
+        entity: 'User',
+        entityId: user._id,
+        details: { recoveryCodesRemaining, ip: req.ip }
+      });
+    }
+
+    await clearFailedLogins(user._id);
+    const token = await startSession(verified.user, req, res);
+
+    res.json({
+      message: 'Login successful',
+      token,
+      user: verified.user.toJSON()
+    });
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({
+      message: 'Failed to login',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Start the two-factor setup a role requires, in the middle of logging in
+router.post('/login/two-factor/setup', authLimiter, twoFactorLimiter, [
+  body('challengeToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Challenge token is required')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await readTwoFactorChallenge(req.body.challengeToken, 'two-factor-setup');
+    if (!user || user.twoFactor?.enabled) {
+      return res.status(401).json({ message: 'Your sign-in has expired. Please log in again.' });
+    }
+
+    res.json(await beginTwoFactorSetup(user));
+  } catch (error) {
+    console.error('Two-factor login setup error:', error);
+    res.status(500).json({
+      message: 'Failed to start two-factor setup',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Finish that setup with a first code from the app; this also completes the login
+router.post('/login/two-factor/enable', authLimiter, twoFactorLimiter, [
+  body('challengeToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  body('code')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await readTwoFactorChallenge(req.body.challengeToken, 'two-factor-setup');
+    if (!user || user.twoFactor?.enabled) {
+      return res.status(401).json({ message: 'Your sign-in has expired. Please log in again.' });
+    }
+
+    const recoveryCodes = await completeTwoFactorSetup(user, req.body.code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+    logActivity({ user: user._id, action: 'ENABLE_TWO_FACTOR', entity: 'User', entityId: user._id });
+
+    await clearFailedLogins(user._id);
+    const enrolledUser = await User.findById(user._id);
+    const token = await startSession(user, req, res);
+
+    res.json({
+      message: 'Two-factor authentication enabled. Login successful.',
+      token,
+      recoveryCodes,
+      user: enrolledUser?.toJSON()
+    });
+  } catch (error) {
+    console.error('Two-factor login enable error:', error);
+    res.status(500).json({
+      message: 'Failed to enable two-factor authentication',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Email a password reset link. The answer is the same whether or not the
+// account exists, so this can't be used to find out who has one.
+router.post('/forgot-password', authLimiter, accountLimiter, [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findOne({ email: req.body.email, isActive: true });
+    // Not awaited and failures only logged, so neither the timing nor the answer gives the account away
+    if (user) {
+      sendPasswordResetEmail(user).catch(error => console.error('Failed to send password reset email:', error));
+    }
+
+    res.json({ message: 'If an account exists for that email, a password reset link is on its way.' });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      message: 'Failed to send password reset email',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Set a new password with the token from a reset link
+router.post('/reset-password', authLimiter, [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  body('password')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters long')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await consumeAccountToken(req.body.token, 'password-reset');
+    if (!user) {
+      return res.status(400).json({ message: 'This reset link is invalid or has expired. Please ask for a new one.' });
+    }
+
+    user.passwordHash = req.body.password; // Will be hashed by pre-save middleware
+    // Proving the email address is enough to get back into a locked account
+    user.failedLoginAttempts = 0;
+    user.lockedUntil = null;
+    // Following the emailed link proves the address too
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+    }
+    await user.save();
+
+    // Whoever knew the old password is signed out
+    await revokeUserSessions(user._id, 'password-reset');
+
+    res.json({ message: 'Password reset successfully. You can now log in with your new password.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      message: 'Failed to reset password',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Confirm an email address with the token from a verification link
+router.post('/verify-email', authLimiter, [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Verification token is required')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await consumeAccountToken(req.body.token, 'email-verification');
+    if (!user) {
+      return res.status(400).json({ message: 'This verification link is invalid or has expired. Please ask for a new one.' });
+    }
+
+    if (!user.emailVerified) {
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      await user.save();
+    }
+
+    res.json({ message: 'Email address verified. You can now log in.' });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      message: 'Failed to verify email address',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Email a new verification link; answers the same whether or not the account exists
+router.post('/resend-verification', authLimiter, accountLimiter, [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email')
+], async (req: Request, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const user = await User.findOne({ email: req.body.email, isActive: true, emailVerified: false });
+    if (user) {
+      sendVerificationEmail(user).catch(error => console.error('Failed to send verification email:', error));
+    }
+
+    res.json({ message: 'If that account still needs verifying, a new link is on its way.' });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      message: 'Failed to send verification email',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Exchange the refresh cookie for a new access token (and a new refresh cookie)
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const session = await refreshSession(req, res);
+    if (!session) {
+      clearRefreshCookie(res);
+      return res.status(401).json({ message: 'Session expired. Please log in again.' });
+    }
+
+    // A policy switched on after this device signed in takes effect here; logging in again sets two-factor up
+    if (!session.user.twoFactor?.enabled && await isTwoFactorRequired(session.user)) {
+      await revokeSession(session.user._id, session.sessionId, 'two-factor-required');
+      clearRefreshCookie(res);
+      return res.status(401).json({
+        message: 'Your role now requires two-factor authentication. Please log in again to set it up.',
+        code: 'TWO_FACTOR_SETUP_REQUIRED'
+      });
+    }
+
+    res.json({
+      token: session.accessToken,
+      user: session.user.toJSON()
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      message: 'Failed to refresh session',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Log out this device. Works with an expired access token, since the refresh cookie identifies the session.
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    let sessionId = readRefreshCookie(req)?.sessionId;
+    const accessToken = req.header('Authorization')?.replace('Bearer ', '');
+    if (!sessionId && accessToken) {
+      try {
+        sessionId = verifyAccessToken(accessToken).sessionId;
+      } catch {
+        // Nothing left to revoke for an invalid token
+      }
+    }
+
+    const session = sessionId ? await Session.findById(sessionId).select('user') : null;
+    if (session) {
+      await revokeSession(session.user, session._id, 'logout');
+    }
+
+    clearRefreshCookie(res);
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      message: 'Failed to log out',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Log out every device, this one included
+router.post('/logout-all', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    const count = await revokeUserSessions(req.user._id, 'logout-all');
+    clearRefreshCookie(res);
+    res.json({ message: `Logged out of ${count} session(s)`, count });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      message: 'Failed to log out everywhere',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// List the devices the current user is signed in on
+router.get('/sessions', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    const sessions = await Session.find({ user: req.user._id, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .select('userAgent ip createdAt lastUsedAt')
+      .sort({ lastUsedAt: -1 });
+
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session.toJSON(),
+        isCurrent: session._id.toString() === req.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch sessions',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Sign one of the current user's devices out
+router.delete('/sessions/:id', authenticate, [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid session ID')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    const revoked = await revokeSession(req.user._id, req.params.id, 'revoked');
+    if (!revoked) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    if (req.params.id === req.sessionId) {
+      clearRefreshCookie(res);
+    }
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      message: 'Failed to revoke session',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Start setting up two-factor authentication: a new secret and its QR code
+router.post('/two-factor/setup', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    if (req.user.twoFactor?.enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    res.json(await beginTwoFactorSetup(req.user));
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({
+      message: 'Failed to start two-factor setup',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Turn two-factor authentication on with a first code from the app; returns the recovery codes
+router.post('/two-factor/enable', authenticate, twoFactorManagementLimiter, [
+  body('code')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    if (req.user.twoFactor?.enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    // Wrong codes count toward the lockout like failed logins, so a stolen session can't be used to guess them
+    if (isAccountLocked(req.user)) {
+      return sendAccountLocked(res, req.user.lockedUntil!);
+    }
+
+    const recoveryCodes = await completeTwoFactorSetup(req.user, req.body.code);
+    if (!recoveryCodes) {
+      const lockedUntil = await recordFailedLogin(req.user, req.ip);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+    logActivity({ user: req.user._id, action: 'ENABLE_TWO_FACTOR', entity: 'User', entityId: req.user._id });
+
+    const user = await User.findById(req.user._id);
+    res.json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+      user: user?.toJSON()
+    });
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    res.status(500).json({
+      message: 'Failed to enable two-factor authentication',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Turn two-factor authentication off; needs the password and a current code
+router.post('/two-factor/disable', authenticate, twoFactorManagementLimiter, [
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required'),
+  body('code')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    if (!req.user.twoFactor?.enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    if (await isTwoFactorRequired(req.user)) {
+      return res.status(403).json({ message: 'Your role requires two-factor authentication' });
+    }
+
+    if (isAccountLocked(req.user)) {
+      return sendAccountLocked(res, req.user.lockedUntil!);
+    }
+
+    // req.user is loaded without the password hash
+    const account = await User.findById(req.user._id);
+    if (!account || !(await account.comparePassword(req.body.password))) {
+      const lockedUntil = await recordFailedLogin(req.user, req.ip);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
+      return res.status(400).json({ message: 'Incorrect password' });
+    }
+
+    const verified = await verifySecondFactor(req.user, req.body.code);
+    if (!verified) {
+      const lockedUntil = await recordFailedLogin(req.user, req.ip);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+
+    const user = await disableTwoFactor(req.user._id);
+    logActivity({ user: req.user._id, action: 'DISABLE_TWO_FACTOR', entity: 'User', entityId: req.user._id });
+
+    res.json({
+      message: 'Two-factor authentication disabled',
+      user: user?.toJSON()
+    });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    res.status(500).json({
+      message: 'Failed to disable two-factor authentication',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Replace the recovery codes, e.g. when running low; needs a current code
+router.post('/two-factor/recovery-codes', authenticate, twoFactorManagementLimiter, [
+  body('code')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication code is required')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    if (isAccountLocked(req.user)) {
+      return sendAccountLocked(res, req.user.lockedUntil!);
+    }
+
+    const verified = await verifySecondFactor(req.user, req.body.code);
+    if (!verified) {
+      const lockedUntil = await recordFailedLogin(req.user, req.ip);
+      if (lockedUntil) {
+        return sendAccountLocked(res, lockedUntil);
+      }
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(req.user);
+    logActivity({ user: req.user._id, action: 'REGENERATE_RECOVERY_CODES', entity: 'User', entityId: req.user._id });
+
+    const user = await User.findById(req.user._id);
+    res.json({
+      message: 'New recovery codes generated',
+      recoveryCodes,
+      user: user?.toJSON()
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({
+      message: 'Failed to generate recovery codes',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Get current user profile
 router.get('/me', authenticate, async (req: AuthRequest, res: Response) => {
   try {
@@ -151,7 +876,11 @@ router.put('/profile', authenticate, [
     .optional()
     .isEmail()
     .normalizeEmail()
-    .withMessage('Please provide a valid email')
+    .withMessage('Please provide a valid email'),
+  body('timezone')
+    .optional()
+    .custom(isValidTimezone)
+    .withMessage('Invalid timezone')
 ], async (req: AuthRequest, res: Response) => {
   try {
     const errors = validationResult(req);
@@ -166,10 +895,11 @@ router.put('/profile', authenticate, [
       return res.status(401).json({ message: 'User not authenticated' });
     }
 
-    const { name, email } = req.body;
+    const { name, email, timezone } = req.body;
     const updates: any = {};
 
     if (name) updates.name = name;
+    if (timezone) updates.timezone = timezone;
     if (email) {
       // Check if email is already taken by another user
       const existingUser = await User.findOne({ 
@@ -182,6 +912,11 @@ router.put('/profile', authenticate, [
         });
       }
       updates.email = email;
+      // A new address has to be verified before it can be used to sign in
+      if (email !== req.user.email) {
+        updates.emailVerified = false;
+        updates.emailVerifiedAt = null;
+      }
     }
 
     const updatedUser = await User.findByIdAndUpdate(
@@ -190,6 +925,15 @@ router.put('/profile', authenticate, [
       { new: true, runValidators: true }
     );
 
+    if (updatedUser && updates.emailVerified === false) {
+      const verificationSent = await restartEmailVerification(updatedUser);
+      return res.json({
+        message: 'Profile updated. Verify your new email address before you next sign in.',
+        verificationSent,
+        user: updatedUser.toJSON()
+      });
+    }
+
     res.json({
       message: 'Profile updated successfully',
       user: updatedUser?.toJSON()
@@ -203,4 +947,137 @@ router.put('/profile', authenticate, [
   }
 });
 
+// Get the current user's notification preferences, with muted tasks and customers
+router.get('/notification-preferences', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user?._id)
+      .select('notificationPreferences')
+      .populate('notificationPreferences.mutedTasks', 'title')
+      .populate('notificationPreferences.mutedCustomers', 'companyName');
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    res.json({ notificationPreferences: user.notificationPreferences });
+  } catch (error) {
+    console.error('Get notification preferences error:', error);
+    res.status(500).json({
+      message: 'Failed to get notification preferences',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Update the current user's notification preferences
+router.put('/notification-preferences', authenticate, [
+  body(['inApp.mutedTypes', 'email.types'])
+    .optional()
+    .isArray()
+    .withMessage('Notification types must be an array'),
+  body(['inApp.mutedTypes.*', 'email.types.*'])
+    .isIn(NOTIFICATION_TYPES)
+    .withMessage('Invalid notification type'),
+  body('email.digest')
+    .optional()
+    .isIn(['instant', 'hourly', 'daily'])
+    .withMessage('Digest must be instant, hourly or daily'),
+  body('quietHours.enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Quiet hours enabled must be a boolean'),
+  body(['quietHours.start', 'quietHours.end'])
+    .optional()
+    .matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .withMessage('Quiet hours must use the HH:mm format')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    const { inApp, email, quietHours } = req.body;
+    const updates: Record<string, unknown> = {};
+    if (inApp?.mutedTypes) updates['notificationPreferences.inApp.mutedTypes'] = [...new Set(inApp.mutedTypes)];
+    if (email?.types) updates['notificationPreferences.email.types'] = [...new Set(email.types)];
+    if (email?.digest) updates['notificationPreferences.email.digest'] = email.digest;
+    for (const field of ['enabled', 'start', 'end']) {
+      if (quietHours?.[field] !== undefined) updates[`notificationPreferences.quietHours.${field}`] = quietHours[field];
+    }
+
+    const updatedUser = await User.findByIdAndUpdate(
+      req.user._id,
+      { $set: updates },
+      { new: true, runValidators: true }
+    )
+      .populate('notificationPreferences.mutedTasks', 'title')
+      .populate('notificationPreferences.mutedCustomers', 'companyName');
+
+    res.json({
+      message: 'Notification preferences updated successfully',
+      notificationPreferences: updatedUser?.notificationPreferences
+    });
+  } catch (error) {
+    console.error('Notification preferences update error:', error);
+    res.status(500).json({
+      message: 'Failed to update notification preferences',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+const muteTargets = {
+  tasks: { field: 'notificationPreferences.mutedTasks', model: Task },
+  customers: { field: 'notificationPreferences.mutedCustomers', model: Customer },
+} as const;
+
+// Mute or unmute notifications about a task or customer
+const updateMute = (mute: boolean) => async (req: AuthRequest, res: Response) => {
+  try {
+    const target = muteTargets[req.params.target as keyof typeof muteTargets];
+    if (!target || !mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ message: 'Task or customer not found' });
+    }
+
+    if (!req.user) {
+      return res.status(401).json({ message: 'User not authenticated' });
+    }
+
+    const id = new mongoose.Types.ObjectId(req.params.id);
+    if (mute && !(await target.model.exists({ _id: id }))) {
+      return res.status(404).json({ message: 'Task or customer not found' });
+    }
+
+    const updatedUser = await User.findByIdAndUpdate(
+      req.user._id,
+      mute ? { $addToSet: { [target.field]: id } } : { $pull: { [target.field]: id } },
+      { new: true }
+    )
+      .populate('notificationPreferences.mutedTasks', 'title')
+      .populate('notificationPreferences.mutedCustomers', 'companyName');
+
+    res.json({
+      message: mute ? 'Notifications muted' : 'Notifications unmuted',
+      notificationPreferences: updatedUser?.notificationPreferences
+    });
+  } catch (error) {
+    console.error('Mute notifications error:', error);
+    res.status(500).json({
+      message: 'Failed to update muted notifications',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+router.put('/notification-preferences/muted/:target/:id', authenticate, updateMute(true));
+router.delete('/notification-preferences/muted/:target/:id', authenticate, updateMute(false));
+
 export default router;
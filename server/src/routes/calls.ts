@@ -1,72 +1,165 @@
 import express, { Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import Call, { ICall } from '../models/Call.js';
 import { logActivity } from '../utils/activityLogger.js';
-import Customer from '../models/Customer.js';
+import { publishCallChange, publishTaskChange } from '../utils/realtime.js';
+import Customer, { ICustomer } from '../models/Customer.js';
+import Task, { TASK_PRIORITIES } from '../models/Task.js';
+import TaskCategory from '../models/TaskCategory.js';
+import { IUser } from '../models/User.js';
 import { authenticate, authorize, AuthRequest } from '../middleware/auth.js';
+import { EXPORT_FORMATS, ExportColumn, ExportFormat, streamExport } from '../utils/dataExport.js';
+import { createFollowUpTask, getFollowUpQueue, syncFollowUpDueDate } from '../utils/callFollowUps.js';
+import { applyStatusChange, handleStatusChange, planStatusChange } from '../utils/taskLifecycle.js';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticate);
 
-// Get all calls
-router.get('/', async (req: AuthRequest, res: Response) => {
-  try {
-    const { 
-      page = 1, 
-      limit = 10, 
-      callType, 
-      customer,
-      user,
-      search,
-      followUpRequired,
-      sortBy = 'createdAt',
-      sortOrder = 'desc'
-    } = req.query;
+/**
+ * Completes the open task of a follow-up that has just been logged, through
+ * its category's workflow. Returns why it stays open (e.g. unchecked checklist
+ * items), or null when it was completed or there was nothing to complete.
+ */
+const completeFollowUpTask = async (call: ICall, followUp: ICall, user: IUser): Promise<string | null> => {
+  const task = call.followUpTask ? await Task.findById(call.followUpTask) : null;
+  if (!task || task.status === 'completed') {
+    return null;
+  }
 
-    const query: any = {};
+  const request = {
+    status: 'completed' as const,
+    comment: 'Completed by logging the follow-up call.',
+    resolution: (followUp.outcome || followUp.summary).slice(0, 1000)
+  };
+  const plan = await planStatusChange(task, user, request);
+  if (!plan.ok) {
+    return plan.message;
+  }
+  if (!plan.to) {
+    return null;
+  }
 
-    // Filter by call type
-    if (callType && typeof callType === 'string') {
-      query.callType = callType;
-    }
+  const previousValues = { status: task.status, workflowStatus: plan.from.key, resolution: task.resolution };
+  applyStatusChange(task, plan.to, request, user._id);
+  await task.save();
 
-    // Filter by customer
-    if (customer && typeof customer === 'string') {
-      query.customer = customer;
-    }
+  try {
+    await handleStatusChange(task);
+  } catch (error) {
+    console.error('Failed to process task status change:', error);
+  }
 
-    // Filter by user
-    if (user && typeof user ===  'string') {
-      query.user = user;
+  const updatedFields = ['status', 'workflowStatus', 'resolution'] as const;
+  logActivity({
+    user: user._id,
+    action: 'UPDATE_TASK',
+    entity: 'Task',
+    entityId: task._id,
+    details: {
+      title: task.title,
+      updatedFields,
+      previousValues,
+      newValues: { status: task.status, workflowStatus: task.workflowStatus, resolution: task.resolution },
+      transition: { from: plan.from.name, to: plan.to.name },
+      followUpCall: followUp._id
     }
+  });
+  publishTaskChange(task, 'updated');
 
-    // Filter by follow-up requirement
-    if (followUpRequired && typeof followUpRequired === 'string') {
-      query.followUpRequired = followUpRequired === 'true';
-    }
+  return null;
+};
 
-    // Search functionality
-    if (search && typeof search === 'string') {
-      query.$or = [
-        { summary: { $regex: search, $options: 'i' } },
-        { outcome: { $regex: search, $options: 'i' } },
-        { tags: { $in: [new RegExp(search, 'i')] } }
-      ];
-    }
+// Asks for a task to be created for the call's follow-up
+const followUpTaskValidation = [
+  body('createFollowUpTask')
+    .optional()
+    .isBoolean()
+    .withMessage('createFollowUpTask must be a boolean'),
+  body('followUpCategory')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid follow-up task category'),
+  body('followUpPriority')
+    .optional()
+    .isIn(TASK_PRIORITIES)
+    .withMessage('Invalid follow-up task priority')
+];
+
+// The category for the follow-up task, or why it can't be created
+const getFollowUpCategory = async (categoryId?: string) => {
+  if (!categoryId) {
+    return { error: 'A category is required for the follow-up task' };
+  }
+  const category = await TaskCategory.findById(categoryId);
+  return category ? { category } : { error: 'Invalid follow-up task category' };
+};
+
+// Filters, role scoping and sort order shared by the call list and its export
+const getCallListQuery = (req: AuthRequest) => {
+  const {
+    callType,
+    customer,
+    user,
+    search,
+    followUpRequired,
+    sortBy = 'createdAt',
+    sortOrder = 'desc'
+  } = req.query;
+
+  const query: any = {};
+
+  // Filter by call type
+  if (callType && typeof callType === 'string') {
+    query.callType = callType;
+  }
 
-    // Role-based filtering
-    if (req.user?.role === 'user') {
-      query.user = req.user._id;
-    }
+  // Filter by customer
+  if (customer && typeof customer === 'string') {
+    query.customer = customer;
+  }
+
+  // Filter by user
+  if (user && typeof user ===  'string') {
+    query.user = user;
+  }
+
+  // Filter by follow-up requirement
+  if (followUpRequired && typeof followUpRequired === 'string') {
+    query.followUpRequired = followUpRequired === 'true';
+  }
+
+  // Search functionality
+  if (search && typeof search === 'string') {
+    query.$or = [
+      { summary: { $regex: search, $options: 'i' } },
+      { outcome: { $regex: search, $options: 'i' } },
+      { tags: { $in: [new RegExp(search, 'i')] } }
+    ];
+  }
+
+  // Role-based filtering
+  if (req.user?.role === 'user') {
+    query.user = req.user._id;
+  }
+
+  const sortOptions: any = {};
+  sortOptions[String(sortBy)] = sortOrder === 'asc' ? 1 : -1;
 
-    const sortOptions: any = {};
-    sortOptions[String(sortBy)] = sortOrder === 'asc' ? 1 : -1;
+  return { query, sortOptions };
+};
+
+// Get all calls
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { page = 1, limit = 10 } = req.query;
+    const { query, sortOptions } = getCallListQuery(req);
 
     const calls = await Call.find(query)
       .populate('customer', 'companyName companyType')
       .populate('user', 'name email')
+      .populate('followUpTask', 'title status dueDate')
       .sort(sortOptions)
       .limit(Number(limit) * 1)
       .skip((Number(page) - 1) * Number(limit));
@@ -92,12 +185,149 @@ router.get('/', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// A call as the export query populates it
+type ExportedCall = Omit<ICall, 'customer' | 'user'> & {
+  customer: ICustomer | null;
+  user: IUser | null;
+};
+
+const callExportColumns: ExportColumn<ExportedCall>[] = [
+  { header: 'Date', width: 16, value: call => call.createdAt },
+  { header: 'Customer', width: 24, value: call => call.customer?.companyName },
+  { header: 'Type', width: 10, value: call => call.callType },
+  { header: 'Logged By', width: 18, value: call => call.user?.name },
+  { header: 'Duration (s)', width: 10, value: call => call.duration },
+  { header: 'Outcome', width: 20, value: call => call.outcome },
+  { header: 'Summary', width: 44, value: call => call.summary },
+  { header: 'Follow-up Required', width: 10, value: call => call.followUpRequired },
+  { header: 'Follow-up Date', width: 16, value: call => call.followUpDate }
+];
+
+// Export the call list, with the same filters and visibility, as CSV, XLSX or a PDF report
+router.get('/export', [
+  query('format')
+    .isIn(EXPORT_FORMATS)
+    .withMessage('Export format must be csv, xlsx or pdf')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { query: filter, sortOptions } = getCallListQuery(req);
+    // Typed as populated; a cursor only knows the type it was queried with
+    const cursor = Call.find<ExportedCall>(filter)
+      .populate('customer', 'companyName')
+      .populate('user', 'name')
+      .sort(sortOptions)
+      .cursor();
+
+    await streamExport(res, {
+      format: req.query.format as ExportFormat,
+      filename: 'calls',
+      title: 'Calls',
+      columns: callExportColumns,
+      rows: cursor,
+      timezone: req.user!.timezone
+    });
+  } catch (error) {
+    console.error('Export calls error:', error);
+    res.status(500).json({
+      message: 'Failed to export calls',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Follow-up queue: calls with a pending follow-up, grouped into overdue, today and upcoming
+router.get('/follow-ups', [
+  query('user')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid user ID')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    // Users only see their own follow-ups; managers can look at one rep's queue
+    const filter: any = {};
+    if (req.user?.role === 'user') {
+      filter.user = req.user._id;
+    } else if (req.query.user) {
+      filter.user = req.query.user;
+    }
+
+    const queue = await getFollowUpQueue(filter, req.user!.timezone);
+
+    res.json(queue);
+  } catch (error) {
+    console.error('Get follow-up queue error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch follow-up queue',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Calls whose follow-up date has passed without the follow-up being done, oldest first
+router.get('/follow-ups/overdue', [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const filter: any = { followUpRequired: true, followUpDate: { $lt: new Date() } };
+    if (req.user?.role === 'user') {
+      filter.user = req.user._id;
+    }
+
+    const [calls, total] = await Promise.all([
+      Call.find(filter)
+        .populate('customer', 'companyName')
+        .populate('user', 'name email')
+        .populate('followUpTask', 'title status dueDate')
+        .sort({ followUpDate: 1 })
+        .limit(Number(req.query.limit) || 20),
+      Call.countDocuments(filter)
+    ]);
+
+    res.json({ calls, total });
+  } catch (error) {
+    console.error('Get overdue follow-ups error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch overdue follow-ups',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Get call by ID
 router.get('/:id', async (req: AuthRequest, res: Response) => {
   try {
     const call = await Call.findById(req.params.id)
       .populate('customer', 'companyName companyType contacts')
-      .populate('user', 'name email');
+      .populate('user', 'name email')
+      .populate('followUpTask', 'title status dueDate')
+      .populate('followUpOf', 'callType summary createdAt');
 
     if (!call) {
       return res.status(404).json({ message: 'Call not found' });
@@ -155,7 +385,8 @@ router.post('/', [
     .optional()
     .trim()
     .isLength({ min: 1, max: 50 })
-    .withMessage('Each tag must be between 1 and 50 characters')
+    .withMessage('Each tag must be between 1 and 50 characters'),
+  ...followUpTaskValidation
 ], async (req: AuthRequest, res: Response) => {
   try {
     const errors = validationResult(req);
@@ -190,6 +421,13 @@ router.post('/', [
       });
     }
 
+    const followUpCategory = followUpRequired && req.body.createFollowUpTask
+      ? await getFollowUpCategory(req.body.followUpCategory)
+      : null;
+    if (followUpCategory?.error) {
+      return res.status(400).json({ message: followUpCategory.error });
+    }
+
     const call = new Call({
       customer,
       user: req.user!._id,
@@ -204,9 +442,18 @@ router.post('/', [
 
     await call.save();
 
+    if (followUpCategory?.category) {
+      await createFollowUpTask(call, {
+        category: followUpCategory.category,
+        priority: req.body.followUpPriority,
+        createdBy: req.user!._id
+      });
+    }
+
     const populatedCall = await Call.findById(call._id)
       .populate('customer', 'companyName companyType')
-      .populate('user', 'name email');
+      .populate('user', 'name email')
+      .populate('followUpTask', 'title status dueDate');
 
     // Log activity
     if (req.user && populatedCall) {
@@ -219,6 +466,8 @@ router.post('/', [
       });
     }
 
+    publishCallChange(call, 'created');
+
     res.status(201).json({
       message: 'Call logged successfully',
       call: populatedCall
@@ -272,7 +521,8 @@ router.put('/:id', [
     .optional()
     .trim()
     .isLength({ min: 1, max: 50 })
-    .withMessage('Each tag must be between 1 and 50 characters')
+    .withMessage('Each tag must be between 1 and 50 characters'),
+  ...followUpTaskValidation
 ], async (req: AuthRequest, res: Response) => {
   try {
     const errors = validationResult(req);
@@ -326,13 +576,34 @@ router.put('/:id', [
       });
     }
 
-    const updatedCall = await Call.findByIdAndUpdate(
+    const followUpRequired = updates.followUpRequired ?? call.followUpRequired;
+    const followUpCategory = followUpRequired && req.body.createFollowUpTask && !call.followUpTask
+      ? await getFollowUpCategory(req.body.followUpCategory)
+      : null;
+    if (followUpCategory?.error) {
+      return res.status(400).json({ message: followUpCategory.error });
+    }
+
+    const savedCall = await Call.findByIdAndUpdate(
       callId,
       updates,
       { new: true, runValidators: true }
-    )
+    );
+
+    if (savedCall && followUpCategory?.category) {
+      await createFollowUpTask(savedCall, {
+        category: followUpCategory.category,
+        priority: req.body.followUpPriority,
+        createdBy: req.user!._id
+      });
+    } else if (savedCall?.followUpRequired && updates.followUpDate) {
+      await syncFollowUpDueDate(savedCall, req.user!._id);
+    }
+
+    const updatedCall = await Call.findById(callId)
       .populate('customer', 'companyName companyType')
-      .populate('user', 'name email');
+      .populate('user', 'name email')
+      .populate('followUpTask', 'title status dueDate');
 
     // Log activity
     const changedFields = Object.keys(updates);
@@ -352,6 +623,8 @@ router.put('/:id', [
       });
     }
 
+    publishCallChange(call, 'updated');
+
     res.json({
       message: 'Call updated successfully',
       call: updatedCall
@@ -365,6 +638,127 @@ router.put('/:id', [
   }
 });
 
+// Log the follow-up of a call: records a new call linked to it and clears its follow-up
+router.post('/:id/follow-up', [
+  body('callType')
+    .isIn(['inbound', 'outbound'])
+    .withMessage('Invalid call type'),
+  body('summary')
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Summary must be between 1 and 1000 characters'),
+  body('duration')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Duration must be a positive number'),
+  body('outcome')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Outcome cannot exceed 200 characters'),
+  body('followUpRequired')
+    .optional()
+    .isBoolean()
+    .withMessage('Follow-up required must be a boolean'),
+  body('followUpDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid follow-up date format')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { callType, summary, duration, outcome, followUpRequired = false, followUpDate } = req.body;
+
+    const original = await Call.findById(req.params.id);
+    if (!original) {
+      return res.status(404).json({ message: 'Call not found' });
+    }
+
+    if (req.user?.role === 'user' && original.user.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    // Another follow-up can be scheduled from the new call
+    if (followUpRequired && !followUpDate) {
+      return res.status(400).json({
+        message: 'Follow-up date is required when follow-up is needed'
+      });
+    }
+
+    // Clearing the flag first means the follow-up is only logged once
+    const claimed = await Call.findOneAndUpdate(
+      { _id: original._id, followUpRequired: true },
+      { followUpRequired: false },
+      { new: true }
+    );
+    if (!claimed) {
+      return res.status(400).json({ message: 'This call has no pending follow-up' });
+    }
+
+    const call = new Call({
+      customer: original.customer,
+      user: req.user!._id,
+      callType,
+      summary,
+      duration,
+      outcome,
+      followUpRequired,
+      followUpDate: followUpDate ? new Date(followUpDate) : undefined,
+      followUpOf: original._id
+    });
+
+    try {
+      await call.save();
+    } catch (error) {
+      await Call.updateOne({ _id: original._id }, { followUpRequired: true });
+      throw error;
+    }
+
+    const populatedCall = await Call.findById(call._id)
+      .populate('customer', 'companyName companyType')
+      .populate('user', 'name email');
+
+    logActivity({
+      user: req.user!._id,
+      action: 'CREATE_CALL',
+      entity: 'Call',
+      entityId: call._id,
+      details: { summary: call.summary, followUpOf: original._id }
+    });
+
+    publishCallChange(claimed, 'updated');
+    publishCallChange(call, 'created');
+
+    // The follow-up is done, so its task is too; a task that can't be completed yet stays open
+    let followUpTaskError: string | null = null;
+    try {
+      followUpTaskError = await completeFollowUpTask(claimed, call, req.user!);
+    } catch (error) {
+      console.error('Failed to complete follow-up task:', error);
+      followUpTaskError = 'The follow-up task could not be completed';
+    }
+
+    res.status(201).json({
+      message: 'Follow-up call logged successfully',
+      call: populatedCall,
+      ...(followUpTaskError && { followUpTaskError })
+    });
+  } catch (error) {
+    console.error('Log follow-up call error:', error);
+    res.status(500).json({
+      message: 'Failed to log follow-up call',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Delete call
 router.delete('/:id', authorize('admin', 'manager'), async (req: AuthRequest, res: Response) => {
   try {
@@ -392,6 +786,11 @@ router.delete('/:id', authorize('admin', 'manager'), async (req: AuthRequest, re
     }
 
     await Call.findByIdAndDelete(callId);
+    // The follow-up task stays; only its link to the call goes
+    if (call.followUpTask) {
+      await Task.updateOne({ _id: call.followUpTask }, { sourceCall: null });
+    }
+    publishCallChange(call, 'deleted');
 
     res.json({ message: 'Call deleted successfully' });
   } catch (error) {
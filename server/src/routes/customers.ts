@@ -1,46 +1,59 @@
 import express, { Response } from 'express';
-import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { body, query, validationResult } from 'express-validator';
 import Customer, { ICustomer } from '../models/Customer.js';
+import Task from '../models/Task.js';
+import Call from '../models/Call.js';
 import { logActivity } from '../utils/activityLogger.js';
 import { authenticate, authorize, AuthRequest } from '../middleware/auth.js';
+import { importUpload } from '../config/upload.js';
+import { EXPORT_FORMATS, ExportColumn, ExportFormat, streamExport } from '../utils/dataExport.js';
+import { findDuplicateCustomers, mergeCustomers } from '../utils/customerMerge.js';
+import { ImportRowResult, importCustomers, previewCustomerImport, readCustomerSheet } from '../utils/customerImport.js';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticate);
 
+// Filters and sort order shared by the customer list and its export
+const getCustomerListQuery = (req: AuthRequest) => {
+  const {
+    companyType,
+    search,
+    sortBy = 'companyName',
+    sortOrder = 'asc'
+  } = req.query;
+
+  const query: any = { isActive: true };
+
+  // Filter by company type
+  if (companyType && typeof companyType === 'string') {
+    query.companyType = { $regex: companyType, $options: 'i' };
+  }
+
+  // Search functionality
+  if (search && typeof search === 'string') {
+    query.$or = [
+      { companyName: { $regex: search, $options: 'i' } },
+      { companyType: { $regex: search, $options: 'i' } },
+      { gst: { $regex: search, $options: 'i' } },
+      { 'contacts.name': { $regex: search, $options: 'i' } },
+      { 'contacts.email': { $regex: search, $options: 'i' } }
+    ];
+  }
+
+  const sortOptions: any = {};
+  sortOptions[String(sortBy)] = sortOrder === 'asc' ? 1 : -1;
+
+  return { query, sortOptions };
+};
+
 // Get all customers
 router.get('/', async (req: AuthRequest, res: Response) => {
   try {
-    const { 
-      page = 1, 
-      limit = 10, 
-      companyType, 
-      search,
-      sortBy = 'companyName',
-      sortOrder = 'asc'
-    } = req.query;
-
-    const query: any = { isActive: true };
-
-    // Filter by company type
-    if (companyType && typeof companyType === 'string') {
-      query.companyType = { $regex: companyType, $options: 'i' };
-    }
-
-    // Search functionality
-    if (search && typeof search === 'string') {
-      query.$or = [
-        { companyName: { $regex: search, $options: 'i' } },
-        { companyType: { $regex: search, $options: 'i' } },
-        { gst: { $regex: search, $options: 'i' } },
-        { 'contacts.name': { $regex: search, $options: 'i' } },
-        { 'contacts.email': { $regex: search, $options: 'i' } }
-      ];
-    }
-
-    const sortOptions: any = {};
-    sortOptions[String(sortBy)] = sortOrder === 'asc' ? 1 : -1;
+    const { page = 1, limit = 10 } = req.query;
+    const { query, sortOptions } = getCustomerListQuery(req);
 
     const customers = await Customer.find(query)
       .populate('createdBy', 'name email')
@@ -69,17 +82,193 @@ router.get('/', async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Get customer by ID
+// The primary contact, or the first one when none is marked
+const getPrimaryContact = (customer: ICustomer) =>
+  customer.contacts.find(contact => contact.isPrimary) ?? customer.contacts[0];
+
+const customerExportColumns: ExportColumn<ICustomer>[] = [
+  { header: 'Company Name', width: 28, value: customer => customer.companyName },
+  { header: 'Company Type', width: 16, value: customer => customer.companyType },
+  { header: 'GST', width: 18, value: customer => customer.gst },
+  { header: 'Website', width: 24, value: customer => customer.url },
+  { header: 'Primary Contact', width: 20, value: customer => getPrimaryContact(customer)?.name },
+  { header: 'Email', width: 26, value: customer => getPrimaryContact(customer)?.email },
+  { header: 'Phone', width: 16, value: customer => getPrimaryContact(customer)?.phone },
+  { header: 'City', width: 14, value: customer => customer.address?.city },
+  { header: 'Country', width: 12, value: customer => customer.address?.country },
+  { header: 'Installed', width: 14, value: customer => customer.installationDate }
+];
+
+// Export the customer list, with the same filters, as CSV, XLSX or a PDF report
+router.get('/export', [
+  query('format')
+    .isIn(EXPORT_FORMATS)
+    .withMessage('Export format must be csv, xlsx or pdf')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { query: filter, sortOptions } = getCustomerListQuery(req);
+    const cursor = Customer.find(filter).sort(sortOptions).cursor();
+
+    await streamExport(res, {
+      format: req.query.format as ExportFormat,
+      filename: 'customers',
+      title: 'Customers',
+      columns: customerExportColumns,
+      rows: cursor,
+      timezone: req.user!.timezone
+    });
+  } catch (error) {
+    console.error('Export customers error:', error);
+    res.status(500).json({
+      message: 'Failed to export customers',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Possible duplicate customers, with each one's task and call counts to help pick which to keep
+router.get('/duplicates', authorize('admin'), [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const pairs = await findDuplicateCustomers();
+    const shown = pairs.slice(0, Number(req.query.limit ?? 50));
+    const ids = [...new Set(shown.flatMap(pair => pair.customers.map(String)))];
+
+    const [customers, taskCounts, callCounts] = await Promise.all([
+      Customer.find({ _id: { $in: ids } }).lean(),
+      Task.aggregate([{ $match: { customer: { $in: ids.map(id => new mongoose.Types.ObjectId(id)) } } }, { $group: { _id: '$customer', count: { $sum: 1 } } }]),
+      Call.aggregate([{ $match: { customer: { $in: ids.map(id => new mongoose.Types.ObjectId(id)) } } }, { $group: { _id: '$customer', count: { $sum: 1 } } }])
+    ]);
+
+    const byId = new Map(customers.map(customer => [String(customer._id), customer]));
+    const countOf = (counts: { _id: mongoose.Types.ObjectId; count: number }[], id: string) =>
+      counts.find(entry => String(entry._id) === id)?.count ?? 0;
+
+    res.json({
+      duplicates: shown.map(pair => ({
+        reasons: pair.reasons,
+        nameSimilarity: Math.round(pair.nameSimilarity * 100) / 100,
+        customers: pair.customers.map(customerId => {
+          const id = String(customerId);
+          return { ...byId.get(id), taskCount: countOf(taskCounts, id), callCount: countOf(callCounts, id) };
+        })
+      })),
+      total: pairs.length
+    });
+  } catch (error) {
+    console.error('Find duplicate customers error:', error);
+    res.status(500).json({
+      message: 'Failed to find duplicate customers',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Merge another customer into this one; the other customer is deactivated
+router.post('/:id/merge', authorize('admin'), [
+  body('duplicateId')
+    .isMongoId()
+    .withMessage('Invalid customer to merge')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (req.params.id === req.body.duplicateId) {
+      return res.status(400).json({ message: 'A customer cannot be merged into itself' });
+    }
+
+    const [survivor, duplicate] = await Promise.all([
+      Customer.findOne({ _id: req.params.id, isActive: true }),
+      Customer.findOne({ _id: req.body.duplicateId, isActive: true })
+    ]);
+    if (!survivor || !duplicate) {
+      return res.status(404).json({ message: 'Customer not found' });
+    }
+
+    const result = await mergeCustomers(survivor, duplicate, req.user!._id);
+    await survivor.populate('createdBy', 'name email');
+
+    res.json({
+      message: `${duplicate.companyName} was merged into ${survivor.companyName}`,
+      customer: survivor,
+      ...result
+    });
+  } catch (error) {
+    console.error('Merge customers error:', error);
+    res.status(500).json({
+      message: 'Failed to merge customers',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Get customer by ID, with counts of its tasks and calls
 router.get('/:id', async (req: AuthRequest, res: Response) => {
   try {
     const customer = await Customer.findById(req.params.id)
       .populate('createdBy', 'name email');
 
     if (!customer || !customer.isActive) {
-      return res.status(404).json({ message: 'Customer not found' });
+      // Links to a merged duplicate can be sent on to the customer it became part of
+      return res.status(404).json({ message: 'Customer not found', mergedInto: customer?.mergedInto ?? undefined });
     }
 
-    res.json({ customer });
+    // Counts cover the same tasks and calls the user can list
+    const taskQuery: any = { customer: customer._id };
+    const callQuery: any = { customer: customer._id };
+    if (req.user?.role === 'user') {
+      taskQuery.$or = [
+        { assignedTo: req.user._id },
+        { createdBy: req.user._id },
+        { 'subtasks.assignedTo': req.user._id }
+      ];
+      callQuery.user = req.user._id;
+    }
+
+    const [totalTasks, openTasks, overdueTasks, totalCalls, lastCall] = await Promise.all([
+      Task.countDocuments(taskQuery),
+      Task.countDocuments({ ...taskQuery, status: { $ne: 'completed' } }),
+      Task.countDocuments({ ...taskQuery, status: { $ne: 'completed' }, dueDate: { $lt: new Date() } }),
+      Call.countDocuments(callQuery),
+      Call.findOne(callQuery).sort({ createdAt: -1 }).select('createdAt')
+    ]);
+
+    res.json({
+      customer,
+      stats: {
+        totalTasks,
+        openTasks,
+        overdueTasks,
+        totalCalls,
+        lastCallAt: lastCall?.createdAt ?? null
+      }
+    });
   } catch (error) {
     console.error('Get customer error:', error);
     res.status(500).json({
@@ -89,6 +278,68 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
   }
 });
 
+const summarizeImport = (results: ImportRowResult[]) => ({
+  total: results.length,
+  valid: results.filter(result => result.status === 'valid').length,
+  invalid: results.filter(result => result.status === 'invalid').length,
+  duplicate: results.filter(result => result.status === 'duplicate').length
+});
+
+// Preview a CSV or XLSX import: every row with its validation errors and duplicates; nothing is saved
+router.post('/import/preview', authorize('admin'), importUpload.single('file'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    const { rows, error } = await readCustomerSheet(req.file.buffer, req.file.originalname);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const results = await previewCustomerImport(rows);
+
+    res.json({ rows: results, summary: summarizeImport(results) });
+  } catch (error) {
+    console.error('Preview customer import error:', error);
+    res.status(500).json({
+      message: 'Failed to preview customer import',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Import customers from a CSV or XLSX file; rows with errors or duplicates are skipped
+router.post('/import', authorize('admin'), importUpload.single('file'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ message: 'No file uploaded' });
+    }
+
+    const { rows, error } = await readCustomerSheet(req.file.buffer, req.file.originalname);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    // Validated again: customers may have been added since the preview
+    const results = await previewCustomerImport(rows);
+    const created = await importCustomers(results, req.user!._id);
+
+    res.status(201).json({
+      message: `${created.length} customer(s) imported successfully`,
+      imported: created.length,
+      summary: summarizeImport(results),
+      skipped: results.filter(result => result.status !== 'valid')
+    });
+  } catch (error) {
+    console.error('Import customers error:', error);
+    res.status(500).json({
+      message: 'Failed to import customers',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Create new customer
 router.post('/', authorize('admin'), [
   body('companyName')
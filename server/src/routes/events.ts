@@ -0,0 +1,40 @@
+import express, { Request, Response } from 'express';
+import { getSessionFromToken } from '../middleware/auth.js';
+import { addClient } from '../utils/realtime.js';
+
+const router = express.Router();
+
+// Open a server-sent event stream. Browsers' EventSource can't send headers,
+// so the JWT may also be passed as `?token=`.
+router.get('/', async (req: Request, res: Response) => {
+  const token = typeof req.query.token === 'string'
+    ? req.query.token
+    : req.header('Authorization')?.replace('Bearer ', '');
+
+  if (!token) {
+    return res.status(401).json({ message: 'Access denied. No token provided.' });
+  }
+
+  try {
+    const session = await getSessionFromToken(token);
+    if (!session) {
+      return res.status(401).json({ message: 'Invalid token or user not active.' });
+    }
+
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write('retry: 5000\n\n');
+
+    const removeClient = addClient(session.user, session.sessionId, res);
+    req.on('close', removeClient);
+  } catch (error) {
+    res.status(401).json({ message: 'Invalid token.' });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import express, { Response } from 'express';
-import Notification from '../models/Notification.js';
+import Notification, { IN_APP } from '../models/Notification.js';
 import { authenticate, AuthRequest } from '../middleware/auth.js';
+import { publishUnreadCount } from '../utils/realtime.js';
 
 const router = express.Router();
 
@@ -12,7 +13,7 @@ router.get('/', async (req: AuthRequest, res: Response) => {
   try {
     const { page = 1, limit = 10, isRead } = req.query;
 
-    const query: any = { user: req.user?._id };
+    const query: any = { user: req.user?._id, inApp: IN_APP };
 
     if (isRead !== undefined) {
       query.isRead = isRead === 'true';
@@ -43,7 +44,7 @@ router.get('/', async (req: AuthRequest, res: Response) => {
 // Get unread notification count
 router.get('/unread/count', async (req: AuthRequest, res: Response) => {
   try {
-    const count = await Notification.countDocuments({ user: req.user?._id, isRead: false });
+    const count = await Notification.countDocuments({ user: req.user?._id, isRead: false, inApp: IN_APP });
     res.json({ count });
   } catch (error) {
     console.error('Get unread count error:', error);
@@ -55,7 +56,7 @@ router.get('/unread/count', async (req: AuthRequest, res: Response) => {
 router.patch('/:id/read', async (req: AuthRequest, res: Response) => {
   try {
     const notification = await Notification.findOneAndUpdate(
-      { _id: req.params.id, user: req.user?._id },
+      { _id: req.params.id, user: req.user?._id, inApp: IN_APP },
       { isRead: true },
       { new: true }
     );
@@ -64,6 +65,8 @@ router.patch('/:id/read', async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ message: 'Notification not found' });
     }
 
+    publishUnreadCount(req.user?._id);
+
     res.json({ message: 'Notification marked as read', notification });
   } catch (error) {
     console.error('Mark as read error:', error);
@@ -74,7 +77,9 @@ router.patch('/:id/read', async (req: AuthRequest, res: Response) => {
 // Mark all notifications as read
 router.patch('/read-all', async (req: AuthRequest, res: Response) => {
   try {
-    await Notification.updateMany({ user: req.user?._id, isRead: false }, { isRead: true });
+    // Hidden ones stay unread so they still go out in the next email digest
+    await Notification.updateMany({ user: req.user?._id, isRead: false, inApp: IN_APP }, { isRead: true });
+    publishUnreadCount(req.user?._id);
 
     res.json({ message: 'All notifications marked as read' });
   } catch (error) {
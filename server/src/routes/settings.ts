@@ -0,0 +1,188 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth.js';
+import { BOARD_COLUMNS, BoardColumn, TWO_FACTOR_ROLES, TwoFactorRole } from '../models/WorkspaceSettings.js';
+import { TASK_PRIORITIES, TaskPriority } from '../models/Task.js';
+import JobRun from '../models/JobRun.js';
+import { getWorkspaceSettings } from '../utils/workspaceSettings.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+// Get workspace settings
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const settings = await getWorkspaceSettings();
+    res.json({ settings });
+  } catch (error) {
+    console.error('Get settings error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch settings',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Update board settings (WIP limits per status column; null removes a limit)
+router.put('/board', authorize('admin', 'manager'), [
+  body('wipLimits')
+    .isObject()
+    .withMessage('WIP limits must be an object'),
+  body('wipLimits')
+    .custom((wipLimits: Record<string, unknown>) => Object.keys(wipLimits).every(key => BOARD_COLUMNS.includes(key as BoardColumn)))
+    .withMessage(`WIP limits can only be set for: ${BOARD_COLUMNS.join(', ')}`),
+  body('wipLimits.*')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('WIP limits must be between 1 and 1000')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const settings = await getWorkspaceSettings();
+    const wipLimits = Object.entries(req.body.wipLimits) as [BoardColumn, number | null][];
+
+    for (const [column, limit] of wipLimits) {
+      if (limit === null) {
+        settings.board.wipLimits.delete(column);
+      } else {
+        settings.board.wipLimits.set(column, Number(limit));
+      }
+    }
+    settings.updatedBy = req.user?._id;
+    await settings.save();
+
+    res.json({ message: 'Board settings updated successfully', settings });
+  } catch (error) {
+    console.error('Update board settings error:', error);
+    res.status(500).json({
+      message: 'Failed to update board settings',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Update the overdue escalation policy (per priority: hours overdue before the creator, then all managers, are notified)
+router.put('/escalation', authorize('admin', 'manager'), [
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Enabled must be a boolean'),
+  body('policies')
+    .optional()
+    .isObject()
+    .withMessage('Policies must be an object'),
+  body('policies')
+    .optional()
+    .custom((policies: Record<string, unknown>) => Object.keys(policies).every(key => TASK_PRIORITIES.includes(key as TaskPriority)))
+    .withMessage(`Escalation policies can only be set for: ${TASK_PRIORITIES.join(', ')}`),
+  body(['policies.*.creatorAfterHours', 'policies.*.managersAfterHours'])
+    .isInt({ min: 1, max: 24 * 30 })
+    .withMessage('Escalation must be between 1 and 720 hours after the due date'),
+  body('policies.*')
+    .custom((policy: { creatorAfterHours: number; managersAfterHours: number }) =>
+      Number(policy.managersAfterHours) >= Number(policy.creatorAfterHours))
+    .withMessage('Managers cannot be notified before the creator')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { enabled, policies = {} } = req.body;
+    const settings = await getWorkspaceSettings();
+
+    if (enabled !== undefined) {
+      // Tasks that went overdue while escalation was off are not escalated once it is back on
+      if (enabled && !settings.escalation.enabled) {
+        settings.escalation.enabledAt = new Date();
+      }
+      settings.escalation.enabled = enabled;
+    }
+    for (const priority of TASK_PRIORITIES) {
+      const policy = policies[priority];
+      if (policy) {
+        settings.escalation.policies[priority] = {
+          creatorAfterHours: Number(policy.creatorAfterHours),
+          managersAfterHours: Number(policy.managersAfterHours)
+        };
+      }
+    }
+    settings.updatedBy = req.user?._id;
+    await settings.save();
+
+    res.json({ message: 'Escalation settings updated successfully', settings });
+  } catch (error) {
+    console.error('Update escalation settings error:', error);
+    res.status(500).json({
+      message: 'Failed to update escalation settings',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Update security settings (the roles that must use two-factor authentication)
+router.put('/security', authorize('admin'), [
+  body('twoFactorRequiredRoles')
+    .isArray()
+    .withMessage('Two-factor roles must be an array'),
+  body('twoFactorRequiredRoles.*')
+    .isIn(TWO_FACTOR_ROLES)
+    .withMessage(`Two-factor authentication can only be required for: ${TWO_FACTOR_ROLES.join(', ')}`)
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const settings = await getWorkspaceSettings();
+    settings.security.twoFactorRequiredRoles = [...new Set<TwoFactorRole>(req.body.twoFactorRequiredRoles)];
+    settings.updatedBy = req.user?._id;
+    await settings.save();
+
+    res.json({ message: 'Security settings updated successfully', settings });
+  } catch (error) {
+    console.error('Update security settings error:', error);
+    res.status(500).json({
+      message: 'Failed to update security settings',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Get recent scheduled job runs, optionally for one job
+router.get('/job-runs', authorize('admin'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { job, limit = 50 } = req.query;
+    const filter = job ? { job: String(job) } : {};
+
+    const runs = await JobRun.find(filter)
+      .sort({ startedAt: -1 })
+      .limit(Math.min(Number(limit) || 50, 200));
+
+    res.json({ runs });
+  } catch (error) {
+    console.error('Get job runs error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch job runs',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,234 @@
+import express, { Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import SlaPolicy from '../models/SlaPolicy.js';
+import Customer from '../models/Customer.js';
+import { TASK_PRIORITIES } from '../models/Task.js';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth.js';
+import { getSlaReport } from '../utils/sla.js';
+
+const router = express.Router();
+
+router.use(authenticate);
+
+const MAX_TARGET_HOURS = 24 * 365;
+
+// Name and targets are required when creating a policy
+const policyValidation = (isUpdate: boolean) => [
+  (isUpdate ? body('name').optional() : body('name'))
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  body('customer')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid customer ID'),
+  body('companyType')
+    .optional({ values: 'null' })
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Company type must be between 1 and 100 characters'),
+  (isUpdate ? body('targets').optional() : body('targets'))
+    .isObject()
+    .withMessage('Targets must be an object')
+    .bail()
+    .custom((targets: Record<string, unknown>) => TASK_PRIORITIES.every(priority => targets[priority]))
+    .withMessage(`Targets are required for every priority: ${TASK_PRIORITIES.join(', ')}`),
+  body(TASK_PRIORITIES.flatMap(priority => [`targets.${priority}.responseHours`, `targets.${priority}.resolutionHours`]))
+    .if(body('targets').exists())
+    .isFloat({ min: 1, max: MAX_TARGET_HOURS })
+    .withMessage(`Targets must be between 1 and ${MAX_TARGET_HOURS} hours`),
+  body(TASK_PRIORITIES.map(priority => `targets.${priority}`))
+    .if(body('targets').exists())
+    .custom((target?: { responseHours: number; resolutionHours: number }) =>
+      !target || Number(target.resolutionHours) >= Number(target.responseHours))
+    .withMessage('The resolution target cannot be shorter than the response target'),
+  body('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean')
+];
+
+const toTargets = (targets: Record<string, { responseHours: number; resolutionHours: number }>) =>
+  Object.fromEntries(TASK_PRIORITIES.map(priority => [priority, {
+    responseHours: Number(targets[priority].responseHours),
+    resolutionHours: Number(targets[priority].resolutionHours)
+  }]));
+
+// Returns why the policy's scope (customer xor company type) is invalid, or null
+const getScopeError = async (customer: unknown, companyType: unknown): Promise<string | null> => {
+  if (!customer === !companyType) {
+    return 'A policy applies to either a customer or a company type';
+  }
+  if (customer) {
+    const customerDoc = await Customer.findById(customer);
+    if (!customerDoc || !customerDoc.isActive) {
+      return 'Invalid customer';
+    }
+  }
+  return null;
+};
+
+const isDuplicateKeyError = (error: unknown) => (error as { code?: number }).code === 11000;
+
+// Get all SLA policies
+router.get('/policies', async (req: AuthRequest, res: Response) => {
+  try {
+    const policies = await SlaPolicy.find()
+      .populate('customer', 'companyName')
+      .sort({ companyType: 1, name: 1 });
+
+    res.json({ policies });
+  } catch (error) {
+    console.error('Get SLA policies error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch SLA policies',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Create an SLA policy for a customer or a company type
+router.post('/policies', authorize('admin', 'manager'), policyValidation(false), async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { name, customer, companyType, targets, isActive } = req.body;
+
+    const scopeError = await getScopeError(customer, companyType);
+    if (scopeError) {
+      return res.status(400).json({ message: scopeError });
+    }
+
+    const policy = new SlaPolicy({
+      name,
+      customer: customer || null,
+      companyType: companyType || null,
+      targets: toTargets(targets),
+      isActive,
+      createdBy: req.user?._id
+    });
+    await policy.save();
+    await policy.populate('customer', 'companyName');
+
+    res.status(201).json({ message: 'SLA policy created successfully', policy });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({ message: 'That customer or company type already has an SLA policy' });
+    }
+    console.error('Create SLA policy error:', error);
+    res.status(500).json({
+      message: 'Failed to create SLA policy',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Update an SLA policy; new targets apply to tasks created or re-prioritized afterwards
+router.put('/policies/:id', authorize('admin', 'manager'), policyValidation(true), async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const policy = await SlaPolicy.findById(req.params.id);
+    if (!policy) {
+      return res.status(404).json({ message: 'SLA policy not found' });
+    }
+
+    const { name, targets, isActive } = req.body;
+    const customer = req.body.customer !== undefined ? req.body.customer : policy.customer;
+    const companyType = req.body.companyType !== undefined ? req.body.companyType : policy.companyType;
+
+    const scopeError = await getScopeError(customer, companyType);
+    if (scopeError) {
+      return res.status(400).json({ message: scopeError });
+    }
+
+    if (name !== undefined) policy.name = name;
+    if (targets !== undefined) policy.targets = toTargets(targets) as typeof policy.targets;
+    if (isActive !== undefined) policy.isActive = isActive;
+    policy.customer = customer || null;
+    policy.companyType = companyType || null;
+    await policy.save();
+    await policy.populate('customer', 'companyName');
+
+    res.json({ message: 'SLA policy updated successfully', policy });
+  } catch (error) {
+    if (isDuplicateKeyError(error)) {
+      return res.status(400).json({ message: 'That customer or company type already has an SLA policy' });
+    }
+    console.error('Update SLA policy error:', error);
+    res.status(500).json({
+      message: 'Failed to update SLA policy',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Delete an SLA policy; tasks keep the SLA clocks they already have
+router.delete('/policies/:id', authorize('admin', 'manager'), async (req: AuthRequest, res: Response) => {
+  try {
+    const policy = await SlaPolicy.findByIdAndDelete(req.params.id);
+    if (!policy) {
+      return res.status(404).json({ message: 'SLA policy not found' });
+    }
+
+    res.json({ message: 'SLA policy deleted successfully' });
+  } catch (error) {
+    console.error('Delete SLA policy error:', error);
+    res.status(500).json({
+      message: 'Failed to delete SLA policy',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// SLA compliance per customer for tasks created in a period
+router.get('/report', authorize('admin', 'manager'), [
+  query(['from', 'to'])
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid date'),
+  query('customer')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid customer ID')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { from, to, customer } = req.query;
+    const report = await getSlaReport({
+      from: from ? new Date(String(from)) : undefined,
+      to: to ? new Date(String(to)) : undefined,
+      customer: customer ? new mongoose.Types.ObjectId(String(customer)) : undefined
+    });
+
+    res.json({ report });
+  } catch (error) {
+    console.error('Get SLA report error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch SLA report',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -1,7 +1,8 @@
 import express, { Response } from 'express';
 import { body, validationResult } from 'express-validator';
-import TaskCategory from '../models/TaskCategory.js';
+import TaskCategory, { IWorkflowTransition } from '../models/TaskCategory.js';
 import { authenticate, authorize, AuthRequest } from '../middleware/auth.js';
+import { validateWorkflow } from '../utils/workflow.js';
 
 const router = express.Router();
 
@@ -77,6 +78,95 @@ router.put('/:id', authorize('admin', 'manager'), [
   }
 });
 
+// PUT replace the workflow of a task category (`workflow: null` restores the default flow)
+router.put('/:id/workflow', authorize('admin'), [
+  body('workflow')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Workflow must be an object'),
+  body('workflow.statuses')
+    .if(body('workflow').exists({ values: 'null' }))
+    .isArray({ min: 1, max: 20 })
+    .withMessage('A workflow needs between 1 and 20 statuses'),
+  body('workflow.statuses.*.key')
+    .matches(/^[a-z0-9-]{1,30}$/)
+    .withMessage('Status keys may only contain lowercase letters, numbers and dashes'),
+  body('workflow.statuses.*.name')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Status names must be between 1 and 50 characters'),
+  body('workflow.statuses.*.stage')
+    .isIn(['todo', 'in-progress', 'completed'])
+    .withMessage('Invalid status stage'),
+  body('workflow.initialStatus')
+    .if(body('workflow').exists({ values: 'null' }))
+    .isString()
+    .withMessage('Initial status is required'),
+  body('workflow.transitions')
+    .optional()
+    .isArray({ max: 200 })
+    .withMessage('Transitions must be an array'),
+  body(['workflow.transitions.*.from', 'workflow.transitions.*.to'])
+    .isString()
+    .withMessage('Transitions need a from and a to status'),
+  body('workflow.transitions.*.roles')
+    .optional()
+    .isArray()
+    .withMessage('Transition roles must be an array'),
+  body('workflow.transitions.*.roles.*')
+    .isIn(['admin', 'manager', 'user'])
+    .withMessage('Invalid transition role'),
+  body('workflow.transitions.*.requiredFields')
+    .optional()
+    .isArray()
+    .withMessage('Transition required fields must be an array'),
+  body('workflow.transitions.*.requiredFields.*')
+    .isIn(['comment', 'resolution'])
+    .withMessage('Invalid transition required field'),
+], async (req: AuthRequest, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+
+  try {
+    const category = await TaskCategory.findById(req.params.id);
+
+    if (!category) {
+      return res.status(404).json({ message: 'Category not found' });
+    }
+
+    const { workflow } = req.body;
+
+    if (workflow) {
+      // Roles and required fields may be left out of the request
+      const transitions: (Pick<IWorkflowTransition, 'from' | 'to'> & Partial<IWorkflowTransition>)[] = workflow.transitions || [];
+      workflow.transitions = transitions.map((transition): IWorkflowTransition => ({
+        from: transition.from,
+        to: transition.to,
+        roles: transition.roles || [],
+        requiredFields: transition.requiredFields || [],
+      }));
+
+      const workflowError = validateWorkflow(workflow);
+      if (workflowError) {
+        return res.status(400).json({ message: workflowError });
+      }
+    }
+
+    category.workflow = workflow || null;
+    await category.save();
+
+    res.json({ category });
+  } catch (error) {
+    console.error('Update workflow error:', error);
+    res.status(500).json({
+      message: 'Failed to update workflow',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // DELETE a task category
 router.delete('/:id', authorize('admin', 'manager'), async (req: AuthRequest, res: Response) => {
   try {
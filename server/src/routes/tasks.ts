@@ -1,83 +1,174 @@
 import express, { Response } from 'express';
-import { body, validationResult } from 'express-validator';
-import Task, { ITask } from '../models/Task.js';
+import { body, query, validationResult } from 'express-validator';
+import Task, { COMMENT_REACTIONS, ITask, MAX_COMMENT_LENGTH, MAX_REMINDER_OFFSET } from '../models/Task.js';
 import User, { IUser } from '../models/User.js';
 import Customer, { ICustomer } from '../models/Customer.js';
+import Call from '../models/Call.js';
+import TaskCategory, { ITaskCategory } from '../models/TaskCategory.js';
+import { BOARD_COLUMNS, BoardColumn } from '../models/WorkspaceSettings.js';
 import { authenticate, authorize, AuthRequest, canAccessTask } from '../middleware/auth.js';
 import upload from '../config/upload.js';
 import fs from 'fs/promises';
 import mongoose from 'mongoose';
 import { createNotification } from '../utils/notifications.js';
 import { logActivity } from '../utils/activityLogger.js';
+import { getTaskHistory, TRACKED_TASK_FIELDS } from '../utils/taskHistory.js';
+import { validateRecurrence } from '../utils/recurrence.js';
+import { applyStatusChange, handleStatusChange, planStatusChange } from '../utils/taskLifecycle.js';
+import { getCurrentStatus, getWorkflow } from '../utils/workflow.js';
+import { dependsOn, updateBlockedState } from '../utils/taskDependencies.js';
+import { publishTaskChange } from '../utils/realtime.js';
+import { syncTaskSla } from '../utils/sla.js';
+import { getMentionableUsers, notifyMentions, parseMentions, stripMentions } from '../utils/taskComments.js';
+import { EXPORT_FORMATS, ExportColumn, ExportFormat, streamExport } from '../utils/dataExport.js';
 
 const router = express.Router();
 
 // Apply authentication to all routes
 router.use(authenticate);
 
-// Get all tasks
-router.get('/', async (req: AuthRequest, res: Response) => {
-  try {
-    const { 
-      page = 1, 
-      limit = 10, 
-      status, 
-      priority, 
-      assignedTo, 
-      customer,
-      search,
-      sortBy = 'createdAt',
-      sortOrder = 'desc'
-    } = req.query;
+// Validation shared by create and update; `recurrence: null` removes a schedule
+const recurrenceValidation = [
+  body('recurrence')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Recurrence must be an object'),
+  body('recurrence.frequency')
+    .if(body('recurrence').exists({ values: 'null' }))
+    .isIn(['daily', 'weekly', 'monthly', 'custom'])
+    .withMessage('Invalid recurrence frequency'),
+  body('recurrence.interval')
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Recurrence interval must be between 1 and 365'),
+  body('recurrence.byWeekday')
+    .optional()
+    .isArray({ max: 7 })
+    .withMessage('Recurrence weekdays must be an array'),
+  body('recurrence.byWeekday.*')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Recurrence weekdays must be between 0 (Sunday) and 6 (Saturday)'),
+  body('recurrence.byMonthDay')
+    .optional({ values: 'null' })
+    .isInt({ min: 1, max: 31 })
+    .withMessage('Recurrence day of month must be between 1 and 31'),
+  body('recurrence.rule')
+    .optional({ values: 'falsy' })
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('Recurrence rule cannot exceed 200 characters'),
+  body('recurrence.endDate')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Invalid recurrence end date'),
+  body('recurrence.count')
+    .optional({ values: 'falsy' })
+    .isInt({ min: 1 })
+    .withMessage('Recurrence count must be a positive number')
+];
+
+// Reminder offsets are in minutes before the due date
+const reminderValidation = [
+  body('reminders')
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage('A task can have at most 5 reminders'),
+  body('reminders.*')
+    .isInt({ min: 0, max: MAX_REMINDER_OFFSET })
+    .withMessage(`Reminders must be between 0 and ${MAX_REMINDER_OFFSET} minutes before the due date`)
+];
+
+// Validation shared by the routes that move a task through its workflow
+const transitionValidation = [
+  body('workflowStatus')
+    .optional({ values: 'falsy' })
+    .isString()
+    .isLength({ max: 30 })
+    .withMessage('Invalid workflow status'),
+  body('resolution')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Resolution cannot exceed 1000 characters'),
+  body('comment')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Comment cannot exceed 500 characters')
+];
+
+// Filters, role scoping and sort order shared by the task list and its export
+const getTaskListQuery = (req: AuthRequest) => {
+  const {
+    status,
+    priority,
+    assignedTo,
+    customer,
+    search,
+    sortBy = 'createdAt',
+    sortOrder = 'desc'
+  } = req.query;
+
+  const query: any = {};
+
+  // Filter by status
+  if (status && typeof status === 'string') {
+    query.status = status;
+  }
 
-    const query: any = {};
+  // Filter by priority
+  if (priority && typeof priority === 'string') {
+    query.priority = priority;
+  }
 
-    // Filter by status
-    if (status && typeof status === 'string') {
-      query.status = status;
-    }
+  // Filter by assigned user
+  if (assignedTo && typeof assignedTo === 'string') {
+    query.assignedTo = assignedTo;
+  }
 
-    // Filter by priority
-    if (priority && typeof priority === 'string') {
-      query.priority = priority;
-    }
+  // Filter by customer
+  if (customer && typeof customer === 'string') {
+    query.customer = customer;
+  }
 
-    // Filter by assigned user
-    if (assignedTo && typeof assignedTo === 'string') {
-      query.assignedTo = assignedTo;
-    }
+  // Search functionality
+  if (search && typeof search === 'string') {
+    query.$or = [
+      { title: { $regex: search, $options: 'i' } },
+      { description: { $regex: search, $options: 'i' } },
+      { category: { $regex: search, $options: 'i' } }
+    ];
+  }
 
-    // Filter by customer
-    if (customer && typeof customer === 'string') {
-      query.customer = customer;
-    }
+  // Role-based filtering
+  if (req.user?.role === 'user') {
+    // Users can only see tasks assigned to them, created by them or holding one of their subtasks
+    query.$or = [
+      { assignedTo: req.user._id },
+      { createdBy: req.user._id },
+      { 'subtasks.assignedTo': req.user._id }
+    ];
+  }
 
-    // Search functionality
-    if (search && typeof search === 'string') {
-      query.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-        { category: { $regex: search, $options: 'i' } }
-      ];
-    }
+  const sortOptions: any = {};
+  sortOptions[String(sortBy)] = sortOrder === 'asc' ? 1 : -1;
 
-    // Role-based filtering
-    if (req.user?.role === 'user') {
-      // Users can only see tasks assigned to them or created by them
-      query.$or = [
-        { assignedTo: req.user._id },
-        { createdBy: req.user._id }
-      ];
-    }
+  return { query, sortOptions };
+};
 
-    const sortOptions: any = {};
-    sortOptions[String(sortBy)] = sortOrder === 'asc' ? 1 : -1;
+// Get all tasks
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { page = 1, limit = 10 } = req.query;
+    const { query, sortOptions } = getTaskListQuery(req);
 
     const tasks = await Task.find(query)
       .populate('assignedTo', 'name email')
       .populate('customer', 'companyName')
+      .populate('category', 'name workflow')
       .populate('createdBy', 'name email')
       .populate('comments.author', 'name')
+      .populate('subtasks.assignedTo', 'name email')
       .sort(sortOptions)
       .limit(Number(limit) * 1)
       .skip((Number(page) - 1) * Number(limit));
@@ -103,14 +194,195 @@ router.get('/', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// A task as the export query populates it
+type ExportedTask = Omit<ITask, 'assignedTo' | 'customer' | 'category' | 'createdBy'> & {
+  assignedTo: IUser | null;
+  customer: ICustomer | null;
+  category: ITaskCategory | null;
+  createdBy: IUser | null;
+};
+
+const taskExportColumns: ExportColumn<ExportedTask>[] = [
+  { header: 'Title', width: 30, value: task => task.title },
+  { header: 'Status', width: 14, value: task => getCurrentStatus(getWorkflow(task.category), task).name },
+  { header: 'Priority', width: 10, value: task => task.priority },
+  { header: 'Category', width: 16, value: task => task.category?.name },
+  { header: 'Assigned To', width: 18, value: task => task.assignedTo?.name },
+  { header: 'Customer', width: 20, value: task => task.customer?.companyName },
+  { header: 'Due Date', width: 16, value: task => task.dueDate },
+  { header: 'Created By', width: 18, value: task => task.createdBy?.name },
+  { header: 'Created', width: 16, value: task => task.createdAt },
+  { header: 'Description', width: 40, value: task => task.description }
+];
+
+// Export the task list, with the same filters and visibility, as CSV, XLSX or a PDF report
+router.get('/export', [
+  query('format')
+    .isIn(EXPORT_FORMATS)
+    .withMessage('Export format must be csv, xlsx or pdf')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { query: filter, sortOptions } = getTaskListQuery(req);
+    // Typed as populated; a cursor only knows the type it was queried with
+    const cursor = Task.find<ExportedTask>(filter)
+      .populate('assignedTo', 'name')
+      .populate('customer', 'companyName')
+      .populate('category', 'name workflow')
+      .populate('createdBy', 'name')
+      .sort(sortOptions)
+      .cursor();
+
+    await streamExport(res, {
+      format: req.query.format as ExportFormat,
+      filename: 'tasks',
+      title: 'Tasks',
+      columns: taskExportColumns,
+      rows: cursor,
+      timezone: req.user!.timezone
+    });
+  } catch (error) {
+    console.error('Export tasks error:', error);
+    res.status(500).json({
+      message: 'Failed to export tasks',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Get every task on the board, in board order, with the size of each column across the workspace (what WIP limits count)
+router.get('/board', async (req: AuthRequest, res: Response) => {
+  try {
+    const { query } = getTaskListQuery(req);
+
+    const tasks = await Task.find(query)
+      .populate('assignedTo', 'name email')
+      .populate('customer', 'companyName')
+      .populate('category', 'name workflow')
+      .populate('createdBy', 'name email')
+      .populate('subtasks.assignedTo', 'name email')
+      .sort({ boardPosition: 1, createdAt: -1 });
+
+    const columnSizes = await Task.aggregate<{ _id: BoardColumn; count: number }>([
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ]);
+    const counts = Object.fromEntries(BOARD_COLUMNS.map(status => [
+      status,
+      columnSizes.find(column => column._id === status)?.count ?? 0
+    ]));
+
+    res.json({ tasks, counts });
+  } catch (error) {
+    console.error('Get board error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch board',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Move a card within its board column: before `beforeTaskId`, after `afterTaskId`, or to the end
+router.put('/board/order', [
+  body('status')
+    .isIn(BOARD_COLUMNS)
+    .withMessage('Invalid status'),
+  body('taskId')
+    .isMongoId()
+    .withMessage('Invalid task ID'),
+  body(['beforeTaskId', 'afterTaskId'])
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid task ID')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { status, taskId, beforeTaskId, afterTaskId } = req.body as {
+      status: BoardColumn;
+      taskId: string;
+      beforeTaskId?: string | null;
+      afterTaskId?: string | null;
+    };
+
+    const task = await Task.findById(taskId);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+    if (task.status !== status) {
+      return res.status(400).json({ message: 'The task is not in this column' });
+    }
+
+    // Positions are worked out against the whole column, including cards this user can't see
+    const column = await Task.find({ status, _id: { $ne: task._id } })
+      .select('boardPosition')
+      .sort({ boardPosition: 1, createdAt: -1 });
+    const ordered = [...column];
+    const anchorId = beforeTaskId || afterTaskId;
+    let index = ordered.length;
+    if (anchorId) {
+      const anchorIndex = ordered.findIndex(card => card._id.equals(anchorId));
+      if (anchorIndex === -1) {
+        return res.status(400).json({ message: 'The card to place the task next to is not in this column' });
+      }
+      index = beforeTaskId ? anchorIndex : anchorIndex + 1;
+    }
+    ordered.splice(index, 0, task);
+
+    const moved = ordered
+      .map((card, position) => ({ card, position }))
+      .filter(({ card, position }) => card.boardPosition !== position);
+    if (moved.length === 0) {
+      return res.json({ message: 'Board order saved successfully', updated: 0 });
+    }
+
+    const result = await Task.bulkWrite(moved.map(({ card, position }) => ({
+      updateOne: {
+        filter: { _id: card._id, status },
+        update: { $set: { boardPosition: position } }
+      }
+    })));
+
+    if (result.modifiedCount > 0) {
+      const movedTasks = await Task.find({ _id: { $in: moved.map(({ card }) => card._id) }, status })
+        .select('createdBy assignedTo subtasks.assignedTo');
+      movedTasks.forEach(movedTask => publishTaskChange(movedTask, 'updated'));
+    }
+
+    res.json({ message: 'Board order saved successfully', updated: result.modifiedCount });
+  } catch (error) {
+    console.error('Save board order error:', error);
+    res.status(500).json({ message: 'Failed to save board order', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
 // Get task by ID
 router.get('/:id', async (req: AuthRequest, res: Response) => {
   try {
     const task = await Task.findById(req.params.id)
       .populate('assignedTo', 'name email')
       .populate('customer', 'companyName')
+      .populate('category', 'name workflow')
       .populate('createdBy', 'name email')
-      .populate('comments.author', 'name');
+      .populate('comments.author', 'name')
+      .populate('comments.reactions.users', 'name')
+      .populate('subtasks.assignedTo', 'name email')
+      .populate('sourceCall', 'callType summary followUpDate createdAt');
 
     if (!task) {
       return res.status(404).json({ message: 'Task not found' });
@@ -118,8 +390,10 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
 
     // Check access permissions
     if (req.user?.role === 'user') {
-      const hasAccess = task.assignedTo._id.toString() === req.user._id.toString() ||
-                       task.createdBy._id.toString() === req.user._id.toString();
+      const userId = req.user._id.toString();
+      const hasAccess = task.assignedTo._id.toString() === userId ||
+                       task.createdBy._id.toString() === userId ||
+                       task.subtasks.some(subtask => subtask.assignedTo?._id.toString() === userId);
       if (!hasAccess) {
         return res.status(403).json({ message: 'Access denied' });
       }
@@ -135,8 +409,41 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Get field-level change history of a task, optionally reconstructing it at a point in time
+router.get('/:id/history', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await Task.findById(req.params.id);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    let at: Date | undefined;
+    if (req.query.at !== undefined) {
+      at = new Date(String(req.query.at));
+      if (isNaN(at.getTime())) {
+        return res.status(400).json({ message: 'Invalid "at" timestamp' });
+      }
+    }
+
+    const { history, snapshot, complete } = await getTaskHistory(task, at);
+
+    res.json({ history, complete, ...(at && { at, snapshot }) });
+  } catch (error) {
+    console.error('Get task history error:', error);
+    res.status(500).json({
+      message: 'Failed to fetch task history',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Create new task
-router.post('/', authorize(['admin', 'manager']), [
+router.post('/', authorize('admin', 'manager'), [
   body('title')
     .trim()
     .isLength({ min: 1, max: 200 })
@@ -161,7 +468,9 @@ router.post('/', authorize(['admin', 'manager']), [
   body('customer')
     .optional()
     .isMongoId()
-    .withMessage('Invalid customer ID')
+    .withMessage('Invalid customer ID'),
+  ...recurrenceValidation,
+  ...reminderValidation
 ], async (req: AuthRequest, res: Response) => {
   try {
     const errors = validationResult(req);
@@ -172,13 +481,25 @@ router.post('/', authorize(['admin', 'manager']), [
       });
     }
 
-    const { title, description, category, priority, dueDate, assignedTo, customer } = req.body;
+    const { title, description, category, priority, dueDate, assignedTo, customer, recurrence, reminders } = req.body;
+
+    if (recurrence) {
+      const recurrenceError = validateRecurrence(recurrence);
+      if (recurrenceError) {
+        return res.status(400).json({ message: `Invalid recurrence: ${recurrenceError}` });
+      }
+    }
 
     const assignedUser = await User.findById(assignedTo);
     if (!assignedUser || !assignedUser.isActive) {
       return res.status(400).json({ message: 'Invalid assigned user' });
     }
 
+    const categoryDoc = await TaskCategory.findById(category);
+    if (!categoryDoc) {
+      return res.status(400).json({ message: 'Invalid category' });
+    }
+
     if (customer) {
       const customerDoc = await Customer.findById(customer);
       if (!customerDoc || !customerDoc.isActive) {
@@ -186,15 +507,25 @@ router.post('/', authorize(['admin', 'manager']), [
       }
     }
 
+    // New tasks start in the initial status of their category's workflow
+    const workflow = getWorkflow(categoryDoc);
+    const initialStatus = workflow.statuses.find(status => status.key === workflow.initialStatus)!;
+
     const task = new Task({
       title, description, category, priority, dueDate, assignedTo, customer,
+      status: initialStatus.stage,
+      workflowStatus: initialStatus.key,
+      recurrence: recurrence || undefined,
+      reminders: reminders ? [...new Set(reminders.map(Number))] : undefined,
       createdBy: req.user?._id
     });
     await task.save();
+    await syncTaskSla(task, { reassign: true });
 
     const populatedTask = await Task.findById(task._id)
       .populate<{ createdBy: IUser; assignedTo: IUser }>('createdBy assignedTo', 'name email')
-      .populate<{ customer: ICustomer }>('customer', 'companyName');
+      .populate<{ customer: ICustomer }>('customer', 'companyName')
+      .populate<{ category: ITaskCategory }>('category', 'name workflow');
 
     if (!populatedTask) {
       return res.status(404).json({ message: 'Task not found after creation' });
@@ -222,6 +553,8 @@ router.post('/', authorize(['admin', 'manager']), [
       });
     }
 
+    publishTaskChange(task, 'created');
+
     res.status(201).json({ message: 'Task created successfully', task: populatedTask });
   } catch (error) {
     console.error('Create task error:', error);
@@ -230,7 +563,7 @@ router.post('/', authorize(['admin', 'manager']), [
 });
 
 // Update task
-router.put('/:id', authorize(['admin', 'manager']), [
+router.put('/:id', authorize('admin', 'manager'), [
   body('title')
     .optional()
     .trim()
@@ -254,6 +587,7 @@ router.put('/:id', authorize(['admin', 'manager']), [
     .optional()
     .isIn(['todo', 'in-progress', 'completed'])
     .withMessage('Invalid status'),
+  ...transitionValidation,
   body('dueDate')
     .optional()
     .isISO8601()
@@ -265,7 +599,9 @@ router.put('/:id', authorize(['admin', 'manager']), [
   body('customer')
     .optional()
     .isMongoId()
-    .withMessage('Invalid customer ID')
+    .withMessage('Invalid customer ID'),
+  ...recurrenceValidation,
+  ...reminderValidation
 ], async (req: AuthRequest, res: Response) => {
   try {
     const errors = validationResult(req);
@@ -288,13 +624,48 @@ router.put('/:id', authorize(['admin', 'manager']), [
     }
 
     const updates: any = {};
-    const allowedFields = ['title', 'description', 'category', 'priority', 'status', 'dueDate', 'assignedTo', 'customer'];
+    // Status changes go through the category workflow below
+    const allowedFields = ['title', 'description', 'category', 'priority', 'dueDate', 'assignedTo', 'customer', 'recurrence', 'reminders', 'resolution'];
     for (const field of allowedFields) {
       if (req.body[field] !== undefined) {
         updates[field] = req.body[field];
       }
     }
 
+    if (updates.reminders) {
+      updates.reminders = [...new Set(updates.reminders.map(Number))];
+    }
+
+    if (updates.recurrence) {
+      const recurrenceError = validateRecurrence(updates.recurrence);
+      if (recurrenceError) {
+        return res.status(400).json({ message: `Invalid recurrence: ${recurrenceError}` });
+      }
+    }
+
+    const categoryChanged = updates.category && updates.category !== task.category.toString();
+    if (categoryChanged) {
+      const categoryDoc = await TaskCategory.findById(updates.category);
+      if (!categoryDoc) {
+        return res.status(400).json({ message: 'Invalid category' });
+      }
+      // Keep the task's place in the new category's workflow
+      updates.workflowStatus = getCurrentStatus(getWorkflow(categoryDoc), task).key;
+    }
+
+    let transitionComment: string | undefined;
+    if (req.body.workflowStatus || req.body.status) {
+      const plan = await planStatusChange(task, req.user, req.body, updates.category || task.category);
+      if (!plan.ok) {
+        return res.status(plan.statusCode).json({ message: plan.message, requiredFields: plan.requiredFields });
+      }
+      if (plan.to) {
+        updates.status = plan.to.stage;
+        updates.workflowStatus = plan.to.key;
+        transitionComment = req.body.comment?.trim() || undefined;
+      }
+    }
+
     if (updates.assignedTo) {
       const assignedUser = await User.findById(updates.assignedTo);
       if (!assignedUser || !assignedUser.isActive) {
@@ -309,14 +680,51 @@ router.put('/:id', authorize(['admin', 'manager']), [
       }
     }
 
-    const updatedTask = await Task.findByIdAndUpdate(taskId, updates, { new: true, runValidators: true })
+    // A new due date restarts overdue escalation
+    if (updates.dueDate && new Date(updates.dueDate).getTime() !== task.dueDate.getTime()) {
+      updates.escalationLevel = 0;
+      updates.escalatedAt = null;
+    }
+
+    // A new schedule or due date may give an ended series another occurrence
+    if (task.recurrenceEnded && (updates.recurrence !== undefined || updates.dueDate)) {
+      updates.recurrenceEnded = false;
+    }
+
+    const updatedTask = await Task.findByIdAndUpdate(
+      taskId,
+      {
+        ...updates,
+        ...(transitionComment && { $push: { comments: { text: transitionComment, author: req.user._id, createdAt: new Date() } } })
+      },
+      { new: true, runValidators: true }
+    )
       .populate<{ createdBy: IUser; assignedTo: IUser }>('createdBy assignedTo', 'name email')
-      .populate<{ customer: ICustomer }>('customer', 'companyName');
+      .populate<{ customer: ICustomer }>('customer', 'companyName')
+      .populate<{ category: ITaskCategory }>('category', 'name workflow');
 
     if (!updatedTask) {
       return res.status(404).json({ message: 'Task not found after update' });
     }
 
+    if (updates.status && updates.status !== task.status) {
+      try {
+        const changedTask = await Task.findById(taskId);
+        if (changedTask) {
+          await handleStatusChange(changedTask);
+        }
+      } catch (error) {
+        console.error('Failed to process task status change:', error);
+      }
+    }
+
+    // A new customer or priority means new SLA targets
+    const slaChanged = (updates.customer !== undefined && String(updates.customer) !== String(task.customer))
+      || (updates.priority !== undefined && updates.priority !== task.priority);
+    if (slaChanged || (updates.status && updates.status !== task.status)) {
+      await syncTaskSla(updatedTask, { reassign: slaChanged });
+    }
+
     const notifyUser = updatedTask.assignedTo;
     if (notifyUser && notifyUser._id.toString() !== req.user?._id.toString()) {
       let notificationMessage = '';
@@ -347,6 +755,9 @@ router.put('/:id', authorize(['admin', 'manager']), [
     const changedFields = Object.keys(updates);
     if (req.user && changedFields.length > 0) {
       const previousTaskData: Record<string, any> = task.toObject();
+      // New values as stored (trimmed and cast), for the fields the task history replays
+      const storedTaskData: Record<string, unknown> = updatedTask.toObject({ depopulate: true });
+      const trackedFields = changedFields.filter(field => (TRACKED_TASK_FIELDS as readonly string[]).includes(field));
       logActivity({
         user: req.user._id,
         action: 'UPDATE_TASK',
@@ -356,11 +767,14 @@ router.put('/:id', authorize(['admin', 'manager']), [
           updatedFields: changedFields,
           previousValues: Object.fromEntries(
             changedFields.map(field => [field, previousTaskData[field]])
-          )
+          ),
+          newValues: Object.fromEntries(trackedFields.map(field => [field, storedTaskData[field]]))
         }
       });
     }
 
+    publishTaskChange(updatedTask, 'updated', task);
+
     res.json({ message: 'Task updated successfully', task: updatedTask });
   } catch (error) {
     console.error('Update task error:', error);
@@ -368,12 +782,44 @@ router.put('/:id', authorize(['admin', 'manager']), [
   }
 });
 
-// Add comment to task
+// The task a comment route works on, or the response to send when the user can't comment on it
+const findCommentTask = async (req: AuthRequest) => {
+  const task = await Task.findById(req.params.id);
+  if (!task) {
+    return { status: 404, message: 'Task not found' };
+  }
+  if (!req.user || !canAccessTask(req.user, task)) {
+    return { status: 403, message: 'Access denied' };
+  }
+  return { task };
+};
+
+// People who can be @mentioned in the task's comments
+router.get('/:id/comments/mentionable', async (req: AuthRequest, res: Response) => {
+  try {
+    const { task, status, message } = await findCommentTask(req);
+    if (!task) {
+      return res.status(status).json({ message });
+    }
+
+    const users = await getMentionableUsers(task);
+    res.json({ users });
+  } catch (error) {
+    console.error('Get mentionable users error:', error);
+    res.status(500).json({ message: 'Failed to fetch users', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Add comment to task, optionally as a reply to another comment
 router.post('/:id/comments', [
   body('text')
     .trim()
-    .isLength({ min: 1, max: 500 })
-    .withMessage('Comment must be between 1 and 500 characters')
+    .isLength({ min: 1, max: MAX_COMMENT_LENGTH })
+    .withMessage(`Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`),
+  body('parent')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid comment to reply to')
 ], async (req: AuthRequest, res: Response) => {
   try {
     const errors = validationResult(req);
@@ -384,64 +830,229 @@ router.post('/:id/comments', [
       });
     }
 
-    const taskId = req.params.id;
-    const task = await Task.findById(taskId);
-
+    const { task, status, message } = await findCommentTask(req);
     if (!task) {
-      return res.status(404).json({ message: 'Task not found' });
+      return res.status(status).json({ message });
     }
 
-    if (!req.user || !canAccessTask(req.user, task)) {
-      return res.status(403).json({ message: 'Access denied' });
+    // Threads are one level deep: a reply to a reply joins the same thread
+    let parent = null;
+    if (req.body.parent) {
+      const repliedTo = task.comments.id(req.body.parent);
+      if (!repliedTo) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+      parent = repliedTo.parent ?? repliedTo._id;
     }
 
-    const newComment = { text: req.body.text, author: req.user?._id, createdAt: new Date() };
-    task.comments.push(newComment as any);
+    const mentions = parseMentions(req.body.text);
+    task.comments.push({ text: req.body.text, author: req.user!._id, parent, mentions, reactions: [], createdAt: new Date() });
     await task.save();
+    const comment = task.comments[task.comments.length - 1];
 
-    const populatedTask = await Task.findById(task._id)
-      .populate<{ createdBy: IUser; assignedTo: IUser; 'comments.author': IUser }>('createdBy assignedTo comments.author', 'name email');
-
-    if (!populatedTask) {
-      return res.status(404).json({ message: 'Task not found after adding comment' });
-    }
-
-    const authorId = req.user?._id.toString();
+    const mentioned = await notifyMentions(task, mentions, req.user!);
+    const authorId = req.user!._id.toString();
     const usersToNotify = new Set<string>();
 
-    if (populatedTask.createdBy && populatedTask.createdBy._id.toString() !== authorId) {
-      usersToNotify.add(populatedTask.createdBy._id.toString());
+    if (task.createdBy.toString() !== authorId) {
+      usersToNotify.add(task.createdBy.toString());
+    }
+    if (task.assignedTo.toString() !== authorId) {
+      usersToNotify.add(task.assignedTo.toString());
     }
-    if (populatedTask.assignedTo && populatedTask.assignedTo._id.toString() !== authorId) {
-      usersToNotify.add(populatedTask.assignedTo._id.toString());
+    // Whoever started the thread hears about replies to it
+    const threadAuthor = parent && task.comments.id(parent)?.author;
+    if (threadAuthor && threadAuthor.toString() !== authorId) {
+      usersToNotify.add(threadAuthor.toString());
     }
+    mentioned.forEach(userId => usersToNotify.delete(userId));
 
     for (const userId of usersToNotify) {
       await createNotification({
         user: new mongoose.Types.ObjectId(userId),
         type: 'COMMENT_ADDED',
-        message: `${req.user?.name} commented on the task: "${populatedTask.title}" `,
-        link: `/tasks/${populatedTask._id}`,
-        related: { model: 'Task', id: populatedTask._id },
+        message: `${req.user!.name} ${parent ? 'replied to a comment on' : 'commented on'} the task: "${task.title}"`,
+        link: `/tasks/${task._id}`,
+        related: { model: 'Task', id: task._id },
       });
     }
 
-        // Log activity
     logActivity({
-      user: authorId,
+      user: req.user!._id,
       action: 'ADD_COMMENT',
       entity: 'Task',
-      entityId: populatedTask._id,
-      details: { comment: newComment.text }
+      entityId: task._id,
+      details: { comment: stripMentions(comment.text), commentId: comment._id, ...(parent && { parent }) }
     });
 
-    res.json({ message: 'Comment added successfully', task: populatedTask });
+    publishTaskChange(task, 'updated');
+
+    res.json({ message: 'Comment added successfully', task: await findPopulatedTask(task.id) });
   } catch (error) {
     console.error('Add comment error:', error);
     res.status(500).json({ message: 'Failed to add comment', error: error instanceof Error ? error.message : 'Unknown error' });
   }
 });
 
+// Edit a comment; only its author can
+router.put('/:id/comments/:commentId', [
+  body('text')
+    .trim()
+    .isLength({ min: 1, max: MAX_COMMENT_LENGTH })
+    .withMessage(`Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`)
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { task, status, message } = await findCommentTask(req);
+    if (!task) {
+      return res.status(status).json({ message });
+    }
+
+    const comment = task.comments.id(req.params.commentId);
+    if (!comment || comment.deletedAt) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+    if (!comment.author.equals(req.user!._id)) {
+      return res.status(403).json({ message: 'Only the author can edit a comment' });
+    }
+
+    const previousText = comment.text;
+    const previousMentions = [...comment.mentions];
+    if (previousText === req.body.text) {
+      return res.json({ message: 'Comment updated successfully', task: await findPopulatedTask(task.id) });
+    }
+
+    comment.text = req.body.text;
+    comment.mentions = parseMentions(req.body.text);
+    comment.editedAt = new Date();
+    await task.save();
+
+    await notifyMentions(task, comment.mentions, req.user!, previousMentions);
+
+    logActivity({
+      user: req.user!._id,
+      action: 'UPDATE_COMMENT',
+      entity: 'Task',
+      entityId: task._id,
+      details: { commentId: comment._id, comment: stripMentions(comment.text), previousText: stripMentions(previousText) }
+    });
+
+    publishTaskChange(task, 'updated');
+
+    res.json({ message: 'Comment updated successfully', task: await findPopulatedTask(task.id) });
+  } catch (error) {
+    console.error('Update comment error:', error);
+    res.status(500).json({ message: 'Failed to update comment', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Delete a comment; its author, admins and managers can
+router.delete('/:id/comments/:commentId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { task, status, message } = await findCommentTask(req);
+    if (!task) {
+      return res.status(status).json({ message });
+    }
+
+    const comment = task.comments.id(req.params.commentId);
+    if (!comment || comment.deletedAt) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+    const isModerator = req.user!.role === 'admin' || req.user!.role === 'manager';
+    if (!comment.author.equals(req.user!._id) && !isModerator) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const deletedText = comment.text;
+    const hasReplies = task.comments.some(other => other.parent?.equals(comment._id));
+    if (hasReplies) {
+      // The thread stays, with a placeholder where the comment was
+      comment.text = '';
+      comment.mentions = [];
+      comment.reactions = [];
+      comment.deletedAt = new Date();
+    } else {
+      task.comments.pull(comment._id);
+      // A deleted thread start goes once its last reply does
+      const parent = comment.parent && task.comments.id(comment.parent);
+      if (parent?.deletedAt && !task.comments.some(other => other.parent?.equals(parent._id))) {
+        task.comments.pull(parent._id);
+      }
+    }
+    await task.save();
+
+    logActivity({
+      user: req.user!._id,
+      action: 'DELETE_COMMENT',
+      entity: 'Task',
+      entityId: task._id,
+      details: { commentId: comment._id, comment: stripMentions(deletedText), author: comment.author }
+    });
+
+    publishTaskChange(task, 'updated');
+
+    res.json({ message: 'Comment deleted successfully', task: await findPopulatedTask(task.id) });
+  } catch (error) {
+    console.error('Delete comment error:', error);
+    res.status(500).json({ message: 'Failed to delete comment', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Add the user's reaction to a comment, or take it back if they already reacted with that emoji
+router.put('/:id/comments/:commentId/reactions', [
+  body('emoji')
+    .isIn(COMMENT_REACTIONS)
+    .withMessage('Unsupported reaction')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { task, status, message } = await findCommentTask(req);
+    if (!task) {
+      return res.status(status).json({ message });
+    }
+
+    const comment = task.comments.id(req.params.commentId);
+    if (!comment || comment.deletedAt) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    const userId = req.user!._id;
+    const reaction = comment.reactions.find(existing => existing.emoji === req.body.emoji);
+    if (!reaction) {
+      comment.reactions.push({ emoji: req.body.emoji, users: [userId] });
+    } else if (reaction.users.some(user => user.equals(userId))) {
+      reaction.users = reaction.users.filter(user => !user.equals(userId));
+      if (reaction.users.length === 0) {
+        comment.reactions = comment.reactions.filter(existing => existing !== reaction);
+      }
+    } else {
+      reaction.users.push(userId);
+    }
+    await task.save();
+
+    publishTaskChange(task, 'updated');
+
+    res.json({ message: 'Reaction updated successfully', task: await findPopulatedTask(task.id) });
+  } catch (error) {
+    console.error('Update reaction error:', error);
+    res.status(500).json({ message: 'Failed to update reaction', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
 // Add attachment to a task
 router.post(
   '/:id/attachments',
@@ -455,14 +1066,8 @@ router.post(
         return res.status(404).json({ message: 'Task not found' });
       }
 
-      // Check permissions
-      if (req.user?.role === 'user') {
-        const hasAccess =
-          task.assignedTo.toString() === req.user._id.toString() ||
-          task.createdBy.toString() === req.user._id.toString();
-        if (!hasAccess) {
-          return res.status(403).json({ message: 'Access denied' });
-        }
+      if (!req.user || !canAccessTask(req.user, task)) {
+        return res.status(403).json({ message: 'Access denied' });
       }
 
       if (!req.files || (req.files as Express.Multer.File[]).length === 0) {
@@ -484,7 +1089,8 @@ router.post(
         .populate('assignedTo', 'name email')
         .populate('customer', 'companyName')
         .populate('createdBy', 'name email')
-        .populate('comments.author', 'name');
+        .populate('comments.author', 'name')
+        .populate('comments.reactions.users', 'name');
 
       // Log activity
       if (req.user) {
@@ -499,6 +1105,8 @@ router.post(
         }
       }
 
+      publishTaskChange(task, 'updated');
+
       res.json({
         message: 'Files uploaded successfully',
         task: populatedTask,
@@ -523,14 +1131,8 @@ router.delete('/:taskId/attachments/:attachmentId', async (req: AuthRequest, res
       return res.status(404).json({ message: 'Task not found' });
     }
 
-    // Check permissions
-    if (req.user?.role === 'user') {
-      const hasAccess =
-        task.assignedTo.toString() === req.user._id.toString() ||
-        task.createdBy.toString() === req.user._id.toString();
-      if (!hasAccess) {
-        return res.status(403).json({ message: 'Access denied' });
-      }
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
     }
 
     const attachment = task.attachments.find(
@@ -559,7 +1161,10 @@ router.delete('/:taskId/attachments/:attachmentId', async (req: AuthRequest, res
       .populate('assignedTo', 'name email')
       .populate('customer', 'companyName')
       .populate('createdBy', 'name email')
-      .populate('comments.author', 'name');
+      .populate('comments.author', 'name')
+      .populate('comments.reactions.users', 'name');
+
+    publishTaskChange(task, 'updated');
 
     res.json({
       message: 'Attachment deleted successfully',
@@ -574,34 +1179,616 @@ router.delete('/:taskId/attachments/:attachmentId', async (req: AuthRequest, res
   }
 });
 
-// Update task status
-router.patch('/:id/status', canAccessTask, [
-  body('status').isIn(['pending', 'in-progress', 'completed']).withMessage('Invalid status')
+// Populated task returned by the subtask, checklist and status routes
+const findPopulatedTask = (taskId: string) => Task.findById(taskId)
+  .populate('assignedTo', 'name email')
+  .populate('customer', 'companyName')
+  .populate('category', 'name workflow')
+  .populate('createdBy', 'name email')
+  .populate('comments.author', 'name')
+  .populate('comments.reactions.users', 'name')
+  .populate('subtasks.assignedTo', 'name email');
+
+// Checks a subtask assignee, returning an error message or null.
+// Regular users may only assign subtasks to themselves.
+const checkSubtaskAssignee = async (user: IUser, assigneeId: string): Promise<string | null> => {
+  if (user.role === 'user' && assigneeId !== user._id.toString()) {
+    return 'Only admins and managers can assign subtasks to other users';
+  }
+
+  const assignee = await User.findById(assigneeId);
+  if (!assignee || !assignee.isActive) {
+    return 'Invalid assigned user';
+  }
+
+  return null;
+};
+
+// Add a subtask to a task
+router.post('/:id/subtasks', [
+  body('title')
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Subtask title must be between 1 and 200 characters'),
+  body('assignedTo')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid assigned user ID'),
+  body('dueDate')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Invalid due date format')
 ], async (req: AuthRequest, res: Response) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
-      return res.status(400).json({ message: 'Validation failed', errors: errors.array() });
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const task = await Task.findById(req.params.id);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
     }
 
-    const { status } = req.body;
-    const task = req.task!;
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
 
-    task.status = status;
+    if (task.status === 'completed') {
+      return res.status(400).json({ message: 'Reopen the task before adding subtasks' });
+    }
+
+    const { title, dueDate } = req.body;
+    const assignedTo = req.body.assignedTo || task.assignedTo.toString();
+
+    const assigneeError = await checkSubtaskAssignee(req.user, assignedTo);
+    if (assigneeError) {
+      return res.status(400).json({ message: assigneeError });
+    }
+
+    task.subtasks.push({ title, assignedTo, dueDate: dueDate || undefined });
     await task.save();
 
-    // Log activity
+    const subtask = task.subtasks[task.subtasks.length - 1];
+
+    if (assignedTo !== req.user._id.toString()) {
+      await createNotification({
+        user: subtask.assignedTo,
+        type: 'NEW_TASK',
+        message: `${req.user.name} assigned you the subtask "${subtask.title}" on the task "${task.title}".`,
+        link: `/tasks/${task._id}`,
+        related: { model: 'Task', id: task._id },
+      });
+    }
+
+    logActivity({
+      user: req.user._id,
+      action: 'ADD_SUBTASK',
+      entity: 'Task',
+      entityId: task._id,
+      details: { title: task.title, subtask: subtask.title, assignedTo }
+    });
+
+    const populatedTask = await findPopulatedTask(task._id);
+
+    publishTaskChange(task, 'updated');
+
+    res.status(201).json({ message: 'Subtask added successfully', task: populatedTask });
+  } catch (error) {
+    console.error('Add subtask error:', error);
+    res.status(500).json({ message: 'Failed to add subtask', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Update a subtask
+router.put('/:id/subtasks/:subtaskId', [
+  body('title')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Subtask title must be between 1 and 200 characters'),
+  body('assignedTo')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid assigned user ID'),
+  body('status')
+    .optional()
+    .isIn(['todo', 'in-progress', 'completed'])
+    .withMessage('Invalid status'),
+  body('dueDate')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Invalid due date format')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const task = await Task.findById(req.params.id);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const subtask = task.subtasks.id(req.params.subtaskId);
+    if (!subtask) {
+      return res.status(404).json({ message: 'Subtask not found' });
+    }
+
+    const { title, assignedTo, status, dueDate } = req.body;
+    const previousAssignee = subtask.assignedTo.toString();
+
+    if (status && status !== 'completed' && task.status === 'completed') {
+      return res.status(400).json({ message: 'Reopen the task before reopening its subtasks' });
+    }
+
+    if (assignedTo && assignedTo !== previousAssignee) {
+      const assigneeError = await checkSubtaskAssignee(req.user, assignedTo);
+      if (assigneeError) {
+        return res.status(400).json({ message: assigneeError });
+      }
+      subtask.assignedTo = assignedTo;
+    }
+
+    if (title !== undefined) subtask.title = title;
+    if (dueDate !== undefined) subtask.dueDate = dueDate || undefined;
+    if (status && status !== subtask.status) {
+      subtask.status = status;
+      subtask.completedAt = status === 'completed' ? new Date() : undefined;
+    }
+
+    await task.save();
+
+    const newAssignee = subtask.assignedTo.toString();
+    if (newAssignee !== previousAssignee && newAssignee !== req.user._id.toString()) {
+      await createNotification({
+        user: subtask.assignedTo,
+        type: 'NEW_TASK',
+        message: `${req.user.name} assigned you the subtask "${subtask.title}" on the task "${task.title}".`,
+        link: `/tasks/${task._id}`,
+        related: { model: 'Task', id: task._id },
+      });
+    }
+
+    logActivity({
+      user: req.user._id,
+      action: 'UPDATE_SUBTASK',
+      entity: 'Task',
+      entityId: task._id,
+      details: {
+        title: task.title,
+        subtask: subtask.title,
+        updatedFields: ['title', 'assignedTo', 'status', 'dueDate'].filter(field => req.body[field] !== undefined),
+        ...(status && { status })
+      }
+    });
+
+    const populatedTask = await findPopulatedTask(task._id);
+
+    publishTaskChange(task, 'updated');
+
+    res.json({ message: 'Subtask updated successfully', task: populatedTask });
+  } catch (error) {
+    console.error('Update subtask error:', error);
+    res.status(500).json({ message: 'Failed to update subtask', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Delete a subtask
+router.delete('/:id/subtasks/:subtaskId', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await Task.findById(req.params.id);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const subtask = task.subtasks.id(req.params.subtaskId);
+    if (!subtask) {
+      return res.status(404).json({ message: 'Subtask not found' });
+    }
+
+    subtask.deleteOne();
+    await task.save();
+
+    logActivity({
+      user: req.user._id,
+      action: 'DELETE_SUBTASK',
+      entity: 'Task',
+      entityId: task._id,
+      details: { title: task.title, subtask: subtask.title }
+    });
+
+    const populatedTask = await findPopulatedTask(task._id);
+
+    publishTaskChange(task, 'updated');
+
+    res.json({ message: 'Subtask deleted successfully', task: populatedTask });
+  } catch (error) {
+    console.error('Delete subtask error:', error);
+    res.status(500).json({ message: 'Failed to delete subtask', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Add a checklist item to a task
+router.post('/:id/checklist', [
+  body('text')
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Checklist item must be between 1 and 200 characters')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const task = await Task.findById(req.params.id);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    if (task.status === 'completed') {
+      return res.status(400).json({ message: 'Reopen the task before adding checklist items' });
+    }
+
+    task.checklist.push({ text: req.body.text });
+    await task.save();
+
+    logActivity({
+      user: req.user._id,
+      action: 'ADD_CHECKLIST_ITEM',
+      entity: 'Task',
+      entityId: task._id,
+      details: { title: task.title, item: req.body.text }
+    });
+
+    const populatedTask = await findPopulatedTask(task._id);
+
+    publishTaskChange(task, 'updated');
+
+    res.status(201).json({ message: 'Checklist item added successfully', task: populatedTask });
+  } catch (error) {
+    console.error('Add checklist item error:', error);
+    res.status(500).json({ message: 'Failed to add checklist item', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Update (rename or tick/untick) a checklist item
+router.put('/:id/checklist/:itemId', [
+  body('text')
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Checklist item must be between 1 and 200 characters'),
+  body('isDone')
+    .optional()
+    .isBoolean()
+    .withMessage('isDone must be a boolean')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const task = await Task.findById(req.params.id);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const item = task.checklist.id(req.params.itemId);
+    if (!item) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+
+    const { text, isDone } = req.body;
+
+    if (isDone === false && task.status === 'completed') {
+      return res.status(400).json({ message: 'Reopen the task before unchecking its checklist items' });
+    }
+
+    if (text !== undefined) item.text = text;
+    if (isDone !== undefined && isDone !== item.isDone) {
+      item.isDone = isDone;
+      item.doneBy = isDone ? req.user._id : undefined;
+      item.doneAt = isDone ? new Date() : undefined;
+    }
+
+    await task.save();
+
+    logActivity({
+      user: req.user._id,
+      action: 'UPDATE_CHECKLIST_ITEM',
+      entity: 'Task',
+      entityId: task._id,
+      details: { title: task.title, item: item.text, ...(isDone !== undefined && { isDone }) }
+    });
+
+    const populatedTask = await findPopulatedTask(task._id);
+
+    publishTaskChange(task, 'updated');
+
+    res.json({ message: 'Checklist item updated successfully', task: populatedTask });
+  } catch (error) {
+    console.error('Update checklist item error:', error);
+    res.status(500).json({ message: 'Failed to update checklist item', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Delete a checklist item
+router.delete('/:id/checklist/:itemId', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await Task.findById(req.params.id);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const item = task.checklist.id(req.params.itemId);
+    if (!item) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+
+    item.deleteOne();
+    await task.save();
+
+    logActivity({
+      user: req.user._id,
+      action: 'DELETE_CHECKLIST_ITEM',
+      entity: 'Task',
+      entityId: task._id,
+      details: { title: task.title, item: item.text }
+    });
+
+    const populatedTask = await findPopulatedTask(task._id);
+
+    publishTaskChange(task, 'updated');
+
+    res.json({ message: 'Checklist item deleted successfully', task: populatedTask });
+  } catch (error) {
+    console.error('Delete checklist item error:', error);
+    res.status(500).json({ message: 'Failed to delete checklist item', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Get a task's prerequisites (blocked by) and the tasks waiting on it (blocks)
+router.get('/:id/dependencies', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await Task.findById(req.params.id)
+      .populate({ path: 'blockedBy', select: 'title status dueDate assignedTo', populate: { path: 'assignedTo', select: 'name' } });
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const blocks = await Task.find({ blockedBy: task._id })
+      .select('title status dueDate assignedTo isBlocked')
+      .populate('assignedTo', 'name');
+
+    res.json({ isBlocked: task.isBlocked, blockedBy: task.blockedBy, blocks });
+  } catch (error) {
+    console.error('Get task dependencies error:', error);
+    res.status(500).json({ message: 'Failed to fetch task dependencies', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Mark a task as blocked by another task
+router.post('/:id/dependencies', authorize('admin', 'manager'), [
+  body('taskId')
+    .isMongoId()
+    .withMessage('Invalid prerequisite task ID')
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const task = await Task.findById(req.params.id);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    const prerequisite = await Task.findById(req.body.taskId);
+    if (!prerequisite) {
+      return res.status(404).json({ message: 'Prerequisite task not found' });
+    }
+
+    if (task._id.equals(prerequisite._id)) {
+      return res.status(400).json({ message: 'A task cannot block itself' });
+    }
+
+    if (task.blockedBy.some(id => id.equals(prerequisite._id))) {
+      return res.status(400).json({ message: 'This dependency already exists' });
+    }
+
+    if (await dependsOn(prerequisite._id, task._id)) {
+      return res.status(400).json({ message: 'This dependency would create a cycle' });
+    }
+
+    await Task.updateOne({ _id: task._id }, { $addToSet: { blockedBy: prerequisite._id } });
+    await updateBlockedState([task._id]);
+
+    if (req.user) {
+      logActivity({
+        user: req.user._id,
+        action: 'ADD_DEPENDENCY',
+        entity: 'Task',
+        entityId: task._id,
+        details: { title: task.title, blockedBy: prerequisite._id, blockedByTitle: prerequisite.title }
+      });
+    }
+
+    const updatedTask = await Task.findById(task._id).select('isBlocked blockedBy');
+
+    publishTaskChange(task, 'updated');
+
+    res.status(201).json({ message: 'Dependency added successfully', isBlocked: updatedTask?.isBlocked, blockedBy: updatedTask?.blockedBy });
+  } catch (error) {
+    console.error('Add task dependency error:', error);
+    res.status(500).json({ message: 'Failed to add dependency', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Remove a prerequisite from a task
+router.delete('/:id/dependencies/:prerequisiteId', authorize('admin', 'manager'), async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await Task.findById(req.params.id);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    const prerequisiteId = req.params.prerequisiteId;
+    if (!task.blockedBy.some(id => id.toString() === prerequisiteId)) {
+      return res.status(404).json({ message: 'Dependency not found' });
+    }
+
+    await Task.updateOne({ _id: task._id }, { $pull: { blockedBy: prerequisiteId } });
+    await updateBlockedState([task._id]);
+
     if (req.user) {
       logActivity({
         user: req.user._id,
-        action: 'UPDATE_TASK_STATUS',
+        action: 'REMOVE_DEPENDENCY',
         entity: 'Task',
         entityId: task._id,
-        details: { status: task.status }
+        details: { title: task.title, blockedBy: prerequisiteId }
       });
     }
 
-    res.json({ message: 'Task status updated successfully', task });
+    const updatedTask = await Task.findById(task._id).select('isBlocked blockedBy');
+
+    publishTaskChange(task, 'updated');
+
+    res.json({ message: 'Dependency removed successfully', isBlocked: updatedTask?.isBlocked, blockedBy: updatedTask?.blockedBy });
+  } catch (error) {
+    console.error('Remove task dependency error:', error);
+    res.status(500).json({ message: 'Failed to remove dependency', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+// Move a task through its category's workflow. Accepts a target workflow status
+// (`workflowStatus`) or just a stage (`status`, e.g. from a board column), plus the
+// `comment` / `resolution` a transition may require.
+router.patch('/:id/status', [
+  body('status')
+    .optional()
+    .isIn(['todo', 'in-progress', 'completed'])
+    .withMessage('Invalid status'),
+  ...transitionValidation
+], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ message: 'Validation failed', errors: errors.array() });
+    }
+
+    const task = await Task.findById(req.params.id);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!req.user || !canAccessTask(req.user, task)) {
+      return res.status(403).json({ message: 'Access denied' });
+    }
+
+    const plan = await planStatusChange(task, req.user, req.body);
+    if (!plan.ok) {
+      return res.status(plan.statusCode).json({ message: plan.message, requiredFields: plan.requiredFields });
+    }
+
+    if (plan.to) {
+      const previousValues = { status: task.status, workflowStatus: plan.from.key, resolution: task.resolution };
+
+      applyStatusChange(task, plan.to, req.body, req.user._id);
+      await task.save();
+
+      if (task.status !== previousValues.status) {
+        try {
+          await handleStatusChange(task);
+        } catch (error) {
+          console.error('Failed to process task status change:', error);
+        }
+      }
+
+      if (task.assignedTo.toString() !== req.user._id.toString()) {
+        await createNotification({
+          user: task.assignedTo,
+          type: 'TASK_UPDATED',
+          message: `The task "${task.title}" has been moved to "${plan.to.name}" by ${req.user.name}.`,
+          link: `/tasks/${task._id}`,
+          related: { model: 'Task', id: task._id },
+        });
+      }
+
+      // Log activity
+      const updatedFields = ['status', 'workflowStatus', ...(req.body.resolution !== undefined ? ['resolution'] : [])];
+      logActivity({
+        user: req.user._id,
+        action: 'UPDATE_TASK',
+        entity: 'Task',
+        entityId: task._id,
+        details: {
+          title: task.title,
+          updatedFields,
+          previousValues: Object.fromEntries(updatedFields.map(field => [field, previousValues[field as keyof typeof previousValues]])),
+          newValues: { status: task.status, workflowStatus: task.workflowStatus, resolution: task.resolution },
+          transition: { from: plan.from.name, to: plan.to.name }
+        }
+      });
+    }
+
+    const populatedTask = await findPopulatedTask(task._id);
+
+    publishTaskChange(task, 'updated');
+
+    res.json({ message: 'Task status updated successfully', task: populatedTask });
 
   } catch (error) {
     console.error('Update task status error:', error);
@@ -610,7 +1797,7 @@ router.patch('/:id/status', canAccessTask, [
 });
 
 // Delete task
-router.delete('/:id', authorize(['admin', 'manager']), async (req: AuthRequest, res: Response) => {
+router.delete('/:id', authorize('admin', 'manager'), async (req: AuthRequest, res: Response) => {
   try {
     const taskId = req.params.id;
     const task = await Task.findById(taskId);
@@ -634,6 +1821,20 @@ router.delete('/:id', authorize(['admin', 'manager']), async (req: AuthRequest,
 
     await Task.findByIdAndDelete(taskId);
 
+    // Tasks that were waiting on this one may now be unblocked
+    const dependents = await Task.find({ blockedBy: task._id }).select('_id');
+    if (dependents.length > 0) {
+      await Task.updateMany({ blockedBy: task._id }, { $pull: { blockedBy: task._id } });
+      await updateBlockedState(dependents.map(dependent => dependent._id), task);
+    }
+
+    // The call keeps its follow-up, which can get a new task
+    if (task.sourceCall) {
+      await Call.updateOne({ _id: task.sourceCall, followUpTask: task._id }, { followUpTask: null });
+    }
+
+    publishTaskChange(task, 'deleted');
+
     res.json({ message: 'Task deleted successfully' });
   } catch (error) {
     console.error('Delete task error:', error);
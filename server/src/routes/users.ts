@@ -2,6 +2,11 @@ import express from 'express';
 import { body, validationResult } from 'express-validator';
 import User from '../models/User.js';
 import { authenticate, authorize, AuthRequest } from '../middleware/auth.js';
+import { revokeUserSessions } from '../utils/sessions.js';
+import { disableTwoFactor } from '../utils/twoFactor.js';
+import { logActivity } from '../utils/activityLogger.js';
+import { clearFailedLogins } from '../utils/loginLockout.js';
+import { restartEmailVerification } from '../utils/accountTokens.js';
 import { Response } from 'express';
 
 const router = express.Router();
@@ -191,6 +196,11 @@ router.put('/:id', [
         });
       }
       updates.email = email;
+      // A new address has to be verified before it can be used to sign in
+      if (!(await User.exists({ _id: userId, email }))) {
+        updates.emailVerified = false;
+        updates.emailVerifiedAt = null;
+      }
     }
 
     if (req.user?.role === 'admin') {
@@ -208,6 +218,20 @@ router.put('/:id', [
       return res.status(404).json({ message: 'User not found' });
     }
 
+    // A deactivated user is signed out everywhere straight away
+    if (updates.isActive !== undefined && !user.isActive) {
+      await revokeUserSessions(user._id, 'deactivated');
+    }
+
+    if (updates.emailVerified === false) {
+      const verificationSent = await restartEmailVerification(user);
+      return res.json({
+        message: 'User updated. The new email address has to be verified before it can be used to sign in.',
+        verificationSent,
+        user: user.toJSON()
+      });
+    }
+
     res.json({
       message: 'User updated successfully',
       user: user.toJSON()
@@ -238,6 +262,7 @@ router.delete('/:id', authorize('admin'), async (req: AuthRequest, res: Response
     // Soft delete by setting isActive to false
     user.isActive = false;
     await user.save();
+    await revokeUserSessions(user._id, 'deactivated');
 
     res.json({ message: 'User deactivated successfully' });
   } catch (error) {
@@ -249,4 +274,73 @@ router.delete('/:id', authorize('admin'), async (req: AuthRequest, res: Response
   }
 });
 
+// Unlock an account that too many failed logins locked
+router.post('/:id/unlock', authorize('admin'), async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    await clearFailedLogins(user._id);
+    logActivity({
+      user: req.user?._id,
+      action: 'UNLOCK_ACCOUNT',
+      entity: 'User',
+      entityId: user._id,
+      details: { name: user.name, email: user.email }
+    });
+
+    const updatedUser = await User.findById(user._id);
+    res.json({
+      message: 'Account unlocked successfully',
+      user: updatedUser?.toJSON()
+    });
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    res.status(500).json({
+      message: 'Failed to unlock user',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Turn off a user's two-factor authentication when they have lost both their
+// authenticator and their recovery codes. If their role requires it, they set
+// it up again at their next login.
+router.delete('/:id/two-factor', authorize('admin'), async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!user.twoFactor?.enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled for this user' });
+    }
+
+    const updatedUser = await disableTwoFactor(user._id);
+    logActivity({
+      user: req.user?._id,
+      action: 'RESET_TWO_FACTOR',
+      entity: 'User',
+      entityId: user._id,
+      details: { name: user.name, email: user.email }
+    });
+
+    res.json({
+      message: 'Two-factor authentication reset successfully',
+      user: updatedUser?.toJSON()
+    });
+  } catch (error) {
+    console.error('Reset two-factor error:', error);
+    res.status(500).json({
+      message: 'Failed to reset two-factor authentication',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export default router;
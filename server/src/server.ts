@@ -1,5 +1,6 @@
 import express from 'express';
 import cors from 'cors';
+import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 import { connectDB } from './config/database.js';
 import authRoutes from './routes/auth.js';
@@ -10,14 +11,35 @@ import callRoutes from './routes/calls.js';
 import notificationRoutes from './routes/notifications.js';
 import taskCategoryRoutes from './routes/taskCategories.js';
 import searchRoutes from './routes/search.js';
+import activityLogRoutes from './routes/activityLogs.js';
+import settingsRoutes from './routes/settings.js';
+import slaRoutes from './routes/sla.js';
+import eventRoutes from './routes/events.js';
 import { scheduleTaskReminders } from './jobs/reminders.js';
+import { scheduleRecurringTasks } from './jobs/recurringTasks.js';
+import { scheduleNotificationDigests } from './jobs/notificationDigest.js';
+import { scheduleTaskEscalations } from './jobs/escalations.js';
+import { scheduleSlaMonitor } from './jobs/sla.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { eventStreamLimiter, readLimiter, searchLimiter, writeLimiter } from './middleware/rateLimit.js';
 
 dotenv.config();
 
+// Tokens signed with the development fallback secret could be forged by anyone
+if (process.env.NODE_ENV === 'production' && !process.env.JWT_SECRET) {
+  console.error('❌ JWT_SECRET must be set in production');
+  process.exit(1);
+}
+
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Behind a reverse proxy, rate limits need the client's IP rather than the proxy's (e.g. TRUST_PROXY=1 for one hop)
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 // Connect to MongoDB
 connectDB();
 
@@ -52,16 +74,22 @@ app.options('*', cors(corsOptions)); // Enable pre-flight request for all routes
 app.use(cors(corsOptions));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
+app.use(cookieParser());
 
-// Routes
-app.use('/api/auth', authRoutes);
-app.use('/api/users', userRoutes);
-app.use('/api/tasks', taskRoutes);
-app.use('/api/customers', customerRoutes);
-app.use('/api/calls', callRoutes);
-app.use('/api/notifications', notificationRoutes);
-app.use('/api/task-categories', taskCategoryRoutes);
-app.use('/api/search', searchRoutes);
+// Routes share a budget for writes (auth endpoints also have their own, stricter limits);
+// activity logs and the event stream count reads too
+app.use('/api/auth', writeLimiter, authRoutes);
+app.use('/api/users', writeLimiter, userRoutes);
+app.use('/api/tasks', writeLimiter, taskRoutes);
+app.use('/api/customers', writeLimiter, customerRoutes);
+app.use('/api/calls', writeLimiter, callRoutes);
+app.use('/api/notifications', writeLimiter, notificationRoutes);
+app.use('/api/task-categories', writeLimiter, taskCategoryRoutes);
+app.use('/api/search', searchLimiter, searchRoutes);
+app.use('/api/activity-logs', readLimiter, activityLogRoutes);
+app.use('/api/settings', writeLimiter, settingsRoutes);
+app.use('/api/sla', writeLimiter, slaRoutes);
+app.use('/api/events', eventStreamLimiter, eventRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -74,5 +102,9 @@ app.use(errorHandler);
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   scheduleTaskReminders();
+  scheduleRecurringTasks();
+  scheduleNotificationDigests();
+  scheduleTaskEscalations();
+  scheduleSlaMonitor();
   console.log(` API Health Check: http://localhost:${PORT}/api/health`);
 });
\ No newline at end of file
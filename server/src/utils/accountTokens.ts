@@ -0,0 +1,115 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import UserToken, { UserTokenPurpose } from '../models/UserToken.js';
+import User, { IUser } from '../models/User.js';
+import { appUrl, escapeHtml, isMailConfigured, sendMail } from './mailer.js';
+import { getJwtSecret } from './sessions.js';
+
+// How long an emailed link works, in seconds
+const TOKEN_TTL: Record<UserTokenPurpose, number> = {
+  'password-reset': 60 * 60,
+  'email-verification': 24 * 60 * 60,
+};
+
+/**
+ * Signs a single-use token for `user`. The purpose is the token's audience, so
+ * a verification link can't reset a password. Asking again voids earlier links.
+ */
+export const createAccountToken = async (user: IUser, purpose: UserTokenPurpose): Promise<string> => {
+  await UserToken.deleteMany({ user: user._id, purpose });
+  const record = await UserToken.create({
+    user: user._id,
+    purpose,
+    expiresAt: new Date(Date.now() + TOKEN_TTL[purpose] * 1000)
+  });
+  return jwt.sign({ userId: user._id }, getJwtSecret(), {
+    audience: purpose,
+    jwtid: record._id.toString(),
+    expiresIn: TOKEN_TTL[purpose]
+  });
+};
+
+/**
+ * Checks a token and marks it used. Returns its user, or null when the token
+ * is invalid, expired, already used or its user is no longer active.
+ */
+export const consumeAccountToken = async (token: string, purpose: UserTokenPurpose): Promise<IUser | null> => {
+  let payload: jwt.JwtPayload;
+  try {
+    payload = jwt.verify(token, getJwtSecret(), { audience: purpose, algorithms: ['HS256'] }) as jwt.JwtPayload;
+  } catch {
+    return null;
+  }
+
+  if (!payload.jti || !mongoose.isValidObjectId(payload.jti)) {
+    return null;
+  }
+
+  // Conditional on it being unused, so two requests with the same link can't both succeed
+  const record = await UserToken.findOneAndUpdate(
+    { _id: payload.jti, user: payload.userId, purpose, usedAt: null, expiresAt: { $gt: new Date() } },
+    { usedAt: new Date() }
+  );
+  if (!record) {
+    return null;
+  }
+
+  const user = await User.findById(record.user);
+  return user && user.isActive ? user : null;
+};
+
+// Without SMTP, development prints the link instead so the flow can still be tried out
+const sendAccountEmail = async (user: IUser, subject: string, intro: string, action: string, url: string) => {
+  if (!isMailConfigured() && process.env.NODE_ENV !== 'production') {
+    console.log(`[Account email] ${subject} for ${user.email}: ${url}`);
+    return;
+  }
+
+  await sendMail({
+    to: user.email,
+    subject: `[Better Tasks] ${subject}`,
+    text: `Hi ${user.name},\n\n${intro}\n\n${action}: ${url}\n\nIf you didn't ask for this, you can ignore this email.\n`,
+    html: `<p>Hi ${escapeHtml(user.name)},</p>`
+      + `<p>${escapeHtml(intro)}</p>`
+      + `<p><a href="${escapeHtml(url)}">${escapeHtml(action)}</a></p>`
+      + `<p>If you didn't ask for this, you can ignore this email.</p>`,
+  });
+};
+
+export const sendPasswordResetEmail = async (user: IUser): Promise<void> => {
+  const token = await createAccountToken(user, 'password-reset');
+  await sendAccountEmail(
+    user,
+    'Reset your password',
+    'Someone asked to reset the password of your Better Tasks account. The link works once, for the next hour.',
+    'Choose a new password',
+    `${appUrl()}/reset-password?token=${encodeURIComponent(token)}`
+  );
+};
+
+export const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  const token = await createAccountToken(user, 'email-verification');
+  await sendAccountEmail(
+    user,
+    'Verify your email address',
+    'Confirm your email address to finish setting up your Better Tasks account. The link works for the next 24 hours.',
+    'Verify my email address',
+    `${appUrl()}/verify-email?token=${encodeURIComponent(token)}`
+  );
+};
+
+/**
+ * After `user`'s email address changed (and was marked unverified): voids every
+ * link sent to the old address and sends a verification link to the new one.
+ * Returns whether that email went out; it can be sent again from the login page.
+ */
+export const restartEmailVerification = async (user: IUser): Promise<boolean> => {
+  await UserToken.deleteMany({ user: user._id });
+  try {
+    await sendVerificationEmail(user);
+    return true;
+  } catch (error) {
+    console.error('Failed to send verification email:', error);
+    return false;
+  }
+};
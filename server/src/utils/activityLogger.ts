@@ -2,7 +2,7 @@ import Activity, { ActionType, EntityType, IActivity } from '../models/Activity.
 import mongoose from 'mongoose';
 
 interface ActivityLogData {
-  user: mongoose.Types.ObjectId;
+  user?: mongoose.Types.ObjectId;
   action: ActionType;
   entity: EntityType;
   entityId: mongoose.Types.ObjectId;
@@ -0,0 +1,171 @@
+import mongoose, { HydratedDocument } from 'mongoose';
+import Call, { ICall } from '../models/Call.js';
+import Customer from '../models/Customer.js';
+import Task, { ITask, TaskPriority } from '../models/Task.js';
+import { ITaskCategory } from '../models/TaskCategory.js';
+import User from '../models/User.js';
+import { createNotification } from './notifications.js';
+import { logActivity } from './activityLogger.js';
+import { publishCallChange, publishTaskChange } from './realtime.js';
+import { syncTaskSla } from './sla.js';
+import { getWorkflow } from './workflow.js';
+import { isValidTimezone } from './notificationPreferences.js';
+
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+export interface FollowUpTaskOptions {
+  category: HydratedDocument<ITaskCategory>;
+  priority?: TaskPriority;
+  createdBy: mongoose.Types.ObjectId;
+}
+
+/**
+ * Creates the task for a call's follow-up: assigned to whoever logged the
+ * call, due on the follow-up date and attached to the call's customer. The
+ * call and the task are linked both ways.
+ */
+export const createFollowUpTask = async (
+  call: HydratedDocument<ICall>,
+  { category, priority = 'medium', createdBy }: FollowUpTaskOptions
+): Promise<HydratedDocument<ITask>> => {
+  const customer = await Customer.findById(call.customer).select('companyName');
+  const workflow = getWorkflow(category);
+  const initialStatus = workflow.statuses.find(status => status.key === workflow.initialStatus)!;
+  const description = `Follow-up to the ${call.callType} call of ${call.createdAt.toISOString().slice(0, 10)}:\n\n${call.summary}`;
+
+  const task = new Task({
+    title: `Follow up with ${customer?.companyName ?? 'customer'}`,
+    description: description.slice(0, MAX_DESCRIPTION_LENGTH),
+    category: category._id,
+    priority,
+    dueDate: call.followUpDate,
+    assignedTo: call.user,
+    customer: call.customer,
+    status: initialStatus.stage,
+    workflowStatus: initialStatus.key,
+    sourceCall: call._id,
+    createdBy
+  });
+  await task.save();
+  await syncTaskSla(task, { reassign: true });
+
+  call.followUpTask = task._id;
+  await Call.updateOne({ _id: call._id }, { followUpTask: task._id });
+
+  if (!createdBy.equals(call.user)) {
+    const creator = await User.findById(createdBy).select('name');
+    await createNotification({
+      user: call.user,
+      type: 'NEW_TASK',
+      message: `You have been assigned a new task: "${task.title}" by ${creator?.name ?? 'a manager'}.`,
+      link: `/tasks/${task._id}`,
+      related: { model: 'Task', id: task._id },
+    });
+  }
+
+  logActivity({
+    user: createdBy,
+    action: 'CREATE_TASK',
+    entity: 'Task',
+    entityId: task._id,
+    details: { title: task.title, sourceCall: call._id }
+  });
+  publishTaskChange(task, 'created');
+
+  return task;
+};
+
+/**
+ * Moves an open follow-up task to the call's new follow-up date. Like any due
+ * date change, this restarts the task's escalation and is logged on the task.
+ */
+export const syncFollowUpDueDate = async (call: ICall, user: mongoose.Types.ObjectId): Promise<void> => {
+  if (!call.followUpTask || !call.followUpDate) {
+    return;
+  }
+
+  const newValues = { dueDate: call.followUpDate, escalationLevel: 0, escalatedAt: null };
+  const previous = await Task.findOneAndUpdate(
+    { _id: call.followUpTask, status: { $ne: 'completed' }, dueDate: { $ne: call.followUpDate } },
+    newValues
+  );
+  if (!previous) {
+    return;
+  }
+
+  const updatedFields = Object.keys(newValues) as (keyof typeof newValues)[];
+  logActivity({
+    user,
+    action: 'UPDATE_TASK',
+    entity: 'Task',
+    entityId: previous._id,
+    details: {
+      updatedFields,
+      previousValues: Object.fromEntries(updatedFields.map(field => [field, previous[field]])),
+      newValues,
+      sourceCall: call._id
+    }
+  });
+  publishTaskChange(previous, 'updated');
+};
+
+// Completing a follow-up task completes the follow-up of the call it came from
+export const completeCallFollowUp = async (task: ITask): Promise<void> => {
+  if (!task.sourceCall) {
+    return;
+  }
+
+  const call = await Call.findOneAndUpdate(
+    { _id: task.sourceCall, followUpTask: task._id, followUpRequired: true },
+    { followUpRequired: false },
+    { new: true }
+  );
+  if (call) {
+    publishCallChange(call, 'updated');
+  }
+};
+
+// How far the timezone's wall clock is ahead of UTC at `date`, in milliseconds
+const getTimezoneOffset = (timezone: string, date: Date): number => {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date).map(part => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Midnight at the end of `now`'s day in the timezone
+const getEndOfDay = (timezone: string, now: Date): Date => {
+  const zone = isValidTimezone(timezone) ? timezone : 'UTC';
+  const local = new Date(now.getTime() + getTimezoneOffset(zone, now));
+  const midnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate() + 1);
+  // The offset at midnight itself can differ from now's across a DST change
+  const guess = new Date(midnight - getTimezoneOffset(zone, now));
+  return new Date(midnight - getTimezoneOffset(zone, guess));
+};
+
+/**
+ * Calls with a pending follow-up, soonest first, grouped by when the follow-up
+ * is due: already past, later today (in the user's timezone) or after today.
+ */
+export const getFollowUpQueue = async (filter: Record<string, unknown>, timezone: string, now = new Date()) => {
+  const calls = await Call.find({ ...filter, followUpRequired: true })
+    .populate('customer', 'companyName contacts')
+    .populate('user', 'name email')
+    .populate('followUpTask', 'title status dueDate')
+    .sort({ followUpDate: 1 });
+
+  const endOfDay = getEndOfDay(timezone, now);
+  return {
+    overdue: calls.filter(call => call.followUpDate! < now),
+    today: calls.filter(call => call.followUpDate! >= now && call.followUpDate! < endOfDay),
+    upcoming: calls.filter(call => call.followUpDate! >= endOfDay),
+  };
+};
@@ -0,0 +1,381 @@
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import Customer from '../models/Customer.js';
+import { logActivity } from './activityLogger.js';
+
+// Larger files should be split; every row is validated and previewed
+export const MAX_IMPORT_ROWS = 1000;
+
+// A spreadsheet row keyed by its normalized column header
+type SheetRow = { row: number; values: Record<string, string> };
+
+export interface ImportedContact {
+  name: string;
+  email: string;
+  phone: string;
+  designation: string;
+  isPrimary: boolean;
+}
+
+export interface ImportedCustomer {
+  companyName: string;
+  companyType: string;
+  gst?: string;
+  url?: string;
+  installationDate?: Date;
+  notes?: string;
+  contacts: ImportedContact[];
+  address?: {
+    street?: string;
+    city?: string;
+    state?: string;
+    zipCode?: string;
+    country?: string;
+  };
+}
+
+// Another customer, in the database or earlier in the file, with the same company name or contact email
+export interface ImportDuplicate {
+  field: 'companyName' | 'email';
+  value: string;
+  customer?: { _id: mongoose.Types.ObjectId; companyName: string };
+  row?: number;
+}
+
+export interface ImportRowResult {
+  row: number;
+  status: 'valid' | 'invalid' | 'duplicate';
+  customer: ImportedCustomer;
+  errors: string[];
+  duplicates: ImportDuplicate[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Accepted column headers (after normalizing) for each customer field
+const columnAliases: Record<string, string[]> = {
+  companyName: ['companyname', 'company', 'customer', 'customername'],
+  companyType: ['companytype', 'type', 'industry'],
+  gst: ['gst', 'gstin', 'gstnumber'],
+  url: ['url', 'website'],
+  installationDate: ['installationdate', 'installed', 'installedon'],
+  notes: ['notes', 'note', 'remarks'],
+  street: ['street', 'address', 'streetaddress', 'addressstreet'],
+  city: ['city', 'addresscity'],
+  state: ['state', 'addressstate'],
+  zipCode: ['zipcode', 'zip', 'pincode', 'postalcode', 'postcode', 'addresszipcode'],
+  country: ['country', 'addresscountry'],
+};
+
+// Contacts come from numbered columns ("Contact 1 Email", "Contact 2 Phone"); unnumbered ones are the first contact
+const CONTACT_COLUMN = /^contact(\d*)(name|email|phone|mobile|designation|title|primary)$/;
+const contactFields: Record<string, keyof ImportedContact> = {
+  name: 'name',
+  email: 'email',
+  phone: 'phone',
+  mobile: 'phone',
+  designation: 'designation',
+  title: 'designation',
+  primary: 'isPrimary',
+};
+const SHORT_CONTACT_COLUMNS: Record<string, string> = {
+  email: 'contact1email',
+  phone: 'contact1phone',
+  mobile: 'contact1phone',
+  designation: 'contact1designation',
+};
+
+/**
+ * Splits CSV text into rows of cells. Quoted cells may contain separators,
+ * line breaks and doubled quotes; semicolon-separated files (as exported by
+ * Excel in some locales) are detected from the header line.
+ */
+const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.slice(0, content.search(/\r?\n|$/));
+  const separator = (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * The cells of the first worksheet; dates become ISO strings, everything else
+ * its displayed text. The file is streamed and reading stops once it has more
+ * rows than can be imported, so an oversized sheet is never loaded whole.
+ */
+const parseXlsx = async (buffer: Buffer): Promise<string[][]> => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(Readable.from(buffer), {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    styles: 'cache', // needed to recognize date cells
+    hyperlinks: 'ignore',
+  });
+
+  const rows: string[][] = [];
+  for await (const sheet of workbook) {
+    // The header row plus one more than the limit is enough to reject the file
+    let filledRows = 0;
+    for await (const sheetRow of sheet) {
+      const cells: string[] = [];
+      for (let column = 1; column <= sheetRow.cellCount; column++) {
+        const cell = sheetRow.getCell(column);
+        cells.push(cell.value instanceof Date ? cell.value.toISOString() : cell.text ?? '');
+      }
+      rows[sheetRow.number - 1] = cells;
+
+      if (cells.some(cell => cell.trim()) && ++filledRows > MAX_IMPORT_ROWS + 1) {
+        break;
+      }
+    }
+    break;
+  }
+
+  return Array.from(rows, cells => cells ?? []);
+};
+
+/**
+ * Reads a CSV or XLSX file into rows keyed by normalized column header, or
+ * says why it can't be imported. Row numbers match the spreadsheet, so errors
+ * can point at the right line.
+ */
+export const readCustomerSheet = async (buffer: Buffer, filename: string): Promise<{ rows: SheetRow[]; error: string | null }> => {
+  let cells: string[][];
+  try {
+    cells = /\.xlsx$/i.test(filename) ? await parseXlsx(buffer) : parseCsv(buffer.toString('utf8'));
+  } catch {
+    return { rows: [], error: 'The file could not be read as a CSV or XLSX spreadsheet' };
+  }
+
+  const headerIndex = cells.findIndex(row => row.some(cell => cell.trim()));
+  if (headerIndex === -1) {
+    return { rows: [], error: 'The file is empty' };
+  }
+
+  const headers = cells[headerIndex].map(header => {
+    const normalized = normalizeHeader(header);
+    return SHORT_CONTACT_COLUMNS[normalized] ?? normalized;
+  });
+  if (!headers.some(header => columnAliases.companyName.includes(header))) {
+    return { rows: [], error: 'No company name column found; add a "Company Name" header' };
+  }
+
+  const rows = cells
+    .map((row, index) => ({
+      row: index + 1,
+      values: Object.fromEntries(headers.map((header, column) => [header, (row[column] ?? '').trim()]))
+    }))
+    .slice(headerIndex + 1)
+    .filter(({ values }) => Object.values(values).some(Boolean));
+
+  if (rows.length === 0) {
+    return { rows, error: 'The file has no customer rows' };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { rows: [], error: `A file can hold at most ${MAX_IMPORT_ROWS} customers; split it into smaller files` };
+  }
+
+  return { rows, error: null };
+};
+
+const pick = (values: Record<string, string>, field: string) =>
+  columnAliases[field].map(alias => values[alias]).find(Boolean) || undefined;
+
+const isTruthy = (value: string) => /^(y|yes|true|1|x)$/i.test(value);
+
+// Builds the customer a row describes, and the problems that can't be left to the schema
+const toCustomer = ({ values }: SheetRow): { customer: ImportedCustomer; errors: string[] } => {
+  const errors: string[] = [];
+
+  const contactsByNumber = new Map<number, Partial<Record<keyof ImportedContact, string>>>();
+  for (const [header, value] of Object.entries(values)) {
+    const match = CONTACT_COLUMN.exec(header);
+    if (!match || !value) continue;
+    const number = Number(match[1] || 1);
+    const contact = contactsByNumber.get(number) ?? {};
+    contact[contactFields[match[2]]] = value;
+    contactsByNumber.set(number, contact);
+  }
+  const contacts = [...contactsByNumber.entries()]
+    .filter(([, contact]) => contact.name || contact.email || contact.phone || contact.designation)
+    .sort(([a], [b]) => a - b)
+    .map(([, contact]) => ({
+      name: contact.name ?? '',
+      email: contact.email ?? '',
+      phone: (contact.phone ?? '').replace(/[\s()-]/g, ''),
+      designation: contact.designation ?? '',
+      isPrimary: isTruthy(contact.isPrimary ?? ''),
+    }));
+
+  // One primary contact: the first one marked, or else the first one
+  const primaryIndex = Math.max(contacts.findIndex(contact => contact.isPrimary), 0);
+  contacts.forEach((contact, index) => { contact.isPrimary = index === primaryIndex; });
+  if (contacts.length === 0) {
+    errors.push('At least one contact is required');
+  }
+
+  let installationDate: Date | undefined;
+  const installed = pick(values, 'installationDate');
+  if (installed) {
+    installationDate = new Date(installed);
+    if (isNaN(installationDate.getTime())) {
+      errors.push(`Installation date "${installed}" is not a valid date`);
+      installationDate = undefined;
+    }
+  }
+
+  const address = {
+    street: pick(values, 'street'),
+    city: pick(values, 'city'),
+    state: pick(values, 'state'),
+    zipCode: pick(values, 'zipCode'),
+    country: pick(values, 'country'),
+  };
+
+  return {
+    customer: {
+      companyName: pick(values, 'companyName') ?? '',
+      companyType: pick(values, 'companyType') ?? '',
+      gst: pick(values, 'gst'),
+      url: pick(values, 'url'),
+      installationDate,
+      notes: pick(values, 'notes'),
+      contacts,
+      address: Object.values(address).some(Boolean) ? address : undefined,
+    },
+    errors,
+  };
+};
+
+// "contacts.1.email" reads as "Contact 2"
+const describePath = (path: string) => {
+  const match = /^contacts\.(\d+)\./.exec(path);
+  return match ? `Contact ${Number(match[1]) + 1}: ` : '';
+};
+
+/**
+ * Validates every row of an import against the customer schema (the same GST,
+ * email and phone rules as customers created by hand) and looks for
+ * duplicates by company name or contact email, both among existing customers
+ * and earlier rows of the file.
+ */
+export const previewCustomerImport = async (rows: SheetRow[]): Promise<ImportRowResult[]> => {
+  const results = rows.map(row => {
+    const { customer, errors } = toCustomer(row);
+    const document = new Customer({ ...customer, createdBy: new mongoose.Types.ObjectId() });
+    const validationError = document.validateSync();
+    if (validationError) {
+      errors.push(...Object.entries(validationError.errors).map(([path, error]) => `${describePath(path)}${error.message}`));
+    }
+
+    // Use the values as the schema stores them (trimmed, GST uppercased, emails lowercased)
+    const normalized: ImportedCustomer = {
+      ...customer,
+      gst: document.gst || undefined,
+      contacts: document.contacts.map(({ name, email, phone, designation, isPrimary }) => ({ name, email, phone, designation, isPrimary })),
+    };
+    return { row: row.row, customer: normalized, errors, duplicates: [] as ImportDuplicate[] };
+  });
+
+  const names = results.map(result => result.customer.companyName).filter(Boolean);
+  const emails = results.flatMap(result => result.customer.contacts.map(contact => contact.email)).filter(Boolean);
+  const existing = await Customer.find({
+    isActive: true,
+    $or: [{ companyName: { $in: names } }, { 'contacts.email': { $in: emails } }]
+  })
+    .collation({ locale: 'en', strength: 2 })
+    .select('companyName contacts.email');
+
+  const existingByName = new Map(existing.map(customer => [customer.companyName.toLowerCase(), customer]));
+  const existingByEmail = new Map(existing.flatMap(customer => customer.contacts.map(contact => [contact.email, customer] as const)));
+  const rowByName = new Map<string, number>();
+  const rowByEmail = new Map<string, number>();
+
+  for (const result of results) {
+    const name = result.customer.companyName.toLowerCase();
+    if (name) {
+      const customer = existingByName.get(name);
+      if (customer) {
+        result.duplicates.push({ field: 'companyName', value: result.customer.companyName, customer: { _id: customer._id, companyName: customer.companyName } });
+      } else if (rowByName.has(name)) {
+        result.duplicates.push({ field: 'companyName', value: result.customer.companyName, row: rowByName.get(name) });
+      } else {
+        rowByName.set(name, result.row);
+      }
+    }
+
+    for (const { email } of result.customer.contacts) {
+      if (!email) continue;
+      const customer = existingByEmail.get(email);
+      if (customer) {
+        result.duplicates.push({ field: 'email', value: email, customer: { _id: customer._id, companyName: customer.companyName } });
+      } else if (rowByEmail.has(email) && rowByEmail.get(email) !== result.row) {
+        result.duplicates.push({ field: 'email', value: email, row: rowByEmail.get(email) });
+      } else {
+        rowByEmail.set(email, result.row);
+      }
+    }
+  }
+
+  return results.map(result => ({
+    ...result,
+    status: result.errors.length > 0 ? 'invalid' : result.duplicates.length > 0 ? 'duplicate' : 'valid',
+  }));
+};
+
+/**
+ * Creates the customers of the rows that passed validation and have no
+ * duplicates; invalid and duplicate rows are left out.
+ */
+export const importCustomers = async (results: ImportRowResult[], userId: mongoose.Types.ObjectId) => {
+  const valid = results.filter(result => result.status === 'valid');
+  const created = await Customer.insertMany(valid.map(result => ({ ...result.customer, createdBy: userId })));
+
+  for (const customer of created) {
+    logActivity({
+      user: userId,
+      action: 'CREATE_CUSTOMER',
+      entity: 'Customer',
+      entityId: customer._id,
+      details: { companyName: customer.companyName, imported: true }
+    });
+  }
+
+  return created;
+};
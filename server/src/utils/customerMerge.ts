@@ -0,0 +1,211 @@
+import mongoose, { HydratedDocument } from 'mongoose';
+import Customer, { ICustomer } from '../models/Customer.js';
+import Task from '../models/Task.js';
+import Call from '../models/Call.js';
+import SlaPolicy from '../models/SlaPolicy.js';
+import User from '../models/User.js';
+import { logActivity } from './activityLogger.js';
+import { publishTaskChange } from './realtime.js';
+import { syncTaskSla } from './sla.js';
+
+// Names at least this similar (0-1) are reported as possible duplicates
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+const MAX_NOTES_LENGTH = 1000;
+
+// Legal suffixes and filler words that don't tell two companies apart
+const NAME_STOP_WORDS = new Set([
+  'the', 'and', 'pvt', 'private', 'ltd', 'limited', 'llp', 'llc', 'inc', 'incorporated',
+  'co', 'company', 'corp', 'corporation', 'plc', 'gmbh', 'india'
+]);
+
+export type DuplicateReason = 'name' | 'email' | 'phone' | 'gst';
+
+export interface DuplicatePair {
+  customers: [mongoose.Types.ObjectId, mongoose.Types.ObjectId];
+  reasons: DuplicateReason[];
+  nameSimilarity: number;
+}
+
+export const normalizeCompanyName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !NAME_STOP_WORDS.has(word))
+    .join(' ');
+
+// Phone numbers match on their last ten digits, so country codes and leading zeros don't matter
+const normalizePhone = (phone: string) => phone.replace(/\D/g, '').slice(-10);
+
+// 1 minus the edit distance, relative to the longer name
+const getSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+};
+
+/**
+ * Pairs of active customers that look like the same company: similar names
+ * (ignoring case, punctuation and suffixes like "Pvt Ltd"), a shared contact
+ * email or phone number, or the same GST number. Strongest matches first.
+ */
+export const findDuplicateCustomers = async (): Promise<DuplicatePair[]> => {
+  const customers = await Customer.find({ isActive: true }).select('companyName gst contacts.email contacts.phone').lean();
+  const pairs = new Map<string, DuplicatePair>();
+
+  const addPair = (a: typeof customers[number], b: typeof customers[number], reason: DuplicateReason) => {
+    const [first, second] = String(a._id) < String(b._id) ? [a, b] : [b, a];
+    const key = `${first._id}:${second._id}`;
+    const pair: DuplicatePair = pairs.get(key) ?? {
+      customers: [first._id, second._id],
+      reasons: [],
+      nameSimilarity: getSimilarity(normalizeCompanyName(first.companyName), normalizeCompanyName(second.companyName)),
+    };
+    if (!pair.reasons.includes(reason)) pair.reasons.push(reason);
+    pairs.set(key, pair);
+  };
+
+  // Customers sharing a key are paired up
+  const groupBy = (reason: DuplicateReason, keysOf: (customer: typeof customers[number]) => string[]) => {
+    const groups = new Map<string, typeof customers>();
+    for (const customer of customers) {
+      for (const key of new Set(keysOf(customer))) {
+        groups.set(key, [...(groups.get(key) ?? []), customer]);
+      }
+    }
+    for (const group of groups.values()) {
+      group.forEach((a, i) => group.slice(i + 1).forEach(b => addPair(a, b, reason)));
+    }
+  };
+
+  groupBy('gst', customer => (customer.gst ? [customer.gst.toUpperCase()] : []));
+  groupBy('email', customer => customer.contacts.map(contact => contact.email?.toLowerCase()).filter(Boolean));
+  groupBy('phone', customer => customer.contacts.map(contact => normalizePhone(contact.phone ?? '')).filter(phone => phone.length >= 7));
+
+  // Names are only compared within the same leading letters, which keeps this from comparing every pair
+  const nameBlocks = new Map<string, { customer: typeof customers[number]; name: string }[]>();
+  for (const customer of customers) {
+    const name = normalizeCompanyName(customer.companyName);
+    const block = name.slice(0, 3);
+    nameBlocks.set(block, [...(nameBlocks.get(block) ?? []), { customer, name }]);
+  }
+  for (const block of nameBlocks.values()) {
+    block.forEach((a, i) => block.slice(i + 1).forEach(b => {
+      if (getSimilarity(a.name, b.name) >= NAME_SIMILARITY_THRESHOLD) {
+        addPair(a.customer, b.customer, 'name');
+      }
+    }));
+  }
+
+  return [...pairs.values()].sort((a, b) =>
+    b.reasons.length - a.reasons.length || b.nameSimilarity - a.nameSimilarity
+  );
+};
+
+export interface MergeResult {
+  contactsAdded: number;
+  tasksMoved: number;
+  callsMoved: number;
+}
+
+/**
+ * Merges `duplicate` into `survivor`: contacts the survivor doesn't have are
+ * added, empty fields are filled in, every task, call and customer SLA policy
+ * moves over (tasks take on the survivor's SLA targets), mutes carry across,
+ * and the duplicate is deactivated with a pointer to the survivor. Both
+ * customers' timelines and every moved task's history record the merge.
+ */
+export const mergeCustomers = async (
+  survivor: HydratedDocument<ICustomer>,
+  duplicate: HydratedDocument<ICustomer>,
+  userId: mongoose.Types.ObjectId
+): Promise<MergeResult> => {
+  const knownEmails = new Set(survivor.contacts.map(contact => contact.email.toLowerCase()));
+  const newContacts = duplicate.contacts.filter(contact => !knownEmails.has(contact.email.toLowerCase()));
+  newContacts.forEach(contact => {
+    survivor.contacts.push({
+      name: contact.name,
+      email: contact.email,
+      phone: contact.phone,
+      designation: contact.designation,
+      isPrimary: false
+    });
+  });
+
+  survivor.gst = survivor.gst || duplicate.gst;
+  survivor.url = survivor.url || duplicate.url;
+  survivor.installationDate = survivor.installationDate ?? duplicate.installationDate;
+  if (!survivor.address?.street && !survivor.address?.city && duplicate.address) {
+    survivor.address = duplicate.toObject().address;
+  }
+  if (duplicate.notes && duplicate.notes !== survivor.notes) {
+    survivor.notes = (survivor.notes ? `${survivor.notes}\n\n${duplicate.notes}` : duplicate.notes).slice(0, MAX_NOTES_LENGTH);
+  }
+  await survivor.save();
+
+  // A customer can only have one SLA policy; the survivor's own wins
+  if (!(await SlaPolicy.exists({ customer: survivor._id }))) {
+    await SlaPolicy.updateOne({ customer: duplicate._id }, { customer: survivor._id });
+  }
+
+  // Tasks move one at a time, so each takes on the survivor's SLA targets and records the move in its history
+  let tasksMoved = 0;
+  for await (const { _id } of Task.find({ customer: duplicate._id }).select('_id').cursor()) {
+    const task = await Task.findOneAndUpdate(
+      { _id, customer: duplicate._id },
+      { customer: survivor._id },
+      { new: true }
+    );
+    if (!task) continue;
+
+    await syncTaskSla(task, { reassign: true });
+    logActivity({
+      user: userId,
+      action: 'UPDATE_TASK',
+      entity: 'Task',
+      entityId: task._id,
+      details: {
+        title: task.title,
+        updatedFields: ['customer'],
+        previousValues: { customer: duplicate._id },
+        newValues: { customer: survivor._id },
+        mergedCustomer: duplicate._id
+      }
+    });
+    publishTaskChange(task, 'updated');
+    tasksMoved++;
+  }
+
+  const calls = await Call.updateMany({ customer: duplicate._id }, { customer: survivor._id });
+
+  const mutedField = 'notificationPreferences.mutedCustomers';
+  await User.updateMany({ [mutedField]: duplicate._id }, { $addToSet: { [mutedField]: survivor._id } });
+  await User.updateMany({ [mutedField]: duplicate._id }, { $pull: { [mutedField]: duplicate._id } });
+
+  await Customer.updateOne({ _id: duplicate._id }, { isActive: false, mergedInto: survivor._id });
+
+  const result = {
+    contactsAdded: newContacts.length,
+    tasksMoved,
+    callsMoved: calls.modifiedCount
+  };
+  const details = {
+    companyName: survivor.companyName,
+    mergedCustomer: duplicate._id,
+    mergedCompanyName: duplicate.companyName,
+    ...result
+  };
+  logActivity({ user: userId, action: 'MERGE_CUSTOMER', entity: 'Customer', entityId: survivor._id, details });
+  logActivity({ user: userId, action: 'MERGE_CUSTOMER', entity: 'Customer', entityId: duplicate._id, details });
+
+  return result;
+};
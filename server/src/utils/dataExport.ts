@@ -0,0 +1,189 @@
+import { once } from 'events';
+import { Response } from 'express';
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'pdf'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+type ExportValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  width: number; // relative; spreadsheet columns get this many characters
+  value: (doc: T) => ExportValue;
+}
+
+export interface ExportOptions<T> {
+  format: ExportFormat;
+  filename: string; // without extension
+  title: string; // heading of the PDF report
+  columns: ExportColumn<T>[];
+  rows: AsyncIterable<T>; // usually a query cursor, so the result set is never held in memory
+  timezone: string; // dates in the PDF report are shown in the user's timezone
+}
+
+const contentTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+// Long free text is cut short in the PDF report, which has no room to wrap it
+const MAX_PDF_CELL_LENGTH = 300;
+
+// Text a spreadsheet would run as a formula; phone numbers like +91 98450 are left alone
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PHONE_NUMBER = /^[+-]?[\d\s()-]+$/;
+
+const toCsvCell = (value: ExportValue): string => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (FORMULA_PREFIX.test(text) && !PHONE_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toPdfCell = (value: ExportValue, dateFormat: Intl.DateTimeFormat): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return dateFormat.format(value);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  const text = String(value);
+  return text.length > MAX_PDF_CELL_LENGTH ? `${text.slice(0, MAX_PDF_CELL_LENGTH - 1)}…` : text;
+};
+
+/**
+ * Waits until the response has flushed what it buffered, so a slow client
+ * holds back the cursor instead of piling rows up in memory. Fails if the
+ * client goes away meanwhile, which would otherwise wait forever.
+ */
+const waitForDrain = async (res: Response) => {
+  if (!res.writableNeedDrain) {
+    return;
+  }
+  if (res.destroyed) {
+    throw new Error('The client closed the connection');
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = () => {
+      res.off('close', onClose);
+      resolve();
+    };
+    const onClose = () => {
+      res.off('drain', onDrain);
+      reject(new Error('The client closed the connection'));
+    };
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+  });
+};
+
+const writeChunk = async (res: Response, chunk: string) => {
+  res.write(chunk);
+  await waitForDrain(res);
+};
+
+const streamCsv = async <T>(res: Response, { columns, rows }: ExportOptions<T>) => {
+  // The byte order mark makes Excel read the file as UTF-8
+  await writeChunk(res, `\uFEFF${columns.map(column => toCsvCell(column.header)).join(',')}\r\n`);
+  for await (const doc of rows) {
+    await writeChunk(res, `${columns.map(column => toCsvCell(column.value(doc))).join(',')}\r\n`);
+  }
+  res.end();
+};
+
+const streamXlsx = async <T>(res: Response, { title, columns, rows }: ExportOptions<T>) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const worksheet = workbook.addWorksheet(title.slice(0, 31), { views: [{ state: 'frozen', ySplit: 1 }] });
+  worksheet.columns = columns.map(column => ({ header: column.header, width: column.width }));
+  worksheet.getRow(1).font = { bold: true };
+
+  for await (const doc of rows) {
+    const row = worksheet.addRow(columns.map(column => column.value(doc) ?? null));
+    row.eachCell(cell => {
+      if (cell.value instanceof Date) {
+        cell.numFmt = 'yyyy-mm-dd hh:mm';
+      }
+    });
+    row.commit();
+    await waitForDrain(res);
+  }
+  await workbook.commit();
+};
+
+const streamPdf = async <T>(res: Response, { title, columns, rows, timezone }: ExportOptions<T>) => {
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 36, bufferPages: false });
+  doc.pipe(res);
+
+  const dateFormat = new Intl.DateTimeFormat('en-US', { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' });
+  const left = doc.page.margins.left;
+  const tableWidth = doc.page.width - left - doc.page.margins.right;
+  const bottom = doc.page.height - doc.page.margins.bottom;
+  const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  const widths = columns.map(column => (column.width / totalWidth) * tableWidth);
+  const padding = 3;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+    const height = Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: widths[i] - padding * 2 }))) + padding * 2;
+    if (doc.y + height > bottom) {
+      doc.addPage();
+      if (!bold) drawRow(columns.map(column => column.header), true);
+      doc.font('Helvetica').fontSize(8);
+    }
+    const top = doc.y;
+    let x = left;
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + padding, top + padding, { width: widths[i] - padding * 2 });
+      x += widths[i];
+    });
+    doc.moveTo(left, top + height).lineTo(left + tableWidth, top + height).lineWidth(0.5).strokeColor('#d1d5db').stroke();
+    doc.x = left;
+    doc.y = top + height;
+  };
+
+  doc.font('Helvetica-Bold').fontSize(14).text(title);
+  doc.font('Helvetica').fontSize(9).fillColor('#6b7280').text(`Generated ${dateFormat.format(new Date())}`);
+  doc.fillColor('#111827').moveDown();
+  drawRow(columns.map(column => column.header), true);
+
+  let count = 0;
+  for await (const row of rows) {
+    drawRow(columns.map(column => toPdfCell(column.value(row), dateFormat)), false);
+    count++;
+    // The document is piped to the response, which pauses it while the client catches up
+    await waitForDrain(res);
+  }
+  if (count === 0) {
+    doc.moveDown().font('Helvetica-Oblique').fontSize(9).text('No records match the filters.');
+  }
+
+  doc.end();
+  await once(res, 'finish');
+};
+
+/**
+ * Streams rows to the response as a CSV file, an XLSX workbook or a printable
+ * PDF report. Once the first bytes are sent a failure can't become a JSON
+ * error, so it is logged and the download is cut off.
+ */
+export const streamExport = async <T>(res: Response, options: ExportOptions<T>): Promise<void> => {
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Type', contentTypes[options.format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${options.filename}-${date}.${options.format}"`);
+
+  try {
+    if (options.format === 'csv') {
+      await streamCsv(res, options);
+    } else if (options.format === 'xlsx') {
+      await streamXlsx(res, options);
+    } else {
+      await streamPdf(res, options);
+    }
+  } catch (error) {
+    console.error('Export error:', error);
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+};
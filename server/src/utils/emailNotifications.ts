@@ -0,0 +1,109 @@
+import Notification, { INotification } from '../models/Notification.js';
+import User, { EmailDigestMode, IUser } from '../models/User.js';
+import { appUrl, escapeHtml, isMailConfigured, sendMail } from './mailer.js';
+import { NotificationChannel } from './notificationDelivery.js';
+import { getLocalMinutes, isInQuietHours } from './notificationPreferences.js';
+
+const notificationUrl = (notification: INotification) => `${appUrl()}${notification.link}`;
+
+const sendNotificationEmail = async (notification: INotification, user: IUser) => {
+  await sendMail({
+    to: user.email,
+    subject: `[Better Tasks] ${notification.message}`,
+    text: `Hi ${user.name},\n\n${notification.message}\n\nOpen it: ${notificationUrl(notification)}\n`,
+    html: `<p>Hi ${escapeHtml(user.name)},</p>`
+      + `<p>${escapeHtml(notification.message)}</p>`
+      + `<p><a href="${escapeHtml(notificationUrl(notification))}">Open in Better Tasks</a></p>`,
+  });
+};
+
+const sendDigestEmail = async (notifications: INotification[], user: IUser) => {
+  const count = notifications.length;
+  await sendMail({
+    to: user.email,
+    subject: `[Better Tasks] You have ${count} unread notification${count === 1 ? '' : 's'}`,
+    text: `Hi ${user.name},\n\nHere's what happened since your last digest:\n\n`
+      + notifications.map(notification => `- ${notification.message}\n  ${notificationUrl(notification)}`).join('\n')
+      + `\n\nManage your notifications: ${appUrl()}/notifications\n`,
+    html: `<p>Hi ${escapeHtml(user.name)},</p><p>Here's what happened since your last digest:</p><ul>`
+      + notifications.map(notification =>
+        `<li><a href="${escapeHtml(notificationUrl(notification))}">${escapeHtml(notification.message)}</a></li>`).join('')
+      + `</ul><p><a href="${escapeHtml(`${appUrl()}/notifications`)}">Manage your notifications</a></p>`,
+  });
+};
+
+/**
+ * Emails notifications whose type the user opted into: right away, or by
+ * queueing them for the user's next digest. Instant emails that arrive during
+ * quiet hours are queued too and go out with the first hourly run after them.
+ */
+export const emailChannel: NotificationChannel = {
+  name: 'email',
+  deliver: async (notification, user) => {
+    const { email, quietHours } = user.notificationPreferences;
+    if (!isMailConfigured() || !email.types.includes(notification.type)) {
+      return;
+    }
+
+    if (email.digest !== 'instant' || isInQuietHours(quietHours, user.timezone)) {
+      await Notification.updateOne({ _id: notification._id }, { emailStatus: 'pending' });
+      return;
+    }
+
+    try {
+      await sendNotificationEmail(notification, user);
+      await Notification.updateOne({ _id: notification._id }, { emailStatus: 'sent', emailedAt: new Date() });
+    } catch (error) {
+      await Notification.updateOne({ _id: notification._id }, { emailStatus: 'failed' });
+      throw error;
+    }
+  },
+};
+
+/**
+ * Sends one email per user batching their queued notifications that are still
+ * unread; those read in the app meanwhile are skipped. Users in their quiet
+ * hours keep their queue until a later run. With `localHour`, only users for
+ * whom it is currently that hour in their timezone are sent to. Returns the
+ * number of digests sent.
+ */
+export const sendEmailDigests = async (modes: EmailDigestMode[], localHour?: number): Promise<number> => {
+  if (!isMailConfigured()) {
+    return 0;
+  }
+
+  const users = await User.find({ isActive: true, 'notificationPreferences.email.digest': { $in: modes } });
+
+  let sent = 0;
+  for (const user of users) {
+    if (localHour !== undefined && Math.floor(getLocalMinutes(user.timezone) / 60) !== localHour) {
+      continue;
+    }
+    if (isInQuietHours(user.notificationPreferences.quietHours, user.timezone)) {
+      continue;
+    }
+
+    const pending = await Notification.find({ user: user._id, emailStatus: 'pending' }).sort({ createdAt: 1 });
+    const unread = pending.filter(notification => !notification.isRead);
+    const read = pending.filter(notification => notification.isRead);
+
+    if (read.length > 0) {
+      await Notification.updateMany({ _id: { $in: read.map(n => n._id) } }, { emailStatus: 'skipped' });
+    }
+    if (unread.length === 0) {
+      continue;
+    }
+
+    const ids = unread.map(n => n._id);
+    try {
+      await sendDigestEmail(unread, user);
+      await Notification.updateMany({ _id: { $in: ids } }, { emailStatus: 'sent', emailedAt: new Date() });
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send email digest to user ${user._id}:`, error);
+      await Notification.updateMany({ _id: { $in: ids } }, { emailStatus: 'failed' });
+    }
+  }
+
+  return sent;
+};
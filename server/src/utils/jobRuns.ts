@@ -0,0 +1,30 @@
+import JobRun from '../models/JobRun.js';
+
+/**
+ * Runs a scheduled job and records the run: when it started and finished,
+ * the counters it returns and any error. Errors are logged, never thrown, so
+ * a failing run doesn't take the scheduler down.
+ */
+export const runJob = async (job: string, run: () => Promise<Record<string, number>>): Promise<void> => {
+  console.log(`Running ${job} job...`);
+
+  let record;
+  try {
+    record = await JobRun.create({ job });
+  } catch (error) {
+    console.error(`Failed to record ${job} job run:`, error);
+  }
+
+  try {
+    const stats = await run();
+    console.log(`Finished ${job} job:`, stats);
+    await record?.updateOne({ status: 'succeeded', finishedAt: new Date(), stats });
+  } catch (error) {
+    console.error(`Error running ${job} job:`, error);
+    await record?.updateOne({
+      status: 'failed',
+      finishedAt: new Date(),
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }).catch(() => undefined);
+  }
+};
@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+import User, { IUser } from '../models/User.js';
+import { logActivity } from './activityLogger.js';
+
+// Failed logins in a row before the account locks
+const LOCKOUT_THRESHOLD = 5;
+// The first lock lasts a minute; every further failure doubles it, up to a day
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+export const isAccountLocked = (user: IUser): boolean => !!user.lockedUntil && user.lockedUntil > new Date();
+
+// "Try again in 4 minutes"
+export const describeLockout = (lockedUntil: Date): string => {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  return minutes < 120 ? `${minutes} minute${minutes === 1 ? '' : 's'}` : `${Math.ceil(minutes / 60)} hours`;
+};
+
+/**
+ * Counts a wrong password or two-factor code. Returns when the account is
+ * now locked until, or null while it is still below the threshold.
+ */
+export const recordFailedLogin = async (user: IUser, ip?: string): Promise<Date | null> => {
+  // Counted atomically, so parallel guesses can't slip under the threshold
+  const updated = await User.findByIdAndUpdate(user._id, { $inc: { failedLoginAttempts: 1 } }, { new: true });
+  if (!updated || updated.failedLoginAttempts < LOCKOUT_THRESHOLD) {
+    return null;
+  }
+
+  const doublings = Math.min(updated.failedLoginAttempts - LOCKOUT_THRESHOLD, 20);
+  const lockedUntil = new Date(Date.now() + Math.min(BASE_LOCKOUT_MS * 2 ** doublings, MAX_LOCKOUT_MS));
+  await User.updateOne({ _id: user._id }, { lockedUntil });
+
+  logActivity({
+    action: 'LOCK_ACCOUNT',
+    entity: 'User',
+    entityId: user._id,
+    details: { name: user.name, email: user.email, failedLoginAttempts: updated.failedLoginAttempts, lockedUntil, ip }
+  });
+  return lockedUntil;
+};
+
+// After a successful login or password reset, or when an admin unlocks the account
+export const clearFailedLogins = async (userId: mongoose.Types.ObjectId): Promise<void> => {
+  await User.updateOne(
+    { _id: userId, $or: [{ failedLoginAttempts: { $gt: 0 } }, { lockedUntil: { $ne: null } }] },
+    { failedLoginAttempts: 0, lockedUntil: null }
+  );
+};
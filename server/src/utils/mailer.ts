@@ -0,0 +1,56 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+let transporter: Transporter | null | undefined;
+
+// Created on first use so the SMTP_* variables are read after dotenv has loaded them
+const getTransporter = (): Transporter | null => {
+  if (transporter === undefined) {
+    transporter = process.env.SMTP_HOST
+      ? nodemailer.createTransport({
+          host: process.env.SMTP_HOST,
+          port: Number(process.env.SMTP_PORT) || 587,
+          secure: process.env.SMTP_SECURE === 'true',
+          auth: process.env.SMTP_USER
+            ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+            : undefined,
+        })
+      : null;
+
+    if (!transporter) {
+      console.log('SMTP_HOST is not set; email delivery is disabled.');
+    }
+  }
+  return transporter;
+};
+
+// Where links in emails point
+export const appUrl = () => process.env.CLIENT_URL || 'http://localhost:3000';
+
+export const isMailConfigured = (): boolean => getTransporter() !== null;
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  const mailer = getTransporter();
+  if (!mailer) {
+    throw new Error('Email delivery is not configured');
+  }
+
+  await mailer.sendMail({
+    from: process.env.MAIL_FROM || 'Better Tasks <no-reply@better-tasks.local>',
+    ...message,
+  });
+};
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
@@ -0,0 +1,38 @@
+import { INotification } from '../models/Notification.js';
+import User, { IUser } from '../models/User.js';
+import { realtimeChannel } from './realtime.js';
+import { emailChannel } from './emailNotifications.js';
+
+/**
+ * A way of getting a stored notification in front of its recipient. Channels
+ * decide for themselves, from the user's preferences, whether to deliver.
+ */
+export interface NotificationChannel {
+  name: string;
+  deliver: (notification: INotification, user: IUser) => Promise<void>;
+}
+
+const channels: NotificationChannel[] = [realtimeChannel, emailChannel];
+
+/**
+ * Hands a saved notification to every channel. A failing channel is logged
+ * and doesn't stop the others; nothing is thrown to the caller.
+ */
+export const deliverNotification = async (notification: INotification): Promise<void> => {
+  try {
+    const user = await User.findById(notification.user);
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    await Promise.all(channels.map(async channel => {
+      try {
+        await channel.deliver(notification, user);
+      } catch (error) {
+        console.error(`Error delivering notification ${notification._id} via ${channel.name}:`, error);
+      }
+    }));
+  } catch (error) {
+    console.error('Error delivering notification:', error);
+  }
+};
@@ -0,0 +1,95 @@
+import mongoose from 'mongoose';
+import Task from '../models/Task.js';
+import Call from '../models/Call.js';
+import { NotificationType } from '../models/Notification.js';
+import { INotificationPreferences, IQuietHours } from '../models/User.js';
+
+interface RelatedEntity {
+  model: 'Task' | 'Call' | 'Customer';
+  id: mongoose.Types.ObjectId;
+}
+
+// The customer a notification is about, directly or through its task or call
+const getRelatedCustomer = async (related: RelatedEntity): Promise<mongoose.Types.ObjectId | undefined> => {
+  if (related.model === 'Customer') {
+    return related.id;
+  }
+
+  const entity = related.model === 'Task'
+    ? await Task.findById(related.id).select('customer')
+    : await Call.findById(related.id).select('customer');
+  return entity?.customer;
+};
+
+/**
+ * Whether the user muted the task a notification is about or the customer
+ * behind it. Those are not created at all, for any channel.
+ */
+export const isMuted = async (
+  preferences: INotificationPreferences,
+  related: RelatedEntity
+): Promise<boolean> => {
+  if (related.model === 'Task' && preferences.mutedTasks.some(id => id.equals(related.id))) {
+    return true;
+  }
+
+  if (preferences.mutedCustomers.length === 0) {
+    return false;
+  }
+
+  const customer = await getRelatedCustomer(related);
+  return !!customer && preferences.mutedCustomers.some(id => id.equals(customer));
+};
+
+// Whether this kind of notification is shown in the app and whether it is emailed, each on its own
+export const getChannels = (preferences: INotificationPreferences, type: NotificationType) => ({
+  inApp: !preferences.inApp.mutedTypes.includes(type),
+  email: preferences.email.types.includes(type),
+});
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Minutes since midnight at `now` in the given timezone (UTC when it is not a valid one)
+export const getLocalMinutes = (timezone: string, now = new Date()): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimezone(timezone) ? timezone : 'UTC',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  return Number(parts.find(part => part.type === 'hour')?.value) * 60
+    + Number(parts.find(part => part.type === 'minute')?.value);
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether `now` falls inside the user's quiet hours, in their timezone. A
+ * window whose end is before its start spans midnight (e.g. 22:00-07:00).
+ */
+export const isInQuietHours = (quietHours: IQuietHours, timezone: string, now = new Date()): boolean => {
+  if (!quietHours.enabled) {
+    return false;
+  }
+
+  const current = getLocalMinutes(timezone, now);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) {
+    return false;
+  }
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
@@ -1,5 +1,8 @@
 import Notification, { INotification, NotificationType } from '../models/Notification.js';
 import mongoose from 'mongoose';
+import User from '../models/User.js';
+import { deliverNotification } from './notificationDelivery.js';
+import { getChannels, isMuted } from './notificationPreferences.js';
 
 interface NotificationData {
   user: mongoose.Types.ObjectId;
@@ -12,10 +15,31 @@ interface NotificationData {
   };
 }
 
-export const createNotification = async (data: NotificationData): Promise<INotification> => {
+/**
+ * Stores a notification and hands it to the delivery channels, unless the
+ * recipient muted it or turned its type off in the app and for email; returns
+ * null in that case. A type turned off only in the app is stored hidden, so it
+ * can still be emailed.
+ */
+export const createNotification = async (data: NotificationData): Promise<INotification | null> => {
   try {
-    const notification = new Notification(data);
+    const recipient = await User.findById(data.user).select('notificationPreferences');
+    let inApp = true;
+    if (recipient) {
+      const { notificationPreferences } = recipient;
+      const channels = getChannels(notificationPreferences, data.type);
+      if ((!channels.inApp && !channels.email) || await isMuted(notificationPreferences, data.related)) {
+        return null;
+      }
+      inApp = channels.inApp;
+    }
+
+    const notification = new Notification({ ...data, inApp });
     await notification.save();
+
+    // Delivery happens in the background so slow channels (e.g. SMTP) don't hold up the caller
+    deliverNotification(notification);
+
     return notification;
   } catch (error) {
     console.error('Error creating notification:', error);
@@ -0,0 +1,82 @@
+import { Redis } from 'ioredis';
+
+// Counters for fixed-window rate limits, keyed by limit name and client
+export interface RateLimitStore {
+  // Counts one request for `key`; returns the count so far in its window and when the window ends
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+  reset(key: string): Promise<void>;
+}
+
+// Kept in this process, so each server instance counts on its own
+class MemoryStore implements RateLimitStore {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor() {
+    // Expired windows would otherwise pile up for every client ever seen
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, window] of this.windows) {
+        if (window.resetAt <= now) this.windows.delete(key);
+      }
+    }, 60 * 1000).unref();
+  }
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+    window.count += 1;
+    return { count: window.count, resetAt: window.resetAt };
+  }
+
+  async reset(key: string) {
+    this.windows.delete(key);
+  }
+}
+
+// Shared by every server instance that points at the same Redis 7+ (or compatible) server
+class RedisStore implements RateLimitStore {
+  constructor(private client: Redis) {}
+
+  async increment(key: string, windowMs: number) {
+    const redisKey = `rate-limit:${key}`;
+    // One transaction, so a key is never left counting without an expiry;
+    // NX keeps the clock started by the window's first request
+    const results = await this.client
+      .multi()
+      .incr(redisKey)
+      .pexpire(redisKey, windowMs, 'NX')
+      .pttl(redisKey)
+      .exec();
+    const count = Number(results?.[0]?.[1] ?? 1);
+    const ttl = Number(results?.[2]?.[1] ?? -1);
+    return { count, resetAt: Date.now() + (ttl > 0 ? ttl : windowMs) };
+  }
+
+  async reset(key: string) {
+    await this.client.del(`rate-limit:${key}`);
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The store rate limits count in: Redis when RATE_LIMIT_REDIS_URL is set,
+ * otherwise memory.
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    const redisUrl = process.env.RATE_LIMIT_REDIS_URL;
+    if (redisUrl) {
+      const client = new Redis(redisUrl, { maxRetriesPerRequest: 1 });
+      client.on('error', error => console.error('Rate limit store error:', error.message));
+      store = new RedisStore(client);
+    } else {
+      store = new MemoryStore();
+    }
+  }
+  return store;
+};
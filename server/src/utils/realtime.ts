@@ -0,0 +1,133 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Notification, { IN_APP } from '../models/Notification.js';
+import { IUser } from '../models/User.js';
+import { ICall } from '../models/Call.js';
+import { NotificationChannel } from './notificationDelivery.js';
+
+/**
+ * Server-sent events pushed to connected clients:
+ * - `notification`: a notification was created for the user
+ * - `unread-count`: the user's unread notification count changed
+ * - `task` / `call`: a task or call the user can see was created, updated or deleted
+ */
+export type RealtimeEvent = 'notification' | 'unread-count' | 'task' | 'call';
+export type ChangeAction = 'created' | 'updated' | 'deleted';
+
+interface RealtimeClient {
+  user: IUser;
+  sessionId: string;
+  res: Response;
+}
+
+const clients = new Set<RealtimeClient>();
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_INTERVAL = 25 * 1000;
+setInterval(() => {
+  clients.forEach(client => client.res.write(': ping\n\n'));
+}, HEARTBEAT_INTERVAL).unref();
+
+// Works for both populated documents and plain ObjectIds, which expose themselves as `_id`
+type Ref = { _id?: unknown } | null | undefined;
+const refId = (ref: Ref) => (ref?._id ? String(ref._id) : undefined);
+
+// The parts of a task, populated or not, that decide who can see it
+interface TaskAudience {
+  _id: mongoose.Types.ObjectId;
+  createdBy: Ref;
+  assignedTo: Ref;
+  subtasks?: { assignedTo?: Ref }[];
+}
+
+const send = (client: RealtimeClient, event: RealtimeEvent, data: unknown) => {
+  client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Registers an open event stream for `user`, opened from `sessionId`. Returns a
+ * function that removes it again once the connection closes.
+ */
+export const addClient = (user: IUser, sessionId: string, res: Response): (() => void) => {
+  const client = { user, sessionId, res };
+  clients.add(client);
+  return () => {
+    clients.delete(client);
+  };
+};
+
+// Ends the streams of revoked sessions: one session, or all of a user's when none is given
+export const disconnectSessions = (userId: Ref, sessionId?: string) => {
+  const id = refId(userId);
+  clients.forEach(client => {
+    if (client.user._id.toString() === id && (!sessionId || client.sessionId === sessionId)) {
+      client.res.end();
+      clients.delete(client);
+    }
+  });
+};
+
+const publish = (event: RealtimeEvent, data: unknown, isRecipient: (user: IUser) => boolean) => {
+  clients.forEach(client => {
+    if (isRecipient(client.user)) {
+      send(client, event, data);
+    }
+  });
+};
+
+export const publishToUser = (userId: Ref, event: RealtimeEvent, data: unknown) => {
+  const id = refId(userId);
+  publish(event, data, user => user._id.toString() === id);
+};
+
+/**
+ * Pushes the user's current unread notification count. Failures are logged
+ * and never bubble up to the caller.
+ */
+export const publishUnreadCount = async (userId: Ref): Promise<void> => {
+  try {
+    const count = await Notification.countDocuments({ user: refId(userId), isRead: false, inApp: IN_APP });
+    publishToUser(userId, 'unread-count', { count });
+  } catch (error) {
+    console.error('Error publishing unread count:', error);
+  }
+};
+
+// Pushes a new notification and the updated unread count to the recipient's open streams
+export const realtimeChannel: NotificationChannel = {
+  name: 'realtime',
+  deliver: async (notification) => {
+    if (!notification.inApp) {
+      return;
+    }
+    publishToUser(notification.user, 'notification', notification);
+    await publishUnreadCount(notification.user);
+  },
+};
+
+/**
+ * Tells everyone who can see a task that it changed: admins, managers and the
+ * task's creator, assignee and subtask assignees. Pass the task as it was
+ * before an update to also reach people who just lost access to it.
+ */
+export const publishTaskChange = (task: TaskAudience, action: ChangeAction, previous?: TaskAudience) => {
+  const audience = new Set<string | undefined>();
+  for (const version of [task, previous]) {
+    if (!version) continue;
+    audience.add(refId(version.createdBy));
+    audience.add(refId(version.assignedTo));
+    (version.subtasks || []).forEach(subtask => audience.add(refId(subtask.assignedTo)));
+  }
+
+  publish('task', { action, taskId: task._id.toString() }, user =>
+    user.role !== 'user' || audience.has(user._id.toString()));
+};
+
+/**
+ * Tells admins, managers and the user who logged the call that it changed.
+ */
+export const publishCallChange = (call: ICall, action: ChangeAction) => {
+  const owner = refId(call.user);
+  publish('call', { action, callId: call._id.toString() }, user =>
+    user.role !== 'user' || user._id.toString() === owner);
+};
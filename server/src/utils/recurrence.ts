@@ -0,0 +1,195 @@
+import { ITaskRecurrence } from '../models/Task.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Normalized form of a recurrence definition. Structured definitions
+ * (daily/weekly/monthly) and custom RRULE strings both resolve to this.
+ */
+interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number;
+  byWeekday: number[];
+  byMonthDay?: number;
+  until?: Date;
+  count?: number;
+}
+
+/**
+ * Parses the subset of RFC 5545 RRULE syntax we support:
+ * FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL.
+ * e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+ */
+export const parseRRule = (rule: string): RecurrenceRule => {
+  const parts = rule.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const values: Record<string, string> = {};
+
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Invalid rule part "${part}"`);
+    }
+    values[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  }
+
+  const frequencies: Record<string, RecurrenceRule['frequency']> = {
+    DAILY: 'daily',
+    WEEKLY: 'weekly',
+    MONTHLY: 'monthly',
+  };
+  const frequency = frequencies[values.FREQ];
+  if (!frequency) {
+    throw new Error('FREQ must be DAILY, WEEKLY or MONTHLY');
+  }
+
+  const parsed: RecurrenceRule = { frequency, interval: 1, byWeekday: [] };
+
+  if (values.INTERVAL !== undefined) {
+    parsed.interval = Number(values.INTERVAL);
+    if (!Number.isInteger(parsed.interval) || parsed.interval < 1) {
+      throw new Error('INTERVAL must be a positive integer');
+    }
+  }
+
+  if (values.BYDAY) {
+    parsed.byWeekday = values.BYDAY.split(',').map(code => {
+      const day = WEEKDAY_CODES.indexOf(code);
+      if (day === -1) {
+        throw new Error(`Invalid BYDAY value "${code}"`);
+      }
+      return day;
+    });
+  }
+
+  if (values.BYMONTHDAY) {
+    parsed.byMonthDay = Number(values.BYMONTHDAY);
+    if (!Number.isInteger(parsed.byMonthDay) || parsed.byMonthDay < 1 || parsed.byMonthDay > 31) {
+      throw new Error('BYMONTHDAY must be between 1 and 31');
+    }
+  }
+
+  if (values.COUNT) {
+    parsed.count = Number(values.COUNT);
+    if (!Number.isInteger(parsed.count) || parsed.count < 1) {
+      throw new Error('COUNT must be a positive integer');
+    }
+  }
+
+  if (values.UNTIL) {
+    // Accept both basic (20250131T000000Z) and extended ISO formats
+    const until = values.UNTIL.replace(
+      /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/,
+      (_match, y, m, d, h = '23', min = '59', s = '59') => `${y}-${m}-${d}T${h}:${min}:${s}Z`
+    );
+    parsed.until = new Date(until);
+    if (isNaN(parsed.until.getTime())) {
+      throw new Error('Invalid UNTIL date');
+    }
+  }
+
+  return parsed;
+};
+
+const resolveRule = (recurrence: ITaskRecurrence): RecurrenceRule => {
+  if (recurrence.frequency === 'custom') {
+    if (!recurrence.rule) {
+      throw new Error('A rule is required for custom recurrence');
+    }
+    const parsed = parseRRule(recurrence.rule);
+    // An explicit end date or count on the task wins over the rule's own
+    return {
+      ...parsed,
+      until: recurrence.endDate ?? parsed.until,
+      count: recurrence.count ?? parsed.count,
+    };
+  }
+
+  return {
+    frequency: recurrence.frequency,
+    interval: recurrence.interval || 1,
+    byWeekday: recurrence.byWeekday || [],
+    byMonthDay: recurrence.byMonthDay,
+    until: recurrence.endDate,
+    count: recurrence.count,
+  };
+};
+
+/**
+ * Checks a recurrence definition, returning an error message or null.
+ */
+export const validateRecurrence = (recurrence: ITaskRecurrence): string | null => {
+  try {
+    resolveRule(recurrence);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid recurrence';
+  }
+};
+
+const startOfUTCWeek = (date: Date) => {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  return start.getTime() - start.getUTCDay() * DAY_MS;
+};
+
+const addMonthsClamped = (date: Date, months: number, day: number) => {
+  const result = new Date(date);
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+  return result;
+};
+
+/**
+ * Returns the due date of the occurrence following `previousDueDate`, or null
+ * when the series has ended. `occurrenceNumber` is the 1-based position of the
+ * previous occurrence, used to honour COUNT. The time of day is preserved.
+ */
+export const getNextOccurrenceDate = (
+  recurrence: ITaskRecurrence,
+  previousDueDate: Date,
+  occurrenceNumber: number
+): Date | null => {
+  const rule = resolveRule(recurrence);
+
+  if (rule.count !== undefined && occurrenceNumber >= rule.count) {
+    return null;
+  }
+
+  let next: Date | null = null;
+
+  switch (rule.frequency) {
+    case 'daily':
+      next = new Date(previousDueDate.getTime() + rule.interval * DAY_MS);
+      break;
+
+    case 'weekly': {
+      if (rule.byWeekday.length === 0) {
+        next = new Date(previousDueDate.getTime() + rule.interval * 7 * DAY_MS);
+        break;
+      }
+      // Walk forward day by day, only accepting days in every `interval`-th week
+      const firstWeek = startOfUTCWeek(previousDueDate);
+      for (let offset = 1; offset <= 7 * (rule.interval + 1); offset++) {
+        const candidate = new Date(previousDueDate.getTime() + offset * DAY_MS);
+        const weekIndex = Math.round((startOfUTCWeek(candidate) - firstWeek) / (7 * DAY_MS));
+        if (weekIndex % rule.interval === 0 && rule.byWeekday.includes(candidate.getUTCDay())) {
+          next = candidate;
+          break;
+        }
+      }
+      break;
+    }
+
+    case 'monthly':
+      next = addMonthsClamped(previousDueDate, rule.interval, rule.byMonthDay ?? previousDueDate.getUTCDate());
+      break;
+  }
+
+  if (!next || (rule.until && next > rule.until)) {
+    return null;
+  }
+
+  return next;
+};
@@ -0,0 +1,132 @@
+import mongoose from 'mongoose';
+import Task, { ITask, ITaskRecurrence } from '../models/Task.js';
+import { getNextOccurrenceDate } from './recurrence.js';
+import { createNotification } from './notifications.js';
+import { publishTaskChange } from './realtime.js';
+import { logActivity } from './activityLogger.js';
+import { syncTaskSla } from './sla.js';
+
+// Marks the series as over at this task, so the job stops looking at it
+const endRecurrence = async (task: ITask) => {
+  await Task.updateOne({ _id: task._id, nextOccurrence: null }, { recurrenceEnded: true });
+  task.recurrenceEnded = true;
+};
+
+// Upper bound on occurrences skipped in one go, in case a rule never moves past now
+const MAX_SKIPPED_OCCURRENCES = 1000;
+
+/**
+ * The first occurrence after `task` that is due after `now`, so a task left
+ * overdue doesn't spawn a backlog of occurrences that are already overdue too.
+ * Occurrences skipped on the way still count toward COUNT. Null when the series
+ * ends first.
+ */
+const getUpcomingOccurrence = (
+  recurrence: ITaskRecurrence,
+  task: ITask,
+  now: Date
+): { dueDate: Date; occurrenceNumber: number } | null => {
+  let occurrenceNumber = task.occurrenceNumber || 1;
+  let dueDate = getNextOccurrenceDate(recurrence, task.dueDate, occurrenceNumber);
+  occurrenceNumber++;
+  for (let skipped = 0; dueDate && dueDate <= now && skipped < MAX_SKIPPED_OCCURRENCES; skipped++) {
+    dueDate = getNextOccurrenceDate(recurrence, dueDate, occurrenceNumber);
+    occurrenceNumber++;
+  }
+  return dueDate ? { dueDate, occurrenceNumber } : null;
+};
+
+/**
+ * Creates the next occurrence of a recurring task, keeping its assignee,
+ * customer, category, subtasks and checklist (all reopened). The new task is
+ * due at the first occurrence after `now`. Returns the new task, or null when the task isn't recurring, the series has ended or the
+ * next occurrence already exists.
+ */
+export const materializeNextOccurrence = async (task: ITask, now = new Date()): Promise<ITask | null> => {
+  if (!task.recurrence || task.nextOccurrence || task.recurrenceEnded) {
+    return null;
+  }
+
+  let next: { dueDate: Date; occurrenceNumber: number } | null;
+  try {
+    next = getUpcomingOccurrence(task.recurrence, task, now);
+  } catch (error) {
+    console.error(`Invalid recurrence on task ${task._id}:`, error);
+    next = null;
+  }
+
+  if (!next) {
+    await endRecurrence(task);
+    return null;
+  }
+  const nextDueDate = next.dueDate;
+
+  // Claim the slot first so concurrent callers (route + job) can't both create it
+  const nextId = new mongoose.Types.ObjectId();
+  const claimed = await Task.findOneAndUpdate(
+    { _id: task._id, nextOccurrence: null },
+    { nextOccurrence: nextId }
+  );
+  if (!claimed) {
+    return null;
+  }
+
+  try {
+    // A plain copy, so the new task doesn't share the subdocument
+    const { recurrence } = task.toObject<ITask>();
+
+    // Children start over on every occurrence; subtask due dates keep their offset from the parent's
+    const dueDateShift = nextDueDate.getTime() - task.dueDate.getTime();
+    const subtasks = (task.subtasks || []).map(subtask => ({
+      title: subtask.title,
+      assignedTo: subtask.assignedTo,
+      dueDate: subtask.dueDate ? new Date(subtask.dueDate.getTime() + dueDateShift) : undefined
+    }));
+    const checklist = (task.checklist || []).map(item => ({ text: item.text }));
+
+    const nextTask = new Task({
+      _id: nextId,
+      title: task.title,
+      description: task.description,
+      category: task.category,
+      priority: task.priority,
+      dueDate: nextDueDate,
+      assignedTo: task.assignedTo,
+      customer: task.customer,
+      subtasks,
+      checklist,
+      reminders: task.reminders,
+      recurrence,
+      recurrenceSeries: task.recurrenceSeries || task._id,
+      occurrenceNumber: next.occurrenceNumber,
+      createdBy: task.createdBy
+    });
+    await nextTask.save();
+    await syncTaskSla(nextTask, { reassign: true });
+
+    task.nextOccurrence = nextId;
+    publishTaskChange(nextTask, 'created');
+
+    await createNotification({
+      user: nextTask.assignedTo,
+      type: 'NEW_TASK',
+      message: `A new occurrence of the recurring task "${nextTask.title}" is due on ${nextDueDate.toDateString()}.`,
+      link: `/tasks/${nextTask._id}`,
+      related: { model: 'Task', id: nextTask._id },
+    });
+
+    logActivity({
+      user: task.createdBy,
+      action: 'CREATE_TASK',
+      entity: 'Task',
+      entityId: nextTask._id,
+      details: { title: nextTask.title, recurrenceOf: task._id, occurrenceNumber: nextTask.occurrenceNumber }
+    });
+
+    return nextTask;
+  } catch (error) {
+    // Release the claim so the job can retry later
+    await Task.updateOne({ _id: task._id, nextOccurrence: nextId }, { nextOccurrence: null });
+    throw error;
+  }
+};
@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { CookieOptions, Request, Response } from 'express';
+import Session, { SessionRevokeReason } from '../models/Session.js';
+import User, { IUser } from '../models/User.js';
+import { disconnectSessions } from './realtime.js';
+
+// Access tokens are short-lived; the refresh token in the session cookie gets new ones
+const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // sessions unused for this long end
+// How long a just-replaced refresh token keeps working, so parallel refreshes from one device don't look like theft
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export const REFRESH_COOKIE = 'refreshToken';
+
+interface AccessTokenPayload {
+  userId: string;
+  sessionId?: string; // missing from tokens issued before sessions existed
+}
+
+// Production refuses to start without JWT_SECRET (see server.ts), so the fallback only signs development tokens
+export const getJwtSecret = () => process.env.JWT_SECRET || 'fallback-secret-key';
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const createSecret = () => crypto.randomBytes(32).toString('base64url');
+
+export const signAccessToken = (userId: mongoose.Types.ObjectId, sessionId: mongoose.Types.ObjectId): string =>
+  jwt.sign({ userId, sessionId }, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL });
+
+// Throws when the token is invalid or expired
+export const verifyAccessToken = (token: string): AccessTokenPayload =>
+  jwt.verify(token, getJwtSecret(), { algorithms: ['HS256'] }) as AccessTokenPayload;
+
+export const isSessionActive = async (sessionId: string, userId: string): Promise<boolean> =>
+  mongoose.isValidObjectId(sessionId) &&
+  !!(await Session.exists({ _id: sessionId, user: userId, revokedAt: null, expiresAt: { $gt: new Date() } }));
+
+const refreshCookieOptions = (): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict',
+  path: '/api/auth',
+});
+
+// The cookie holds the session id and a secret only the device knows
+const setRefreshCookie = (res: Response, sessionId: mongoose.Types.ObjectId, secret: string) => {
+  res.cookie(REFRESH_COOKIE, `${sessionId}.${secret}`, { ...refreshCookieOptions(), maxAge: REFRESH_TOKEN_TTL_MS });
+};
+
+export const clearRefreshCookie = (res: Response) => {
+  res.clearCookie(REFRESH_COOKIE, refreshCookieOptions());
+};
+
+// The session id in the request's refresh cookie, and the secret that goes with it
+export const readRefreshCookie = (req: Request): { sessionId: string; secret: string } | null => {
+  const [sessionId, secret] = String(req.cookies?.[REFRESH_COOKIE] ?? '').split('.');
+  return sessionId && secret && mongoose.isValidObjectId(sessionId) ? { sessionId, secret } : null;
+};
+
+const getDevice = (req: Request) => ({
+  userAgent: req.get('user-agent')?.slice(0, 300),
+  ip: req.ip,
+});
+
+/**
+ * Signs `user` in on the requesting device: records a session, sets its
+ * refresh cookie and returns an access token for it.
+ */
+export const startSession = async (user: IUser, req: Request, res: Response): Promise<string> => {
+  const secret = createSecret();
+  const session = await Session.create({
+    user: user._id,
+    tokenHash: hashToken(secret),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    ...getDevice(req)
+  });
+  setRefreshCookie(res, session._id, secret);
+  return signAccessToken(user._id, session._id);
+};
+
+/**
+ * Exchanges the request's refresh cookie for a new access token, replacing the
+ * refresh token as it goes. A refresh token that was already replaced means it
+ * was copied, so the session is revoked for whoever holds it. Returns null when
+ * the device has to sign in again.
+ */
+export const refreshSession = async (
+  req: Request,
+  res: Response
+): Promise<{ user: IUser; sessionId: mongoose.Types.ObjectId; accessToken: string } | null> => {
+  const cookie = readRefreshCookie(req);
+  if (!cookie) {
+    return null;
+  }
+
+  const now = new Date();
+  const active = { _id: cookie.sessionId, revokedAt: null, expiresAt: { $gt: now } };
+  const tokenHash = hashToken(cookie.secret);
+  const secret = createSecret();
+
+  // Conditional on the current token, so only one of several parallel refreshes rotates it
+  let session = await Session.findOneAndUpdate(
+    { ...active, tokenHash },
+    {
+      tokenHash: hashToken(secret),
+      previousTokenHash: tokenHash,
+      rotatedAt: now,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+      ...getDevice(req)
+    },
+    { new: true }
+  );
+
+  if (session) {
+    setRefreshCookie(res, session._id, secret);
+  } else {
+    session = await Session.findOne(active);
+    if (!session) {
+      return null;
+    }
+    const isInFlight = session.previousTokenHash === tokenHash &&
+      !!session.rotatedAt && now.getTime() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+    if (!isInFlight) {
+      await revokeSession(session.user, session._id, 'token-reuse');
+      return null;
+    }
+  }
+
+  const user = await User.findById(session.user);
+  if (!user || !user.isActive) {
+    await revokeSession(session.user, session._id, 'deactivated');
+    return null;
+  }
+
+  return { user, sessionId: session._id, accessToken: signAccessToken(user._id, session._id) };
+};
+
+export const revokeSession = async (
+  userId: mongoose.Types.ObjectId,
+  sessionId: mongoose.Types.ObjectId | string,
+  reason: SessionRevokeReason
+): Promise<boolean> => {
+  const result = await Session.updateOne(
+    { _id: sessionId, user: userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  disconnectSessions(userId, String(sessionId));
+  return result.modifiedCount > 0;
+};
+
+// Signs a user out on every device; their open event streams close too
+export const revokeUserSessions = async (userId: mongoose.Types.ObjectId, reason: SessionRevokeReason): Promise<number> => {
+  const result = await Session.updateMany(
+    { user: userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+  disconnectSessions(userId);
+  return result.modifiedCount;
+};
@@ -0,0 +1,292 @@
+import mongoose from 'mongoose';
+import Task, { ITask, ITaskSla, SlaAlert, TaskPriority } from '../models/Task.js';
+import Customer from '../models/Customer.js';
+import SlaPolicy from '../models/SlaPolicy.js';
+import User from '../models/User.js';
+import { NotificationType } from '../models/Notification.js';
+import { createNotification } from './notifications.js';
+import { formatInTimezone } from './taskReminders.js';
+
+const HOUR = 60 * 60 * 1000;
+
+// Share of a target's time that may pass before the assignee is warned
+export const SLA_WARNING_THRESHOLD = 0.8;
+
+// The task fields the SLA clock depends on; `customer` may be populated
+interface SlaTask {
+  _id?: unknown;
+  customer?: unknown;
+  priority: TaskPriority;
+  status: ITask['status'];
+  createdAt: Date;
+  sla?: ITaskSla | null;
+}
+
+/**
+ * The SLA policy covering a customer: its own active policy, or else the
+ * active policy for its company type.
+ */
+export const findSlaPolicy = async (customerId: unknown) => {
+  const customer = await Customer.findById(customerId).select('companyType');
+  if (!customer) {
+    return null;
+  }
+
+  const policy = await SlaPolicy.findOne({ customer: customer._id, isActive: true });
+  if (policy) {
+    return policy;
+  }
+
+  return SlaPolicy.findOne({ companyType: customer.companyType, isActive: true })
+    .collation({ locale: 'en', strength: 2 });
+};
+
+/**
+ * Brings a task's SLA clock up to date and saves it. With `reassign` (new
+ * task, or its customer or priority changed) the targets are taken from the
+ * customer's current policy; the task loses its SLA when there is none. The
+ * clock records when the task was first picked up (left the 'todo' stage) and
+ * completed, and whether either happened after its target.
+ */
+export const syncTaskSla = async (task: SlaTask, { reassign = false } = {}, now = new Date()): Promise<void> => {
+  let sla: ITaskSla | null = task.sla ? {
+    policy: task.sla.policy,
+    respondBy: task.sla.respondBy,
+    resolveBy: task.sla.resolveBy,
+    respondedAt: task.sla.respondedAt,
+    resolvedAt: task.sla.resolvedAt,
+    responseBreached: task.sla.responseBreached,
+    resolutionBreached: task.sla.resolutionBreached,
+    alerts: [...task.sla.alerts],
+  } : null;
+
+  if (reassign) {
+    const policy = task.customer ? await findSlaPolicy(task.customer) : null;
+    if (!policy) {
+      sla = null;
+    } else {
+      const target = policy.targets[task.priority];
+      const respondBy = new Date(task.createdAt.getTime() + target.responseHours * HOUR);
+      const resolveBy = new Date(task.createdAt.getTime() + target.resolutionHours * HOUR);
+      const unchanged = sla && sla.policy.equals(policy._id)
+        && sla.respondBy.getTime() === respondBy.getTime() && sla.resolveBy.getTime() === resolveBy.getTime();
+
+      if (!unchanged) {
+        // New targets: alerts already sent were about the old ones
+        sla = {
+          policy: policy._id,
+          respondBy,
+          resolveBy,
+          respondedAt: sla?.respondedAt ?? null,
+          resolvedAt: sla?.resolvedAt ?? null,
+          responseBreached: false,
+          resolutionBreached: false,
+          alerts: [],
+        };
+      }
+    }
+  }
+
+  if (sla) {
+    if (task.status !== 'todo' && !sla.respondedAt) {
+      sla.respondedAt = now;
+    }
+    sla.resolvedAt = task.status === 'completed' ? sla.resolvedAt ?? now : null;
+    sla.responseBreached = (sla.respondedAt ?? now) > sla.respondBy;
+    sla.resolutionBreached = (sla.resolvedAt ?? now) > sla.resolveBy;
+  }
+
+  if (!sla && !task.sla) {
+    return;
+  }
+
+  task.sla = sla;
+  await Task.updateOne({ _id: task._id }, { sla });
+};
+
+interface AlertDefinition {
+  alert: SlaAlert;
+  breach: boolean;
+  type: NotificationType;
+  message: (title: string, customer: string, deadline: string) => string;
+}
+
+const responseAlerts: AlertDefinition[] = [
+  {
+    alert: 'response-breach',
+    breach: true,
+    type: 'SLA_BREACHED',
+    message: (title, customer, deadline) => `SLA breached: the task "${title}" for ${customer} was not picked up by ${deadline}.`,
+  },
+  {
+    alert: 'response-warning',
+    breach: false,
+    type: 'SLA_WARNING',
+    message: (title, customer, deadline) => `SLA at risk: the task "${title}" for ${customer} must be picked up by ${deadline}.`,
+  },
+];
+
+const resolutionAlerts: AlertDefinition[] = [
+  {
+    alert: 'resolution-breach',
+    breach: true,
+    type: 'SLA_BREACHED',
+    message: (title, customer, deadline) => `SLA breached: the task "${title}" for ${customer} was not completed by ${deadline}.`,
+  },
+  {
+    alert: 'resolution-warning',
+    breach: false,
+    type: 'SLA_WARNING',
+    message: (title, customer, deadline) => `SLA at risk: the task "${title}" for ${customer} must be completed by ${deadline}.`,
+  },
+];
+
+// The most severe alert that is due for a target, or null
+const getDueAlert = (alerts: AlertDefinition[], start: Date, deadline: Date, now: Date) => {
+  if (now > deadline) {
+    return alerts[0];
+  }
+  const elapsed = (now.getTime() - start.getTime()) / (deadline.getTime() - start.getTime());
+  return elapsed >= SLA_WARNING_THRESHOLD ? alerts[1] : null;
+};
+
+/**
+ * Sends an SLA alert once: warnings go to the assignee, breaches to the
+ * assignee and all managers. A breach also marks any skipped warning as sent.
+ */
+const sendSlaAlert = async (
+  task: { _id: mongoose.Types.ObjectId; title: string; assignedTo: mongoose.Types.ObjectId },
+  definition: AlertDefinition,
+  deadline: Date,
+  customerName: string
+): Promise<boolean> => {
+  const alerts = definition.breach ? [definition.alert, definition.alert.replace('breach', 'warning')] : [definition.alert];
+  const breachedField = definition.alert.startsWith('response') ? 'sla.responseBreached' : 'sla.resolutionBreached';
+
+  const result = await Task.updateOne(
+    { _id: task._id, 'sla.alerts': { $ne: definition.alert } },
+    {
+      $addToSet: { 'sla.alerts': { $each: alerts } },
+      ...(definition.breach && { $set: { [breachedField]: true } })
+    }
+  );
+  if (result.modifiedCount === 0) {
+    return false;
+  }
+
+  const recipients = await User.find({
+    isActive: true,
+    $or: [
+      { _id: task.assignedTo },
+      ...(definition.breach ? [{ role: 'manager' }] : [])
+    ]
+  }).select('timezone');
+
+  for (const user of recipients) {
+    await createNotification({
+      user: user._id,
+      type: definition.type,
+      message: definition.message(task.title, customerName, formatInTimezone(deadline, user.timezone)),
+      link: `/tasks/${task._id}`,
+      related: { model: 'Task', id: task._id },
+    });
+  }
+
+  return true;
+};
+
+/**
+ * Warns about open SLA targets that are close to their deadline and reports
+ * breached ones. Returns the number of warnings and breaches sent.
+ */
+export const checkSlaClocks = async (now = new Date()): Promise<{ warnings: number; breaches: number }> => {
+  const tasks = await Task.find({ sla: { $ne: null }, 'sla.resolvedAt': null })
+    .populate<{ customer: { companyName: string } | null }>('customer', 'companyName');
+
+  const sent = { warnings: 0, breaches: 0 };
+  for (const task of tasks) {
+    const sla = task.sla!;
+    const due = [
+      !sla.respondedAt && { definition: getDueAlert(responseAlerts, task.createdAt, sla.respondBy, now), deadline: sla.respondBy },
+      { definition: getDueAlert(resolutionAlerts, task.createdAt, sla.resolveBy, now), deadline: sla.resolveBy },
+    ];
+
+    for (const entry of due) {
+      if (!entry || !entry.definition || sla.alerts.includes(entry.definition.alert)) continue;
+      try {
+        const customerName = task.customer?.companyName ?? 'a customer';
+        if (await sendSlaAlert(task, entry.definition, entry.deadline, customerName)) {
+          sent[entry.definition.breach ? 'breaches' : 'warnings']++;
+        }
+      } catch (error) {
+        console.error(`Failed to send SLA alert for task ${task._id}:`, error);
+      }
+    }
+  }
+
+  return sent;
+};
+
+export interface SlaReportFilters {
+  from?: Date;
+  to?: Date;
+  customer?: mongoose.Types.ObjectId;
+}
+
+/**
+ * SLA compliance per customer for tasks created in the given period. A
+ * target counts as met or breached once the task was picked up or completed,
+ * or as breached once its deadline passed; otherwise it is still pending.
+ */
+export const getSlaReport = async ({ from, to, customer }: SlaReportFilters) => {
+  const match: Record<string, unknown> = { sla: { $ne: null } };
+  if (customer) match.customer = customer;
+  if (from || to) {
+    match.createdAt = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+  }
+
+  const rate = (met: string, breached: string) => ({
+    $cond: [
+      { $gt: [{ $add: [met, breached] }, 0] },
+      { $round: [{ $multiply: [{ $divide: [met, { $add: [met, breached] }] }, 100] }, 1] },
+      null
+    ]
+  });
+  const hoursBetween = (start: string, end: string) => ({ $divide: [{ $subtract: [end, start] }, HOUR] });
+
+  return Task.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: '$customer',
+        tasks: { $sum: 1 },
+        responseMet: { $sum: { $cond: [{ $and: ['$sla.respondedAt', { $not: ['$sla.responseBreached'] }] }, 1, 0] } },
+        responseBreached: { $sum: { $cond: ['$sla.responseBreached', 1, 0] } },
+        resolutionMet: { $sum: { $cond: [{ $and: ['$sla.resolvedAt', { $not: ['$sla.resolutionBreached'] }] }, 1, 0] } },
+        resolutionBreached: { $sum: { $cond: ['$sla.resolutionBreached', 1, 0] } },
+        avgResponseHours: { $avg: { $cond: ['$sla.respondedAt', hoursBetween('$createdAt', '$sla.respondedAt'), null] } },
+        avgResolutionHours: { $avg: { $cond: ['$sla.resolvedAt', hoursBetween('$createdAt', '$sla.resolvedAt'), null] } },
+      }
+    },
+    { $lookup: { from: 'customers', localField: '_id', foreignField: '_id', as: 'customer' } },
+    { $unwind: '$customer' },
+    {
+      $project: {
+        _id: 0,
+        customer: { _id: '$customer._id', companyName: '$customer.companyName', companyType: '$customer.companyType' },
+        tasks: 1,
+        responseMet: 1,
+        responseBreached: 1,
+        responsePending: { $subtract: ['$tasks', { $add: ['$responseMet', '$responseBreached'] }] },
+        responseCompliance: rate('$responseMet', '$responseBreached'),
+        resolutionMet: 1,
+        resolutionBreached: 1,
+        resolutionPending: { $subtract: ['$tasks', { $add: ['$resolutionMet', '$resolutionBreached'] }] },
+        resolutionCompliance: rate('$resolutionMet', '$resolutionBreached'),
+        avgResponseHours: { $round: ['$avgResponseHours', 1] },
+        avgResolutionHours: { $round: ['$avgResolutionHours', 1] },
+      }
+    },
+    { $sort: { 'customer.companyName': 1 } }
+  ]);
+};
@@ -0,0 +1,61 @@
+import mongoose from 'mongoose';
+import { ITask } from '../models/Task.js';
+import User, { IUser } from '../models/User.js';
+import { canAccessTask } from '../middleware/auth.js';
+import { createNotification } from './notifications.js';
+
+// Mentions are written as @[Name](userId); the client inserts them from a picker
+const MENTION_PATTERN = /@\[([^\]\n]{1,100})\]\(([a-f\d]{24})\)/gi;
+
+export const parseMentions = (text: string): mongoose.Types.ObjectId[] => {
+  const ids = new Set([...text.matchAll(MENTION_PATTERN)].map(match => match[2].toLowerCase()));
+  return [...ids].map(id => new mongoose.Types.ObjectId(id));
+};
+
+// Mentions in plain text, for notification messages and activity logs
+export const stripMentions = (text: string): string => text.replace(MENTION_PATTERN, '@$1');
+
+/**
+ * The people who can be mentioned on a task: everyone who can open it, so a
+ * mention never links someone to a task they can't see.
+ */
+export const getMentionableUsers = async (task: ITask) => {
+  const participants = [task.assignedTo, task.createdBy, ...task.subtasks.map(subtask => subtask.assignedTo)].filter(Boolean);
+  return User.find({
+    isActive: true,
+    $or: [{ role: { $in: ['admin', 'manager'] } }, { _id: { $in: participants } }]
+  })
+    .select('name email')
+    .sort({ name: 1 });
+};
+
+/**
+ * Notifies users newly mentioned in a comment, skipping the author and anyone
+ * who can't open the task. Returns who was notified, so they aren't also told
+ * about the comment in general.
+ */
+export const notifyMentions = async (
+  task: ITask,
+  mentions: mongoose.Types.ObjectId[],
+  author: IUser,
+  alreadyMentioned: mongoose.Types.ObjectId[] = []
+): Promise<string[]> => {
+  const newMentions = mentions.filter(id => !id.equals(author._id) && !alreadyMentioned.some(previous => previous.equals(id)));
+  if (newMentions.length === 0) {
+    return [];
+  }
+
+  const users = await User.find({ _id: { $in: newMentions }, isActive: true });
+  const notified: string[] = [];
+  for (const user of users.filter(user => canAccessTask(user, task))) {
+    await createNotification({
+      user: user._id,
+      type: 'MENTIONED',
+      message: `${author.name} mentioned you in a comment on "${task.title}"`,
+      link: `/tasks/${task._id}`,
+      related: { model: 'Task', id: task._id },
+    });
+    notified.push(user._id.toString());
+  }
+  return notified;
+};
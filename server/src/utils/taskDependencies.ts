@@ -0,0 +1,91 @@
+import mongoose from 'mongoose';
+import Task, { ITask } from '../models/Task.js';
+import { createNotification } from './notifications.js';
+import { publishTaskChange } from './realtime.js';
+
+/**
+ * Returns true when `fromId` already depends on `toId`, directly or through a
+ * chain of prerequisites. Linking `toId` as blocked by `fromId` would then
+ * create a cycle.
+ */
+export const dependsOn = async (
+  fromId: mongoose.Types.ObjectId | string,
+  toId: mongoose.Types.ObjectId | string
+): Promise<boolean> => {
+  const target = toId.toString();
+  const visited = new Set<string>([fromId.toString()]);
+  let frontier = [fromId.toString()];
+
+  // Breadth-first walk over blockedBy edges, one query per level
+  while (frontier.length > 0) {
+    const tasks = await Task.find({ _id: { $in: frontier } }).select('blockedBy');
+    frontier = [];
+
+    for (const task of tasks) {
+      for (const prerequisite of task.blockedBy) {
+        const id = prerequisite.toString();
+        if (id === target) {
+          return true;
+        }
+        if (!visited.has(id)) {
+          visited.add(id);
+          frontier.push(id);
+        }
+      }
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Recomputes `isBlocked` for the given tasks. When `resolvedBy` is passed
+ * (a prerequisite that was completed or removed), assignees of tasks that
+ * just became unblocked are notified.
+ */
+export const updateBlockedState = async (
+  taskIds: mongoose.Types.ObjectId[],
+  resolvedBy?: ITask
+): Promise<void> => {
+  if (taskIds.length === 0) {
+    return;
+  }
+
+  const tasks = await Task.find({ _id: { $in: taskIds } });
+
+  for (const task of tasks) {
+    const openPrerequisite = task.blockedBy.length > 0
+      ? await Task.exists({ _id: { $in: task.blockedBy }, status: { $ne: 'completed' } })
+      : null;
+    const isBlocked = openPrerequisite !== null;
+
+    if (isBlocked === task.isBlocked) {
+      continue;
+    }
+
+    await Task.updateOne({ _id: task._id }, { isBlocked });
+    publishTaskChange(task, 'updated');
+
+    if (!isBlocked && resolvedBy && task.status !== 'completed') {
+      await createNotification({
+        user: task.assignedTo,
+        type: 'TASK_UNBLOCKED',
+        message: `"${task.title}" is no longer blocked: "${resolvedBy.title}" has been ${resolvedBy.status === 'completed' ? 'completed' : 'removed'}.`,
+        link: `/tasks/${task._id}`,
+        related: { model: 'Task', id: task._id },
+      });
+    }
+  }
+};
+
+/**
+ * Refreshes the blocked state of every task waiting on `task`, after its
+ * status changed.
+ */
+export const updateDependents = async (task: ITask): Promise<void> => {
+  const dependents = await Task.find({ blockedBy: task._id }).select('_id');
+  await updateBlockedState(
+    dependents.map(dependent => dependent._id),
+    task.status === 'completed' ? task : undefined
+  );
+};
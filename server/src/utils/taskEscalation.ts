@@ -0,0 +1,130 @@
+import mongoose, { HydratedDocument } from 'mongoose';
+import Task, { ITask, TaskEscalationLevel } from '../models/Task.js';
+import User from '../models/User.js';
+import WorkspaceSettings, { IEscalationPolicy, IWorkspaceSettings } from '../models/WorkspaceSettings.js';
+import { createNotification } from './notifications.js';
+import { logActivity } from './activityLogger.js';
+import { publishTaskChange } from './realtime.js';
+import { getWorkspaceSettings } from './workspaceSettings.js';
+
+const HOUR = 60 * 60 * 1000;
+
+// The level a task overdue by this many hours should be escalated to
+const getEscalationLevel = (policy: IEscalationPolicy, hoursOverdue: number): TaskEscalationLevel => {
+  if (hoursOverdue >= policy.managersAfterHours) return 2;
+  if (hoursOverdue >= policy.creatorAfterHours) return 1;
+  return 0;
+};
+
+// Users to notify when a task reaches `level`, including any level skipped on the way
+const getRecipients = async (task: ITask, fromLevel: TaskEscalationLevel, level: TaskEscalationLevel) => {
+  const recipients = new Set<string>();
+  if (fromLevel < 1) {
+    recipients.add(task.createdBy.toString());
+  }
+  if (level >= 2) {
+    const managers = await User.find({ role: 'manager', isActive: true }).select('_id');
+    managers.forEach(manager => recipients.add(manager._id.toString()));
+  }
+  return [...recipients].map(id => new mongoose.Types.ObjectId(id));
+};
+
+const escalateTask = async (task: HydratedDocument<ITask>, level: TaskEscalationLevel, hoursOverdue: number, now: Date) => {
+  const fromLevel = task.escalationLevel;
+
+  // Only escalate from the level (and due date) we read, so overlapping runs escalate once
+  const result = await Task.updateOne(
+    { _id: task._id, escalationLevel: fromLevel, dueDate: task.dueDate },
+    { escalationLevel: level, escalatedAt: now }
+  );
+  if (result.modifiedCount === 0) {
+    return false;
+  }
+  task.escalationLevel = level;
+  task.escalatedAt = now;
+
+  const assignee = await User.findById(task.assignedTo).select('name');
+  const recipients = await getRecipients(task, fromLevel, level);
+  for (const user of recipients) {
+    await createNotification({
+      user,
+      type: 'TASK_ESCALATED',
+      message: `The task "${task.title}" assigned to ${assignee?.name ?? 'a former user'} is ${hoursOverdue} hours overdue.`,
+      link: `/tasks/${task._id}`,
+      related: { model: 'Task', id: task._id },
+    });
+  }
+
+  logActivity({
+    action: 'ESCALATE_TASK',
+    entity: 'Task',
+    entityId: task._id,
+    details: {
+      title: task.title,
+      escalationLevel: level,
+      hoursOverdue,
+      notified: recipients.length
+    }
+  });
+  publishTaskChange(task, 'updated');
+
+  return true;
+};
+
+// When escalation took effect; the first run without one starts it now, so
+// tasks already overdue before escalation existed are not all escalated at once
+const getEnabledAt = async (settings: IWorkspaceSettings, now: Date): Promise<Date> => {
+  if (settings.escalation.enabledAt) {
+    return settings.escalation.enabledAt;
+  }
+
+  const updated = await WorkspaceSettings.findOneAndUpdate(
+    { _id: settings._id, 'escalation.enabledAt': { $exists: false } },
+    { 'escalation.enabledAt': now },
+    { new: true }
+  );
+  if (updated?.escalation.enabledAt) {
+    return updated.escalation.enabledAt;
+  }
+
+  // Another run set it first
+  const current = await WorkspaceSettings.findById(settings._id).select('escalation.enabledAt');
+  return current?.escalation.enabledAt ?? now;
+};
+
+/**
+ * Escalates open overdue tasks per the workspace escalation policy for their
+ * priority: first to the task's creator, then to all managers. Each level is
+ * reached once per due date, and only for tasks that went overdue while
+ * escalation was on. Returns the number of tasks escalated.
+ */
+export const escalateOverdueTasks = async (now = new Date()): Promise<number> => {
+  const settings = await getWorkspaceSettings();
+  if (!settings.escalation.enabled) {
+    return 0;
+  }
+  const enabledAt = await getEnabledAt(settings, now);
+
+  const tasks = await Task.find({
+    status: { $ne: 'completed' },
+    escalationLevel: { $lt: 2 },
+    dueDate: { $lt: now, $gte: enabledAt }
+  });
+
+  let escalated = 0;
+  for (const task of tasks) {
+    const hoursOverdue = Math.floor((now.getTime() - task.dueDate.getTime()) / HOUR);
+    const level = getEscalationLevel(settings.escalation.policies[task.priority], hoursOverdue);
+    if (level <= task.escalationLevel) continue;
+
+    try {
+      if (await escalateTask(task, level, hoursOverdue, now)) {
+        escalated++;
+      }
+    } catch (error) {
+      console.error(`Failed to escalate task ${task._id}:`, error);
+    }
+  }
+
+  return escalated;
+};
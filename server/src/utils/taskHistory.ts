@@ -0,0 +1,210 @@
+import mongoose from 'mongoose';
+import Activity, { IActivity } from '../models/Activity.js';
+import User from '../models/User.js';
+import Customer from '../models/Customer.js';
+import TaskCategory from '../models/TaskCategory.js';
+import { ITask } from '../models/Task.js';
+
+// Fields the history is rebuilt from. Every write to one of them is logged; the
+// writes that bypass the log (board order, escalation, recurring occurrences)
+// only touch other fields.
+export const TRACKED_TASK_FIELDS = [
+  'title', 'description', 'category', 'priority', 'status', 'dueDate', 'assignedTo', 'customer'
+] as const;
+
+type TrackedField = typeof TRACKED_TASK_FIELDS[number];
+
+// A tracked field's value as compared: references as ID strings, dates as ISO strings
+type FieldValue = string | number | boolean | null;
+type TaskState = Record<TrackedField, FieldValue>;
+
+interface ResolvedReference {
+  _id: string;
+  name: string | null;
+}
+
+// Reference fields are resolved to { _id, name } so the client can render them
+const REFERENCE_FIELDS: Partial<Record<TrackedField, { model: mongoose.Model<any>; label: string }>> = {
+  assignedTo: { model: User, label: 'name' },
+  customer: { model: Customer, label: 'companyName' },
+  category: { model: TaskCategory, label: 'name' },
+};
+
+export interface FieldChange {
+  field: TrackedField;
+  from: FieldValue | ResolvedReference;
+  to: FieldValue | ResolvedReference;
+}
+
+export interface TaskHistoryEntry {
+  _id: mongoose.Types.ObjectId;
+  action: IActivity['action'];
+  user: IActivity['user'];
+  createdAt: Date;
+  changes: FieldChange[];
+}
+
+/**
+ * Normalizes a stored value so equal values compare equal regardless of
+ * whether they came from a document, a request body or an activity entry.
+ */
+const normalize = (value: unknown): FieldValue => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof mongoose.Types.ObjectId) return value.toString();
+  if (typeof value === 'object') {
+    return '_id' in value && value._id ? String(value._id) : JSON.stringify(value);
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toISOString();
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+};
+
+// Whether two normalized values of `field` are the same; due dates may come as date-only strings
+const sameValue = (field: TrackedField, a: FieldValue, b: FieldValue): boolean => {
+  if (field === 'dueDate' && typeof a === 'string' && typeof b === 'string') {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+  return a === b;
+};
+
+const getCurrentState = (task: ITask): TaskState =>
+  Object.fromEntries(TRACKED_TASK_FIELDS.map(field => [field, normalize(task[field])])) as TaskState;
+
+/**
+ * Replaces reference IDs with { _id, name } objects, looking every ID up once.
+ */
+const resolveReferences = async (values: { field: TrackedField; value: FieldValue | ResolvedReference }[]) => {
+  const idsByField = new Map<TrackedField, Set<string>>();
+  for (const { field, value } of values) {
+    if (REFERENCE_FIELDS[field] && typeof value === 'string' && mongoose.isValidObjectId(value)) {
+      if (!idsByField.has(field)) idsByField.set(field, new Set());
+      idsByField.get(field)!.add(value);
+    }
+  }
+
+  const labels = new Map<string, string>();
+  for (const [field, ids] of idsByField) {
+    const { model, label } = REFERENCE_FIELDS[field]!;
+    const docs = await model.find({ _id: { $in: [...ids] } }).select(label).lean<Record<string, unknown>[]>();
+    for (const doc of docs) {
+      labels.set(`${field}:${doc._id}`, String(doc[label]));
+    }
+  }
+
+  return (field: TrackedField, value: FieldValue | ResolvedReference): FieldValue | ResolvedReference => {
+    if (!REFERENCE_FIELDS[field] || typeof value !== 'string') return value;
+    return { _id: value, name: labels.get(`${field}:${value}`) ?? null };
+  };
+};
+
+/**
+ * Builds the field-level change history of a task from its activity log and,
+ * when `at` is given, reconstructs the task as it looked at that moment.
+ *
+ * The log stores the previous values of every update (and, for newer entries,
+ * the new values too), so we walk backwards from the current document and
+ * undo one update at a time.
+ *
+ * A write that bypassed the log would otherwise be pinned on the update
+ * before it. When an entry's new values don't match the state it should have
+ * left behind, we go on from what it recorded and report the history as
+ * incomplete.
+ */
+export const getTaskHistory = async (task: ITask, at?: Date) => {
+  const activities = await Activity.find({ entity: 'Task', entityId: task._id })
+    .populate('user', 'name email')
+    .sort({ createdAt: -1 });
+
+  let state = getCurrentState(task);
+  let snapshot: TaskState | null = null;
+  let complete = true;
+  const history: TaskHistoryEntry[] = [];
+
+  for (const activity of activities) {
+    if (at && !snapshot && activity.createdAt <= at) {
+      snapshot = { ...state };
+    }
+
+    if (activity.action !== 'UPDATE_TASK') {
+      history.push({
+        _id: activity._id,
+        action: activity.action,
+        user: activity.user,
+        createdAt: activity.createdAt,
+        changes: [],
+      });
+      continue;
+    }
+
+    const details = activity.details || {};
+    const fields: string[] = Array.isArray(details.updatedFields) ? details.updatedFields : [];
+    const previousValues: Record<string, unknown> = details.previousValues || {};
+    const newValues: Record<string, unknown> = details.newValues || {};
+    const trackedFields = fields.filter((field): field is TrackedField =>
+      (TRACKED_TASK_FIELDS as readonly string[]).includes(field));
+
+    for (const field of trackedFields) {
+      if (field in newValues && !sameValue(field, normalize(newValues[field]), state[field])) {
+        complete = false;
+        state[field] = normalize(newValues[field]);
+      }
+    }
+
+    const previousState = { ...state };
+    const changes: FieldChange[] = [];
+
+    for (const trackedField of trackedFields) {
+      const from = normalize(previousValues[trackedField]);
+      const to = state[trackedField];
+      previousState[trackedField] = from;
+
+      if (!sameValue(trackedField, from, to)) {
+        changes.push({ field: trackedField, from, to });
+      }
+    }
+
+    state = previousState;
+
+    if (changes.length > 0) {
+      history.push({
+        _id: activity._id,
+        action: activity.action,
+        user: activity.user,
+        createdAt: activity.createdAt,
+        changes,
+      });
+    }
+  }
+
+  // Every logged change happened after `at`, so the oldest state applies,
+  // unless the task did not exist yet.
+  if (at && !snapshot && task.createdAt <= at) {
+    snapshot = state;
+  }
+
+  const resolve = await resolveReferences([
+    ...history.flatMap(entry => entry.changes.flatMap(change => [
+      { field: change.field, value: change.from },
+      { field: change.field, value: change.to },
+    ])),
+    ...(snapshot ? TRACKED_TASK_FIELDS.map(field => ({ field, value: snapshot![field] })) : []),
+  ]);
+
+  for (const entry of history) {
+    entry.changes = entry.changes.map(change => ({
+      ...change,
+      from: resolve(change.field, change.from),
+      to: resolve(change.field, change.to),
+    }));
+  }
+
+  const resolvedSnapshot = snapshot
+    ? Object.fromEntries(TRACKED_TASK_FIELDS.map(field => [field, resolve(field, snapshot![field])]))
+    : null;
+
+  return { history, snapshot: resolvedSnapshot, complete };
+};
@@ -0,0 +1,132 @@
+import mongoose from 'mongoose';
+import Task, { ITask } from '../models/Task.js';
+import TaskCategory, { IWorkflowStatus } from '../models/TaskCategory.js';
+import { IUser } from '../models/User.js';
+import { getWorkspaceSettings } from './workspaceSettings.js';
+import { updateDependents } from './taskDependencies.js';
+import { materializeNextOccurrence } from './recurringTasks.js';
+import { syncTaskSla } from './sla.js';
+import { completeCallFollowUp } from './callFollowUps.js';
+import { getWorkflow, resolveTransition, TransitionRequest, TransitionResolution } from './workflow.js';
+
+/**
+ * Returns why a task can't be marked completed yet, or null when it can.
+ * A task stays open while any of its subtasks or checklist items are open.
+ */
+const getCompletionError = (task: ITask): string | null => {
+  const openSubtasks = (task.subtasks || []).filter(subtask => subtask.status !== 'completed').length;
+  const openItems = (task.checklist || []).filter(item => !item.isDone).length;
+
+  if (openSubtasks === 0 && openItems === 0) {
+    return null;
+  }
+
+  const open = [];
+  if (openSubtasks > 0) open.push(`${openSubtasks} open subtask(s)`);
+  if (openItems > 0) open.push(`${openItems} unchecked checklist item(s)`);
+
+  return `Task cannot be completed while it has ${open.join(' and ')}`;
+};
+
+/**
+ * Returns why a task can't move to `status`, or null when it can. Blocked
+ * tasks can't be started or completed until their prerequisites are done.
+ */
+export const getStatusChangeError = (task: ITask, status: ITask['status']): string | null => {
+  if (status === task.status) {
+    return null;
+  }
+
+  if (status !== 'todo' && task.isBlocked) {
+    return 'Task is blocked until its prerequisites are completed';
+  }
+
+  if (status === 'completed') {
+    return getCompletionError(task);
+  }
+
+  return null;
+};
+
+/**
+ * Returns why a task can't be moved into the `status` column because the
+ * column's WIP limit has been reached, or null when it can.
+ */
+export const getWipLimitError = async (status: ITask['status']): Promise<string | null> => {
+  const settings = await getWorkspaceSettings();
+  const limit = settings.board.wipLimits.get(status);
+  if (!limit) {
+    return null;
+  }
+
+  const count = await Task.countDocuments({ status });
+  if (count >= limit) {
+    return `The "${status}" column has reached its WIP limit of ${limit} task(s)`;
+  }
+
+  return null;
+};
+
+/**
+ * Follow-up work after a task's status changed: refreshes the blocked state of
+ * tasks waiting on it, advances its SLA clock and, when completed, creates the
+ * next occurrence of a recurring task and closes the follow-up of the call it
+ * was created for.
+ */
+export const handleStatusChange = async (task: ITask): Promise<void> => {
+  await updateDependents(task);
+  await syncTaskSla(task);
+
+  if (task.status === 'completed') {
+    await materializeNextOccurrence(task);
+    await completeCallFollowUp(task);
+  }
+};
+
+/**
+ * Resolves a status change against the workflow of the task's category (or
+ * `categoryId` when the category is changing too), then checks the lifecycle
+ * guards when the task would move to another stage.
+ */
+export const planStatusChange = async (
+  task: ITask,
+  user: IUser,
+  request: TransitionRequest,
+  categoryId: mongoose.Types.ObjectId | string = task.category
+): Promise<TransitionResolution> => {
+  const category = await TaskCategory.findById(categoryId);
+  const resolution = resolveTransition(getWorkflow(category), task, user, request);
+
+  if (!resolution.ok || !resolution.to || resolution.to.stage === task.status) {
+    return resolution;
+  }
+
+  const guardError = getStatusChangeError(task, resolution.to.stage) || await getWipLimitError(resolution.to.stage);
+  if (guardError) {
+    return { ok: false, statusCode: 400, message: guardError };
+  }
+
+  return resolution;
+};
+
+/**
+ * Moves a task to a workflow status, recording the resolution and adding the
+ * transition comment to the task's discussion. The caller saves the task.
+ */
+export const applyStatusChange = (
+  task: ITask,
+  to: IWorkflowStatus,
+  request: TransitionRequest,
+  userId: mongoose.Types.ObjectId
+): void => {
+  task.status = to.stage;
+  task.workflowStatus = to.key;
+
+  if (request.resolution !== undefined) {
+    task.resolution = request.resolution.trim();
+  }
+
+  if (request.comment?.trim()) {
+    task.comments.push({ text: request.comment.trim(), author: userId, createdAt: new Date() });
+  }
+};
@@ -0,0 +1,140 @@
+import mongoose from 'mongoose';
+import Task, { ITask, MAX_REMINDER_OFFSET } from '../models/Task.js';
+import { IUser } from '../models/User.js';
+import { NotificationType } from '../models/Notification.js';
+import ReminderDelivery, { ReminderKind } from '../models/ReminderDelivery.js';
+import { createNotification } from './notifications.js';
+import { isValidTimezone } from './notificationPreferences.js';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// Assignees of open overdue tasks are reminded this many days after the due date
+export const OVERDUE_REMINDER_DAYS = [1, 3, 7];
+
+// Minutes after the due time a reminder at the due time is still sent, in case a run was missed
+const DUE_REMINDER_GRACE = 60;
+
+type ReminderTask = Omit<ITask, 'assignedTo'> & { assignedTo: IUser | null };
+
+export const formatInTimezone = (date: Date, timezone: string): string =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimezone(timezone) ? timezone : 'UTC',
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(date);
+
+// Claims a reminder by its key; false when it was claimed (sent) before
+const claimReminder = async (key: string, task: ReminderTask, kind: ReminderKind): Promise<boolean> => {
+  try {
+    await ReminderDelivery.create({ key, task: task._id, user: task.assignedTo!._id, kind, dueDate: task.dueDate });
+    return true;
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Sends one reminder at most once. The key includes the due date, so moving
+ * the due date re-arms the task's reminders.
+ */
+const sendReminder = async (
+  task: ReminderTask,
+  kind: ReminderKind,
+  slot: number,
+  type: NotificationType,
+  message: string
+): Promise<boolean> => {
+  const key = `${task._id}:${task.assignedTo!._id}:${kind}:${slot}:${task.dueDate.getTime()}`;
+  if (!await claimReminder(key, task, kind)) {
+    return false;
+  }
+
+  try {
+    await createNotification({
+      user: task.assignedTo!._id as mongoose.Types.ObjectId,
+      type,
+      message,
+      link: `/tasks/${task._id}`,
+      related: { model: 'Task', id: task._id },
+    });
+  } catch (error) {
+    // Release the claim so the next run retries
+    await ReminderDelivery.deleteOne({ key });
+    throw error;
+  }
+
+  return true;
+};
+
+const findOpenTasks = (dueDate: { $gt?: Date; $gte?: Date; $lte?: Date }) =>
+  Task.find({ status: { $ne: 'completed' }, dueDate })
+    .populate<{ assignedTo: IUser | null }>('assignedTo', 'name timezone isActive');
+
+const forEachTask = async (tasks: ReminderTask[], send: (task: ReminderTask) => Promise<boolean>) => {
+  let sent = 0;
+  for (const task of tasks) {
+    if (!task.assignedTo?.isActive) continue;
+    try {
+      if (await send(task)) sent++;
+    } catch (error) {
+      console.error(`Failed to send reminder for task ${task._id}:`, error);
+    }
+  }
+  return sent;
+};
+
+/**
+ * Reminds assignees of tasks whose reminder offsets have been reached. When
+ * several have (e.g. the job was down), only the one closest to the due date
+ * is sent. Reminders at the due time go out once it has passed, up to
+ * DUE_REMINDER_GRACE later. Returns the number of reminders sent.
+ */
+export const sendUpcomingReminders = async (now = new Date()): Promise<number> => {
+  const tasks = await findOpenTasks({
+    $gt: new Date(now.getTime() - DUE_REMINDER_GRACE * MINUTE),
+    $lte: new Date(now.getTime() + MAX_REMINDER_OFFSET * MINUTE),
+  });
+
+  return forEachTask(tasks, async task => {
+    const minutesLeft = (task.dueDate.getTime() - now.getTime()) / MINUTE;
+    // Once the task is due, only the reminder at the due time is left
+    const reached = (task.reminders || []).filter(offset => offset >= minutesLeft && (minutesLeft > 0 || offset === 0));
+    if (reached.length === 0) {
+      return false;
+    }
+
+    const slot = Math.min(...reached);
+    const due = formatInTimezone(task.dueDate, task.assignedTo!.timezone);
+    return sendReminder(task, 'upcoming', slot, 'TASK_REMINDER', slot === 0
+      ? `Reminder: the task "${task.title}" is due now (${due}).`
+      : `Reminder: the task "${task.title}" is due ${due}.`);
+  });
+};
+
+/**
+ * Reminds assignees of open tasks that are one, three and seven days overdue,
+ * sending only the latest of those reached. Returns the number sent.
+ */
+export const sendOverdueReminders = async (now = new Date()): Promise<number> => {
+  const maxDays = Math.max(...OVERDUE_REMINDER_DAYS);
+  const tasks = await findOpenTasks({
+    $gte: new Date(now.getTime() - (maxDays + 1) * DAY),
+    $lte: new Date(now.getTime() - Math.min(...OVERDUE_REMINDER_DAYS) * DAY),
+  });
+
+  return forEachTask(tasks, async task => {
+    const reached = OVERDUE_REMINDER_DAYS.filter(days => task.dueDate.getTime() + days * DAY <= now.getTime());
+    if (reached.length === 0) {
+      return false;
+    }
+
+    const days = Math.max(...reached);
+    const due = formatInTimezone(task.dueDate, task.assignedTo!.timezone);
+    return sendReminder(task, 'overdue', days, 'TASK_OVERDUE',
+      `The task "${task.title}" is ${days} day${days === 1 ? '' : 's'} overdue (it was due ${due}).`);
+  });
+};
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import QRCode from 'qrcode';
+import User, { IRecoveryCode, IUser } from '../models/User.js';
+import { TwoFactorRole } from '../models/WorkspaceSettings.js';
+import { getJwtSecret } from './sessions.js';
+import { getWorkspaceSettings } from './workspaceSettings.js';
+import { generateTotpSecret, totpProvisioningUri, verifyTotp } from './totp.js';
+
+const ISSUER = 'Better Tasks';
+const RECOVERY_CODE_COUNT = 10;
+// How long someone whose password checked out has to finish signing in
+const CHALLENGE_TTL = '10m';
+
+// A challenge either asks for a code, or for setting two-factor up first
+export type TwoFactorChallengePurpose = 'two-factor-login' | 'two-factor-setup';
+
+export type SecondFactorMethod = 'totp' | 'recovery-code';
+
+export const isTwoFactorRequired = async (user: IUser): Promise<boolean> => {
+  const settings = await getWorkspaceSettings();
+  return settings.security.twoFactorRequiredRoles.includes(user.role as TwoFactorRole);
+};
+
+// Stands in for the password between the two login steps
+export const createTwoFactorChallenge = (user: IUser, purpose: TwoFactorChallengePurpose): string =>
+  jwt.sign({ userId: user._id }, getJwtSecret(), { audience: purpose, expiresIn: CHALLENGE_TTL });
+
+// The user a challenge was issued to, or null when it is invalid, expired or the user is no longer active
+export const readTwoFactorChallenge = async (token: string, purpose: TwoFactorChallengePurpose): Promise<IUser | null> => {
+  let payload: jwt.JwtPayload;
+  try {
+    payload = jwt.verify(token, getJwtSecret(), { audience: purpose, algorithms: ['HS256'] }) as jwt.JwtPayload;
+  } catch {
+    return null;
+  }
+
+  if (!mongoose.isValidObjectId(payload.userId)) {
+    return null;
+  }
+  const user = await User.findById(payload.userId);
+  return user && user.isActive ? user : null;
+};
+
+// Who a challenge of either kind was issued to, without loading them; undefined when it isn't valid
+export const challengeUserId = (token: unknown): string | undefined => {
+  if (typeof token !== 'string') {
+    return undefined;
+  }
+  try {
+    const payload = jwt.verify(token, getJwtSecret(), {
+      audience: ['two-factor-login', 'two-factor-setup'],
+      algorithms: ['HS256']
+    }) as jwt.JwtPayload;
+    return payload.userId ? String(payload.userId) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Recovery codes are compared without case, spaces or dashes
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.toLowerCase().replace(/[^0-9a-z]/g, '')).digest('hex');
+
+const createRecoveryCodes = (): { codes: string[]; recoveryCodes: IRecoveryCode[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, recoveryCodes: codes.map(code => ({ codeHash: hashRecoveryCode(code), usedAt: null })) };
+};
+
+/**
+ * Starts enrollment with a new secret. Nothing changes for the user until a
+ * first code from their app confirms it, see completeTwoFactorSetup.
+ */
+export const beginTwoFactorSetup = async (user: IUser): Promise<{ secret: string; otpauthUrl: string; qrCode: string }> => {
+  const secret = generateTotpSecret();
+  await User.updateOne({ _id: user._id }, { 'twoFactor.pendingSecret': secret });
+
+  const otpauthUrl = totpProvisioningUri(secret, user.email, ISSUER);
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+};
+
+/**
+ * Turns two-factor on once `code` matches the secret being enrolled. Returns
+ * the new recovery codes, which can't be shown again, or null when the code
+ * is wrong.
+ */
+export const completeTwoFactorSetup = async (user: IUser, code: string): Promise<string[] | null> => {
+  const pendingSecret = user.twoFactor?.pendingSecret;
+  const step = pendingSecret ? verifyTotp(pendingSecret, code) : null;
+  if (!pendingSecret || step === null) {
+    return null;
+  }
+
+  const { codes, recoveryCodes } = createRecoveryCodes();
+  const result = await User.updateOne(
+    { _id: user._id, 'twoFactor.pendingSecret': pendingSecret },
+    {
+      $set: {
+        'twoFactor.enabled': true,
+        'twoFactor.secret': pendingSecret,
+        'twoFactor.lastUsedStep': step,
+        'twoFactor.recoveryCodes': recoveryCodes,
+        'twoFactor.enabledAt': new Date()
+      },
+      $unset: { 'twoFactor.pendingSecret': 1 }
+    }
+  );
+  return result.modifiedCount > 0 ? codes : null;
+};
+
+/**
+ * Checks a code from the user's authenticator app, or one of their recovery
+ * codes, and uses it up. Returns which kind it was along with the updated
+ * user, or null when it doesn't match.
+ */
+export const verifySecondFactor = async (user: IUser, code: string): Promise<{ method: SecondFactorMethod; user: IUser } | null> => {
+  const secret = user.twoFactor?.secret;
+  if (!user.twoFactor?.enabled || !secret) {
+    return null;
+  }
+
+  // Authenticator codes are six digits; recovery codes are longer
+  const trimmed = code.replace(/\s/g, '');
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = verifyTotp(secret, trimmed);
+    if (step === null) {
+      return null;
+    }
+    // Conditional on the step, so a code seen over someone's shoulder can't be replayed
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id, 'twoFactor.enabled': true, 'twoFactor.lastUsedStep': { $not: { $gte: step } } },
+      { 'twoFactor.lastUsedStep': step },
+      { new: true }
+    );
+    return updated ? { method: 'totp', user: updated } : null;
+  }
+
+  const updated = await User.findOneAndUpdate(
+    {
+      _id: user._id,
+      'twoFactor.enabled': true,
+      'twoFactor.recoveryCodes': { $elemMatch: { codeHash: hashRecoveryCode(trimmed), usedAt: null } }
+    },
+    { $set: { 'twoFactor.recoveryCodes.$.usedAt': new Date() } },
+    { new: true }
+  );
+  return updated ? { method: 'recovery-code', user: updated } : null;
+};
+
+// Replaces every recovery code, used or not; returns the new ones
+export const regenerateRecoveryCodes = async (user: IUser): Promise<string[]> => {
+  const { codes, recoveryCodes } = createRecoveryCodes();
+  await User.updateOne({ _id: user._id }, { 'twoFactor.recoveryCodes': recoveryCodes });
+  return codes;
+};
+
+// Turns two-factor off and forgets the secret and recovery codes
+export const disableTwoFactor = async (userId: mongoose.Types.ObjectId): Promise<IUser | null> =>
+  User.findByIdAndUpdate(
+    userId,
+    {
+      $set: { 'twoFactor.enabled': false, 'twoFactor.recoveryCodes': [] },
+      $unset: {
+        'twoFactor.secret': 1,
+        'twoFactor.pendingSecret': 1,
+        'twoFactor.lastUsedStep': 1,
+        'twoFactor.enabledAt': 1
+      }
+    },
+    { new: true }
+  );
@@ -0,0 +1,151 @@
+import { IUser } from '../models/User.js';
+import { ITask } from '../models/Task.js';
+import {
+  ITaskCategory,
+  IWorkflow,
+  IWorkflowStatus,
+  IWorkflowTransition,
+  TransitionField,
+  WorkflowStage,
+} from '../models/TaskCategory.js';
+
+const STAGES: WorkflowStage[] = ['todo', 'in-progress', 'completed'];
+
+/**
+ * Workflow used by categories that don't define their own: the three stages,
+ * with any move allowed for any role.
+ */
+export const DEFAULT_WORKFLOW: IWorkflow = {
+  statuses: [
+    { key: 'todo', name: 'To Do', stage: 'todo' },
+    { key: 'in-progress', name: 'In Progress', stage: 'in-progress' },
+    { key: 'completed', name: 'Completed', stage: 'completed' },
+  ],
+  initialStatus: 'todo',
+  transitions: STAGES.flatMap(from => STAGES
+    .filter(to => to !== from)
+    .map(to => ({ from, to, roles: [], requiredFields: [] }))),
+};
+
+export const getWorkflow = (category?: ITaskCategory | null): IWorkflow =>
+  category?.workflow && category.workflow.statuses.length > 0 ? category.workflow : DEFAULT_WORKFLOW;
+
+/**
+ * Checks a workflow definition, returning an error message or null.
+ */
+export const validateWorkflow = (workflow: IWorkflow): string | null => {
+  if (!workflow.statuses || workflow.statuses.length === 0) {
+    return 'A workflow needs at least one status';
+  }
+
+  const keys = new Set<string>();
+  for (const status of workflow.statuses) {
+    if (keys.has(status.key)) {
+      return `Duplicate status key "${status.key}"`;
+    }
+    keys.add(status.key);
+  }
+
+  if (!keys.has(workflow.initialStatus)) {
+    return `Initial status "${workflow.initialStatus}" is not one of the workflow's statuses`;
+  }
+
+  const pairs = new Set<string>();
+  for (const transition of workflow.transitions || []) {
+    if (!keys.has(transition.from) || !keys.has(transition.to)) {
+      return `Transition ${transition.from} → ${transition.to} references an unknown status`;
+    }
+    if (transition.from === transition.to) {
+      return `Transition ${transition.from} → ${transition.to} must change the status`;
+    }
+    const pair = `${transition.from}>${transition.to}`;
+    if (pairs.has(pair)) {
+      return `Duplicate transition ${transition.from} → ${transition.to}`;
+    }
+    pairs.add(pair);
+  }
+
+  return null;
+};
+
+/**
+ * Returns the task's current workflow status. Tasks created before the
+ * category's workflow changed fall back to a status of the same stage.
+ */
+export const getCurrentStatus = (workflow: IWorkflow, task: Pick<ITask, 'status' | 'workflowStatus'>): IWorkflowStatus =>
+  workflow.statuses.find(status => status.key === task.workflowStatus) ||
+  workflow.statuses.find(status => status.stage === task.status) ||
+  workflow.statuses.find(status => status.key === workflow.initialStatus)!;
+
+// Admins can perform every transition the workflow defines
+const canPerform = (transition: IWorkflowTransition, user: IUser) =>
+  user.role === 'admin' || transition.roles.length === 0 || transition.roles.includes(user.role);
+
+export interface TransitionRequest {
+  workflowStatus?: string; // target workflow status key
+  status?: WorkflowStage; // or a target stage, e.g. a board column
+  comment?: string;
+  resolution?: string;
+}
+
+export type TransitionResolution =
+  | { ok: true; from: IWorkflowStatus; to: IWorkflowStatus | null; transition: IWorkflowTransition | null }
+  | { ok: false; statusCode: 400 | 403; message: string; requiredFields?: TransitionField[] };
+
+/**
+ * Works out which transition a request asks for and whether `user` may
+ * perform it. `to` is null when the task is already in the requested status.
+ */
+export const resolveTransition = (
+  workflow: IWorkflow,
+  task: ITask,
+  user: IUser,
+  request: TransitionRequest
+): TransitionResolution => {
+  const from = getCurrentStatus(workflow, task);
+
+  let candidates: IWorkflowStatus[];
+  if (request.workflowStatus) {
+    const target = workflow.statuses.find(status => status.key === request.workflowStatus);
+    if (!target) {
+      return { ok: false, statusCode: 400, message: `Unknown status "${request.workflowStatus}" for this category` };
+    }
+    candidates = [target];
+  } else if (request.status) {
+    if (from.stage === request.status) {
+      return { ok: true, from, to: null, transition: null };
+    }
+    candidates = workflow.statuses.filter(status => status.stage === request.status);
+  } else {
+    return { ok: false, statusCode: 400, message: 'A target status is required' };
+  }
+
+  if (candidates.some(candidate => candidate.key === from.key)) {
+    return { ok: true, from, to: null, transition: null };
+  }
+
+  const defined = workflow.transitions.filter(transition =>
+    transition.from === from.key && candidates.some(candidate => candidate.key === transition.to));
+  if (defined.length === 0) {
+    const target = candidates.length === 1 ? `"${candidates[0].name}"` : `"${request.status}"`;
+    return { ok: false, statusCode: 400, message: `Tasks in "${from.name}" cannot be moved to ${target}` };
+  }
+
+  const transition = defined.find(candidate => canPerform(candidate, user));
+  if (!transition) {
+    return { ok: false, statusCode: 403, message: `Your role cannot move tasks out of "${from.name}" to this status` };
+  }
+
+  const missing = transition.requiredFields.filter(field => !request[field]?.trim());
+  if (missing.length > 0) {
+    return {
+      ok: false,
+      statusCode: 400,
+      message: `This transition requires: ${missing.join(', ')}`,
+      requiredFields: missing,
+    };
+  }
+
+  const to = workflow.statuses.find(status => status.key === transition.to)!;
+  return { ok: true, from, to, transition };
+};
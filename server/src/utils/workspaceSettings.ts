@@ -0,0 +1,14 @@
+import WorkspaceSettings, { IWorkspaceSettings } from '../models/WorkspaceSettings.js';
+
+/**
+ * Returns the workspace settings document, creating it with defaults on
+ * first use.
+ */
+export const getWorkspaceSettings = async (): Promise<IWorkspaceSettings> => {
+  const settings = await WorkspaceSettings.findOneAndUpdate(
+    {},
+    {},
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  return settings;
+};